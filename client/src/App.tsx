@@ -17,9 +17,13 @@ import BlogPost from "@/pages/BlogPost";
 import Resources from "@/pages/Resources";
 import ResourceDetail from "@/pages/ResourceDetail";
 import SavedResources from "@/pages/SavedResources";
+import CollectionDetail from "@/pages/CollectionDetail";
+import SavedSearchUnsubscribe from "@/pages/SavedSearchUnsubscribe";
 import Register from "@/pages/Register";
 import Login from "@/pages/Login";
 import ResetPassword from "@/pages/ResetPassword";
+import VerifyEmail from "@/pages/VerifyEmail";
+import DeleteAccount from "@/pages/DeleteAccount";
 import DashboardWrapper from "@/features/dashboard/DashboardWrapper";
 import AdminWrapper from "@/features/admin/AdminWrapper";
 
@@ -95,6 +99,18 @@ function Router() {
         </LayoutWrapper>
       </Route>
       
+      <Route path="/collections/shared/:token">
+        <LayoutWrapper>
+          <CollectionDetail />
+        </LayoutWrapper>
+      </Route>
+      
+      <Route path="/saved-searches/unsubscribe/:token">
+        <LayoutWrapper>
+          <SavedSearchUnsubscribe />
+        </LayoutWrapper>
+      </Route>
+      
       <Route path="/register">
         <LayoutWrapper>
           <Register />
@@ -106,22 +122,40 @@ function Router() {
           <Login />
         </LayoutWrapper>
       </Route>
+
+      <Route path="/magic-link">
+        <LayoutWrapper>
+          <Login />
+        </LayoutWrapper>
+      </Route>
       
       <Route path="/reset-password">
         <LayoutWrapper>
           <ResetPassword />
         </LayoutWrapper>
       </Route>
+      
+      <Route path="/verify-email">
+        <LayoutWrapper>
+          <VerifyEmail />
+        </LayoutWrapper>
+      </Route>
+
+      <Route path="/delete-account">
+        <LayoutWrapper>
+          <DeleteAccount />
+        </LayoutWrapper>
+      </Route>
 
       {/* Admin routes - bypass main Layout */}
       <Route path="/admin">
-        <AuthGuard requireAdmin>
+        <AuthGuard requireAdminAccess>
           <AdminWrapper />
         </AuthGuard>
       </Route>
       
       <Route path="/admin/*">
-        <AuthGuard requireAdmin>
+        <AuthGuard requireAdminAccess>
           <AdminWrapper />
         </AuthGuard>
       </Route>
@@ -1,5 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { canAccessAdminSection } from "@/lib/adminSections";
 import { 
   GraduationCap,
   Building2,
@@ -12,11 +14,16 @@ import {
   TrendingUp,
   Target,
   Bot,
-  HelpCircle
+  HelpCircle,
+  ScrollText,
+  Inbox,
+  Star,
+  Library
 } from "lucide-react";
 
 export default function AdminDashboardHome() {
-  const adminTools = [
+  const { user } = useAuth();
+  const allAdminTools = [
     // Row 1: Core Management Tools
     {
       icon: <GraduationCap className="h-8 w-8" style={{ color: "#c2410c" }} />,
@@ -25,6 +32,27 @@ export default function AdminDashboardHome() {
       href: "/admin/resources",
       iconBgColor: "#fed7aa"
     },
+    {
+      icon: <Inbox className="h-8 w-8" style={{ color: "#b45309" }} />,
+      title: "Resource Submissions",
+      description: "Review resources suggested by members and add them to the library.",
+      href: "/admin/resource-submissions",
+      iconBgColor: "#fde68a"
+    },
+    {
+      icon: <Star className="h-8 w-8" style={{ color: "#ca8a04" }} />,
+      title: "Ratings & Reviews",
+      description: "Moderate member ratings and reviews of library resources.",
+      href: "/admin/resource-ratings",
+      iconBgColor: "#fef9c3"
+    },
+    {
+      icon: <Library className="h-8 w-8" style={{ color: "#0f766e" }} />,
+      title: "Collections",
+      description: "Feature public member collections of resources on the member dashboard.",
+      href: "/admin/resource-collections",
+      iconBgColor: "#ccfbf1"
+    },
     {
       icon: <Newspaper className="h-8 w-8" style={{ color: "#7c3aed" }} />,
       title: "Blog Management",
@@ -74,8 +102,16 @@ export default function AdminDashboardHome() {
       description: "Configure AI chatbot prompts and settings for Find-a-Grower and other AI features.",
       href: "/admin/ai-agents",
       iconBgColor: "#bae6fd"
+    },
+    {
+      icon: <ScrollText className="h-8 w-8" style={{ color: "#4b5563" }} />,
+      title: "Audit Log",
+      description: "Review and export a record of every change made through the admin tools.",
+      href: "/admin/audit-log",
+      iconBgColor: "#e5e7eb"
     }
   ];
+  const adminTools = allAdminTools.filter(tool => canAccessAdminSection(user?.role, tool.href));
 
   return (
     <div className="space-y-8">
@@ -129,9 +165,9 @@ export default function AdminDashboardHome() {
           ))}
         </div>
 
-        {/* Third row - 2 tools */}
+        {/* Remaining tools, three per row */}
         <div className="grid md:grid-cols-3 gap-6">
-          {adminTools.slice(6, 8).map((tool, index) => (
+          {adminTools.slice(6).map((tool, index) => (
             <Link key={index + 6} href={tool.href}>
               <Card className="bg-white dark:bg-gray-800 rounded-xl shadow-sm hover:shadow-md transition-shadow cursor-pointer h-full group focus:outline-none focus:ring-2 focus:ring-red-500">
                 <CardContent className="p-6 text-center">
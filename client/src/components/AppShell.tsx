@@ -16,6 +16,7 @@ import { useToast } from "@/hooks/use-toast";
 import { HelpCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import Sidebar from "@/components/layout/Sidebar";
+import EmailVerificationBanner from "@/components/EmailVerificationBanner";
 
 interface AppShellProps {
   children: React.ReactNode;
@@ -61,6 +62,10 @@ export default function AppShell({ children }: AppShellProps) {
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col overflow-hidden min-w-0">
+        {!isDemo && isAuthenticated && user && !user.emailVerified && (
+          <EmailVerificationBanner email={user.email} />
+        )}
+
         {/* Main Content Area */}
         <main 
           id="main-content" 
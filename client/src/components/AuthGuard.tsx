@@ -9,15 +9,18 @@ interface AuthGuardProps {
   requireAuth?: boolean;
   requireMember?: boolean;
   requireAdmin?: boolean;
+  // Admins, or staff roles with a permission for at least one admin section
+  requireAdminAccess?: boolean;
 }
 
 export default function AuthGuard({ 
   children, 
   requireAuth = false, 
   requireMember = false, 
-  requireAdmin = false 
+  requireAdmin = false,
+  requireAdminAccess = false
 }: AuthGuardProps) {
-  const { user, isLoading, isAuthenticated, isMember, isAdmin } = useAuth();
+  const { user, isLoading, isAuthenticated, isMember, isAdmin, canAccessAdmin } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
@@ -53,7 +56,17 @@ export default function AuthGuard({
       setLocation("/dashboard");
       return;
     }
-  }, [isLoading, isAuthenticated, isMember, isAdmin, requireAuth, requireMember, requireAdmin, toast, setLocation]);
+
+    if (requireAdminAccess && !canAccessAdmin) {
+      toast({
+        title: "Admin Access Required",
+        description: "This page is only available to administrators and staff.",
+        variant: "destructive",
+      });
+      setLocation("/dashboard");
+      return;
+    }
+  }, [isLoading, isAuthenticated, isMember, isAdmin, canAccessAdmin, requireAuth, requireMember, requireAdmin, requireAdminAccess, toast, setLocation]);
 
   if (isLoading) {
     return (
@@ -69,6 +82,7 @@ export default function AuthGuard({
   if (requireAuth && !isAuthenticated) return null;
   if (requireMember && !isMember) return null;
   if (requireAdmin && !isAdmin) return null;
+  if (requireAdminAccess && !canAccessAdmin) return null;
 
   return <>{children}</>;
 }
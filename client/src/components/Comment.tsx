@@ -9,6 +9,7 @@ import { Edit, Trash2, Save, X } from "lucide-react";
 import { format } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
 import type { ForumComment, User, Profile } from "@shared/schema";
+import { Permission } from "@shared/schema";
 
 interface CommentProps {
   comment: ForumComment & { user: User & { profile: Profile } };
@@ -18,12 +19,15 @@ interface CommentProps {
 export default function Comment({ comment, postId }: CommentProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(comment.content);
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const canEdit = user?.id === comment.userId;
+  // Moderators can edit or remove anyone's comment
+  const canEdit = user?.id === comment.userId || can(Permission.FORUM_MODERATE);
   const isDeleted = comment.isDeleted || comment.content === "_message deleted_";
+  // Comments from deleted accounts have no profile
+  const authorName = comment.user.profile?.name || comment.user.username;
 
   const editCommentMutation = useMutation({
     mutationFn: (content: string) =>
@@ -131,21 +135,23 @@ export default function Comment({ comment, postId }: CommentProps) {
     <div className="py-4 border-b border-gray-200 dark:border-gray-700 last:border-b-0">
       <div className="flex items-start gap-3">
         <Avatar className="h-8 w-8">
-          <AvatarImage src={`https://api.dicebear.com/7.x/initials/svg?seed=${comment.user.profile.name}`} />
+          <AvatarImage src={`https://api.dicebear.com/7.x/initials/svg?seed=${authorName}`} />
           <AvatarFallback>
-            {comment.user.profile.name.split(' ').map(n => n[0]).join('')}
+            {authorName.split(' ').map(n => n[0]).join('')}
           </AvatarFallback>
         </Avatar>
         
         <div className="flex-1">
           <div className="flex items-center gap-2 mb-1">
             <span className="font-semibold text-sm text-gray-900 dark:text-gray-100">
-              {comment.user.profile.name}
-            </span>
-            <span className="text-xs text-gray-500">
-              {comment.user.profile.state}
-              {comment.user.profile.county && `, ${comment.user.profile.county}`}
+              {authorName}
             </span>
+            {comment.user.profile && (
+              <span className="text-xs text-gray-500">
+                {comment.user.profile.state}
+                {comment.user.profile.county && `, ${comment.user.profile.county}`}
+              </span>
+            )}
             <span className="text-xs text-gray-500">
               {format(new Date(comment.createdAt), "MMM d, yyyy 'at' h:mm a")}
             </span>
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { X, MailWarning, Loader2 } from "lucide-react";
+
+interface EmailVerificationBannerProps {
+  email: string;
+}
+
+export default function EmailVerificationBanner({ email }: EmailVerificationBannerProps) {
+  const [isVisible, setIsVisible] = useState(true);
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/resend-verification"),
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${email} for a new verification link.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send email",
+        description: error.message || "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isVisible) return null;
+
+  return (
+    <Alert className="bg-amber-50 border-amber-200 rounded-none border-x-0 border-t-0" data-testid="banner-verify-email">
+      <MailWarning className="h-4 w-4 text-amber-600" />
+      <AlertDescription className="flex items-center justify-between gap-4">
+        <div>
+          <span className="font-semibold text-amber-800">Please verify your email address</span>
+          <p className="text-sm text-amber-700 mt-1">
+            We sent a verification link to {email}. Verified members can post in the forum and ask our experts.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => resendMutation.mutate()}
+            disabled={resendMutation.isPending || resendMutation.isSuccess}
+            className="border-amber-300 text-amber-800 hover:bg-amber-100"
+            data-testid="button-resend-verification"
+          >
+            {resendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {resendMutation.isSuccess ? "Link Sent" : "Resend Link"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsVisible(false)}
+            className="text-amber-600 hover:text-amber-800 hover:bg-amber-100"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -92,7 +92,8 @@ const SORT_OPTIONS = [
   { value: 'relevance', label: 'Relevance' },
   { value: 'title', label: 'Title A-Z' },
   { value: 'newest', label: 'Newest First' },
-  { value: 'quality', label: 'Quality Score' }
+  { value: 'quality', label: 'Quality Score' },
+  { value: 'rating', label: 'Top Rated' }
 ];
 
 export default function FilterBar({
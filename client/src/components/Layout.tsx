@@ -18,7 +18,7 @@ import uggaLogo from "@assets/2_1750100657577.png";
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const [location] = useLocation();
-  const { user, isAuthenticated, isAdmin } = useAuth();
+  const { user, isAuthenticated, canAccessAdmin } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -106,7 +106,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                       </Link>
                       
                       {/* Admin Dashboard Link */}
-                      {isAdmin && (
+                      {canAccessAdmin && (
                         <Link
                           href="/admin"
                           className={`px-3 py-2 text-sm font-medium transition-colors ${
@@ -247,7 +247,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                     </Link>
                   </div>
                   
-                  {isAdmin && (
+                  {canAccessAdmin && (
                     <div className="border-t pt-2">
                       <Link
                         href="/admin"
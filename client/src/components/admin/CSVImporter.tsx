@@ -5,184 +5,87 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Upload, FileText, AlertCircle, CheckCircle, X, Download, ChevronRight } from "lucide-react";
+import { Upload, AlertCircle, CheckCircle, X, Download, ChevronRight, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { RESOURCE_IMPORT_FIELDS, type ResourceType, type ResourceImportBatch } from "@shared/schema";
 
 interface CSVColumn {
-  index: number;
   header: string;
   sample: string;
 }
 
-interface FieldMapping {
-  csvColumn: string;
-  resourceField: string;
-}
-
 interface ImportResult {
   row: number;
   data: Record<string, any>;
   errors: string[];
   warnings: string[];
   valid: boolean;
+  action?: 'create' | 'update';
+}
+
+interface ImportSummary {
+  total: number;
+  valid: number;
+  invalid: number;
+  warnings: number;
+  create: number;
+  update: number;
+}
+
+export interface ResourceImportResponse {
+  batch: ResourceImportBatch;
+  rows: ImportResult[];
+  summary: ImportSummary;
 }
 
-// Field definitions for each resource type
-const RESOURCE_FIELDS: Record<string, Array<{ value: string; label: string; required?: boolean }>> = {
-  universities: [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'programName', label: 'Program Name', required: true },
-    { value: 'city', label: 'City', required: true },
-    { value: 'state', label: 'State', required: true },
-    { value: 'country', label: 'Country' },
-    { value: 'researchFocus', label: 'Research Focus' },
-    { value: 'contactEmail', label: 'Contact Email' },
-    { value: 'contactPhone', label: 'Contact Phone' },
-    { value: 'tags', label: 'Tags' }
-  ],
-  organizations: [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'orgType', label: 'Organization Type', required: true },
-    { value: 'functions', label: 'Functions', required: true },
-    { value: 'hqLocation', label: 'HQ Location', required: true },
-    { value: 'serviceArea', label: 'Service Area' },
-    { value: 'membershipCost', label: 'Membership Cost' },
-    { value: 'tags', label: 'Tags' }
-  ],
-  grants: [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'agency', label: 'Granting Agency', required: true },
-    { value: 'grantAmountMin', label: 'Min Amount' },
-    { value: 'grantAmountMax', label: 'Max Amount' },
-    { value: 'applicationDeadline', label: 'Deadline' },
-    { value: 'focusAreas', label: 'Focus Areas' },
-    { value: 'eligibilityGeo', label: 'Geographic Eligibility' },
-    { value: 'eligibilityType', label: 'Eligible Types' },
-    { value: 'matchRequired', label: 'Match Required' },
-    { value: 'matchPercentage', label: 'Match %' },
-    { value: 'tags', label: 'Tags' }
-  ],
-  'tax-incentives': [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'programName', label: 'Program Name', required: true },
-    { value: 'adminAgency', label: 'Admin Agency', required: true },
-    { value: 'incentiveType', label: 'Incentive Type' },
-    { value: 'eligibilityRequirements', label: 'Eligibility' },
-    { value: 'applicationProcess', label: 'Application Process' },
-    { value: 'benefitAmount', label: 'Benefit Amount' },
-    { value: 'expirationDate', label: 'Expiration Date' },
-    { value: 'tags', label: 'Tags' }
-  ],
-  'tools-templates': [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'toolCategory', label: 'Category', required: true },
-    { value: 'format', label: 'Format' },
-    { value: 'costModel', label: 'Cost Model' },
-    { value: 'price', label: 'Price' },
-    { value: 'features', label: 'Features' },
-    { value: 'systemRequirements', label: 'System Requirements' },
-    { value: 'tags', label: 'Tags' }
-  ],
-  learning: [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'courseType', label: 'Course Type', required: true },
-    { value: 'provider', label: 'Provider', required: true },
-    { value: 'duration', label: 'Duration' },
-    { value: 'skillLevel', label: 'Skill Level' },
-    { value: 'cost', label: 'Cost' },
-    { value: 'certificate', label: 'Certificate Offered' },
-    { value: 'ceuCredits', label: 'CEU Credits' },
-    { value: 'language', label: 'Language' },
-    { value: 'tags', label: 'Tags' }
-  ],
-  'blogs-bulletins': [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'publicationType', label: 'Publication Type', required: true },
-    { value: 'publisher', label: 'Publisher', required: true },
-    { value: 'frequency', label: 'Frequency' },
-    { value: 'subscriptionRequired', label: 'Subscription Required' },
-    { value: 'subscriptionCost', label: 'Subscription Cost' },
-    { value: 'focusTopics', label: 'Focus Topics' },
-    { value: 'tags', label: 'Tags' }
-  ],
-  'industry-news': [
-    { value: 'title', label: 'Title', required: true },
-    { value: 'url', label: 'URL' },
-    { value: 'summary', label: 'Summary' },
-    { value: 'newsSource', label: 'News Source', required: true },
-    { value: 'sourceType', label: 'Source Type' },
-    { value: 'updateFrequency', label: 'Update Frequency' },
-    { value: 'coverage', label: 'Coverage Focus' },
-    { value: 'accessType', label: 'Access Type' },
-    { value: 'tags', label: 'Tags' }
-  ]
-};
+type MatchBy = 'url' | 'externalId' | 'none';
+
+const ACCEPTED_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+// Headers like "Min Amount" or "grant_amount_min" both map to grantAmountMin
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+// Posts the spreadsheet with any extra form fields, surfacing the server's message on failure
+async function postImportFile(url: string, file: File, fields: Record<string, string> = {}) {
+  const formData = new FormData();
+  formData.append('file', file);
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+
+  const response = await fetch(url, { method: 'POST', body: formData, credentials: 'include' });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || 'Request failed');
+  }
+  return body;
+}
 
 interface CSVImporterProps {
   resourceType: string;
-  onImport: (data: any[]) => Promise<void>;
+  onComplete: (result: ResourceImportResponse) => void;
   onCancel: () => void;
 }
 
-export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImporterProps) {
+export default function CSVImporter({ resourceType, onComplete, onCancel }: CSVImporterProps) {
   const [file, setFile] = useState<File | null>(null);
-  const [csvData, setCsvData] = useState<any[]>([]);
   const [csvColumns, setCsvColumns] = useState<CSVColumn[]>([]);
+  const [rowCount, setRowCount] = useState(0);
   const [mappings, setMappings] = useState<Record<string, string>>({});
+  const [matchBy, setMatchBy] = useState<MatchBy>('url');
   const [validationResults, setValidationResults] = useState<ImportResult[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [importProgress, setImportProgress] = useState(0);
   const [step, setStep] = useState<'upload' | 'mapping' | 'validation' | 'import'>('upload');
   
-  const resourceFields = RESOURCE_FIELDS[resourceType] || [];
-  
-  // Parse CSV file
-  const parseCSV = useCallback((text: string) => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length === 0) return { headers: [], data: [] };
-    
-    // Detect delimiter
-    const delimiter = text.includes('\t') ? '\t' : ',';
-    
-    // Parse headers
-    const headers = lines[0].split(delimiter).map(h => h.trim().replace(/^["']|["']$/g, ''));
-    
-    // Parse data rows
-    const data = lines.slice(1).map((line, index) => {
-      const values = line.split(delimiter).map(v => v.trim().replace(/^["']|["']$/g, ''));
-      const row: Record<string, any> = {};
-      headers.forEach((header, i) => {
-        row[header] = values[i] || '';
-      });
-      return row;
-    });
-    
-    return { headers, data };
-  }, []);
+  const resourceFields = RESOURCE_IMPORT_FIELDS[resourceType as ResourceType] || [];
   
-  // Handle file upload
+  // Handle file upload: the server reads the headers so Excel files work too
   const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const uploadedFile = e.target.files?.[0];
     if (!uploadedFile) return;
     
-    if (!uploadedFile.name.endsWith('.csv')) {
-      alert('Please upload a CSV file');
+    if (!ACCEPTED_EXTENSIONS.some(ext => uploadedFile.name.toLowerCase().endsWith(ext))) {
+      alert('Please upload a CSV or Excel (.xlsx, .xls) file');
       return;
     }
     
@@ -190,46 +93,32 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
     setIsProcessing(true);
     
     try {
-      const text = await uploadedFile.text();
-      const { headers, data } = parseCSV(text);
-      
-      if (headers.length === 0 || data.length === 0) {
-        alert('The CSV file appears to be empty or invalid');
-        setFile(null);
-        return;
-      }
-      
-      // Create column info with samples
-      const columns: CSVColumn[] = headers.map((header, index) => ({
-        index,
-        header,
-        sample: data[0]?.[header] || ''
-      }));
+      const { columns, rowCount } = await postImportFile('/api/admin/resources/import/columns', uploadedFile);
       
       setCsvColumns(columns);
-      setCsvData(data);
+      setRowCount(rowCount);
       setStep('mapping');
       
-      // Auto-map obvious columns
+      // Auto-map columns named after a field or its label
       const autoMappings: Record<string, string> = {};
       resourceFields.forEach(field => {
-        const matchingColumn = headers.find(h => 
-          h.toLowerCase().replace(/[^a-z]/g, '') === 
-          field.value.toLowerCase().replace(/[^a-z]/g, '')
+        const matchingColumn = (columns as CSVColumn[]).find(col =>
+          normalizeHeader(col.header) === normalizeHeader(field.value) ||
+          normalizeHeader(col.header) === normalizeHeader(field.label)
         );
         if (matchingColumn) {
-          autoMappings[field.value] = matchingColumn;
+          autoMappings[field.value] = matchingColumn.header;
         }
       });
       setMappings(autoMappings);
       
     } catch (error) {
-      alert('Failed to parse CSV file');
+      alert(error instanceof Error ? error.message : 'Failed to read the file');
       setFile(null);
     } finally {
       setIsProcessing(false);
     }
-  }, [parseCSV, resourceFields]);
+  }, [resourceFields]);
   
   // Update field mapping
   const updateMapping = (resourceField: string, csvColumn: string) => {
@@ -238,100 +127,45 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
       [resourceField]: csvColumn === 'none' ? '' : csvColumn
     }));
   };
+
+  const importFields = () => ({
+    type: resourceType,
+    mapping: JSON.stringify(mappings),
+    matchBy
+  });
   
-  // Validate mapped data
-  const validateData = useCallback(() => {
+  // Validate mapped data with a server-side dry run
+  const validateData = async () => {
+    if (!file) return;
     setIsProcessing(true);
-    const results: ImportResult[] = [];
     
-    csvData.forEach((row, index) => {
-      const result: ImportResult = {
-        row: index + 2, // +2 for header row and 1-based indexing
-        data: {},
-        errors: [],
-        warnings: [],
-        valid: true
-      };
-      
-      // Map CSV data to resource fields
-      resourceFields.forEach(field => {
-        const csvColumn = mappings[field.value];
-        if (csvColumn && row[csvColumn] !== undefined) {
-          let value = row[csvColumn];
-          
-          // Handle special field types
-          if (field.value === 'tags' || field.value.includes('functions') || field.value.includes('coverage')) {
-            // Convert comma-separated to array
-            value = value.split(',').map((v: string) => v.trim()).filter(Boolean);
-          } else if (field.value.includes('Amount') || field.value.includes('Percentage')) {
-            // Convert to number
-            value = parseFloat(value) || undefined;
-          } else if (field.value === 'matchRequired' || field.value === 'certificate' || field.value === 'subscriptionRequired') {
-            // Convert to boolean
-            value = value.toLowerCase() === 'true' || value === '1' || value.toLowerCase() === 'yes';
-          }
-          
-          result.data[field.value] = value;
-        } else if (field.required) {
-          result.errors.push(`Missing required field: ${field.label}`);
-          result.valid = false;
-        }
-      });
-      
-      // Additional validation
-      if (result.data.url && !isValidUrl(result.data.url)) {
-        result.errors.push('Invalid URL format');
-        result.valid = false;
-      }
-      
-      if (result.data.email && !isValidEmail(result.data.email)) {
-        result.errors.push('Invalid email format');
-        result.valid = false;
-      }
-      
-      results.push(result);
-    });
-    
-    setValidationResults(results);
-    setStep('validation');
-    setIsProcessing(false);
-  }, [csvData, mappings, resourceFields]);
+    try {
+      const result = await postImportFile('/api/admin/resources/import?dryRun=1', file, importFields());
+      setValidationResults(result.rows);
+      setSummary(result.summary);
+      setStep('validation');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Validation failed');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
   
-  // Import valid data
+  // Import valid rows in one batch
   const handleImport = async () => {
-    const validRows = validationResults.filter(r => r.valid);
-    if (validRows.length === 0) {
+    if (!file || !summary || summary.valid === 0) {
       alert('No valid rows to import');
       return;
     }
     
     setStep('import');
     setIsProcessing(true);
-    setImportProgress(0);
     
     try {
-      // Process in batches
-      const batchSize = 10;
-      const batches = [];
-      for (let i = 0; i < validRows.length; i += batchSize) {
-        batches.push(validRows.slice(i, i + batchSize));
-      }
-      
-      for (let i = 0; i < batches.length; i++) {
-        const batch = batches[i];
-        const batchData = batch.map(row => ({
-          ...row.data,
-          type: resourceType
-        }));
-        
-        await onImport(batchData);
-        setImportProgress(((i + 1) / batches.length) * 100);
-      }
-      
-      alert(`Successfully imported ${validRows.length} resources`);
-      onCancel();
+      const result = await postImportFile('/api/admin/resources/import', file, importFields());
+      onComplete(result);
     } catch (error) {
-      alert('Import failed. Please try again.');
+      alert(error instanceof Error ? `Import failed: ${error.message}` : 'Import failed. Please try again.');
       setStep('validation');
     } finally {
       setIsProcessing(false);
@@ -345,7 +179,7 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
       if (f.value === 'title') return 'Sample Resource Title';
       if (f.value === 'url') return 'https://example.com';
       if (f.value === 'summary') return 'Brief description';
-      if (f.value === 'tags') return 'tag1, tag2, tag3';
+      if (f.value === 'tags') return '"tag1, tag2, tag3"';
       if (f.required) return `[Required ${f.label}]`;
       return `[Optional ${f.label}]`;
     }).join(',');
@@ -360,20 +194,6 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
     URL.revokeObjectURL(url);
   };
   
-  // Utility functions
-  const isValidUrl = (url: string) => {
-    try {
-      new URL(url);
-      return true;
-    } catch {
-      return false;
-    }
-  };
-  
-  const isValidEmail = (email: string) => {
-    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-  };
-  
   return (
     <div className="space-y-6">
       {/* Progress Steps */}
@@ -386,7 +206,7 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
             1
           </div>
           <span className={cn("text-sm", step === 'upload' ? "font-semibold" : "text-gray-500")}>
-            Upload CSV
+            Upload File
           </span>
         </div>
         <ChevronRight className="h-4 w-4 text-gray-400" />
@@ -431,15 +251,19 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
       {step === 'upload' && (
         <Card>
           <CardHeader>
-            <CardTitle>Upload CSV File</CardTitle>
+            <CardTitle>Upload File</CardTitle>
             <CardDescription>
-              Upload a CSV file containing {resourceType.replace('-', ' ')} resources
+              Upload a CSV or Excel file containing {resourceType.replace('_', ' ')} resources
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
               <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
-                <Upload className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+                {isProcessing ? (
+                  <Loader2 className="h-12 w-12 mx-auto text-gray-400 mb-4 animate-spin" />
+                ) : (
+                  <Upload className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+                )}
                 <label htmlFor="csv-upload" className="cursor-pointer">
                   <span className="text-blue-600 hover:text-blue-700 font-medium">
                     Click to upload
@@ -449,11 +273,12 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                 <input
                   id="csv-upload"
                   type="file"
-                  accept=".csv"
+                  accept={ACCEPTED_EXTENSIONS.join(',')}
                   onChange={handleFileUpload}
+                  disabled={isProcessing}
                   className="hidden"
                 />
-                <p className="text-sm text-gray-500 mt-2">CSV files only, up to 10MB</p>
+                <p className="text-sm text-gray-500 mt-2">CSV or Excel files, up to 10MB</p>
               </div>
               
               <div className="flex justify-between items-center">
@@ -474,9 +299,9 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
       {step === 'mapping' && (
         <Card>
           <CardHeader>
-            <CardTitle>Map CSV Columns</CardTitle>
+            <CardTitle>Map Columns</CardTitle>
             <CardDescription>
-              Map your CSV columns to resource fields. Required fields are marked with *
+              Map the {rowCount} rows in {file?.name} to resource fields. Required fields are marked with *
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -510,6 +335,20 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                 ))}
               </div>
             </ScrollArea>
+
+            <div className="grid grid-cols-2 gap-4 items-center mt-6 pt-4 border-t">
+              <label className="text-sm font-medium">Update existing resources matched by</label>
+              <Select value={matchBy} onValueChange={(value) => setMatchBy(value as MatchBy)}>
+                <SelectTrigger data-testid="select-import-match-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="url">URL</SelectItem>
+                  <SelectItem value="externalId">External ID</SelectItem>
+                  <SelectItem value="none">Don't match; always create new</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             
             <div className="flex justify-between mt-6">
               <Button variant="outline" onClick={() => setStep('upload')}>
@@ -520,6 +359,7 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                   Cancel
                 </Button>
                 <Button onClick={validateData} disabled={isProcessing}>
+                  {isProcessing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                   Validate Data
                 </Button>
               </div>
@@ -544,15 +384,17 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                 <Card>
                   <CardContent className="pt-6">
                     <div className="text-2xl font-bold text-green-600">
-                      {validationResults.filter(r => r.valid).length}
+                      {summary?.valid ?? 0}
                     </div>
-                    <p className="text-sm text-gray-500">Valid rows</p>
+                    <p className="text-sm text-gray-500">
+                      Valid rows ({summary?.create ?? 0} new, {summary?.update ?? 0} updates)
+                    </p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-6">
                     <div className="text-2xl font-bold text-red-600">
-                      {validationResults.filter(r => !r.valid).length}
+                      {summary?.invalid ?? 0}
                     </div>
                     <p className="text-sm text-gray-500">Invalid rows</p>
                   </CardContent>
@@ -560,7 +402,7 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                 <Card>
                   <CardContent className="pt-6">
                     <div className="text-2xl font-bold text-yellow-600">
-                      {validationResults.filter(r => r.warnings.length > 0).length}
+                      {summary?.warnings ?? 0}
                     </div>
                     <p className="text-sm text-gray-500">Rows with warnings</p>
                   </CardContent>
@@ -573,7 +415,7 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                   <AlertCircle className="h-4 w-4" />
                   <AlertTitle>Validation Errors</AlertTitle>
                   <AlertDescription>
-                    Some rows have errors that must be fixed before import
+                    Rows with errors are skipped. Fix them in the file and import again to include them.
                   </AlertDescription>
                 </Alert>
               )}
@@ -584,6 +426,7 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                     <TableRow>
                       <TableHead>Row</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>Action</TableHead>
                       <TableHead>Title</TableHead>
                       <TableHead>Issues</TableHead>
                     </TableRow>
@@ -605,6 +448,9 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                             </Badge>
                           )}
                         </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {result.action === 'update' ? 'Update' : result.action === 'create' ? 'Create' : '—'}
+                        </TableCell>
                         <TableCell className="max-w-xs truncate">
                           {result.data.title || '(no title)'}
                         </TableCell>
@@ -636,9 +482,9 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
                   </Button>
                   <Button 
                     onClick={handleImport}
-                    disabled={validationResults.filter(r => r.valid).length === 0 || isProcessing}
+                    disabled={!summary?.valid || isProcessing}
                   >
-                    Import {validationResults.filter(r => r.valid).length} Valid Rows
+                    Import {summary?.valid ?? 0} Valid Rows
                   </Button>
                 </div>
               </div>
@@ -657,11 +503,9 @@ export default function CSVImporter({ resourceType, onImport, onCancel }: CSVImp
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <Progress value={importProgress} className="h-2" />
-              <p className="text-center text-sm text-gray-500">
-                {Math.round(importProgress)}% complete
-              </p>
+            <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Importing {summary?.valid ?? 0} rows. All rows are saved together or not at all.
             </div>
           </CardContent>
         </Card>
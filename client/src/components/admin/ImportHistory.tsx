@@ -0,0 +1,111 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Undo2 } from "lucide-react";
+import { format } from "date-fns";
+import type { ResourceImportBatch } from "@shared/schema";
+
+export const IMPORT_BATCHES_QUERY_KEY = "/api/admin/resources/import/batches";
+
+export default function ImportHistory() {
+  const { toast } = useToast();
+
+  const { data: batches = [], isLoading } = useQuery<ResourceImportBatch[]>({
+    queryKey: [IMPORT_BATCHES_QUERY_KEY],
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/admin/resources/import/batches/${id}/rollback`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IMPORT_BATCHES_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/resources/counts"] });
+      toast({
+        title: "Import rolled back",
+        description: "Created resources were removed and updated ones restored.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to roll back import.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRollback = (batch: ResourceImportBatch) => {
+    const confirmed = window.confirm(
+      `Roll back the import of ${batch.fileName}? This deletes ${batch.createdCount} created resource(s) ` +
+      `and restores ${batch.updatedCount} updated resource(s), discarding any edits made to them since.`
+    );
+    if (confirmed) {
+      rollbackMutation.mutate(batch.id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (batches.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No imports yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>File</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Rows</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {batches.map(batch => (
+          <TableRow key={batch.id} data-testid={`row-import-batch-${batch.id}`}>
+            <TableCell className="whitespace-nowrap text-sm">
+              {format(new Date(batch.createdAt), "yyyy-MM-dd HH:mm")}
+            </TableCell>
+            <TableCell className="max-w-[200px] truncate text-sm">{batch.fileName}</TableCell>
+            <TableCell className="text-sm">{batch.resourceType}</TableCell>
+            <TableCell className="text-sm text-gray-600">
+              {batch.createdCount} new, {batch.updatedCount} updated, {batch.skippedCount} skipped
+            </TableCell>
+            <TableCell>
+              {batch.status === "rolled_back" ? (
+                <Badge variant="secondary">Rolled back</Badge>
+              ) : (
+                <Badge variant="outline" className="bg-green-50">Committed</Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              {batch.status === "committed" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRollback(batch)}
+                  disabled={rollbackMutation.isPending}
+                  data-testid={`button-rollback-import-${batch.id}`}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Roll Back
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,96 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  RESOURCE_QUALITY_FACTORS,
+  type ResourceQualityBreakdown,
+  type ResourceQualityFactor,
+} from "@shared/schema";
+
+interface ResourceQuality {
+  id: string;
+  quality_score: number | null;
+  quality_breakdown: ResourceQualityBreakdown | null;
+  quality_scored_at: string | null;
+}
+
+const FACTOR_LABELS: Record<ResourceQualityFactor, string> = {
+  completeness: "Completeness",
+  linkHealth: "Link health",
+  verification: "Verification",
+  favorites: "Favorites",
+  clicks: "Outbound clicks",
+};
+
+export default function ResourceQualityPanel({ resourceId }: { resourceId: string }) {
+  const { toast } = useToast();
+
+  const qualityKey = `/api/admin/resources/${resourceId}/quality`;
+  const { data: quality } = useQuery<ResourceQuality>({ queryKey: [qualityKey], staleTime: 0 });
+
+  const recomputeMutation = useMutation({
+    mutationFn: (): Promise<ResourceQuality> => apiRequest("POST", qualityKey),
+    onSuccess: (updated) => {
+      queryClient.setQueryData([qualityKey], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to recompute quality score.", variant: "destructive" });
+    },
+  });
+
+  if (!quality) return null;
+
+  return (
+    <div className="space-y-3 pt-6 border-t" data-testid="panel-resource-quality">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Quality Score</h3>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" data-testid="badge-quality-score">{quality.quality_score ?? 0} / 100</Badge>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => recomputeMutation.mutate()}
+            disabled={recomputeMutation.isPending}
+            data-testid="button-recompute-quality"
+          >
+            <RefreshCw className={`h-4 w-4 ${recomputeMutation.isPending ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {quality.quality_breakdown ? (
+        <ul className="space-y-2">
+          {RESOURCE_QUALITY_FACTORS.map(factor => {
+            const part = quality.quality_breakdown![factor];
+            if (!part) return null;
+            return (
+              <li key={factor} className="text-sm" data-testid={`quality-factor-${factor}`}>
+                <div className="flex justify-between">
+                  <span className="font-medium">{FACTOR_LABELS[factor]}</span>
+                  <span className="text-gray-600">{part.points} / {part.max}</span>
+                </div>
+                <Progress value={(part.points / part.max) * 100} className="h-2 my-1" />
+                <p className="text-xs text-gray-500">{part.detail}</p>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">Not scored yet.</p>
+      )}
+
+      {quality.quality_scored_at && (
+        <p className="text-xs text-gray-500">
+          Scored {formatDistanceToNow(new Date(quality.quality_scored_at), { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import {
+  DEFAULT_REVIEW_INTERVAL_DAYS,
+  RESOURCE_REVIEW_CHECKLIST,
+  RESOURCE_VERIFICATION_TRANSITIONS,
+  type ResourceVerificationStatus,
+} from "@shared/schema";
+
+interface ReviewEvent {
+  id: string;
+  action: "status_change" | "assign" | "note";
+  actorName: string | null;
+  fromStatus: ResourceVerificationStatus | null;
+  toStatus: ResourceVerificationStatus | null;
+  reviewerName: string | null;
+  checklist: Record<string, boolean> | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+interface ResourceReview {
+  id: string;
+  verification_status: ResourceVerificationStatus;
+  reviewer_id: string | null;
+  verified_at: string | null;
+  review_interval_days: number | null;
+  expiresAt: string | null;
+  events: ReviewEvent[];
+}
+
+interface Reviewer {
+  id: string;
+  username: string;
+  email: string;
+}
+
+const STATUS_LABELS: Record<ResourceVerificationStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  verified: "Verified",
+  stale: "Stale",
+};
+
+const STATUS_STYLES: Record<ResourceVerificationStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  in_review: "bg-blue-100 text-blue-800",
+  verified: "bg-green-100 text-green-800",
+  stale: "bg-amber-100 text-amber-800",
+};
+
+const TRANSITION_LABELS: Record<ResourceVerificationStatus, string> = {
+  draft: "Send Back to Draft",
+  in_review: "Submit for Review",
+  verified: "Verify",
+  stale: "Mark Stale",
+};
+
+const UNASSIGNED = "unassigned";
+
+function describeEvent(event: ReviewEvent): string {
+  const actor = event.actorName ?? "System";
+  switch (event.action) {
+    case "status_change":
+      return event.toStatus === "stale" && !event.actorName
+        ? "Verification expired"
+        : `${actor} moved it from ${STATUS_LABELS[event.fromStatus!]} to ${STATUS_LABELS[event.toStatus!]}`;
+    case "assign":
+      return event.reviewerName ? `${actor} assigned ${event.reviewerName}` : `${actor} removed the reviewer`;
+    default:
+      return `${actor} added a note`;
+  }
+}
+
+export default function ResourceReviewPanel({ resourceId }: { resourceId: string }) {
+  const { toast } = useToast();
+  const [checklist, setChecklist] = useState<Record<string, boolean>>({});
+  const [notes, setNotes] = useState("");
+  const [intervalDays, setIntervalDays] = useState<string | null>(null);
+
+  const reviewKey = `/api/admin/resources/${resourceId}/review`;
+  const { data: review } = useQuery<ResourceReview>({ queryKey: [reviewKey], staleTime: 0 });
+  const { data: reviewers = [] } = useQuery<Reviewer[]>({ queryKey: ["/api/admin/resources/reviewers"] });
+
+  const onSaved = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: [reviewKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+    toast({ title: message });
+  };
+
+  const onError = (error: Error) => {
+    // apiRequest errors read "<status>: <body>"
+    const body = error.message.replace(/^\d+:\s*/, "");
+    let message = "Failed to update review.";
+    try {
+      message = JSON.parse(body).message ?? message;
+    } catch {
+      // Not a JSON error body
+    }
+    toast({ title: "Error", description: message, variant: "destructive" });
+  };
+
+  const transitionMutation = useMutation({
+    mutationFn: (to: ResourceVerificationStatus) =>
+      apiRequest("POST", `${reviewKey}/transition`, { to, checklist, notes: notes.trim() || undefined }),
+    onSuccess: (_data, to) => {
+      setNotes("");
+      setChecklist({});
+      onSaved(`Moved to ${STATUS_LABELS[to]}`);
+    },
+    onError,
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${reviewKey}/notes`, { notes, checklist }),
+    onSuccess: () => {
+      setNotes("");
+      onSaved("Note added");
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: (reviewerId: string | null) => apiRequest("PUT", `${reviewKey}/reviewer`, { reviewerId }),
+    onSuccess: () => onSaved("Reviewer updated"),
+    onError,
+  });
+
+  const intervalMutation = useMutation({
+    mutationFn: (days: number | null) =>
+      apiRequest("PUT", `/api/admin/resources/${resourceId}`, { review_interval_days: days }),
+    onSuccess: () => {
+      setIntervalDays(null);
+      onSaved("Review interval updated");
+    },
+    onError,
+  });
+
+  if (!review) return null;
+
+  const status = review.verification_status;
+  const checklistComplete = RESOURCE_REVIEW_CHECKLIST.every(item => checklist[item.id]);
+  const isPending = transitionMutation.isPending || noteMutation.isPending;
+
+  return (
+    <div className="space-y-4 pt-6 border-t" data-testid="panel-resource-review">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Verification</h3>
+        <Badge className={STATUS_STYLES[status]} data-testid="badge-verification-status">
+          {STATUS_LABELS[status]}
+        </Badge>
+      </div>
+
+      {status === "verified" && review.expiresAt && (
+        <p className="text-sm text-gray-600">
+          Verified {review.verified_at && format(new Date(review.verified_at), "PP")}; expires{" "}
+          {format(new Date(review.expiresAt), "PP")}.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Reviewer</Label>
+          <Select
+            value={review.reviewer_id ?? UNASSIGNED}
+            onValueChange={(value) => assignMutation.mutate(value === UNASSIGNED ? null : value)}
+            disabled={assignMutation.isPending}
+          >
+            <SelectTrigger data-testid="select-reviewer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {reviewers.map(reviewer => (
+                <SelectItem key={reviewer.id} value={reviewer.id}>
+                  {reviewer.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="review-interval">Review interval (days)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="review-interval"
+              type="number"
+              min={1}
+              placeholder={String(DEFAULT_REVIEW_INTERVAL_DAYS)}
+              value={intervalDays ?? review.review_interval_days ?? ""}
+              onChange={(e) => setIntervalDays(e.target.value)}
+              data-testid="input-review-interval"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              disabled={intervalDays === null || intervalMutation.isPending}
+              onClick={() => intervalMutation.mutate(intervalDays ? Math.max(1, Number(intervalDays)) : null)}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Checklist</Label>
+        {RESOURCE_REVIEW_CHECKLIST.map(item => (
+          <div key={item.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`review-check-${item.id}`}
+              checked={!!checklist[item.id]}
+              onCheckedChange={(checked) => setChecklist(prev => ({ ...prev, [item.id]: checked === true }))}
+            />
+            <label htmlFor={`review-check-${item.id}`} className="text-sm">{item.label}</label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-notes">Notes</Label>
+        <Textarea
+          id="review-notes"
+          rows={2}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="What did you check, and what needs fixing?"
+          data-testid="textarea-review-notes"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {RESOURCE_VERIFICATION_TRANSITIONS[status].map(to => (
+          <Button
+            key={to}
+            type="button"
+            variant={to === "verified" ? "default" : "outline"}
+            disabled={isPending || (to === "verified" && !checklistComplete)}
+            onClick={() => transitionMutation.mutate(to)}
+            data-testid={`button-review-${to}`}
+          >
+            {TRANSITION_LABELS[to]}
+          </Button>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={isPending || !notes.trim()}
+          onClick={() => noteMutation.mutate()}
+          data-testid="button-add-review-note"
+        >
+          Add Note
+        </Button>
+      </div>
+
+      {review.events.length > 0 && (
+        <div className="space-y-2">
+          <Label>History</Label>
+          <ol className="border-l border-gray-200 pl-4 space-y-3 max-h-64 overflow-y-auto">
+            {review.events.map(event => (
+              <li key={event.id} className="text-sm" data-testid={`review-event-${event.id}`}>
+                <div className="font-medium">{describeEvent(event)}</div>
+                <div className="text-xs text-gray-500">{format(new Date(event.createdAt), "PPp")}</div>
+                {event.notes && <p className="text-gray-700 mt-1 whitespace-pre-wrap">{event.notes}</p>}
+                {event.checklist && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Checked: {RESOURCE_REVIEW_CHECKLIST.filter(item => event.checklist?.[item.id]).map(item => item.label).join("; ") || "nothing"}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
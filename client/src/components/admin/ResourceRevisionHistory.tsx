@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import type { AuditChanges, Resource, ResourceRevisionChangeType } from "@shared/schema";
+
+interface RevisionEntry {
+  id: string;
+  revisionNumber: number;
+  changeType: ResourceRevisionChangeType;
+  authorName: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+  changes: AuditChanges;
+}
+
+interface ResourceRevisionHistoryProps {
+  resourceId: string;
+  onRestored: (resource: Resource) => void;
+}
+
+const CHANGE_TYPE_LABELS: Record<ResourceRevisionChangeType, string> = {
+  baseline: "Original",
+  create: "Created",
+  update: "Edited",
+  import: "Imported",
+  import_rollback: "Import rolled back",
+  restore: "Restored",
+};
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+export default function ResourceRevisionHistory({ resourceId, onRestored }: ResourceRevisionHistoryProps) {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const revisionsKey = `/api/admin/resources/${resourceId}/revisions`;
+  // Refetched each time the form opens, since saving the form adds a revision
+  const { data: revisions = [] } = useQuery<RevisionEntry[]>({ queryKey: [revisionsKey], staleTime: 0 });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: RevisionEntry): Promise<Resource> =>
+      apiRequest("POST", `${revisionsKey}/${revision.id}/restore`),
+    onSuccess: (resource, revision) => {
+      queryClient.invalidateQueries({ queryKey: [revisionsKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      onRestored(resource);
+      toast({ title: `Restored revision ${revision.revisionNumber}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to restore revision."), variant: "destructive" });
+    },
+  });
+
+  const handleRestore = (revision: RevisionEntry) => {
+    if (window.confirm(`Restore revision ${revision.revisionNumber}? The current content is kept as a revision too.`)) {
+      restoreMutation.mutate(revision);
+    }
+  };
+
+  if (revisions.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-6 border-t" data-testid="panel-resource-revisions">
+      <Label>Revision History</Label>
+      <ol className="space-y-2 max-h-80 overflow-y-auto">
+        {revisions.map((revision, index) => {
+          const changes = Object.entries(revision.changes);
+          const isOpen = expanded === revision.id;
+
+          return (
+            <li key={revision.id} className="border rounded-md" data-testid={`revision-${revision.revisionNumber}`}>
+              <div className="flex items-center justify-between gap-2 p-2">
+                <button
+                  type="button"
+                  className="flex items-center gap-2 text-sm text-left"
+                  onClick={() => setExpanded(isOpen ? null : revision.id)}
+                >
+                  {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  <span className="font-medium">#{revision.revisionNumber}</span>
+                  <Badge variant="outline">
+                    {CHANGE_TYPE_LABELS[revision.changeType]}
+                    {revision.restoredFrom ? ` #${revision.restoredFrom}` : ""}
+                  </Badge>
+                  <span className="text-gray-600">
+                    {revision.authorName ?? "—"} · {format(new Date(revision.createdAt), "PPp")}
+                  </span>
+                </button>
+                {index > 0 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoreMutation.isPending}
+                    data-testid={`button-restore-revision-${revision.revisionNumber}`}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              {isOpen && (
+                <div className="border-t bg-gray-50 p-2">
+                  {changes.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-4 font-medium">Field</th>
+                          <th className="py-1 pr-4 font-medium">Before</th>
+                          <th className="py-1 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map(([field, change]) => (
+                          <tr key={field} className="align-top">
+                            <td className="py-1 pr-4 font-mono text-xs">{field}</td>
+                            <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                            <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-gray-600">No content changes.</p>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Edit, ExternalLink, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { DEFAULT_REVIEW_INTERVAL_DAYS, type ResourceLinkCheck } from "@shared/schema";
+
+export interface ResourceReviewItem {
+  id: string;
+  title: string;
+  url: string;
+  type: string | null;
+  verified_at: string | null;
+  review_interval_days: number | null;
+  link_status: string | null;
+  link_checked_at: string | null;
+  broken: boolean;
+  overdue: boolean;
+  latestCheck: Pick<ResourceLinkCheck, "statusCode" | "redirectUrl" | "error"> | null;
+}
+
+interface ReviewQueueProps {
+  resourceType: string;
+  onEdit: (resourceId: string) => void;
+}
+
+export const REVIEW_QUEUE_QUERY_KEY = "/api/admin/resources/review-queue";
+
+function describeFailure(check: Pick<ResourceLinkCheck, "statusCode" | "error"> | null): string {
+  if (!check) return "Link broken";
+  return check.statusCode ? `HTTP ${check.statusCode}` : check.error || "Request failed";
+}
+
+export default function ReviewQueue({ resourceType, onEdit }: ReviewQueueProps) {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ items: ResourceReviewItem[]; total: number }>({
+    queryKey: [REVIEW_QUEUE_QUERY_KEY, resourceType],
+    queryFn: () => apiRequest("GET", `${REVIEW_QUEUE_QUERY_KEY}?type=${resourceType}`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [REVIEW_QUEUE_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+  };
+
+  const recheckMutation = useMutation({
+    mutationFn: (id: string): Promise<ResourceLinkCheck> => apiRequest("POST", `/api/admin/resources/${id}/check-link`),
+    onSuccess: (check) => {
+      invalidate();
+      toast({
+        title: check.ok ? "Link is working" : "Link is still broken",
+        description: check.ok ? undefined : describeFailure(check),
+        variant: check.ok ? undefined : "destructive",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to check link.", variant: "destructive" });
+    },
+  });
+
+  if (!data || data.total === 0) return null;
+
+  return (
+    <Card className="mb-4 border-amber-200" data-testid="card-review-queue">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          Needs Review ({data.total})
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Resources with broken links, or not verified within their review interval
+          (default {DEFAULT_REVIEW_INTERVAL_DAYS} days).
+        </p>
+      </CardHeader>
+      <CardContent className="max-h-[400px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Title</TableHead>
+              <TableHead>Issue</TableHead>
+              <TableHead className="hidden md:table-cell">Last Verified</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.items.map(item => (
+              <TableRow key={item.id} data-testid={`row-review-${item.id}`}>
+                <TableCell className="font-medium">
+                  <div className="truncate max-w-[250px]">{item.title}</div>
+                  <a
+                    href={item.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-ugga-primary hover:text-ugga-secondary flex items-center gap-1"
+                  >
+                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate max-w-[220px]">{item.url}</span>
+                  </a>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {item.broken && (
+                      <Badge variant="destructive" className="whitespace-nowrap">
+                        {describeFailure(item.latestCheck)}
+                      </Badge>
+                    )}
+                    {item.overdue && (
+                      <Badge variant="outline" className="whitespace-nowrap bg-amber-50">Review overdue</Badge>
+                    )}
+                    {item.latestCheck?.redirectUrl && (
+                      <Badge variant="outline" className="whitespace-nowrap" title={item.latestCheck.redirectUrl}>
+                        Redirects
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="hidden md:table-cell text-sm text-gray-600 whitespace-nowrap">
+                  {item.verified_at
+                    ? formatDistanceToNow(new Date(item.verified_at), { addSuffix: true })
+                    : "Never"}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => recheckMutation.mutate(item.id)}
+                      disabled={recheckMutation.isPending}
+                      title="Check link now"
+                      data-testid={`button-recheck-${item.id}`}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onEdit(item.id)}
+                      title="Edit and review resource"
+                      data-testid={`button-edit-review-${item.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {data.total > data.items.length && (
+          <p className="text-xs text-gray-500 mt-2">
+            Showing {data.items.length} of {data.total}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
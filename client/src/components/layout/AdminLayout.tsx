@@ -1,10 +1,21 @@
+import { Link, useLocation } from "wouter";
 import AdminSidebar from "@/components/layout/AdminSidebar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { canAccessAdminSection } from "@/lib/adminSections";
+import { ShieldCheck, Lock } from "lucide-react";
 
 interface AdminLayoutProps {
   children: React.ReactNode;
 }
 
 export default function AdminLayout({ children }: AdminLayoutProps) {
+  const { user } = useAuth();
+  const [location] = useLocation();
+  const needsTwoFactor = !!user?.twoFactorRequired && !user.twoFactorEnabled;
+  const canViewSection = canAccessAdminSection(user?.role, location);
+
   return (
     <div className="h-screen flex overflow-hidden bg-gray-50">
       {/* Skip to content link */}
@@ -27,7 +38,48 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
           role="main"
           aria-label="Main content"
         >
-          {children}
+          {needsTwoFactor ? (
+            <div className="max-w-lg mx-auto px-4 py-16">
+              <Card data-testid="card-admin-2fa-required">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5 text-ugga-primary" />
+                    Two-Factor Authentication Required
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-gray-600">
+                    Admin accounts must have two-factor authentication enabled before using the admin tools.
+                    Set it up from your profile with any authenticator app.
+                  </p>
+                  <Link href="/dashboard/profile">
+                    <Button>Set Up Two-Factor Authentication</Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            </div>
+          ) : !canViewSection ? (
+            <div className="max-w-lg mx-auto px-4 py-16">
+              <Card data-testid="card-admin-section-forbidden">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Lock className="h-5 w-5 text-ugga-primary" />
+                    Access Restricted
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-gray-600">
+                    Your role doesn't include access to this section. Ask an administrator if you need it.
+                  </p>
+                  <Link href="/admin">
+                    <Button>Back to Admin Home</Button>
+                  </Link>
+                </CardContent>
+              </Card>
+            </div>
+          ) : (
+            children
+          )}
         </main>
       </div>
     </div>
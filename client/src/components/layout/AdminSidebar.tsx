@@ -1,5 +1,6 @@
 import { Link, useLocation } from "wouter";
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -10,6 +11,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { canAccessAdminSection } from "@/lib/adminSections";
+import { apiRequest } from "@/lib/queryClient";
 import uggaLogo from "@assets/2_1750100657577.png";
 import {
   Home,
@@ -26,6 +29,10 @@ import {
   X,
   LayoutDashboard,
   HelpCircle,
+  ScrollText,
+  Inbox,
+  Star,
+  Library,
 } from "lucide-react";
 
 interface AdminSidebarProps {
@@ -37,6 +44,7 @@ interface NavigationItem {
   label: string;
   path: string;
   icon: React.ComponentType<{ className?: string }>;
+  badge?: number;
 }
 
 export default function AdminSidebar({ className }: AdminSidebarProps) {
@@ -59,8 +67,15 @@ export default function AdminSidebar({ className }: AdminSidebarProps) {
     localStorage.setItem('adminSidebarState', JSON.stringify({ collapsed: isCollapsed }));
   }, [isCollapsed]);
 
-  // Admin navigation items
-  const adminNavItems: NavigationItem[] = [
+  // Editors find new member submissions through this count instead of email
+  const { data: pendingSubmissions } = useQuery<{ total: number }>({
+    queryKey: ["/api/admin/resource-submissions", "pending-count"],
+    queryFn: () => apiRequest("GET", "/api/admin/resource-submissions?status=pending&pageSize=1"),
+    enabled: isAuthenticated && canAccessAdminSection(user?.role, "/admin/resource-submissions"),
+  });
+
+  // Admin navigation items, limited to the sections this user's role can access
+  const allAdminNavItems: NavigationItem[] = [
     {
       id: "admin-home",
       label: "Admin Home",
@@ -73,6 +88,25 @@ export default function AdminSidebar({ className }: AdminSidebarProps) {
       path: "/admin/resources",
       icon: FolderOpen,
     },
+    {
+      id: "resource-submissions",
+      label: "Resource Submissions",
+      path: "/admin/resource-submissions",
+      icon: Inbox,
+      badge: pendingSubmissions?.total,
+    },
+    {
+      id: "resource-ratings",
+      label: "Ratings & Reviews",
+      path: "/admin/resource-ratings",
+      icon: Star,
+    },
+    {
+      id: "resource-collections",
+      label: "Collections",
+      path: "/admin/resource-collections",
+      icon: Library,
+    },
     {
       id: "blog",
       label: "Blog Management",
@@ -115,7 +149,14 @@ export default function AdminSidebar({ className }: AdminSidebarProps) {
       path: "/admin/ai-agents",
       icon: Bot,
     },
+    {
+      id: "audit-log",
+      label: "Audit Log",
+      path: "/admin/audit-log",
+      icon: ScrollText,
+    },
   ];
+  const adminNavItems = allAdminNavItems.filter(item => canAccessAdminSection(user?.role, item.path));
 
   const isActive = (path: string) => {
     if (path === "/admin") {
@@ -147,6 +188,14 @@ export default function AdminSidebar({ className }: AdminSidebarProps) {
               {(!isCollapsed || mobile) && (
                 <span className="ml-3 truncate">{item.label}</span>
               )}
+              {(!isCollapsed || mobile) && !!item.badge && (
+                <span
+                  className="ml-auto rounded-full bg-ugga-primary px-2 py-0.5 text-xs font-semibold text-white"
+                  data-testid={`admin-nav-badge-${item.id}`}
+                >
+                  {item.badge}
+                </span>
+              )}
             </Link>
           </TooltipTrigger>
           {isCollapsed && !mobile && (
@@ -18,6 +18,7 @@ import {
   Search,
   Home,
   Heart,
+  Library,
   FolderOpen,
   MessageCircle,
   Store,
@@ -25,6 +26,7 @@ import {
   ShoppingBag,
   MapPin,
   UserCircle,
+  Warehouse,
   ExternalLink,
   ChevronLeft,
   ChevronRight,
@@ -48,7 +50,7 @@ interface NavigationItem {
 
 export default function Sidebar({ className }: SidebarProps) {
   const [location] = useLocation();
-  const { user, isAuthenticated, isAdmin } = useAuth();
+  const { user, isAuthenticated, canAccessAdmin } = useAuth();
   const { isDemo, showDemoAction } = useDemo();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
@@ -101,6 +103,12 @@ export default function Sidebar({ className }: SidebarProps) {
       path: isDemo ? "/demo/favorites" : "/dashboard/favorites",
       icon: Heart,
     },
+    {
+      id: "collections",
+      label: "Collections",
+      path: isDemo ? "/demo/collections" : "/dashboard/collections",
+      icon: Library,
+    },
   ];
 
   // Section 2: Main features
@@ -157,10 +165,16 @@ export default function Sidebar({ className }: SidebarProps) {
       path: "/dashboard/profile",
       icon: UserCircle,
     },
+    {
+      id: "farm",
+      label: "My Farm",
+      path: "/dashboard/farm",
+      icon: Warehouse,
+    },
   ] : [];
 
-  // Section 4: Admin Dashboard Toggle (only if admin)
-  const adminNavItems: NavigationItem[] = isAdmin ? [
+  // Section 4: Admin Dashboard Toggle (admins and staff roles)
+  const adminNavItems: NavigationItem[] = canAccessAdmin ? [
     {
       id: "admin-dashboard",
       label: "Switch to Admin Dashboard",
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Database, Download, Trash2 } from "lucide-react";
+
+export default function AccountDataCard() {
+  const { toast } = useToast();
+  const [showDelete, setShowDelete] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const deleteRequestMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/me/delete-request", { password }),
+    onSuccess: () => {
+      setShowDelete(false);
+      setPassword("");
+      toast({
+        title: "Check your email",
+        description: "We've sent you a link to confirm deleting your account. It expires in 1 hour.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't request account deletion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Your Data
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="font-medium text-gray-900">Download your data</p>
+            <p className="text-sm text-gray-600">
+              Your profile, forum activity, saved resources, chat history, assessments, expert requests and feedback as a JSON file.
+            </p>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <a href="/api/me/export" download data-testid="link-export-my-data">
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 border-t border-gray-200 pt-6">
+          <div>
+            <p className="font-medium text-red-700">Delete your account</p>
+            <p className="text-sm text-gray-600">
+              Permanently erase your account and personal data. Forum posts stay, without your name.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowDelete(true)}
+            className="text-red-600 border-red-200 hover:text-red-700 hover:bg-red-50"
+            data-testid="button-delete-account"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={showDelete} onOpenChange={setShowDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Your Account</DialogTitle>
+            <DialogDescription>
+              Confirm your password and we'll email you a link to finish deleting your account. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-password">Password</Label>
+            <Input
+              id="delete-account-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowDelete(false)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteRequestMutation.mutate()}
+              disabled={!password || deleteRequestMutation.isPending}
+            >
+              {deleteRequestMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Confirmation Email
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
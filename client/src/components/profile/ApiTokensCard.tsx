@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ApiTokenScope } from "@shared/schema";
+import { Loader2, KeyRound, Plus, Copy } from "lucide-react";
+
+interface ApiTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_OPTIONS: { value: ApiTokenScope; label: string; description: string }[] = [
+  { value: ApiTokenScope.RESOURCES_READ, label: "Read resources", description: "Search and read the resource library, blog and your saved resources" },
+  { value: ApiTokenScope.FORUM_WRITE, label: "Forum", description: "Read the forum and create or edit your posts and comments" },
+  { value: ApiTokenScope.ADMIN, label: "Admin", description: "Use the admin tools your role allows" },
+];
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+const getScopeLabel = (scope: string) => SCOPE_OPTIONS.find(option => option.value === scope)?.label || scope;
+
+export default function ApiTokensCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { canAccessAdmin } = useAuth();
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([ApiTokenScope.RESOURCES_READ]);
+  const [expiry, setExpiry] = useState("90");
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/auth/api-tokens"],
+  });
+
+  const scopeOptions = SCOPE_OPTIONS.filter(option => option.value !== ApiTokenScope.ADMIN || canAccessAdmin);
+
+  const createMutation = useMutation({
+    mutationFn: (): Promise<ApiTokenSummary & { token: string }> =>
+      apiRequest("POST", "/api/auth/api-tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      }),
+    onSuccess: (data) => {
+      setShowCreate(false);
+      setName("");
+      setScopes([ApiTokenScope.RESOURCES_READ]);
+      setExpiry("90");
+      setNewToken(data.token);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/api-tokens"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't create token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (token: ApiTokenSummary) => apiRequest("DELETE", `/api/auth/api-tokens/${token.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/api-tokens"] });
+      toast({ title: "Token revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't revoke token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter(existing => existing !== scope));
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast({ title: "Token copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Please copy the token manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API Tokens
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setShowCreate(true)} data-testid="button-create-api-token">
+            <Plus className="h-4 w-4 mr-2" />
+            New Token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Personal access tokens let scripts and integrations use the UGGA API as you. Send them in an{" "}
+          <code className="text-xs bg-gray-100 rounded px-1">Authorization: Bearer</code> header and treat them like a password.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-ugga-primary" />
+          </div>
+        ) : !tokens || tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">No API tokens yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tokens.map((token) => {
+              const expired = !!token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now();
+
+              return (
+                <li key={token.id} className="flex items-center justify-between gap-4 py-3" data-testid={`api-token-${token.id}`}>
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900 truncate">{token.name}</span>
+                      <code className="text-xs text-gray-500">{token.tokenPrefix}…</code>
+                      {expired && <Badge variant="secondary" className="bg-red-100 text-red-800">Expired</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {token.scopes.map(scope => (
+                        <Badge key={scope} variant="outline" className="text-xs">{getScopeLabel(scope)}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}`
+                        : "Never used"}
+                      {" · "}
+                      {token.expiresAt
+                        ? `${expired ? "Expired" : "Expires"} ${format(new Date(token.expiresAt), "MMM d, yyyy")}`
+                        : "No expiry"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      if (window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+                        revokeMutation.mutate(token);
+                      }
+                    }}
+                    disabled={revokeMutation.isPending}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    Revoke
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+            <DialogDescription>
+              Give the token a name you'll recognize and only the access your script needs.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                placeholder="e.g. Grants sync script"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {scopeOptions.map(option => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-token-scope-${option.value}`}
+                    checked={scopes.includes(option.value)}
+                    onCheckedChange={(checked) => toggleScope(option.value, !!checked)}
+                  />
+                  <Label htmlFor={`api-token-scope-${option.value}`} className="font-normal leading-snug">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-sm text-gray-500">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowCreate(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* The raw token is only ever shown once */}
+      <Dialog open={!!newToken} onOpenChange={(open) => !open && setNewToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your New Token</DialogTitle>
+            <DialogDescription>
+              Store it somewhere safe, such as your script's secrets; it won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <code className="block break-all font-mono text-sm bg-gray-50 rounded p-4" data-testid="text-new-api-token">
+            {newToken}
+          </code>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyToken}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button onClick={() => setNewToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
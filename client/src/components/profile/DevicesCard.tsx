@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { redirectToLogin } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Monitor, Smartphone, LogOut } from "lucide-react";
+
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// Rough, human-readable device label from a user agent string
+function describeDevice(userAgent: string | null): { label: string; mobile: boolean } {
+  if (!userAgent) return { label: "Unknown device", mobile: false };
+
+  const mobile = /Mobi|Android|iPhone|iPad/i.test(userAgent);
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  return { label: `${browser} on ${os}`, mobile };
+}
+
+export default function DevicesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: ActiveSession) => apiRequest("DELETE", `/api/auth/sessions/${session.id}`),
+    onSuccess: (_data, session) => {
+      if (session.current) {
+        redirectToLogin();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Device signed out" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't sign out device",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/logout-all"),
+    onSuccess: () => {
+      redirectToLogin();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sign out failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="h-5 w-5" />
+            Devices
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => logoutAllMutation.mutate()}
+            disabled={logoutAllMutation.isPending || !sessions?.length}
+            data-testid="button-logout-all"
+          >
+            {logoutAllMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <LogOut className="h-4 w-4 mr-2" />
+            )}
+            Sign out everywhere
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          These devices are currently signed in to your account. Sign out any you don't recognize.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-ugga-primary" />
+          </div>
+        ) : !sessions || sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No active sessions.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map((session) => {
+              const device = describeDevice(session.userAgent);
+              const DeviceIcon = device.mobile ? Smartphone : Monitor;
+
+              return (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3" data-testid={`session-${session.id}`}>
+                  <div className="flex items-center gap-3 min-w-0">
+                    <DeviceIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">{device.label}</span>
+                        {session.current && (
+                          <Badge variant="secondary" className="bg-green-100 text-green-800">This device</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {session.ipAddress || "Unknown location"} · Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session)}
+                    disabled={revokeMutation.isPending}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    {session.current ? "Sign out" : "Revoke"}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
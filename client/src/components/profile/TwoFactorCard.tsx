@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, ShieldCheck, KeyRound, Copy } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  backupCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export default function TwoFactorCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [showDisable, setShowDisable] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const refreshStatus = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    setCode("");
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: (): Promise<TwoFactorSetup> => apiRequest("POST", "/api/auth/2fa/setup"),
+    onSuccess: (data) => {
+      setCode("");
+      setSetup(data);
+    },
+    onError: showError("Couldn't start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (totpCode: string): Promise<{ backupCodes: string[] }> =>
+      apiRequest("POST", "/api/auth/2fa/enable", { code: totpCode }),
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setBackupCodes(data.backupCodes);
+      refreshStatus();
+      // Other devices are signed out when 2FA is switched on
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: showError("Verification failed"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (totpCode: string): Promise<{ backupCodes: string[] }> =>
+      apiRequest("POST", "/api/auth/2fa/backup-codes", { code: totpCode }),
+    onSuccess: (data) => {
+      setShowRegenerate(false);
+      setCode("");
+      setBackupCodes(data.backupCodes);
+      refreshStatus();
+    },
+    onError: showError("Couldn't regenerate backup codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/2fa/disable", { password, code }),
+    onSuccess: () => {
+      setShowDisable(false);
+      setCode("");
+      setPassword("");
+      refreshStatus();
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: showError("Couldn't disable two-factor authentication"),
+  });
+
+  const copyBackupCodes = async () => {
+    if (!backupCodes) return;
+    try {
+      await navigator.clipboard.writeText(backupCodes.join("\n"));
+      toast({ title: "Backup codes copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Please copy the codes manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && (
+            <Badge variant="secondary" className="bg-green-100 text-green-800">Enabled</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-ugga-primary" />
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Your account is protected with an authenticator app. You have{" "}
+              <span className="font-medium">{status.backupCodesRemaining}</span> unused backup code
+              {status.backupCodesRemaining === 1 ? "" : "s"} left.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => { setCode(""); setShowRegenerate(true); }} data-testid="button-regenerate-backup-codes">
+                <KeyRound className="h-4 w-4 mr-2" />
+                Regenerate Backup Codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="ghost"
+                  onClick={() => { setCode(""); setPassword(""); setShowDisable(true); }}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  data-testid="button-disable-2fa"
+                >
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+              then enter the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col sm:flex-row items-center gap-6">
+              <img src={setup.qrCode} alt="Two-factor authentication QR code" className="h-44 w-44 border rounded" />
+              <div className="space-y-2 min-w-0">
+                <Label className="text-xs text-gray-500">Can't scan? Enter this key manually</Label>
+                <code className="block break-all text-sm bg-gray-100 rounded px-2 py-1" data-testid="text-totp-secret">
+                  {setup.secret}
+                </code>
+              </div>
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                enableMutation.mutate(code);
+              }}
+              className="space-y-4"
+            >
+              <CodeInput value={code} onChange={setCode} />
+              <div className="flex gap-2">
+                <Button type="submit" disabled={code.length < 6 || enableMutation.isPending} data-testid="button-enable-2fa">
+                  {enableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Verify & Enable
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Add a second step to sign-in with a code from an authenticator app on your phone.
+            </p>
+            {status?.required && (
+              <p className="text-sm font-medium text-amber-700">
+                Two-factor authentication is required for admin accounts.
+              </p>
+            )}
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+              {setupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Set Up Two-Factor Authentication
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Backup codes are only ever shown once */}
+      <Dialog open={!!backupCodes} onOpenChange={(open) => !open && setBackupCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Your Backup Codes</DialogTitle>
+            <DialogDescription>
+              Each code can be used once to sign in if you lose access to your authenticator app.
+              Store them somewhere safe; they won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 rounded p-4" data-testid="list-backup-codes">
+            {backupCodes?.map((backupCode) => (
+              <span key={backupCode}>{backupCode}</span>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyBackupCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button onClick={() => setBackupCodes(null)}>I've Saved These Codes</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRegenerate} onOpenChange={setShowRegenerate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Regenerate Backup Codes</DialogTitle>
+            <DialogDescription>
+              Enter a code from your authenticator app. Your existing backup codes will stop working.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-center">
+            <CodeInput value={code} onChange={setCode} />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowRegenerate(false)}>Cancel</Button>
+            <Button onClick={() => regenerateMutation.mutate(code)} disabled={code.length < 6 || regenerateMutation.isPending}>
+              {regenerateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Regenerate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showDisable} onOpenChange={setShowDisable}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Disable Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              Confirm your password and enter a code from your authenticator app or a backup code.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="disable-2fa-password">Password</Label>
+              <Input
+                id="disable-2fa-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disable-2fa-code">Verification Code</Label>
+              <Input
+                id="disable-2fa-code"
+                type="text"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowDisable(false)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate()}
+              disabled={!password || !code || disableMutation.isPending}
+            >
+              {disableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Disable
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Library, Loader2, Plus } from "lucide-react";
+import CollectionFormDialog from "./CollectionFormDialog";
+import type { CollectionSummary } from "@/lib/api/collections";
+import type { ResourceCollection } from "@shared/schema";
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function AddToCollectionButton({ resourceId }: { resourceId: string }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data, isLoading } = useQuery<{ owned: CollectionSummary[]; shared: CollectionSummary[] }>({
+    queryKey: ["/api/collections"],
+    enabled: open,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: (collection: Pick<ResourceCollection, "id" | "title">) =>
+      apiRequest("POST", `/api/collections/${collection.id}/items`, { resourceId }),
+    onSuccess: (_item, collection) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/collections/${collection.id}`] });
+      toast({ title: "Added to collection", description: collection.title });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to add to collection."), variant: "destructive" });
+    },
+  });
+
+  const owned = data?.owned ?? [];
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={() => setOpen(true)} data-testid="button-add-to-collection">
+        <Library className="h-4 w-4" />
+        Add to Collection
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add to Collection</DialogTitle>
+            <DialogDescription>It goes to the end of the collection; you can reorder it from there.</DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-ugga-primary" />
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {owned.length === 0 && <p className="text-sm text-gray-500">You don't have any collections yet.</p>}
+              {owned.map(collection => (
+                <button
+                  key={collection.id}
+                  type="button"
+                  className="w-full flex items-center justify-between rounded-md border px-3 py-2 text-left hover:bg-gray-50 disabled:opacity-50"
+                  onClick={() => addMutation.mutate(collection)}
+                  disabled={addMutation.isPending}
+                  data-testid={`button-add-to-collection-${collection.id}`}
+                >
+                  <span className="font-medium text-gray-900 truncate">{collection.title}</span>
+                  <span className="text-xs text-gray-500 flex-shrink-0 ml-2">{collection.itemCount} resources</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <Button variant="outline" onClick={() => setIsCreating(true)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            New Collection
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <CollectionFormDialog open={isCreating} onOpenChange={setIsCreating} onSaved={(collection) => addMutation.mutate(collection)} />
+    </>
+  );
+}
@@ -0,0 +1,47 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Star, User } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { VISIBILITY_OPTIONS, type CollectionSummary } from "@/lib/api/collections";
+
+// Shows the owner's name for other members' collections, and the
+// visibility for the member's own
+export default function CollectionCard({ collection, showOwner = false }: { collection: CollectionSummary; showOwner?: boolean }) {
+  return (
+    <Link href={`/dashboard/collections/${collection.id}`}>
+      <Card className="h-full cursor-pointer hover:shadow-md transition-shadow" data-testid={`card-collection-${collection.id}`}>
+        <CardHeader className="pb-2">
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="text-lg line-clamp-2">{collection.title}</CardTitle>
+            {collection.featuredAt && collection.visibility === "public" && (
+              <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 flex-shrink-0">
+                <Star className="h-3 w-3 mr-1" />
+                Featured
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {collection.description && (
+            <p className="text-sm text-gray-600 line-clamp-3">{collection.description}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+            <span>{collection.itemCount} resource{collection.itemCount === 1 ? "" : "s"}</span>
+            {showOwner ? (
+              <span className="flex items-center gap-1">
+                <User className="h-3 w-3" />
+                {collection.ownerName ?? "Deleted member"}
+              </span>
+            ) : (
+              <Badge variant="outline" className="text-xs">
+                {VISIBILITY_OPTIONS.find(option => option.value === collection.visibility)?.label}
+              </Badge>
+            )}
+            <span>Updated {formatDistanceToNow(new Date(collection.updatedAt), { addSuffix: true })}</span>
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
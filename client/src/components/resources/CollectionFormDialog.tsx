@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { VISIBILITY_OPTIONS } from "@/lib/api/collections";
+import type { ResourceCollection, ResourceCollectionVisibility } from "@shared/schema";
+
+interface CollectionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this collection; creates a new one when left out
+  collection?: Pick<ResourceCollection, "id" | "title" | "description" | "visibility">;
+  onSaved?: (collection: ResourceCollection) => void;
+}
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function CollectionFormDialog({ open, onOpenChange, collection, onSaved }: CollectionFormDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [visibility, setVisibility] = useState<ResourceCollectionVisibility>("private");
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(collection?.title ?? "");
+    setDescription(collection?.description ?? "");
+    setVisibility(collection?.visibility ?? "private");
+  }, [open, collection]);
+
+  const mutation = useMutation({
+    mutationFn: (): Promise<ResourceCollection> => {
+      const body = { title: title.trim(), description: description.trim() || null, visibility };
+      return collection
+        ? apiRequest("PUT", `/api/collections/${collection.id}`, body)
+        : apiRequest("POST", "/api/collections", body);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      toast({ title: collection ? "Collection updated" : "Collection created" });
+      onOpenChange(false);
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save collection."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{collection ? "Edit Collection" : "New Collection"}</DialogTitle>
+          <DialogDescription>
+            Group resources into a list you can order, annotate and share, like a starter pack for new growers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="collection-title">Title</Label>
+            <Input
+              id="collection-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+              placeholder="e.g. Biocontrol suppliers"
+              data-testid="input-collection-title"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description</Label>
+            <Textarea
+              id="collection-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="Who is this collection for?"
+              data-testid="textarea-collection-description"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Who can see it</Label>
+            <Select value={visibility} onValueChange={(value) => setVisibility(value as ResourceCollectionVisibility)}>
+              <SelectTrigger data-testid="select-collection-visibility">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VISIBILITY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              {VISIBILITY_OPTIONS.find(option => option.value === visibility)?.description}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={mutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={mutation.isPending || !title.trim()}
+            data-testid="button-save-collection"
+          >
+            {collection ? "Save Changes" : "Create Collection"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
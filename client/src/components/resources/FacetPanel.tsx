@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { ChevronDown, ChevronRight, Filter, X, MapPin } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { ResourceFacetValue } from "@/hooks/useResources";
 
 export interface FacetFilters {
   q?: string;
@@ -23,6 +24,9 @@ export interface FacetFilters {
   status?: string[];
   eligibility_geo?: string[];
   format?: string[];
+  focusAreas?: string[];
+  functions?: string[];
+  level?: string[];
   has_location?: boolean;
 }
 
@@ -40,8 +44,17 @@ export interface FacetPanelProps {
   showFormat?: boolean;
   hasLocationAvailable?: boolean;
   resourceType?: string;
+  // Result counts per option from /api/resources/facets
+  facets?: Record<string, ResourceFacetValue[]>;
 }
 
+// Type-specific facets whose options come entirely from the facet counts
+const DATA_FACETS: Record<string, Array<{ key: 'focusAreas' | 'functions' | 'level'; title: string }>> = {
+  grants: [{ key: 'focusAreas', title: 'Focus Areas' }],
+  organizations: [{ key: 'functions', title: 'Functions' }],
+  learning: [{ key: 'level', title: 'Level' }],
+};
+
 const FILTER_OPTIONS = {
   topics: [
     { value: 'management', label: 'Management' },
@@ -124,17 +137,30 @@ function FacetSection({
   options, 
   selected = [], 
   onChange, 
-  icon 
+  icon,
+  counts
 }: { 
   title: string;
   options: Array<{ value: string; label: string }>;
   selected: string[];
   onChange: (values: string[]) => void;
   icon?: React.ReactNode;
+  counts?: ResourceFacetValue[];
 }) {
   const [isOpen, setIsOpen] = useState(title === 'Type' || title === 'Topics');
   const sectionId = `facet-${title.toLowerCase().replace(/\s+/g, '-')}`;
 
+  const countByValue = new Map(counts?.map(facet => [facet.value, facet.count]));
+  // Without counts every option is shown; with them, options that would
+  // return nothing are hidden unless already selected
+  const visibleOptions = counts
+    ? options.filter(option => countByValue.has(option.value) || selected.includes(option.value))
+    : options;
+
+  if (counts && visibleOptions.length === 0) {
+    return null;
+  }
+
   const handleToggle = (value: string, checked: boolean) => {
     if (checked) {
       onChange([...selected, value]);
@@ -183,7 +209,7 @@ function FacetSection({
       <CollapsibleContent className="space-y-2 pt-2" id={`${sectionId}-content`}>
         <div role="group" aria-labelledby={`${sectionId}-heading`}>
           <div id={`${sectionId}-heading`} className="sr-only">{title} filter options</div>
-          {options.map((option) => (
+          {visibleOptions.map((option) => (
             <div key={option.value} className="flex items-center space-x-2">
               <Checkbox
                 id={`${sectionId}-${option.value}`}
@@ -197,6 +223,11 @@ function FacetSection({
               >
                 {option.label}
               </Label>
+              {counts && (
+                <span className="ml-auto text-xs text-gray-500" aria-label={`${countByValue.get(option.value) ?? 0} results`}>
+                  {countByValue.get(option.value) ?? 0}
+                </span>
+              )}
               <div id={`${sectionId}-${option.value}-desc`} className="sr-only">
                 {selected.includes(option.value) ? 'Selected' : 'Not selected'}
               </div>
@@ -214,8 +245,12 @@ function FacetPanelContent({
   showStatus, 
   showEligibilityGeo, 
   showFormat, 
-  hasLocationAvailable 
+  hasLocationAvailable,
+  resourceType,
+  facets
 }: Omit<FacetPanelProps, 'mobile' | 'open' | 'onOpenChange' | 'className'>) {
+  const dataFacets = (resourceType && DATA_FACETS[resourceType]) || [];
+
   const handleFilterChange = (key: keyof FacetFilters, newValue: any) => {
     onChange({ ...value, [key]: newValue });
   };
@@ -255,6 +290,7 @@ function FacetPanelContent({
           options={FILTER_OPTIONS.topics}
           selected={value.topics || []}
           onChange={(values) => handleFilterChange('topics', values)}
+          counts={facets?.topics}
         />
 
         <FacetSection
@@ -262,6 +298,7 @@ function FacetPanelContent({
           options={FILTER_OPTIONS.crop}
           selected={value.crop || []}
           onChange={(values) => handleFilterChange('crop', values)}
+          counts={facets?.crop}
         />
 
         <FacetSection
@@ -269,6 +306,7 @@ function FacetPanelContent({
           options={FILTER_OPTIONS.system_type}
           selected={value.system_type || []}
           onChange={(values) => handleFilterChange('system_type', values)}
+          counts={facets?.system_type}
         />
 
         <FacetSection
@@ -283,6 +321,7 @@ function FacetPanelContent({
           options={FILTER_OPTIONS.cost}
           selected={value.cost || []}
           onChange={(values) => handleFilterChange('cost', values)}
+          counts={facets?.cost}
         />
 
         <FacetSection
@@ -290,9 +329,29 @@ function FacetPanelContent({
           options={FILTER_OPTIONS.region}
           selected={value.region || []}
           onChange={(values) => handleFilterChange('region', values)}
+          counts={facets?.region}
         />
       </div>
 
+      {/* Facets drawn from the resource type's data */}
+      {dataFacets.length > 0 && facets && (
+        <>
+          <Separator />
+          <div className="space-y-4">
+            {dataFacets.map(({ key, title }) => (
+              <FacetSection
+                key={key}
+                title={title}
+                options={(facets[key] || []).map(facet => ({ value: facet.value, label: facet.value }))}
+                selected={value[key] || []}
+                onChange={(values) => handleFilterChange(key, values)}
+                counts={facets[key] || []}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
       {/* Optional Type-Specific Facets */}
       {(showStatus || showEligibilityGeo || showFormat) && (
         <>
@@ -363,7 +422,9 @@ export default function FacetPanel({
   showStatus,
   showEligibilityGeo,
   showFormat,
-  hasLocationAvailable
+  hasLocationAvailable,
+  resourceType,
+  facets
 }: FacetPanelProps) {
   const activeFiltersCount = Object.values(value).flat().filter(Boolean).length;
 
@@ -406,6 +467,8 @@ export default function FacetPanel({
               showEligibilityGeo={showEligibilityGeo}
               showFormat={showFormat}
               hasLocationAvailable={hasLocationAvailable}
+              resourceType={resourceType}
+              facets={facets}
             />
           </div>
         </SheetContent>
@@ -437,6 +500,8 @@ export default function FacetPanel({
         showEligibilityGeo={showEligibilityGeo}
         showFormat={showFormat}
         hasLocationAvailable={hasLocationAvailable}
+        resourceType={resourceType}
+        facets={facets}
       />
     </div>
   );
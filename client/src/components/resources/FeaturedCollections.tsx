@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import CollectionCard from "./CollectionCard";
+import type { CollectionSummary } from "@/lib/api/collections";
+
+// Public collections admins have picked out; renders nothing until there are some
+export default function FeaturedCollections() {
+  const { data: collections = [] } = useQuery<CollectionSummary[]>({
+    queryKey: ["/api/collections/featured"],
+  });
+
+  if (collections.length === 0) return null;
+
+  return (
+    <div className="mb-10">
+      <h2 className="text-2xl font-semibold text-gray-900 dark:text-gray-100 mb-6">Featured Collections</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {collections.map(collection => <CollectionCard key={collection.id} collection={collection} showOwner />)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+export interface HighlightedTextProps {
+  // Search snippet from the API, with matches wrapped in <mark> tags
+  text: string;
+}
+
+// Renders only the <mark> tags; everything else in the snippet stays plain text
+export default function HighlightedText({ text }: HighlightedTextProps) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
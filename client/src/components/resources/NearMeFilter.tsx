@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { milesToKm, type MemberLocation, type ResourceLocation } from "@/hooks/useResources";
+import { Navigation } from "lucide-react";
+
+const RADIUS_MILES = [25, 50, 100, 250, 500];
+
+interface NearMeFilterProps {
+  radiusMiles: number | null; // null searches everywhere
+  onChange: (radiusMiles: number | null) => void;
+}
+
+// Radius around the member's profile county (or state) for "within driving
+// distance" searches. Renders nothing for visitors and members without a
+// US state on their profile.
+export default function NearMeFilter({ radiusMiles, onChange }: NearMeFilterProps) {
+  const { data: memberLocation } = useMemberLocation();
+
+  if (!memberLocation) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Navigation className="h-4 w-4 text-gray-500" aria-hidden="true" />
+      <Select
+        value={radiusMiles === null ? "anywhere" : String(radiusMiles)}
+        onValueChange={(value) => onChange(value === "anywhere" ? null : Number(value))}
+      >
+        <SelectTrigger className="w-[260px]" data-testid="select-near-me-radius">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="anywhere">Any distance</SelectItem>
+          {RADIUS_MILES.map(miles => (
+            <SelectItem key={miles} value={String(miles)}>
+              Within {miles} mi of {memberLocation.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function useMemberLocation() {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery<MemberLocation>({
+    queryKey: ["/api/profile/location"],
+    enabled: isAuthenticated,
+    retry: false,
+    staleTime: 60 * 60 * 1000, // Profiles rarely move
+  });
+}
+
+// Measures distances from the member whenever we know where they are, so
+// results can show how far away they are even without a radius
+export function nearMemberLocation(memberLocation: MemberLocation | undefined, radiusMiles: number | null): ResourceLocation | undefined {
+  if (!memberLocation) return undefined;
+  return {
+    near: { lat: memberLocation.lat, lng: memberLocation.lng },
+    radiusKm: radiusMiles === null ? undefined : milesToKm(radiusMiles),
+  };
+}
@@ -1,9 +1,10 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Heart, ExternalLink, MapPin, Calendar, CheckCircle, AlertTriangle } from "lucide-react";
+import { Heart, ExternalLink, MapPin, Calendar, CheckCircle, AlertTriangle, Star } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, memo } from "react";
+import HighlightedText from "./HighlightedText";
 
 export interface ResourceCardProps {
   resource: {
@@ -19,8 +20,11 @@ export interface ResourceCardProps {
     ugga_verified?: boolean;
     last_verified_at?: string | Date;
     quality_score?: number;
+    rating_average?: number | null;
+    rating_count?: number;
     has_location?: boolean;
     url?: string;
+    highlights?: { title: string; summary: string | null } | null;
   };
   onToggleFavorite?: (id: string, on: boolean) => void;
   onOpen?: (id: string) => void;
@@ -106,12 +110,12 @@ const ResourceCard = memo(function ResourceCard({
         <div className="flex items-start justify-between gap-3">
           <div className="flex-1 min-w-0">
             <h3 className="font-semibold text-gray-900 line-clamp-2 group-hover:text-ugga-primary transition-colors">
-              {resource.title}
+              {resource.highlights ? <HighlightedText text={resource.highlights.title} /> : resource.title}
             </h3>
             
             {resource.summary && (
               <p className="text-sm text-gray-600 mt-2 line-clamp-3">
-                {resource.summary}
+                {resource.highlights?.summary ? <HighlightedText text={resource.highlights.summary} /> : resource.summary}
               </p>
             )}
           </div>
@@ -161,6 +165,13 @@ const ResourceCard = memo(function ResourceCard({
               </Badge>
             )}
             
+            {resource.rating_average != null && (
+              <Badge variant="outline" className="text-xs" aria-label={`Rated ${resource.rating_average.toFixed(1)} out of 5 by ${resource.rating_count} members`}>
+                <Star className="h-3 w-3 mr-1 fill-yellow-400 text-yellow-400" aria-hidden="true" />
+                {resource.rating_average.toFixed(1)} ({resource.rating_count})
+              </Badge>
+            )}
+
             {resource.has_location && (
               <Badge variant="outline" className="text-xs">
                 <MapPin className="h-3 w-3 mr-1" aria-hidden="true" />
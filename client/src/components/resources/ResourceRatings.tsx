@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Star, User } from "lucide-react";
+import { format } from "date-fns";
+import type { ResourceRating } from "@shared/schema";
+
+interface ResourceRatingSummary {
+  average: number | null;
+  count: number;
+  ratings: (Pick<ResourceRating, "id" | "rating" | "review" | "createdAt" | "updatedAt"> & { authorName: string | null })[];
+}
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function RatingStars({
+  value,
+  onChange,
+  size = "h-4 w-4",
+}: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: string;
+}) {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || value;
+
+  return (
+    <div className="flex items-center gap-0.5" onMouseLeave={() => setHovered(0)}>
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={`${size} ${star <= Math.round(shown) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+          />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            aria-label={`${star} star${star === 1 ? "" : "s"}`}
+            data-testid={`button-rate-${star}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ResourceRatings({ resourceId }: { resourceId: string }) {
+  const { toast } = useToast();
+  const { isMember } = useAuth();
+  const [rating, setRating] = useState(0);
+  const [review, setReview] = useState("");
+
+  const ratingsKey = `/api/resources/${resourceId}/ratings`;
+  const ownKey = `/api/resources/${resourceId}/rating`;
+
+  const { data: summary } = useQuery<ResourceRatingSummary>({ queryKey: [ratingsKey] });
+  const { data: own } = useQuery<ResourceRating | null>({ queryKey: [ownKey], enabled: isMember });
+
+  useEffect(() => {
+    setRating(own?.rating ?? 0);
+    setReview(own?.review ?? "");
+  }, [own]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [ratingsKey] });
+    queryClient.invalidateQueries({ queryKey: [ownKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", ownKey, { rating, review: review.trim() || null }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: own ? "Rating updated" : "Thanks for rating this resource" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save your rating."), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", ownKey),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rating removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to remove your rating."), variant: "destructive" });
+    },
+  });
+
+  const isSaving = saveMutation.isPending || removeMutation.isPending;
+  const ratings = summary?.ratings ?? [];
+
+  return (
+    <Card data-testid="card-resource-ratings">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-3">
+          <span className="flex items-center gap-2">
+            <Star className="h-5 w-5 text-yellow-500" />
+            Ratings &amp; Reviews
+          </span>
+          {summary && summary.average !== null && (
+            <span className="flex items-center gap-2 text-sm font-normal text-gray-600" data-testid="text-rating-average">
+              <RatingStars value={summary.average} />
+              {summary.average.toFixed(1)} ({summary.count} rating{summary.count === 1 ? "" : "s"})
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isMember ? (
+          <div className="space-y-3 bg-gray-50 rounded-md p-4">
+            <p className="text-sm font-medium text-gray-700">
+              {own ? "Your rating" : "Was this resource useful? Rate it for other members."}
+            </p>
+            <RatingStars value={rating} onChange={setRating} size="h-6 w-6" />
+            <Textarea
+              placeholder="Optional review: what worked, what didn't, who it suits"
+              value={review}
+              onChange={(e) => setReview(e.target.value)}
+              rows={3}
+              maxLength={5000}
+              data-testid="textarea-review"
+            />
+            {own?.status === "hidden" && (
+              <p className="text-sm text-yellow-700">
+                Your review has been hidden by the editors and isn't shown to other members.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              {own && (
+                <Button
+                  variant="ghost"
+                  onClick={() => removeMutation.mutate()}
+                  disabled={isSaving}
+                  data-testid="button-remove-rating"
+                >
+                  Remove
+                </Button>
+              )}
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={isSaving || rating === 0}
+                data-testid="button-save-rating"
+              >
+                {own ? "Update Rating" : "Submit Rating"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Sign in as a member to rate and review this resource.</p>
+        )}
+
+        {ratings.length === 0 ? (
+          <p className="text-sm text-gray-500">No ratings yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {ratings.map(entry => (
+              <li key={entry.id} className="border-t pt-4 first:border-t-0 first:pt-0" data-testid={`rating-${entry.id}`}>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 mb-1">
+                  <RatingStars value={entry.rating} />
+                  <span className="flex items-center gap-1 font-medium">
+                    <User className="h-3 w-3" />
+                    {entry.authorName ?? "Deleted member"}
+                  </span>
+                  <span>{format(new Date(entry.updatedAt), "MMM d, yyyy")}</span>
+                </div>
+                {entry.review && <p className="text-sm text-gray-700 whitespace-pre-wrap">{entry.review}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
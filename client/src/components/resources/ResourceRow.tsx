@@ -4,6 +4,7 @@ import { TableRow, TableCell } from "@/components/ui/table";
 import { Heart, ExternalLink, MapPin, Calendar, CheckCircle, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, memo } from "react";
+import HighlightedText from "./HighlightedText";
 
 export interface ResourceRowProps {
   resource: {
@@ -21,6 +22,7 @@ export interface ResourceRowProps {
     quality_score?: number;
     has_location?: boolean;
     url?: string;
+    highlights?: { title: string; summary: string | null } | null;
   };
   onToggleFavorite?: (id: string, on: boolean) => void;
   onOpen?: (id: string) => void;
@@ -106,11 +108,11 @@ const ResourceRow = memo(function ResourceRow({
       <TableCell className="font-medium">
         <div className="space-y-1">
           <h3 className="font-semibold text-gray-900 group-hover:text-ugga-primary transition-colors">
-            {resource.title}
+            {resource.highlights ? <HighlightedText text={resource.highlights.title} /> : resource.title}
           </h3>
           {resource.summary && (
             <p className="text-sm text-gray-600 line-clamp-2 max-w-md">
-              {resource.summary}
+              {resource.highlights?.summary ? <HighlightedText text={resource.highlights.summary} /> : resource.summary}
             </p>
           )}
         </div>
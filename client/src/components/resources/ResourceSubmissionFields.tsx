@@ -0,0 +1,131 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RESOURCE_SUBMISSION_FIELDS, type ResourceImportField, type ResourceType } from "@shared/schema";
+import { resourceDataFields } from "@shared/resourceData";
+
+export const RESOURCE_SUBMISSION_TYPES: { id: ResourceType; label: string }[] = [
+  { id: 'universities', label: 'University/Extension' },
+  { id: 'organizations', label: 'Organization' },
+  { id: 'grants', label: 'Grant/Funding' },
+  { id: 'tools', label: 'Tool/Software' },
+  { id: 'templates', label: 'Template/Document' },
+  { id: 'learning', label: 'Educational Material' },
+  { id: 'bulletins', label: 'Bulletin/Publication' },
+  { id: 'industry_news', label: 'Industry News Source' },
+];
+
+const INPUT_TYPES: Partial<Record<NonNullable<ResourceImportField["kind"]>, string>> = {
+  url: "url",
+  email: "email",
+  number: "number",
+  date: "date",
+};
+
+// Form values as the server reads them: lists comma-separated, booleans yes/no
+export function toSubmissionFieldValues(values: { title: string; url: string; summary?: string | null; data?: unknown }): Record<string, string> {
+  const data = (values.data as Record<string, unknown> | null) ?? {};
+  const fieldValues: Record<string, string> = {
+    title: values.title,
+    url: values.url,
+    summary: values.summary ?? "",
+  };
+  for (const [key, value] of Object.entries(data)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === "boolean") fieldValues[key] = value ? "yes" : "no";
+    else fieldValues[key] = Array.isArray(value) ? value.join(", ") : String(value);
+  }
+  return fieldValues;
+}
+
+interface ResourceSubmissionFieldsProps {
+  type: ResourceType;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+export default function ResourceSubmissionFields({ type, values, onChange, disabled }: ResourceSubmissionFieldsProps) {
+  const setValue = (field: string, value: string) => onChange({ ...values, [field]: value });
+  // Fields the data schema limits to a fixed set of values
+  const dataFields = new Map(resourceDataFields(type).map(field => [field.name, field]));
+
+  return (
+    <div className="space-y-4">
+      {RESOURCE_SUBMISSION_FIELDS[type].map(field => {
+        const id = `submission-${field.value}`;
+        const label = `${field.label}${field.required ? " *" : ""}`;
+        const value = values[field.value] ?? "";
+        const dataField = dataFields.get(field.value);
+        const selected = value.split(",").map(item => item.trim()).filter(Boolean);
+
+        return (
+          <div key={field.value} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            {dataField?.input === "select" ? (
+              <Select value={value} onValueChange={(next) => setValue(field.value, next)} disabled={disabled}>
+                <SelectTrigger id={id} data-testid={`select-${id}`}>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dataField.options?.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : dataField?.input === "multi-select" ? (
+              <div id={id} className="grid grid-cols-2 gap-2">
+                {dataField.options?.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.includes(option.value)}
+                      onCheckedChange={(checked) => setValue(field.value, (checked
+                        ? [...selected, option.value]
+                        : selected.filter(item => item !== option.value)).join(", "))}
+                      disabled={disabled}
+                      data-testid={`checkbox-${id}-${option.value}`}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            ) : field.kind === "boolean" ? (
+              <Select value={value} onValueChange={(next) => setValue(field.value, next)} disabled={disabled}>
+                <SelectTrigger id={id} data-testid={`select-${id}`}>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yes">Yes</SelectItem>
+                  <SelectItem value="no">No</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : field.value === "summary" ? (
+              <Textarea
+                id={id}
+                value={value}
+                onChange={(e) => setValue(field.value, e.target.value)}
+                placeholder="What does this resource offer growers?"
+                className="min-h-[80px] resize-none"
+                disabled={disabled}
+                data-testid={`textarea-${id}`}
+              />
+            ) : (
+              <Input
+                id={id}
+                type={(field.kind && INPUT_TYPES[field.kind]) || "text"}
+                value={value}
+                onChange={(e) => setValue(field.value, e.target.value)}
+                placeholder={field.kind === "list" ? "Separate items with commas" : field.kind === "url" ? "https://" : undefined}
+                required={field.required}
+                disabled={disabled}
+                data-testid={`input-${id}`}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BellPlus } from "lucide-react";
+import { DIGEST_FREQUENCY_OPTIONS, type SavedSearchInput } from "@/lib/api/savedSearches";
+import type { SavedSearchDigestFrequency } from "@shared/schema";
+
+interface SaveSearchButtonProps {
+  search: Omit<SavedSearchInput, "name" | "digestFrequency">;
+  defaultName: string;
+}
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Saves the tab's current query for members; renders nothing for visitors
+export default function SaveSearchButton({ search, defaultName }: SaveSearchButtonProps) {
+  const { toast } = useToast();
+  const { isMember } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [digestFrequency, setDigestFrequency] = useState<SavedSearchDigestFrequency>("none");
+
+  const mutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/saved-searches", {
+      ...search,
+      q: search.q?.trim() || undefined,
+      name: name.trim(),
+      digestFrequency,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Search saved",
+        description: "We'll count new and updated matches on your Saved Searches page.",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save search."), variant: "destructive" });
+    },
+  });
+
+  if (!isMember) return null;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-2"
+        onClick={() => {
+          setName(defaultName);
+          setDigestFrequency("none");
+          setOpen(true);
+        }}
+        data-testid="button-save-search"
+      >
+        <BellPlus className="h-4 w-4" />
+        Save Search
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save This Search</DialogTitle>
+            <DialogDescription>
+              Keep these filters for later and see when resources matching them are added or updated.{" "}
+              <Link href="/dashboard/saved-searches" className="underline">Your saved searches</Link>
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                data-testid="input-saved-search-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Email me about new matches</Label>
+              <Select value={digestFrequency} onValueChange={(value) => setDigestFrequency(value as SavedSearchDigestFrequency)}>
+                <SelectTrigger data-testid="select-saved-search-digest">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_FREQUENCY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={mutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => mutation.mutate()}
+              disabled={mutation.isPending || !name.trim()}
+              data-testid="button-confirm-save-search"
+            >
+              Save Search
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
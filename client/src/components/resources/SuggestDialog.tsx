@@ -1,36 +1,31 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { Plus, Loader2 } from "lucide-react";
-
-const suggestResourceSchema = z.object({
-  title: z.string().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
-  url: z.string().url("Please enter a valid URL").optional().or(z.literal("")),
-  type: z.string().min(1, "Resource type is required"),
-  note: z.string().max(1000, "Note must be less than 1000 characters").optional(),
-});
-
-type SuggestResourceData = z.infer<typeof suggestResourceSchema>;
+import ResourceSubmissionFields, { RESOURCE_SUBMISSION_TYPES } from "@/components/resources/ResourceSubmissionFields";
+import type { ResourceType } from "@shared/schema";
 
 interface SuggestResourcePayload {
-  type: "resource_suggestion";
-  title: string;
-  url?: string;
-  resourceType: string;
+  type: ResourceType;
+  fields: Record<string, string>;
   note?: string;
 }
 
+// Carries the existing resource when the suggestion is already in the library
+class ResourceSubmissionError extends Error {
+  constructor(message: string, public resource?: { id: string; title: string }) {
+    super(message);
+  }
+}
+
 async function submitResourceSuggestion(data: SuggestResourcePayload) {
-  const response = await fetch('/api/feedback', {
+  const response = await fetch('/api/resource-submissions', {
     method: 'POST',
     credentials: 'include',
     headers: {
@@ -39,54 +34,48 @@ async function submitResourceSuggestion(data: SuggestResourcePayload) {
     body: JSON.stringify(data),
   });
 
+  const body = await response.json().catch(() => ({}));
   if (!response.ok) {
-    throw new Error('Failed to submit resource suggestion');
+    throw new ResourceSubmissionError(body.message || 'Failed to submit resource suggestion', body.resource);
   }
 
-  return response.json();
+  return body;
 }
 
 export function SuggestDialog() {
   const [open, setOpen] = useState(false);
+  const [type, setType] = useState<ResourceType | "">("");
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [note, setNote] = useState("");
   const { toast } = useToast();
 
-  const form = useForm<SuggestResourceData>({
-    resolver: zodResolver(suggestResourceSchema),
-    defaultValues: {
-      title: "",
-      url: "",
-      type: "",
-      note: "",
-    },
-  });
-
   const mutation = useMutation({
     mutationFn: submitResourceSuggestion,
     onSuccess: () => {
       toast({
         title: "Resource suggestion submitted",
-        description: "Thank you for helping us expand our resource library!",
+        description: "Thank you! We'll email you once an editor has reviewed it.",
       });
-      form.reset();
+      setType("");
+      setFields({});
+      setNote("");
       setOpen(false);
     },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to submit resource suggestion. Please try again.",
-        variant: "destructive",
-      });
-    },
   });
 
-  const onSubmit = (data: SuggestResourceData) => {
-    mutation.mutate({
-      type: "resource_suggestion",
-      title: data.title,
-      url: data.url || undefined,
-      resourceType: data.type,
-      note: data.note || undefined,
-    });
+  const duplicate = mutation.error instanceof ResourceSubmissionError ? mutation.error.resource : undefined;
+
+  const handleTypeChange = (value: string) => {
+    // Title, URL and summary carry over; type-specific details don't
+    setType(value as ResourceType);
+    setFields({ title: fields.title ?? "", url: fields.url ?? "", summary: fields.summary ?? "" });
+    mutation.reset();
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!type) return;
+    mutation.mutate({ type, fields, note: note.trim() || undefined });
   };
 
   return (
@@ -97,7 +86,7 @@ export function SuggestDialog() {
           Suggest a resource
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Suggest a resource</DialogTitle>
           <DialogDescription>
@@ -105,112 +94,81 @@ export function SuggestDialog() {
           </DialogDescription>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="title"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Title *</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="e.g., Cornell Greenhouse Production Guide"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="url"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>URL</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="https://example.com/resource"
-                      type="url"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="type"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Resource Type *</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select resource type" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="university">University/Extension</SelectItem>
-                      <SelectItem value="organization">Organization</SelectItem>
-                      <SelectItem value="grant">Grant/Funding</SelectItem>
-                      <SelectItem value="tool">Tool/Software</SelectItem>
-                      <SelectItem value="education">Educational Material</SelectItem>
-                      <SelectItem value="template">Template/Document</SelectItem>
-                      <SelectItem value="consultant">Consultant/Service</SelectItem>
-                      <SelectItem value="article">Article/Publication</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
+        <form onSubmit={onSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="suggest-type">Resource Type *</Label>
+            <Select value={type} onValueChange={handleTypeChange}>
+              <SelectTrigger id="suggest-type" data-testid="select-suggest-type">
+                <SelectValue placeholder="Select resource type" />
+              </SelectTrigger>
+              <SelectContent>
+                {RESOURCE_SUBMISSION_TYPES.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type && (
+            <>
+              <ResourceSubmissionFields
+                type={type}
+                values={fields}
+                onChange={setFields}
+                disabled={mutation.isPending}
+              />
+
+              <div className="space-y-2">
+                <Label htmlFor="suggest-note">Additional notes</Label>
+                <Textarea
+                  id="suggest-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Why is this resource valuable? Anything the editors should know?"
+                  className="min-h-[80px] resize-none"
+                  maxLength={1000}
+                  data-testid="textarea-suggest-note"
+                />
+              </div>
+            </>
+          )}
+
+          {mutation.error && (
+            <p className="text-sm text-red-600" role="alert" data-testid="text-suggest-error">
+              {mutation.error.message}
+              {duplicate && (
+                <>
+                  {": "}
+                  <Link href={`/dashboard/resources/${duplicate.id}`} className="underline" onClick={() => setOpen(false)}>
+                    {duplicate.title}
+                  </Link>
+                </>
               )}
-            />
-
-            <FormField
-              control={form.control}
-              name="note"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Additional notes</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="Why is this resource valuable? What topics does it cover?"
-                      className="min-h-[80px] resize-none"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={mutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!type || mutation.isPending}>
+              {mutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Submitting...
+                </>
+              ) : (
+                "Submit suggestion"
               )}
-            />
-
-            <div className="flex justify-end gap-3">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => setOpen(false)}
-                disabled={mutation.isPending}
-              >
-                Cancel
-              </Button>
-              <Button type="submit" disabled={mutation.isPending}>
-                {mutation.isPending ? (
-                  <>
-                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                    Submitting...
-                  </>
-                ) : (
-                  "Submit suggestion"
-                )}
-              </Button>
-            </div>
-          </form>
-        </Form>
+            </Button>
+          </div>
+        </form>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
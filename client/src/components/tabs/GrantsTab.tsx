@@ -11,9 +11,11 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Sheet, SheetContent, SheetTrigger, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Calendar, ExternalLink, Download, AlertCircle, RefreshCw, DollarSign, Clock, Building, Filter } from "lucide-react";
-import { useResources, Resource, ResourceFilters } from "@/hooks/useResources";
+import { useResources, getResourceExportUrl, Resource, ResourceFilters, ResourceExportFormat, UseResourcesParams } from "@/hooks/useResources";
 import SearchBox from "@/components/SearchBox";
+import SaveSearchButton from "@/components/resources/SaveSearchButton";
 import { trackTabView, trackResourceClick } from "@/lib/analytics";
 
 interface GrantsTabProps {
@@ -52,24 +54,42 @@ const US_STATES = [
 
 const STATUS_OPTIONS = ['Open', 'Closed', 'Rolling'];
 
+type GrantSort = NonNullable<UseResourcesParams['sort']>;
+
+// Sorts a grants link can ask for; anything else falls back to due date
+const GRANT_SORTS: GrantSort[] = ['relevance', 'title', 'newest', 'quality', 'rating', 'dueDate', 'agency', 'amount'];
+
 export default function GrantsTab({ onAnalyticsEvent }: GrantsTabProps) {
   // URL state management
   const [location, setLocation] = useLocation();
-  const urlParams = useMemo(() => new URLSearchParams(location.split('?')[1] || ''), [location]);
+  const urlParams = useMemo(() => new URLSearchParams(window.location.search), []);
+
+  // Filters from the URL (a shared link or a saved search) fill in the
+  // filter panel; any others are kept as they are
+  const urlFilters = useMemo<ResourceFilters | null>(() => {
+    const filtersParam = urlParams.get('filters');
+    if (!filtersParam) return null;
+    try {
+      return JSON.parse(filtersParam);
+    } catch {
+      return null;
+    }
+  }, [urlParams]);
+  const listFromUrl = (key: string) => urlFilters?.[key]?.split(',').filter(Boolean) ?? [];
   
   // Local state
   const [searchQuery, setSearchQuery] = useState(urlParams.get('q') || '');
   const [filters, setFilters] = useState<ResourceFilters>(() => {
-    const filtersParam = urlParams.get('filters');
-    return filtersParam ? JSON.parse(filtersParam) : {};
+    const { hideExpired, amountMin, amountMax, focusAreas, orgTypes, regions, ...rest } = urlFilters ?? {};
+    return rest;
   });
-  const [sort, setSort] = useState(urlParams.get('sort') || 'dueDate');
-  const [hideExpired, setHideExpired] = useState(true);
-  const [minAmount, setMinAmount] = useState<string>('');
-  const [maxAmount, setMaxAmount] = useState<string>('');
-  const [selectedFocusAreas, setSelectedFocusAreas] = useState<string[]>([]);
-  const [selectedOrgTypes, setSelectedOrgTypes] = useState<string[]>([]);
-  const [selectedStates, setSelectedStates] = useState<string[]>([]);
+  const [sort, setSort] = useState<GrantSort>(() => GRANT_SORTS.find(option => option === urlParams.get('sort')) ?? 'dueDate');
+  const [hideExpired, setHideExpired] = useState(urlFilters ? urlFilters.hideExpired === 'true' : true);
+  const [minAmount, setMinAmount] = useState<string>(urlFilters?.amountMin ?? '');
+  const [maxAmount, setMaxAmount] = useState<string>(urlFilters?.amountMax ?? '');
+  const [selectedFocusAreas, setSelectedFocusAreas] = useState<string[]>(() => listFromUrl('focusAreas'));
+  const [selectedOrgTypes, setSelectedOrgTypes] = useState<string[]>(() => listFromUrl('orgTypes'));
+  const [selectedStates, setSelectedStates] = useState<string[]>(() => listFromUrl('regions'));
   const [filtersOpen, setFiltersOpen] = useState(false);
   const [selectedResource, setSelectedResource] = useState<Resource | null>(null);
   const [resourceModalOpen, setResourceModalOpen] = useState(false);
@@ -116,16 +136,19 @@ export default function GrantsTab({ onAnalyticsEvent }: GrantsTabProps) {
     type: 'grants',
     query: searchQuery,
     filters: grantsFilters,
-    sort: sort as any,
+    sort,
     enabled: true
   });
 
   const grants = data?.items || [];
   const totalCount = data?.total || 0;
 
-  // Update URL when filters/search change
+  // Update URL when filters/search change, keeping the other params (the tab)
   useEffect(() => {
-    const params = new URLSearchParams();
+    const params = new URLSearchParams(window.location.search);
+    params.delete('q');
+    params.delete('filters');
+    params.delete('sort');
     
     if (searchQuery.trim()) {
       params.set('q', searchQuery.trim());
@@ -141,10 +164,9 @@ export default function GrantsTab({ onAnalyticsEvent }: GrantsTabProps) {
     
     const newSearch = params.toString();
     const basePath = location.split('?')[0];
-    const newLocation = newSearch ? `${basePath}?${newSearch}` : basePath;
     
-    if (newLocation !== location) {
-      setLocation(newLocation);
+    if (newSearch !== window.location.search.replace(/^\?/, '')) {
+      setLocation(newSearch ? `${basePath}?${newSearch}` : basePath);
     }
   }, [searchQuery, grantsFilters, sort, location, setLocation]);
 
@@ -179,37 +201,21 @@ export default function GrantsTab({ onAnalyticsEvent }: GrantsTabProps) {
   }, [onAnalyticsEvent]);
 
   // Handle column sort
-  const handleSort = useCallback((column: string) => {
+  const handleSort = useCallback((column: GrantSort) => {
     setSort(column);
   }, []);
 
-  // Export to CSV
-  const handleExportCSV = useCallback(() => {
-    if (grants.length === 0) return;
-    
-    const headers = ['Grant Name', 'Agency', 'Amount Range', 'Focus Areas', 'Due Date', 'Status', 'URL'];
-    const csvData = grants.map(grant => [
-      grant.title,
-      grant.data?.agency || '',
-      formatAmountRange(grant.data?.award_min, grant.data?.award_max),
-      (grant.data?.focusAreas || []).join('; '),
-      grant.data?.due_date || '',
-      grant.data?.status || '',
-      grant.data?.applyUrls?.grantsGov || grant.url
-    ]);
-    
-    const csvContent = [headers, ...csvData]
-      .map(row => row.map(cell => `"${cell.toString().replace(/"/g, '""')}"`).join(','))
-      .join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `grants-export-${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
-    
-    onAnalyticsEvent?.('grants_export', { count: grants.length });
-  }, [grants, onAnalyticsEvent]);
+  // Exports run server-side over every matching grant, not just this page
+  const exportUrl = (format: ResourceExportFormat) => getResourceExportUrl({
+    type: 'grants',
+    query: searchQuery,
+    filters: grantsFilters,
+    sort
+  }, format);
+
+  const handleExport = useCallback((format: ResourceExportFormat) => {
+    onAnalyticsEvent?.('grants_export', { count: totalCount, format });
+  }, [totalCount, onAnalyticsEvent]);
 
   // Retry function for errors
   const handleRetry = useCallback(() => {
@@ -263,156 +269,163 @@ export default function GrantsTab({ onAnalyticsEvent }: GrantsTabProps) {
           className="max-w-md flex-1"
         />
         
-        {/* Collapsible Filters */}
-        <Sheet open={filtersOpen} onOpenChange={setFiltersOpen}>
-          <SheetTrigger asChild>
-            <Button variant="outline" size="sm" className="flex items-center gap-2">
-              <Filter className="h-4 w-4" />
-              Filters
-              {(Object.keys(grantsFilters).length > 0 || selectedFocusAreas.length > 0 || selectedOrgTypes.length > 0 || selectedStates.length > 0 || minAmount || maxAmount) && (
-                <Badge variant="secondary" className="ml-1 h-5 min-w-5 text-xs">
-                  {Object.keys(grantsFilters).length + selectedFocusAreas.length + selectedOrgTypes.length + selectedStates.length + (minAmount ? 1 : 0) + (maxAmount ? 1 : 0)}
-                </Badge>
-              )}
-            </Button>
-          </SheetTrigger>
-          <SheetContent className="w-[400px] sm:max-w-[400px] overflow-y-auto">
-            <SheetHeader>
-              <SheetTitle>Filter Grants</SheetTitle>
-            </SheetHeader>
-            <div className="mt-6 space-y-6">
-              {/* Amount Range */}
-              <div>
-                <label className="text-sm font-medium mb-3 block">Amount Range</label>
-                <div className="space-y-3">
-                  <div>
-                    <label htmlFor="min-amount" className="text-xs text-gray-600 mb-1 block">Minimum Amount</label>
-                    <Input
-                      id="min-amount"
-                      type="number"
-                      placeholder="e.g., 50000"
-                      value={minAmount}
-                      onChange={(e) => setMinAmount(e.target.value)}
-                      className="w-full"
-                    />
-                  </div>
-                  <div>
-                    <label htmlFor="max-amount" className="text-xs text-gray-600 mb-1 block">Maximum Amount</label>
-                    <Input
-                      id="max-amount"
-                      type="number"
-                      placeholder="e.g., 500000"
-                      value={maxAmount}
-                      onChange={(e) => setMaxAmount(e.target.value)}
-                      className="w-full"
-                    />
+        <div className="flex items-center gap-2">
+          <SaveSearchButton
+            search={{ type: 'grants', q: searchQuery, filters: grantsFilters, sort }}
+            defaultName={searchQuery.trim() ? `Grants: ${searchQuery.trim()}` : 'Grants'}
+          />
+
+          {/* Collapsible Filters */}
+          <Sheet open={filtersOpen} onOpenChange={setFiltersOpen}>
+            <SheetTrigger asChild>
+              <Button variant="outline" size="sm" className="flex items-center gap-2">
+                <Filter className="h-4 w-4" />
+                Filters
+                {(Object.keys(grantsFilters).length > 0 || selectedFocusAreas.length > 0 || selectedOrgTypes.length > 0 || selectedStates.length > 0 || minAmount || maxAmount) && (
+                  <Badge variant="secondary" className="ml-1 h-5 min-w-5 text-xs">
+                    {Object.keys(grantsFilters).length + selectedFocusAreas.length + selectedOrgTypes.length + selectedStates.length + (minAmount ? 1 : 0) + (maxAmount ? 1 : 0)}
+                  </Badge>
+                )}
+              </Button>
+            </SheetTrigger>
+            <SheetContent className="w-[400px] sm:max-w-[400px] overflow-y-auto">
+              <SheetHeader>
+                <SheetTitle>Filter Grants</SheetTitle>
+              </SheetHeader>
+              <div className="mt-6 space-y-6">
+                {/* Amount Range */}
+                <div>
+                  <label className="text-sm font-medium mb-3 block">Amount Range</label>
+                  <div className="space-y-3">
+                    <div>
+                      <label htmlFor="min-amount" className="text-xs text-gray-600 mb-1 block">Minimum Amount</label>
+                      <Input
+                        id="min-amount"
+                        type="number"
+                        placeholder="e.g., 50000"
+                        value={minAmount}
+                        onChange={(e) => setMinAmount(e.target.value)}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="max-amount" className="text-xs text-gray-600 mb-1 block">Maximum Amount</label>
+                      <Input
+                        id="max-amount"
+                        type="number"
+                        placeholder="e.g., 500000"
+                        value={maxAmount}
+                        onChange={(e) => setMaxAmount(e.target.value)}
+                        className="w-full"
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Enter amounts in dollars (e.g., 50000 for $50,000)
+                    </div>
                   </div>
-                  <div className="text-xs text-gray-500">
-                    Enter amounts in dollars (e.g., 50000 for $50,000)
+                </div>
+
+                {/* Focus Areas */}
+                <div>
+                  <label className="text-sm font-medium mb-3 block">Focus Areas</label>
+                  <div className="grid grid-cols-1 gap-3">
+                    {FOCUS_AREAS.map(area => (
+                      <div key={area} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`filter-${area}`}
+                          checked={selectedFocusAreas.includes(area)}
+                          onCheckedChange={(checked) => {
+                            setSelectedFocusAreas(prev => 
+                              checked 
+                                ? [...prev, area]
+                                : prev.filter(a => a !== area)
+                            );
+                          }}
+                        />
+                        <label htmlFor={`filter-${area}`} className="text-sm">{area}</label>
+                      </div>
+                    ))}
                   </div>
                 </div>
-              </div>
 
-              {/* Focus Areas */}
-              <div>
-                <label className="text-sm font-medium mb-3 block">Focus Areas</label>
-                <div className="grid grid-cols-1 gap-3">
-                  {FOCUS_AREAS.map(area => (
-                    <div key={area} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`filter-${area}`}
-                        checked={selectedFocusAreas.includes(area)}
-                        onCheckedChange={(checked) => {
-                          setSelectedFocusAreas(prev => 
-                            checked 
-                              ? [...prev, area]
-                              : prev.filter(a => a !== area)
-                          );
-                        }}
-                      />
-                      <label htmlFor={`filter-${area}`} className="text-sm">{area}</label>
-                    </div>
-                  ))}
+                {/* Organization Types */}
+                <div>
+                  <label className="text-sm font-medium mb-3 block">Organization Type Eligibility</label>
+                  <div className="grid grid-cols-1 gap-3">
+                    {ORG_TYPES.map(type => (
+                      <div key={type} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`org-${type}`}
+                          checked={selectedOrgTypes.includes(type)}
+                          onCheckedChange={(checked) => {
+                            setSelectedOrgTypes(prev => 
+                              checked 
+                                ? [...prev, type]
+                                : prev.filter(t => t !== type)
+                            );
+                          }}
+                        />
+                        <label htmlFor={`org-${type}`} className="text-sm">{type}</label>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
 
-              {/* Organization Types */}
-              <div>
-                <label className="text-sm font-medium mb-3 block">Organization Type Eligibility</label>
-                <div className="grid grid-cols-1 gap-3">
-                  {ORG_TYPES.map(type => (
-                    <div key={type} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`org-${type}`}
-                        checked={selectedOrgTypes.includes(type)}
-                        onCheckedChange={(checked) => {
-                          setSelectedOrgTypes(prev => 
-                            checked 
-                              ? [...prev, type]
-                              : prev.filter(t => t !== type)
-                          );
-                        }}
-                      />
-                      <label htmlFor={`org-${type}`} className="text-sm">{type}</label>
-                    </div>
-                  ))}
+                {/* States/Regions */}
+                <div>
+                  <label className="text-sm font-medium mb-3 block">Eligible Regions/States</label>
+                  <Select
+                    value={selectedStates[0] || ''}
+                    onValueChange={(value) => {
+                      if (value) {
+                        setSelectedStates([value]);
+                      } else {
+                        setSelectedStates([]);
+                      }
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select state..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {US_STATES.map(state => (
+                        <SelectItem key={state} value={state}>{state}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
 
-              {/* States/Regions */}
-              <div>
-                <label className="text-sm font-medium mb-3 block">Eligible Regions/States</label>
-                <Select
-                  value={selectedStates[0] || ''}
-                  onValueChange={(value) => {
-                    if (value) {
-                      setSelectedStates([value]);
-                    } else {
-                      setSelectedStates([]);
-                    }
+                {/* Hide Expired Toggle */}
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="filter-hide-expired"
+                    checked={hideExpired}
+                    onCheckedChange={setHideExpired}
+                  />
+                  <label htmlFor="filter-hide-expired" className="text-sm font-medium">Hide expired grants</label>
+                </div>
+                
+                {/* Clear Filters */}
+                <Button 
+                  variant="outline" 
+                  onClick={() => {
+                    setSearchQuery('');
+                    setFilters({});
+                    setSelectedFocusAreas([]);
+                    setSelectedOrgTypes([]);
+                    setSelectedStates([]);
+                    setMinAmount('');
+                    setMaxAmount('');
+                    setHideExpired(true);
                   }}
+                  className="w-full"
                 >
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select state..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {US_STATES.map(state => (
-                      <SelectItem key={state} value={state}>{state}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Hide Expired Toggle */}
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="filter-hide-expired"
-                  checked={hideExpired}
-                  onCheckedChange={setHideExpired}
-                />
-                <label htmlFor="filter-hide-expired" className="text-sm font-medium">Hide expired grants</label>
+                  Clear All Filters
+                </Button>
               </div>
-              
-              {/* Clear Filters */}
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setSearchQuery('');
-                  setFilters({});
-                  setSelectedFocusAreas([]);
-                  setSelectedOrgTypes([]);
-                  setSelectedStates([]);
-                  setMinAmount('');
-                  setMaxAmount('');
-                  setHideExpired(true);
-                }}
-                className="w-full"
-              >
-                Clear All Filters
-              </Button>
-            </div>
-          </SheetContent>
-        </Sheet>
+            </SheetContent>
+          </Sheet>
+        </div>
       </div>
 
       {/* Results Summary and Export */}
@@ -421,16 +434,37 @@ export default function GrantsTab({ onAnalyticsEvent }: GrantsTabProps) {
           <strong>{totalCount}</strong> {totalCount === 1 ? 'grant' : 'grants'} found
           {(Object.keys(grantsFilters).length > 0 || selectedFocusAreas.length > 0 || selectedOrgTypes.length > 0 || selectedStates.length > 0 || searchQuery.trim() || minAmount || maxAmount) ? ' (filtered)' : ''}
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleExportCSV}
-          disabled={grants.length === 0}
-          className="flex items-center gap-2"
-        >
-          <Download className="h-4 w-4" />
-          Export CSV
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={totalCount === 0}
+              className="flex items-center gap-2"
+              data-testid="button-export-grants"
+            >
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <a href={exportUrl('csv')} download onClick={() => handleExport('csv')} data-testid="link-export-grants-csv">
+                CSV
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href={exportUrl('xlsx')} download onClick={() => handleExport('xlsx')} data-testid="link-export-grants-xlsx">
+                Excel
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href={exportUrl('json')} download onClick={() => handleExport('json')} data-testid="link-export-grants-json">
+                JSON
+              </a>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Error State */}
@@ -8,6 +8,7 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { useParamState } from '@/hooks/useQueryParams';
 import { useResources } from '@/hooks/useResources';
 import SearchBox from '@/components/SearchBox';
+import SaveSearchButton from '@/components/resources/SaveSearchButton';
 import { type Resource, type ResourceFilters } from '@/hooks/useResources';
 import { trackTabView, trackResourceClick } from '@/lib/analytics';
 import { 
@@ -55,11 +56,20 @@ const FORMAT_CATEGORIES = [
 
 export default function LearningTab({ onAnalyticsEvent }: LearningTabProps) {
   
-  // State
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState({
-    category: 'all',
-    costType: 'all'
+  // State, starting from the URL when it came from a saved search
+  const [urlParams] = useState(() => new URLSearchParams(window.location.search));
+  const [searchQuery, setSearchQuery] = useState(urlParams.get('q') || '');
+  const [filters, setFilters] = useState(() => {
+    let urlFilters: ResourceFilters = {};
+    try {
+      urlFilters = JSON.parse(urlParams.get('filters') || '{}');
+    } catch {
+      // Ignore a malformed link and show everything
+    }
+    return {
+      category: urlFilters.category || 'all',
+      costType: urlFilters.costType || 'all'
+    };
   });
   const [selectedResource, setSelectedResource] = useState<Resource | null>(null);
   const [resourceModalOpen, setResourceModalOpen] = useState(false);
@@ -83,11 +93,16 @@ export default function LearningTab({ onAnalyticsEvent }: LearningTabProps) {
     onAnalyticsEvent?.('tab_view', { tab: 'learning' });
   }, [onAnalyticsEvent]);
 
+  const activeFilters = useMemo(
+    () => Object.fromEntries(Object.entries(filters).filter(([_, v]) => v && v !== 'all')) as Record<string, string>,
+    [filters]
+  );
+
   // Data fetching
   const { data, isLoading, error } = useResources({
     type: 'learning',
     query: searchQuery,
-    filters: Object.fromEntries(Object.entries(filters).filter(([_, v]) => v && v !== 'all')) as ResourceFilters,
+    filters: activeFilters,
   });
 
   const courses = data?.items || [];
@@ -250,6 +265,11 @@ export default function LearningTab({ onAnalyticsEvent }: LearningTabProps) {
               ))}
             </SelectContent>
           </Select>
+
+          <SaveSearchButton
+            search={{ type: 'learning', q: searchQuery, filters: activeFilters, sort: 'relevance' }}
+            defaultName={Object.keys(activeFilters).length > 0 ? `Learning: ${Object.values(activeFilters).join(', ')}` : 'Learning'}
+          />
           
           
         </div>
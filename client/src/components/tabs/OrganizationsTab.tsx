@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,10 +6,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ExternalLink, Building2, AlertCircle, RefreshCw, Globe, MapPin, Users } from "lucide-react";
+import { ExternalLink, Building2, AlertCircle, RefreshCw, Globe, MapPin, Navigation, Users } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useResources, Resource, ResourceFilters } from "@/hooks/useResources";
+import { useResources, formatDistance, Resource, ResourceFilters } from "@/hooks/useResources";
 import SearchBox from "@/components/SearchBox";
+import NearMeFilter, { nearMemberLocation, useMemberLocation } from "@/components/resources/NearMeFilter";
 import { trackTabView, trackResourceClick } from "@/lib/analytics";
 import { useParamState } from "@/hooks/useQueryParams";
 
@@ -53,6 +54,11 @@ export default function OrganizationsTab({ onAnalyticsEvent }: OrganizationsTabP
   });
   const [selectedResource, setSelectedResource] = useState<Resource | null>(null);
   const [resourceModalOpen, setResourceModalOpen] = useState(false);
+  const [radiusMiles, setRadiusMiles] = useState<number | null>(null);
+
+  // Members see the closest organizations first
+  const { data: memberLocation } = useMemberLocation();
+  const location = useMemo(() => nearMemberLocation(memberLocation, radiusMiles), [memberLocation, radiusMiles]);
 
   // Track tab view on mount
   useEffect(() => {
@@ -65,6 +71,8 @@ export default function OrganizationsTab({ onAnalyticsEvent }: OrganizationsTabP
     type: 'organizations',
     query: searchQuery,
     filters: Object.fromEntries(Object.entries(filters).filter(([_, v]) => v && v !== 'all')) as ResourceFilters,
+    location,
+    sort: location ? 'distance' : 'relevance',
     enabled: true
   });
 
@@ -174,6 +182,8 @@ export default function OrganizationsTab({ onAnalyticsEvent }: OrganizationsTabP
               ))}
             </SelectContent>
           </Select>
+
+          <NearMeFilter radiusMiles={radiusMiles} onChange={setRadiusMiles} />
         </div>
       </div>
 
@@ -181,6 +191,7 @@ export default function OrganizationsTab({ onAnalyticsEvent }: OrganizationsTabP
       {!isLoading && (
         <div className="text-sm text-gray-600">
           {totalCount} {totalCount === 1 ? 'organization' : 'organizations'} found
+          {radiusMiles !== null ? ` within ${radiusMiles} miles of ${memberLocation?.label}` : ''}
           {searchQuery.trim() ? ' (filtered)' : ''}
         </div>
       )}
@@ -291,6 +302,12 @@ export default function OrganizationsTab({ onAnalyticsEvent }: OrganizationsTabP
                             <span>{focusArea}</span>
                           </div>
                         )}
+                        {organization.distance_km != null && (
+                          <div className="flex items-center gap-1 text-xs text-gray-500">
+                            <Navigation className="h-3 w-3" />
+                            <span>{formatDistance(organization.distance_km)} away</span>
+                          </div>
+                        )}
                       </div>
                       
                       {description && (
@@ -329,8 +346,8 @@ export default function OrganizationsTab({ onAnalyticsEvent }: OrganizationsTabP
           <Building2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No organizations found</h3>
           <p className="text-gray-600 mb-4">
-            {searchQuery.trim()
-              ? "Try adjusting your search to find more results."
+            {searchQuery.trim() || radiusMiles !== null
+              ? "Try adjusting your search or distance to find more results."
               : "No organizations are currently available."}
           </p>
           {searchQuery.trim() && (
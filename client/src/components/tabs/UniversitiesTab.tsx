@@ -6,10 +6,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ExternalLink, MapPin, GraduationCap, AlertCircle, RefreshCw, Map } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useInfiniteResources, useResourcesList, Resource, ResourceFilters } from "@/hooks/useResources";
+import { useInfiniteResources, useResourcesList, formatDistance, Resource, ResourceFilters } from "@/hooks/useResources";
 import { useParamState } from "@/hooks/useQueryParams";
 import { UniversityMapWithLoading } from "@/components/LazyComponents";
 import SearchBox from "@/components/SearchBox";
+import NearMeFilter, { nearMemberLocation, useMemberLocation } from "@/components/resources/NearMeFilter";
 import { trackTabView, trackResourceClick } from "@/lib/analytics";
 
 interface UniversitiesTabProps {
@@ -22,11 +23,16 @@ export default function UniversitiesTab({ onAnalyticsEvent }: UniversitiesTabPro
   // Use empty filters and search since user said overall filter doesn't need to be there
   const filters = useMemo(() => ({} as ResourceFilters), []);
   const searchQuery = '';
-  const sort = 'relevance';
   
   // Local state
   const [selectedUniversity, setSelectedUniversity] = useState<Resource | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [radiusMiles, setRadiusMiles] = useState<number | null>(null);
+
+  // Members see the closest universities first
+  const { data: memberLocation } = useMemberLocation();
+  const location = useMemo(() => nearMemberLocation(memberLocation, radiusMiles), [memberLocation, radiusMiles]);
+  const sort = location ? 'distance' : 'relevance';
 
   // Track tab view on mount
   useEffect(() => {
@@ -39,7 +45,8 @@ export default function UniversitiesTab({ onAnalyticsEvent }: UniversitiesTabPro
     type: 'universities',
     query: '',
     filters,
-    sort: sort as any,
+    location,
+    sort,
     enabled: true
   });
 
@@ -110,6 +117,7 @@ export default function UniversitiesTab({ onAnalyticsEvent }: UniversitiesTabPro
 
       {/* Universities Map Section */}
       <div className="space-y-4">
+        <NearMeFilter radiusMiles={radiusMiles} onChange={setRadiusMiles} />
         
         {/* Map Content */}
         <div className="space-y-4">
@@ -139,7 +147,9 @@ export default function UniversitiesTab({ onAnalyticsEvent }: UniversitiesTabPro
               <Map className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No universities to display on map</h3>
               <p className="text-gray-600">
-                No universities with location data are currently available.
+                {radiusMiles !== null
+                  ? `No universities within ${radiusMiles} miles of ${memberLocation?.label}. Try a larger distance.`
+                  : 'No universities with location data are currently available.'}
               </p>
             </div>
           )}
@@ -203,6 +213,9 @@ export default function UniversitiesTab({ onAnalyticsEvent }: UniversitiesTabPro
                                     <MapPin className="h-4 w-4" />
                                     {university.data?.city}, {university.data?.state}
                                     {university.data?.country !== 'USA' && `, ${university.data?.country}`}
+                                    {university.distance_km != null && (
+                                      <span className="text-gray-500">· {formatDistance(university.distance_km)} away</span>
+                                    )}
                                   </div>
                                   <p className="text-sm text-gray-600 line-clamp-2">
                                     {university.summary}
@@ -6,6 +6,9 @@ import AdminDashboardHome from "@/components/AdminDashboardHome";
 
 // Lazy load admin pages
 const AdminResources = lazy(() => import("@/pages/AdminResources"));
+const AdminResourceSubmissions = lazy(() => import("@/pages/AdminResourceSubmissions"));
+const AdminResourceRatings = lazy(() => import("@/pages/AdminResourceRatings"));
+const AdminResourceCollections = lazy(() => import("@/pages/AdminResourceCollections"));
 const AdminBlog = lazy(() => import("@/pages/AdminBlog"));
 const AdminMembers = lazy(() => import("@/pages/AdminMembers"));
 const AdminChallenges = lazy(() => import("@/pages/AdminChallenges"));
@@ -13,6 +16,7 @@ const AdminExpertRequests = lazy(() => import("@/pages/AdminExpertRequests"));
 const AdminFarmRoadmapManager = lazy(() => import("@/pages/AdminFarmRoadmapManager"));
 const AdminAnalytics = lazy(() => import("@/pages/AdminAnalytics"));
 const AdminAiAgents = lazy(() => import("@/pages/AdminAiAgents"));
+const AdminAuditLog = lazy(() => import("@/pages/AdminAuditLog"));
 
 export default function AdminWrapper() {
   const [location] = useLocation();
@@ -27,6 +31,24 @@ export default function AdminWrapper() {
           </LazyWrapper>
         </Route>
         
+        <Route path="/admin/resource-submissions">
+          <LazyWrapper>
+            <AdminResourceSubmissions />
+          </LazyWrapper>
+        </Route>
+
+        <Route path="/admin/resource-ratings">
+          <LazyWrapper>
+            <AdminResourceRatings />
+          </LazyWrapper>
+        </Route>
+
+        <Route path="/admin/resource-collections">
+          <LazyWrapper>
+            <AdminResourceCollections />
+          </LazyWrapper>
+        </Route>
+
         <Route path="/admin/blog">
           <LazyWrapper>
             <AdminBlog />
@@ -69,6 +91,12 @@ export default function AdminWrapper() {
           </LazyWrapper>
         </Route>
 
+        <Route path="/admin/audit-log">
+          <LazyWrapper>
+            <AdminAuditLog />
+          </LazyWrapper>
+        </Route>
+
         {/* Redirects from old routes */}
         <Route path="/dashboard/admin">
           <Redirect to="/admin" />
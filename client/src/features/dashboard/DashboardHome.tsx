@@ -24,6 +24,7 @@ import {
 } from "lucide-react";
 
 import ChallengeSubmissionForm from "@/components/ChallengeSubmissionForm";
+import FeaturedCollections from "@/components/resources/FeaturedCollections";
 
 export default function DashboardHome() {
   const { user } = useAuth();
@@ -276,6 +277,9 @@ export default function DashboardHome() {
         </div>
       </div>
 
+      {/* Featured Collections */}
+      {!isDemo && <FeaturedCollections />}
+
       {/* Contact UGGA Team Section */}
       <Card className="mb-10">
         <CardHeader>
@@ -14,9 +14,13 @@ const ProductHub = lazy(() => import("@/pages/ProductHub"));
 const FarmRoadmap = lazy(() => import("@/pages/FarmRoadmap"));
 const FindGrower = lazy(() => import("@/pages/FindGrower"));
 const Profile = lazy(() => import("@/pages/Profile"));
+const Farm = lazy(() => import("@/pages/Farm"));
 const ResourceDetail = lazy(() => import("@/pages/ResourceDetail"));
 const SavedResources = lazy(() => import("@/pages/SavedResources"));
 const Favorites = lazy(() => import("@/pages/Favorites"));
+const Collections = lazy(() => import("@/pages/Collections"));
+const CollectionDetail = lazy(() => import("@/pages/CollectionDetail"));
+const SavedSearches = lazy(() => import("@/pages/SavedSearches"));
 
 interface DashboardWrapperProps {
   isDemo?: boolean;
@@ -98,12 +102,36 @@ export default function DashboardWrapper({ isDemo = false }: DashboardWrapperPro
             </LazyWrapper>
           </Route>
           
+          <Route path={`${basePath}/farm`}>
+            <LazyWrapper>
+              <Farm />
+            </LazyWrapper>
+          </Route>
+          
           <Route path={`${basePath}/favorites`}>
             <LazyWrapper>
               <Favorites />
             </LazyWrapper>
           </Route>
           
+          <Route path={`${basePath}/collections`}>
+            <LazyWrapper>
+              <Collections />
+            </LazyWrapper>
+          </Route>
+          
+          <Route path={`${basePath}/collections/:id`}>
+            <LazyWrapper>
+              <CollectionDetail />
+            </LazyWrapper>
+          </Route>
+          
+          <Route path={`${basePath}/saved-searches`}>
+            <LazyWrapper>
+              <SavedSearches />
+            </LazyWrapper>
+          </Route>
+          
           {/* Dashboard Home Route - must be last for specificity */}
           <Route path={basePath}>
             <DashboardHome />
@@ -1,8 +1,11 @@
 import { useQuery } from "@tanstack/react-query";
-import { type User, type Profile } from "@shared/schema";
+import { type User, type Profile, type Permission, MEMBER_ROLES, hasPermission } from "@shared/schema";
+import { canAccessAdmin } from "@/lib/adminSections";
 
 export interface AuthUser extends User {
   profile?: Profile;
+  twoFactorEnabled?: boolean;
+  twoFactorRequired?: boolean;
 }
 
 export function useAuth() {
@@ -16,8 +19,11 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user && !error,
-    isMember: user?.role === "MEMBER" || user?.role === "ADMIN",
+    isMember: !!user && MEMBER_ROLES.includes(user.role),
     isAdmin: user?.role === "ADMIN",
+    // Staff roles (moderator, content editor, expert) get part of the admin tools
+    canAccessAdmin: canAccessAdmin(user?.role),
+    can: (permission: Permission) => hasPermission(user?.role, permission),
     refetch,
   };
 }
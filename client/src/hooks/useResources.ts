@@ -10,11 +10,31 @@ export interface ResourceFilters {
   [key: string]: any;
 }
 
+// Limits results to a radius around `near` and/or a bounding box; resources
+// without coordinates never match
+export interface ResourceLocation {
+  near?: { lat: number; lng: number };
+  radiusKm?: number;
+  bbox?: { west: number; south: number; east: number; north: number };
+}
+
+// GET /api/profile/location: where "near me" searches start from
+export interface MemberLocation {
+  lat: number;
+  lng: number;
+  label: string;
+  precision: 'county' | 'state';
+}
+
 export interface UseResourcesParams {
   type?: string;
   query?: string;
   filters?: ResourceFilters;
-  sort?: 'relevance' | 'title' | 'newest' | 'quality';
+  location?: ResourceLocation;
+  // distance needs location.near; dueDate, agency and amount only sort
+  // grants, provider and cost only learning resources
+  sort?: 'relevance' | 'title' | 'newest' | 'quality' | 'rating' | 'distance'
+    | 'dueDate' | 'agency' | 'amount' | 'provider' | 'cost';
   enabled?: boolean;
 }
 
@@ -31,6 +51,11 @@ export interface Resource {
   long?: number | null;
   ugga_verified?: boolean;
   quality_score?: number;
+  rating_average?: number | null; // Published member ratings, 1-5
+  rating_count?: number;
+  distance_km?: number | null; // From location.near, when given
+  // Search snippets with matches wrapped in <mark>, only when searching
+  highlights?: { title: string; summary: string | null } | null;
 }
 
 export interface ResourcesResponse {
@@ -39,6 +64,40 @@ export interface ResourcesResponse {
   total: number;
 }
 
+export interface ResourceFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface ResourceFacetsResponse {
+  // Keyed by filter name, e.g. topics, crop, focusAreas
+  facets: Record<string, ResourceFacetValue[]>;
+  total: number;
+}
+
+function setLocationParams(params: URLSearchParams, location?: ResourceLocation) {
+  if (location?.near) {
+    params.set('near', `${location.near.lat},${location.near.lng}`);
+    if (location.radiusKm !== undefined) params.set('radiusKm', String(location.radiusKm));
+  }
+  if (location?.bbox) {
+    const { west, south, east, north } = location.bbox;
+    params.set('bbox', `${west},${south},${east},${north}`);
+  }
+}
+
+const KM_PER_MILE = 1.609344;
+
+export function milesToKm(miles: number): number {
+  return miles * KM_PER_MILE;
+}
+
+// Distances are shown in miles, e.g. "12 mi"
+export function formatDistance(km: number): string {
+  const miles = km / KM_PER_MILE;
+  return `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi`;
+}
+
 /**
  * Custom hook for fetching resources with React Query
  * Implements stale-while-revalidate strategy with caching
@@ -47,10 +106,11 @@ export function useResources({
   type,
   query,
   filters = {},
+  location,
   sort = 'relevance',
   enabled = true
 }: UseResourcesParams) {
-  const queryKey = ['resources', type, query, JSON.stringify(filters), sort];
+  const queryKey = ['resources', type, query, JSON.stringify(filters), JSON.stringify(location), sort];
   
   return useQuery<ResourcesResponse>({
     queryKey,
@@ -62,6 +122,7 @@ export function useResources({
       if (Object.keys(filters).length > 0) {
         params.set('filters', JSON.stringify(filters));
       }
+      setLocationParams(params, location);
       params.set('sort', sort);
       params.set('limit', '20');
       
@@ -82,10 +143,11 @@ export function useInfiniteResources({
   type,
   query,
   filters = {},
+  location,
   sort = 'relevance',
   enabled = true
 }: UseResourcesParams) {
-  const queryKey = ['resources-infinite', type, query, JSON.stringify(filters), sort];
+  const queryKey = ['resources-infinite', type, query, JSON.stringify(filters), JSON.stringify(location), sort];
   
   return useInfiniteQuery({
     queryKey,
@@ -97,6 +159,7 @@ export function useInfiniteResources({
       if (Object.keys(filters).length > 0) {
         params.set('filters', JSON.stringify(filters));
       }
+      setLocationParams(params, location);
       params.set('sort', sort);
       params.set('limit', '20');
       if (pageParam) params.set('cursor', pageParam);
@@ -118,4 +181,60 @@ export function useInfiniteResources({
  */
 export function useResourcesList(infiniteQuery: ReturnType<typeof useInfiniteResources>) {
   return infiniteQuery.data?.pages.flatMap((page: ResourcesResponse) => page.items) || [];
-}
\ No newline at end of file
+}
+export type ResourceExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * Download URL for every resource matching the type, search and filters,
+ * not just the pages loaded so far
+ */
+export function getResourceExportUrl(
+  { type, query, filters = {}, location, sort = 'relevance' }: Omit<UseResourcesParams, 'enabled'>,
+  format: ResourceExportFormat
+): string {
+  const params = new URLSearchParams();
+
+  if (type) params.set('type', type);
+  if (query?.trim()) params.set('q', query.trim());
+  if (Object.keys(filters).length > 0) {
+    params.set('filters', JSON.stringify(filters));
+  }
+  setLocationParams(params, location);
+  params.set('sort', sort);
+  params.set('format', format);
+
+  return `/api/resources/export?${params.toString()}`;
+}
+
+/**
+ * Hook for per-value facet counts under the current type, search and filters
+ */
+export function useResourceFacets({
+  type,
+  query,
+  filters = {},
+  location,
+  enabled = true
+}: Omit<UseResourcesParams, 'sort'>) {
+  const queryKey = ['resource-facets', type, query, JSON.stringify(filters), JSON.stringify(location)];
+
+  return useQuery<ResourceFacetsResponse>({
+    queryKey,
+    queryFn: async () => {
+      const params = new URLSearchParams();
+
+      if (type) params.set('type', type);
+      if (query?.trim()) params.set('q', query.trim());
+      if (Object.keys(filters).length > 0) {
+        params.set('filters', JSON.stringify(filters));
+      }
+      setLocationParams(params, location);
+
+      return apiRequest('GET', `/api/resources/facets?${params.toString()}`);
+    },
+    enabled,
+    staleTime: 1 * 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false
+  });
+}
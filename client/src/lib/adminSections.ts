@@ -0,0 +1,26 @@
+import { Permission, Role, hasPermission } from "@shared/schema";
+
+// Admin tool sections that staff roles can use. Sections not listed here
+// (members, analytics, feedback, farm roadmap, AI agents) are admin-only.
+export const ADMIN_SECTION_PERMISSIONS: Record<string, Permission> = {
+  "/admin/resources": Permission.RESOURCES_EDIT,
+  "/admin/resource-submissions": Permission.RESOURCES_EDIT,
+  "/admin/resource-ratings": Permission.FORUM_MODERATE,
+  "/admin/resource-collections": Permission.RESOURCES_EDIT,
+  "/admin/blog": Permission.BLOG_PUBLISH,
+  "/admin/expert-requests": Permission.EXPERT_ANSWER,
+};
+
+export function canAccessAdminSection(role: Role | string | null | undefined, path: string): boolean {
+  if (role === Role.ADMIN) return true;
+  if (path === "/admin") return canAccessAdmin(role);
+
+  const section = Object.keys(ADMIN_SECTION_PERMISSIONS).find(
+    sectionPath => path === sectionPath || path.startsWith(`${sectionPath}/`)
+  );
+  return !!section && hasPermission(role, ADMIN_SECTION_PERMISSIONS[section]);
+}
+
+export function canAccessAdmin(role: Role | string | null | undefined): boolean {
+  return role === Role.ADMIN || Object.values(ADMIN_SECTION_PERMISSIONS).some(permission => hasPermission(role, permission));
+}
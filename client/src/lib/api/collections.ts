@@ -0,0 +1,43 @@
+import type { ResourceCollection, ResourceCollectionItem, ResourceCollectionShare } from "@shared/schema";
+
+export type ResourceCollectionAccess = "owner" | "shared" | "viewer";
+
+// Collections of other members come without their share token
+export type CollectionSummary = Omit<ResourceCollection, "shareToken"> & {
+  shareToken?: string;
+  itemCount: number;
+  ownerName: string | null;
+};
+
+export interface CollectionItemEntry extends ResourceCollectionItem {
+  resource: {
+    id: string;
+    title: string;
+    url: string;
+    type: string | null;
+    summary: string | null;
+    image_url: string | null;
+    rating_average: number | null;
+    rating_count: number;
+    ugga_verified: boolean;
+  };
+}
+
+export type CollectionShareEntry = ResourceCollectionShare & { username: string | null; email: string | null };
+
+export interface CollectionDetailResponse {
+  collection: Omit<ResourceCollection, "shareToken"> & { shareToken?: string };
+  access: ResourceCollectionAccess;
+  items: CollectionItemEntry[];
+  shares?: CollectionShareEntry[]; // Owner only
+}
+
+export const VISIBILITY_OPTIONS = [
+  { value: "private", label: "Private", description: "Only you and the members you share it with" },
+  { value: "link", label: "Anyone with the link", description: "Also anyone you send the share link to" },
+  { value: "public", label: "Public", description: "Any member, and admins can feature it on the dashboard" },
+] as const;
+
+export function collectionShareUrl(shareToken: string): string {
+  return `${window.location.origin}/collections/shared/${shareToken}`;
+}
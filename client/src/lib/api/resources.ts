@@ -44,6 +44,8 @@ export interface Resource {
   ugga_verified?: boolean;
   last_verified_at?: string | Date;
   quality_score?: number;
+  rating_average?: number | null;
+  rating_count?: number;
   version?: string;
   data?: Record<string, any>;
   lat?: number;
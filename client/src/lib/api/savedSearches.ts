@@ -0,0 +1,49 @@
+import type { ResourceType, SavedSearch, SavedSearchDigestFrequency } from "@shared/schema";
+
+export type SavedSearchEntry = Omit<SavedSearch, "unsubscribeToken">;
+
+export interface SavedSearchMatch {
+  id: string;
+  title: string;
+  url: string;
+  type: ResourceType | null;
+  summary: string | null;
+  changedAt: string;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  type: ResourceType;
+  q?: string;
+  filters: Record<string, string>;
+  sort: string;
+  digestFrequency: SavedSearchDigestFrequency;
+}
+
+export const DIGEST_FREQUENCY_OPTIONS: { value: SavedSearchDigestFrequency; label: string }[] = [
+  { value: "none", label: "No emails" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest" },
+];
+
+// Resource library tab each type is listed on
+const TAB_FOR_TYPE: Record<ResourceType, string> = {
+  universities: "universities",
+  organizations: "organizations",
+  grants: "grants",
+  tools: "tools-templates",
+  templates: "tools-templates",
+  learning: "learning",
+  bulletins: "blogs-bulletins",
+  industry_news: "industry-news",
+};
+
+// The resource library with the saved search's tab, query, filters and sort applied
+export function savedSearchResultsPath(search: Pick<SavedSearch, "type" | "q" | "filters" | "sort">): string {
+  const params = new URLSearchParams();
+  if (search.type) params.set("tab", TAB_FOR_TYPE[search.type]);
+  if (search.q) params.set("q", search.q);
+  if (Object.keys(search.filters).length > 0) params.set("filters", JSON.stringify(search.filters));
+  if (search.sort !== "relevance") params.set("sort", search.sort);
+  return `/dashboard/resources?${params.toString()}`;
+}
@@ -0,0 +1,289 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, ScrollText, Loader2, ChevronDown, ChevronRight } from "lucide-react";
+import { format } from "date-fns";
+import type { AdminAuditLog as AuditLogEntry } from "@shared/schema";
+
+interface AuditLogResponse {
+  items: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const PAGE_SIZE = 50;
+
+const ENTITY_TYPES = [
+  { value: "user", label: "Members" },
+  { value: "resource", label: "Resources" },
+  { value: "blog_post", label: "Blog Posts" },
+  { value: "grower_challenge", label: "Feedback" },
+  { value: "expert_request", label: "Expert Requests" },
+  { value: "farm_roadmap_category", label: "Roadmap Categories" },
+  { value: "farm_roadmap_question", label: "Roadmap Questions" },
+  { value: "ai_agent_config", label: "AI Agent Configs" },
+  { value: "app_setting", label: "Settings" },
+  { value: "resource_import_batch", label: "Resource Imports" },
+  { value: "forum_post", label: "Forum Posts" },
+  { value: "forum_comment", label: "Forum Comments" },
+  { value: "resource_image", label: "Resource Images" },
+  { value: "blog_image", label: "Blog Images" },
+];
+
+const getActionColor = (action: string) => {
+  if (action.endsWith(".delete")) return "bg-red-100 text-red-800";
+  if (action.endsWith(".create")) return "bg-green-100 text-green-800";
+  return "bg-blue-100 text-blue-800";
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+export default function AdminAuditLog() {
+  const [actor, setActor] = useState("");
+  const [action, setAction] = useState("");
+  const [entityType, setEntityType] = useState("all");
+  const [entityId, setEntityId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
+
+  const filterParams = new URLSearchParams();
+  if (actor) filterParams.append("actor", actor);
+  if (action) filterParams.append("action", action);
+  if (entityType !== "all") filterParams.append("entityType", entityType);
+  if (entityId) filterParams.append("entityId", entityId);
+  if (from) filterParams.append("from", new Date(from).toISOString());
+  // "to" is inclusive of the whole selected day
+  if (to) filterParams.append("to", new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000).toISOString());
+
+  const listParams = new URLSearchParams(filterParams);
+  listParams.append("page", String(page));
+  listParams.append("pageSize", String(PAGE_SIZE));
+
+  const { data, isLoading } = useQuery<AuditLogResponse>({
+    queryKey: [`/api/admin/audit-log?${listParams.toString()}`],
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total || 0) / PAGE_SIZE));
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const exportUrl = (fileFormat: "csv" | "json") => {
+    const params = new URLSearchParams(filterParams);
+    params.append("format", fileFormat);
+    return `/api/admin/audit-log/export?${params.toString()}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-gray-600 mt-1">
+              Every change made through the admin tools, with who made it and what changed
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" className="flex items-center gap-2">
+              <a href={exportUrl("json")} download data-testid="link-export-audit-json">
+                <Download className="h-4 w-4" />
+                Export JSON
+              </a>
+            </Button>
+            <Button asChild className="flex items-center gap-2">
+              <a href={exportUrl("csv")} download data-testid="link-export-audit-csv">
+                <Download className="h-4 w-4" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardContent className="p-6 grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">Actor</Label>
+              <Input
+                id="audit-actor"
+                placeholder="Email or user ID"
+                value={actor}
+                onChange={(e) => updateFilter(setActor)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-action">Action</Label>
+              <Input
+                id="audit-action"
+                placeholder="e.g. member.update"
+                value={action}
+                onChange={(e) => updateFilter(setAction)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Entity Type</Label>
+              <Select value={entityType} onValueChange={updateFilter(setEntityType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {ENTITY_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity-id">Entity ID</Label>
+              <Input
+                id="audit-entity-id"
+                value={entityId}
+                onChange={(e) => updateFilter(setEntityId)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-ugga-primary" />
+              </div>
+            ) : !data?.items.length ? (
+              <div className="text-center py-12">
+                <ScrollText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">No audit entries match these filters.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>When</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.items.map(entry => {
+                    const changes = Object.entries(entry.changes || {});
+                    const isExpanded = expandedEntry === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedEntry(isExpanded ? null : entry.id)}
+                          data-testid={`row-audit-${entry.id}`}
+                        >
+                          <TableCell>
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-sm">
+                            {format(new Date(entry.createdAt), "yyyy-MM-dd HH:mm:ss")}
+                          </TableCell>
+                          <TableCell className="text-sm">{entry.actorEmail || entry.actorId || "—"}</TableCell>
+                          <TableCell>
+                            <Badge className={getActionColor(entry.action)}>{entry.action}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <div>{entry.entityType}</div>
+                            {entry.entityId && <div className="text-xs text-gray-500 font-mono">{entry.entityId}</div>}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">{entry.ipAddress || "—"}</TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow>
+                            <TableCell />
+                            <TableCell colSpan={5} className="bg-gray-50">
+                              <div className="text-xs text-gray-500 mb-2">
+                                {entry.method} {entry.path}
+                              </div>
+                              {changes.length > 0 ? (
+                                <table className="w-full text-sm">
+                                  <thead>
+                                    <tr className="text-left text-gray-500">
+                                      <th className="py-1 pr-4 font-medium">Field</th>
+                                      <th className="py-1 pr-4 font-medium">Before</th>
+                                      <th className="py-1 font-medium">After</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {changes.map(([field, change]) => (
+                                      <tr key={field} className="align-top">
+                                        <td className="py-1 pr-4 font-mono text-xs">{field}</td>
+                                        <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                        <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              ) : (
+                                <p className="text-sm text-gray-600">No field-level changes recorded.</p>
+                              )}
+                              {entry.metadata && (
+                                <pre className="mt-2 text-xs bg-white border rounded p-2 overflow-x-auto">
+                                  {JSON.stringify(entry.metadata, null, 2)}
+                                </pre>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pagination */}
+        {data && data.total > PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-gray-600">
+              {data.total} entries · Page {page} of {totalPages}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
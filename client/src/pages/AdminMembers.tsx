@@ -5,14 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { type User, type Profile, Role } from "@shared/schema";
-import { Search, Users, MapPin, Calendar, Loader2, Plus, Edit2 } from "lucide-react";
+import { type User, type Profile, type SignInSettings, Role } from "@shared/schema";
+import { Search, Users, MapPin, Calendar, Loader2, Plus, Edit2, Lock, Unlock, Mail } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 
@@ -20,11 +21,21 @@ interface MemberWithProfile extends User {
   profile: Profile;
 }
 
+const ROLE_OPTIONS: { value: Role; label: string; description: string }[] = [
+  { value: Role.MEMBER, label: "Member", description: "Standard member access" },
+  { value: Role.MODERATOR, label: "Moderator", description: "Can edit and remove forum posts and comments" },
+  { value: Role.CONTENT_EDITOR, label: "Content Editor", description: "Can manage the resource library and blog" },
+  { value: Role.EXPERT, label: "Expert", description: "Can answer expert requests" },
+  { value: Role.ADMIN, label: "Admin", description: "Full access, including members and AI settings" },
+];
+
+const getRoleLabel = (role: string) => ROLE_OPTIONS.find(option => option.value === role)?.label || role;
+
 const memberFormSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Invalid email address"),
   password: z.string().min(12, "Password must be at least 12 characters").optional(),
-  role: z.enum(["MEMBER", "ADMIN"]),
+  role: z.nativeEnum(Role),
   profile: z.object({
     name: z.string().min(1, "Name is required"),
     phone: z.string(),
@@ -118,6 +129,30 @@ export default function AdminMembers() {
     },
   });
 
+  const unlockMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/members/${id}/unlock`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to unlock member");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Member unlocked successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/members"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isLocked = (member: MemberWithProfile) =>
+    !!member.lockedUntil && new Date(member.lockedUntil).getTime() > Date.now();
+
   const allStates = Array.from(
     new Set(members?.map(member => member.profile.state).filter(Boolean) || [])
   ).sort();
@@ -138,6 +173,10 @@ export default function AdminMembers() {
     switch (role) {
       case "ADMIN":
         return "bg-red-100 text-red-800";
+      case "MODERATOR":
+      case "CONTENT_EDITOR":
+      case "EXPERT":
+        return "bg-blue-100 text-blue-800";
       case "MEMBER":
         return "bg-green-100 text-green-800";
       default:
@@ -351,9 +390,20 @@ export default function AdminMembers() {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={getRoleColor(member.role)}>
-                            {member.role}
-                          </Badge>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge className={getRoleColor(member.role)}>
+                              {getRoleLabel(member.role)}
+                            </Badge>
+                            {isLocked(member) && (
+                              <Badge
+                                className="bg-amber-100 text-amber-800"
+                                title={`Locked until ${new Date(member.lockedUntil!).toLocaleString()}`}
+                              >
+                                <Lock className="h-3 w-3 mr-1" />
+                                Locked
+                              </Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-1 text-sm text-gray-600">
@@ -372,6 +422,19 @@ export default function AdminMembers() {
                           >
                             <Edit2 className="h-4 w-4" />
                           </Button>
+                          {isLocked(member) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="ml-2"
+                              onClick={() => unlockMemberMutation.mutate(member.id)}
+                              disabled={unlockMemberMutation.isPending}
+                              title="Unlock account"
+                              data-testid={`button-unlock-member-${member.id}`}
+                            >
+                              <Unlock className="h-4 w-4" />
+                            </Button>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -382,6 +445,9 @@ export default function AdminMembers() {
           </CardContent>
         </Card>
 
+        {/* Sign-in Options */}
+        <SignInSettingsCard />
+
         {/* Edit Member Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -403,6 +469,85 @@ export default function AdminMembers() {
   );
 }
 
+function SignInSettingsCard() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<Required<SignInSettings>>({
+    queryKey: ["/api/admin/settings/sign-in"],
+  });
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (magicLinkDisabledRoles: Role[]) => {
+      const response = await fetch("/api/admin/settings/sign-in", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ magicLinkDisabledRoles }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to update sign-in settings");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Sign-in settings updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings/sign-in"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const disabledRoles = settings?.magicLinkDisabledRoles || [];
+
+  const toggleRole = (role: Role, enabled: boolean) => {
+    updateSettingsMutation.mutate(
+      enabled ? disabledRoles.filter(disabled => disabled !== role) : [...disabledRoles, role]
+    );
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Sign-In Links
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-4">
+          Choose which roles may sign in with a one-time link sent to their email instead of a password.
+          Two-factor authentication is still required where it's turned on.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-ugga-primary" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {ROLE_OPTIONS.map(option => (
+              <li key={option.value} className="flex items-center justify-between gap-4 py-3">
+                <div>
+                  <p className="font-medium text-gray-900">{option.label}</p>
+                  <p className="text-sm text-gray-500">{option.description}</p>
+                </div>
+                <Switch
+                  checked={!disabledRoles.includes(option.value)}
+                  onCheckedChange={(checked) => toggleRole(option.value, checked)}
+                  disabled={updateSettingsMutation.isPending}
+                  aria-label={`Allow email sign-in links for ${option.label}`}
+                  data-testid={`switch-magic-link-${option.value}`}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 interface MemberFormProps {
   member?: MemberWithProfile;
   onSubmit: (data: MemberFormData) => void;
@@ -417,7 +562,7 @@ function MemberForm({ member, onSubmit, isSubmitting, isCreate }: MemberFormProp
       username: member?.username || "",
       email: member?.email || "",
       password: "",
-      role: (member?.role as "MEMBER" | "ADMIN") || "MEMBER",
+      role: member?.role || Role.MEMBER,
       profile: {
         name: member?.profile?.name || "",
         phone: member?.profile?.phone || "",
@@ -501,10 +646,16 @@ function MemberForm({ member, onSubmit, isSubmitting, isCreate }: MemberFormProp
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="MEMBER">Member</SelectItem>
-                    <SelectItem value="ADMIN">Admin</SelectItem>
+                    {ROLE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-gray-500">
+                  {ROLE_OPTIONS.find(option => option.value === field.value)?.description}
+                </p>
                 <FormMessage />
               </FormItem>
             )}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Calendar, Library, Star, StarOff, User } from "lucide-react";
+import { format } from "date-fns";
+import type { CollectionSummary } from "@/lib/api/collections";
+
+const COLLECTIONS_QUERY_KEY = "/api/admin/resource-collections";
+const PAGE_SIZE = 25;
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function AdminResourceCollections() {
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<{ items: CollectionSummary[]; total: number }>({
+    queryKey: [COLLECTIONS_QUERY_KEY, page],
+    queryFn: () => apiRequest("GET", `${COLLECTIONS_QUERY_KEY}?page=${page}&pageSize=${PAGE_SIZE}`),
+  });
+
+  const featureMutation = useMutation({
+    mutationFn: ({ id, featured }: { id: string; featured: boolean }) =>
+      apiRequest("PUT", `${COLLECTIONS_QUERY_KEY}/${id}/featured`, { featured }),
+    onSuccess: (_result, { featured }) => {
+      queryClient.invalidateQueries({ queryKey: [COLLECTIONS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collections/featured"] });
+      toast({ title: featured ? "Collection featured" : "Collection no longer featured" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to update collection."), variant: "destructive" });
+    },
+  });
+
+  const items = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Collections</h1>
+          <p className="text-gray-600 mt-1">
+            Feature public member collections on the dashboard; featured ones are listed first
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Library className="h-5 w-5" />
+              Public Collections ({total})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {isLoading ? (
+                <div className="text-center py-8 text-gray-500">Loading collections...</div>
+              ) : items.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No public collections yet.</div>
+              ) : (
+                items.map(collection => (
+                  <div
+                    key={collection.id}
+                    className="border rounded-lg p-4 flex justify-between items-start gap-4"
+                    data-testid={`collection-${collection.id}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Link
+                          href={`/dashboard/collections/${collection.id}`}
+                          className="font-semibold text-gray-900 text-lg hover:text-ugga-primary"
+                        >
+                          {collection.title}
+                        </Link>
+                        {collection.featuredAt && (
+                          <Badge className="bg-yellow-100 text-yellow-800">
+                            Featured {format(new Date(collection.featuredAt), "MMM d, yyyy")}
+                          </Badge>
+                        )}
+                      </div>
+                      {collection.description && (
+                        <p className="text-sm text-gray-700 mt-1 line-clamp-2">{collection.description}</p>
+                      )}
+                      <div className="flex items-center gap-4 text-sm text-gray-600 flex-wrap mt-2">
+                        <span>{collection.itemCount} resource{collection.itemCount === 1 ? "" : "s"}</span>
+                        <div className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          <span className="font-medium">{collection.ownerName ?? "Deleted member"}</span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          Updated {format(new Date(collection.updatedAt), "MMM d, yyyy")}
+                        </div>
+                      </div>
+                    </div>
+                    {collection.featuredAt ? (
+                      <Button
+                        variant="outline"
+                        onClick={() => featureMutation.mutate({ id: collection.id, featured: false })}
+                        disabled={featureMutation.isPending}
+                        data-testid={`button-unfeature-collection-${collection.id}`}
+                      >
+                        <StarOff className="h-4 w-4 mr-1" />
+                        Unfeature
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={() => featureMutation.mutate({ id: collection.id, featured: true })}
+                        disabled={featureMutation.isPending}
+                        data-testid={`button-feature-collection-${collection.id}`}
+                      >
+                        <Star className="h-4 w-4 mr-1" />
+                        Feature
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {pageCount > 1 && (
+              <div className="flex justify-between items-center mt-6">
+                <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">Page {page} of {pageCount}</span>
+                <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Calendar, Eye, EyeOff, Star, Trash2, User } from "lucide-react";
+import { format } from "date-fns";
+import { RatingStars } from "@/components/resources/ResourceRatings";
+import type { ResourceRating, ResourceRatingStatus } from "@shared/schema";
+
+type ResourceRatingModerationEntry = ResourceRating & {
+  authorName: string | null;
+  resourceTitle: string | null;
+};
+
+const RATINGS_QUERY_KEY = "/api/admin/resource-ratings";
+const PAGE_SIZE = 25;
+
+const STATUS_OPTIONS: { value: ResourceRatingStatus; label: string; color: string }[] = [
+  { value: "published", label: "Published", color: "bg-green-100 text-green-700" },
+  { value: "hidden", label: "Hidden", color: "bg-gray-100 text-gray-700" },
+];
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export default function AdminResourceRatings() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ResourceRatingStatus>("published");
+  const [page, setPage] = useState(1);
+  const [moderationNotes, setModerationNotes] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ items: ResourceRatingModerationEntry[]; total: number }>({
+    queryKey: [RATINGS_QUERY_KEY, status, page],
+    queryFn: () => apiRequest("GET", `${RATINGS_QUERY_KEY}?status=${status}&page=${page}&pageSize=${PAGE_SIZE}`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [RATINGS_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+  };
+
+  const moderateMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ResourceRatingStatus }) =>
+      apiRequest("PUT", `${RATINGS_QUERY_KEY}/${id}`, { status, moderationNote: moderationNotes[id]?.trim() || undefined }),
+    onSuccess: (_result, { status }) => {
+      invalidate();
+      toast({ title: status === "hidden" ? "Review hidden" : "Review published" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to update review."), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `${RATINGS_QUERY_KEY}/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rating deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to delete rating."), variant: "destructive" });
+    },
+  });
+
+  const handleDelete = (rating: ResourceRatingModerationEntry) => {
+    if (window.confirm(`Delete ${rating.authorName ?? "this member"}'s rating? This can't be undone.`)) {
+      deleteMutation.mutate(rating.id);
+    }
+  };
+
+  const items = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const isSaving = moderateMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Ratings &amp; Reviews</h1>
+            <p className="text-gray-600 mt-1">
+              Hide reviews that are abusive, off-topic or spam; hidden ratings don't count towards a resource's average
+            </p>
+          </div>
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as ResourceRatingStatus);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-40" data-testid="select-rating-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Star className="h-5 w-5" />
+              {STATUS_OPTIONS.find(option => option.value === status)?.label} Ratings ({total})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {isLoading ? (
+                <div className="text-center py-8 text-gray-500">Loading ratings...</div>
+              ) : items.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No ratings found.</div>
+              ) : (
+                items.map(rating => {
+                  const statusOption = STATUS_OPTIONS.find(option => option.value === rating.status)!;
+
+                  return (
+                    <div key={rating.id} className="border rounded-lg p-4 space-y-3" data-testid={`rating-${rating.id}`}>
+                      <div className="flex justify-between items-start gap-4">
+                        <div className="flex-1 min-w-0">
+                          <Link
+                            href={`/dashboard/resources/${rating.resourceId}`}
+                            className="font-semibold text-gray-900 text-lg hover:text-ugga-primary"
+                          >
+                            {rating.resourceTitle ?? "Deleted resource"}
+                          </Link>
+                          <div className="flex items-center gap-4 text-sm text-gray-600 flex-wrap mt-2">
+                            <RatingStars value={rating.rating} />
+                            <div className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              <span className="font-medium">{rating.authorName ?? "Deleted member"}</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {format(new Date(rating.updatedAt), "MMM d, yyyy 'at' h:mm a")}
+                            </div>
+                          </div>
+                        </div>
+                        <Badge className={statusOption.color}>{statusOption.label}</Badge>
+                      </div>
+
+                      {rating.review ? (
+                        <p className="text-sm text-gray-700 whitespace-pre-wrap">{rating.review}</p>
+                      ) : (
+                        <p className="text-sm text-gray-500 italic">No written review.</p>
+                      )}
+
+                      {rating.status === "hidden" && rating.moderatedAt && (
+                        <div className="text-sm text-gray-600">
+                          Hidden on {format(new Date(rating.moderatedAt), "MMM d, yyyy")}
+                          {rating.moderationNote && <p className="mt-1 whitespace-pre-wrap">Note: {rating.moderationNote}</p>}
+                        </div>
+                      )}
+
+                      <div className="border-t pt-3 space-y-3">
+                        {rating.status === "published" && (
+                          <Textarea
+                            placeholder="Optional note for other editors on why it was hidden"
+                            value={moderationNotes[rating.id] ?? ""}
+                            onChange={(e) => setModerationNotes({ ...moderationNotes, [rating.id]: e.target.value })}
+                            rows={2}
+                            data-testid={`textarea-moderation-note-${rating.id}`}
+                          />
+                        )}
+                        <div className="flex flex-wrap justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            onClick={() => handleDelete(rating)}
+                            disabled={isSaving}
+                            data-testid={`button-delete-rating-${rating.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                          {rating.status === "published" ? (
+                            <Button
+                              variant="outline"
+                              onClick={() => moderateMutation.mutate({ id: rating.id, status: "hidden" })}
+                              disabled={isSaving}
+                              data-testid={`button-hide-rating-${rating.id}`}
+                            >
+                              <EyeOff className="h-4 w-4 mr-1" />
+                              Hide
+                            </Button>
+                          ) : (
+                            <Button
+                              onClick={() => moderateMutation.mutate({ id: rating.id, status: "published" })}
+                              disabled={isSaving}
+                              data-testid={`button-publish-rating-${rating.id}`}
+                            >
+                              <Eye className="h-4 w-4 mr-1" />
+                              Publish
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {pageCount > 1 && (
+              <div className="flex justify-between items-center mt-6">
+                <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">Page {page} of {pageCount}</span>
+                <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Calendar, Check, Edit, ExternalLink, Inbox, Mail, User, X } from "lucide-react";
+import { format } from "date-fns";
+import ResourceSubmissionFields, {
+  RESOURCE_SUBMISSION_TYPES,
+  toSubmissionFieldValues,
+} from "@/components/resources/ResourceSubmissionFields";
+import {
+  RESOURCE_SUBMISSION_FIELDS,
+  type ResourceSubmission,
+  type ResourceSubmissionStatus,
+  type ResourceType,
+} from "@shared/schema";
+
+type ResourceSubmissionEntry = ResourceSubmission & {
+  submitterName: string | null;
+  submitterEmail: string | null;
+};
+
+const SUBMISSIONS_QUERY_KEY = "/api/admin/resource-submissions";
+const PAGE_SIZE = 25;
+
+const STATUS_OPTIONS: { value: ResourceSubmissionStatus; label: string; color: string }[] = [
+  { value: "pending", label: "Pending", color: "bg-yellow-100 text-yellow-700" },
+  { value: "accepted", label: "Accepted", color: "bg-green-100 text-green-700" },
+  { value: "rejected", label: "Rejected", color: "bg-gray-100 text-gray-700" },
+];
+
+const typeLabel = (type: ResourceType) => RESOURCE_SUBMISSION_TYPES.find(option => option.id === type)?.label ?? type;
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function formatDetail(value: unknown): string {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+export default function AdminResourceSubmissions() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ResourceSubmissionStatus>("pending");
+  const [page, setPage] = useState(1);
+  const [editing, setEditing] = useState<{ id: string; type: ResourceType; fields: Record<string, string> } | null>(null);
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<{ items: ResourceSubmissionEntry[]; total: number }>({
+    queryKey: [SUBMISSIONS_QUERY_KEY, status, page],
+    queryFn: () => apiRequest("GET", `${SUBMISSIONS_QUERY_KEY}?status=${status}&page=${page}&pageSize=${PAGE_SIZE}`),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [SUBMISSIONS_QUERY_KEY] });
+
+  const saveMutation = useMutation({
+    mutationFn: (edit: NonNullable<typeof editing>) =>
+      apiRequest("PUT", `${SUBMISSIONS_QUERY_KEY}/${edit.id}`, { type: edit.type, fields: edit.fields }),
+    onSuccess: () => {
+      setEditing(null);
+      invalidate();
+      toast({ title: "Submission updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to update submission."), variant: "destructive" });
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: "accept" | "reject" }): Promise<{ emailSent: boolean }> =>
+      apiRequest("POST", `${SUBMISSIONS_QUERY_KEY}/${id}/${decision}`, { reviewNote: reviewNotes[id]?.trim() || undefined }),
+    onSuccess: (result, { decision }) => {
+      invalidate();
+      if (decision === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      }
+      toast({
+        title: decision === "accept" ? "Added to the library" : "Submission rejected",
+        description: result.emailSent ? "The submitter has been notified by email." : "The notification email could not be sent.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to update submission."), variant: "destructive" });
+    },
+  });
+
+  const handleReject = (submission: ResourceSubmissionEntry) => {
+    if (window.confirm(`Reject "${submission.title}"? The submitter will be notified.`)) {
+      decideMutation.mutate({ id: submission.id, decision: "reject" });
+    }
+  };
+
+  const items = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Resource Submissions</h1>
+            <p className="text-gray-600 mt-1">
+              Review resources suggested by members and add the good ones to the library
+            </p>
+          </div>
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as ResourceSubmissionStatus);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-40" data-testid="select-submission-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5" />
+              {STATUS_OPTIONS.find(option => option.value === status)?.label} Submissions ({total})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {isLoading ? (
+                <div className="text-center py-8 text-gray-500">Loading submissions...</div>
+              ) : items.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No submissions found.</div>
+              ) : (
+                items.map(submission => {
+                  const statusOption = STATUS_OPTIONS.find(option => option.value === submission.status)!;
+                  const isEditing = editing?.id === submission.id;
+                  const details = RESOURCE_SUBMISSION_FIELDS[submission.type]
+                    .filter(field => submission.data[field.value] !== undefined)
+                    .map(field => ({ label: field.label, value: formatDetail(submission.data[field.value]) }));
+
+                  return (
+                    <div key={submission.id} className="border rounded-lg p-4 space-y-3" data-testid={`submission-${submission.id}`}>
+                      <div className="flex justify-between items-start gap-4">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-3 mb-2 flex-wrap">
+                            <h3 className="font-semibold text-gray-900 text-lg">{submission.title}</h3>
+                            <Badge variant="outline" className="text-xs">{typeLabel(submission.type)}</Badge>
+                          </div>
+                          <a
+                            href={submission.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-ugga-primary hover:text-ugga-secondary flex items-center gap-1 mb-2"
+                          >
+                            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                            <span className="truncate">{submission.url}</span>
+                          </a>
+                          <div className="flex items-center gap-4 text-sm text-gray-600 flex-wrap">
+                            <div className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              <span className="font-medium">{submission.submitterName ?? "Deleted member"}</span>
+                            </div>
+                            {submission.submitterEmail && (
+                              <div className="flex items-center gap-1">
+                                <Mail className="h-3 w-3" />
+                                <span>{submission.submitterEmail}</span>
+                              </div>
+                            )}
+                            <div className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {format(new Date(submission.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                            </div>
+                          </div>
+                        </div>
+                        <Badge className={statusOption.color}>{statusOption.label}</Badge>
+                      </div>
+
+                      {isEditing ? (
+                        <div className="space-y-4 bg-blue-50 rounded-md p-4">
+                          <div className="space-y-2">
+                            <Label>Resource Type</Label>
+                            <Select
+                              value={editing.type}
+                              onValueChange={(value) => setEditing({ ...editing, type: value as ResourceType })}
+                            >
+                              <SelectTrigger className="bg-white">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {RESOURCE_SUBMISSION_TYPES.map(option => (
+                                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <ResourceSubmissionFields
+                            type={editing.type}
+                            values={editing.fields}
+                            onChange={(fields) => setEditing({ ...editing, fields })}
+                            disabled={saveMutation.isPending}
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" onClick={() => setEditing(null)} disabled={saveMutation.isPending}>
+                              Cancel
+                            </Button>
+                            <Button onClick={() => saveMutation.mutate(editing)} disabled={saveMutation.isPending}>
+                              Save Changes
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          {submission.summary && (
+                            <p className="text-sm text-gray-700 whitespace-pre-wrap">{submission.summary}</p>
+                          )}
+                          {details.length > 0 && (
+                            <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                              {details.map(detail => (
+                                <div key={detail.label} className="flex gap-2">
+                                  <dt className="text-gray-500">{detail.label}:</dt>
+                                  <dd className="text-gray-900">{detail.value}</dd>
+                                </div>
+                              ))}
+                            </dl>
+                          )}
+                        </>
+                      )}
+
+                      {submission.note && (
+                        <div className="bg-gray-50 rounded-md p-3">
+                          <p className="text-sm font-medium text-gray-700 mb-1">Note from the member:</p>
+                          <p className="text-sm text-gray-700 whitespace-pre-wrap">{submission.note}</p>
+                        </div>
+                      )}
+
+                      {submission.status === "pending" && !isEditing && (
+                        <div className="border-t pt-3 space-y-3">
+                          <Textarea
+                            placeholder="Optional note to the member, sent with your decision"
+                            value={reviewNotes[submission.id] ?? ""}
+                            onChange={(e) => setReviewNotes({ ...reviewNotes, [submission.id]: e.target.value })}
+                            rows={2}
+                            data-testid={`textarea-review-note-${submission.id}`}
+                          />
+                          <div className="flex flex-wrap justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              onClick={() => setEditing({ id: submission.id, type: submission.type, fields: toSubmissionFieldValues(submission) })}
+                              data-testid={`button-edit-submission-${submission.id}`}
+                            >
+                              <Edit className="h-4 w-4 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              onClick={() => handleReject(submission)}
+                              disabled={decideMutation.isPending}
+                              data-testid={`button-reject-submission-${submission.id}`}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                            <Button
+                              onClick={() => decideMutation.mutate({ id: submission.id, decision: "accept" })}
+                              disabled={decideMutation.isPending}
+                              data-testid={`button-accept-submission-${submission.id}`}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Add to Library
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
+                      {submission.status !== "pending" && (
+                        <div className="border-t pt-3 text-sm text-gray-600">
+                          {statusOption.label}
+                          {submission.reviewedAt && ` on ${format(new Date(submission.reviewedAt), "MMM d, yyyy")}`}
+                          {submission.reviewNote && <p className="mt-1 whitespace-pre-wrap">Note: {submission.reviewNote}</p>}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {pageCount > 1 && (
+              <div className="flex justify-between items-center mt-6">
+                <Button variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">Page {page} of {pageCount}</span>
+                <Button variant="outline" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
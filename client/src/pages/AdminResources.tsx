@@ -9,12 +9,16 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { getResourceExportUrl, type ResourceExportFormat } from "@/hooks/useResources";
 import { type Resource, type ResourceType } from "@shared/schema";
-import { Plus, Edit, Trash2, ExternalLink, Search, Loader2, Upload, FileDown, CheckCircle, AlertCircle, BookOpen, Building2, DollarSign, Receipt, Wrench, GraduationCap, Newspaper, Radio } from "lucide-react";
+import { Plus, Edit, Trash2, ExternalLink, Search, Loader2, Upload, FileDown, CheckCircle, AlertCircle, BookOpen, Building2, DollarSign, Receipt, Wrench, GraduationCap, Newspaper, Radio, History } from "lucide-react";
 import ResourceTypeForm from "@/components/admin/ResourceTypeForm";
-import CSVImporter from "@/components/admin/CSVImporter";
+import CSVImporter, { type ResourceImportResponse } from "@/components/admin/CSVImporter";
+import ImportHistory, { IMPORT_BATCHES_QUERY_KEY } from "@/components/admin/ImportHistory";
+import ReviewQueue, { REVIEW_QUEUE_QUERY_KEY } from "@/components/admin/ReviewQueue";
 
 // Resource type definitions with proper icons
 const RESOURCE_TYPES = [
@@ -52,6 +56,7 @@ export default function AdminResources() {
   const [selectedResources, setSelectedResources] = useState<Set<string>>(new Set());
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isImportHistoryOpen, setIsImportHistoryOpen] = useState(false);
 
   const { toast } = useToast();
 
@@ -106,6 +111,7 @@ export default function AdminResources() {
       apiRequest("PUT", `/api/admin/resources/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      queryClient.invalidateQueries({ queryKey: [REVIEW_QUEUE_QUERY_KEY] });
       setEditingResource(null);
       setIsFormDialogOpen(false);
       toast({
@@ -127,6 +133,7 @@ export default function AdminResources() {
       Promise.all(ids.map(id => apiRequest("DELETE", `/api/admin/resources/${id}`))),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+      queryClient.invalidateQueries({ queryKey: [REVIEW_QUEUE_QUERY_KEY] });
       setSelectedResources(new Set());
       toast({
         title: "Success",
@@ -142,33 +149,6 @@ export default function AdminResources() {
     },
   });
 
-  const importResourcesMutation = useMutation({
-    mutationFn: async (data: any[]) => {
-      // Since we don't have the import endpoint yet, we'll create resources one by one
-      const results = await Promise.all(
-        data.map(resource => 
-          apiRequest("POST", "/api/admin/resources", { ...resource, type: selectedResourceType })
-        )
-      );
-      return { imported: results.length };
-    },
-    onSuccess: (result) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
-      setIsImportDialogOpen(false);
-      toast({
-        title: "Success",
-        description: `Imported ${result.imported} resources successfully.`,
-      });
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to import resources.",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Filter resources
   const filteredResources = resources.filter((resource: Resource) =>
     resource.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -191,6 +171,19 @@ export default function AdminResources() {
     setIsFormDialogOpen(true);
   }, []);
 
+  // The review queue only has ids; resources beyond the loaded list are fetched
+  const handleEditById = useCallback(async (id: string) => {
+    try {
+      handleEdit(resources.find(r => r.id === id) ?? await apiRequest("GET", `/api/resources/${id}`));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load resource.",
+        variant: "destructive",
+      });
+    }
+  }, [resources, handleEdit, toast]);
+
   const handleDelete = useCallback((id: string) => {
     if (confirm("Are you sure you want to delete this resource?")) {
       deleteResourceMutation.mutate([id]);
@@ -224,46 +217,20 @@ export default function AdminResources() {
     }
   }, [selectedResources, filteredResources]);
 
-  const handleImport = useCallback(async (data: any[]) => {
-    await importResourcesMutation.mutateAsync(data);
-  }, [importResourcesMutation]);
+  const handleImportComplete = useCallback((result: ResourceImportResponse) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/resources"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/resources/counts"] });
+    queryClient.invalidateQueries({ queryKey: [IMPORT_BATCHES_QUERY_KEY] });
+    setIsImportDialogOpen(false);
+    toast({
+      title: "Success",
+      description: `Imported ${result.batch.createdCount} new and updated ${result.batch.updatedCount} existing resources.`,
+    });
+  }, [toast]);
 
-  const handleExport = useCallback(async () => {
-    try {
-      // Create CSV content
-      const headers = ['title', 'url', 'summary', 'tags'];
-      const rows = filteredResources.map(r => [
-        r.title,
-        r.url || '',
-        r.summary || '',
-        r.tags?.join(', ') || ''
-      ]);
-      
-      const csvContent = [
-        headers.join(','),
-        ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
-      ].join('\n');
-      
-      const blob = new Blob([csvContent], { type: 'text/csv' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${selectedResourceType}-resources.csv`;
-      a.click();
-      URL.revokeObjectURL(url);
-      
-      toast({
-        title: "Success",
-        description: "Resources exported successfully.",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to export resources.",
-        variant: "destructive",
-      });
-    }
-  }, [selectedResourceType, filteredResources, toast]);
+  // Exports cover the whole type and re-import with their columns already mapped
+  const exportUrl = (format: ResourceExportFormat) =>
+    getResourceExportUrl({ type: selectedResourceType, sort: 'title' }, format);
 
   // Get current resource type info
   const currentResourceType = RESOURCE_TYPES.find(t => t.id === selectedResourceType) || RESOURCE_TYPES[0];
@@ -327,21 +294,41 @@ export default function AdminResources() {
             )}
           </div>
           <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" data-testid="button-export-resources">
+                  <FileDown className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl('csv')} download data-testid="link-export-resources-csv">CSV</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl('xlsx')} download data-testid="link-export-resources-xlsx">Excel</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={exportUrl('json')} download data-testid="link-export-resources-json">JSON</a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button
               variant="outline"
               size="sm"
-              onClick={handleExport}
+              onClick={() => setIsImportDialogOpen(true)}
             >
-              <FileDown className="h-4 w-4 mr-2" />
-              Export
+              <Upload className="h-4 w-4 mr-2" />
+              Import
             </Button>
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setIsImportDialogOpen(true)}
+              onClick={() => setIsImportHistoryOpen(true)}
+              data-testid="button-import-history"
             >
-              <Upload className="h-4 w-4 mr-2" />
-              Import
+              <History className="h-4 w-4 mr-2" />
+              Import History
             </Button>
             <Button
               size="sm"
@@ -356,6 +343,9 @@ export default function AdminResources() {
           </div>
         </div>
 
+        {/* Needs Review Queue */}
+        <ReviewQueue resourceType={selectedResourceType} onEdit={handleEditById} />
+
         {/* Resources Table */}
         <Card>
           <CardHeader>
@@ -504,16 +494,26 @@ export default function AdminResources() {
           <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
-                Import {currentResourceType.label} from CSV
+                Import {currentResourceType.label} from CSV or Excel
               </DialogTitle>
             </DialogHeader>
             <CSVImporter
               resourceType={selectedResourceType}
-              onImport={handleImport}
+              onComplete={handleImportComplete}
               onCancel={() => setIsImportDialogOpen(false)}
             />
           </DialogContent>
         </Dialog>
+
+        {/* Import History Dialog */}
+        <Dialog open={isImportHistoryOpen} onOpenChange={setIsImportHistoryOpen}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Import History</DialogTitle>
+            </DialogHeader>
+            <ImportHistory />
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
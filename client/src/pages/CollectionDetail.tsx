@@ -0,0 +1,494 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  CheckCircle,
+  Copy,
+  Edit,
+  ExternalLink,
+  Library,
+  Link as LinkIcon,
+  Loader2,
+  RefreshCw,
+  Star,
+  Trash2,
+  User,
+  UserPlus,
+  X,
+} from "lucide-react";
+import CollectionFormDialog from "@/components/resources/CollectionFormDialog";
+import {
+  VISIBILITY_OPTIONS,
+  collectionShareUrl,
+  type CollectionDetailResponse,
+  type CollectionItemEntry,
+  type CollectionShareEntry,
+} from "@/lib/api/collections";
+import type { ResourceCollection } from "@shared/schema";
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function SharePanel({ collection, shares }: { collection: CollectionDetailResponse["collection"]; shares: CollectionShareEntry[] }) {
+  const { toast } = useToast();
+  const [member, setMember] = useState("");
+  const detailKey = `/api/collections/${collection.id}`;
+
+  const setShares = (updated: CollectionShareEntry[]) =>
+    queryClient.setQueryData<CollectionDetailResponse>([detailKey], (current) => current && { ...current, shares: updated });
+
+  const shareMutation = useMutation({
+    mutationFn: (): Promise<CollectionShareEntry[]> => apiRequest("POST", `${detailKey}/shares`, { member: member.trim() }),
+    onSuccess: (updated) => {
+      setShares(updated);
+      setMember("");
+      toast({ title: "Collection shared" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to share collection."), variant: "destructive" });
+    },
+  });
+
+  const unshareMutation = useMutation({
+    mutationFn: (userId: string): Promise<CollectionShareEntry[]> => apiRequest("DELETE", `${detailKey}/shares/${userId}`),
+    onSuccess: setShares,
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to stop sharing."), variant: "destructive" });
+    },
+  });
+
+  const resetLinkMutation = useMutation({
+    mutationFn: (): Promise<ResourceCollection> => apiRequest("POST", `${detailKey}/share-link`),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<CollectionDetailResponse>([detailKey], (current) => current && { ...current, collection: updated });
+      toast({ title: "Share link reset", description: "The old link no longer works." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to reset the share link."), variant: "destructive" });
+    },
+  });
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(collectionShareUrl(collection.shareToken!));
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <Card data-testid="card-collection-sharing">
+      <CardHeader>
+        <CardTitle className="text-lg">Sharing</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700 flex items-center gap-2">
+            <LinkIcon className="h-4 w-4" />
+            Share link
+          </p>
+          {collection.visibility === "private" ? (
+            <p className="text-sm text-gray-500">
+              Change who can see this collection to "Anyone with the link" or "Public" to share it by link.
+            </p>
+          ) : (
+            <>
+              <Input readOnly value={collectionShareUrl(collection.shareToken!)} onFocus={(e) => e.target.select()} data-testid="input-share-link" />
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCopyLink} data-testid="button-copy-share-link">
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => resetLinkMutation.mutate()}
+                  disabled={resetLinkMutation.isPending}
+                  data-testid="button-reset-share-link"
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Reset
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700 flex items-center gap-2">
+            <UserPlus className="h-4 w-4" />
+            Members
+          </p>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (member.trim()) shareMutation.mutate();
+            }}
+          >
+            <Input
+              value={member}
+              onChange={(e) => setMember(e.target.value)}
+              placeholder="Username or email"
+              data-testid="input-share-member"
+            />
+            <Button type="submit" size="sm" disabled={shareMutation.isPending || !member.trim()} data-testid="button-share-member">
+              Share
+            </Button>
+          </form>
+          {shares.length === 0 ? (
+            <p className="text-sm text-gray-500">Not shared with anyone yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {shares.map(share => (
+                <li key={share.id} className="flex items-center justify-between text-sm" data-testid={`share-${share.userId}`}>
+                  <span className="flex items-center gap-1 truncate">
+                    <User className="h-3 w-3 flex-shrink-0" />
+                    {share.username ?? "Deleted member"}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => unshareMutation.mutate(share.userId)}
+                    disabled={unshareMutation.isPending}
+                    aria-label={`Stop sharing with ${share.username}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CollectionItem({
+  item,
+  index,
+  count,
+  isOwner,
+  isPublicView,
+  onMove,
+  onSaveNote,
+  onRemove,
+  isSaving,
+}: {
+  item: CollectionItemEntry;
+  index: number;
+  count: number;
+  isOwner: boolean;
+  isPublicView: boolean;
+  onMove: (from: number, to: number) => void;
+  onSaveNote: (note: string) => void;
+  onRemove: () => void;
+  isSaving: boolean;
+}) {
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [note, setNote] = useState(item.note ?? "");
+
+  return (
+    <li className="border rounded-lg p-4 bg-white space-y-2" data-testid={`collection-item-${item.resourceId}`}>
+      <div className="flex items-start gap-4">
+        <span className="text-lg font-semibold text-gray-400 w-6 text-right flex-shrink-0">{index + 1}</span>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            {isPublicView ? (
+              <a href={item.resource.url} target="_blank" rel="noopener noreferrer" className="font-semibold text-gray-900 hover:text-ugga-primary">
+                {item.resource.title}
+              </a>
+            ) : (
+              <Link href={`/dashboard/resources/${item.resource.id}`} className="font-semibold text-gray-900 hover:text-ugga-primary">
+                {item.resource.title}
+              </Link>
+            )}
+            {item.resource.type && <Badge variant="outline" className="text-xs">{item.resource.type}</Badge>}
+            {item.resource.ugga_verified && (
+              <Badge variant="secondary" className="bg-green-100 text-green-800 text-xs">
+                <CheckCircle className="h-3 w-3 mr-1" />
+                UGGA Verified
+              </Badge>
+            )}
+            {item.resource.rating_average != null && (
+              <Badge variant="outline" className="text-xs">
+                <Star className="h-3 w-3 mr-1 fill-yellow-400 text-yellow-400" />
+                {item.resource.rating_average.toFixed(1)} ({item.resource.rating_count})
+              </Badge>
+            )}
+          </div>
+          {item.resource.summary && <p className="text-sm text-gray-600 mt-1 line-clamp-2">{item.resource.summary}</p>}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <a href={item.resource.url} target="_blank" rel="noopener noreferrer" aria-label="Open resource">
+            <Button variant="ghost" size="sm">
+              <ExternalLink className="h-4 w-4" />
+            </Button>
+          </a>
+          {isOwner && (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => onMove(index, index - 1)} disabled={isSaving || index === 0} aria-label="Move up">
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onMove(index, index + 1)} disabled={isSaving || index === count - 1} aria-label="Move down">
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIsEditingNote(true)} disabled={isSaving} aria-label="Edit note">
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onRemove} disabled={isSaving} aria-label="Remove from collection">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isEditingNote ? (
+        <div className="ml-10 space-y-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={2000}
+            rows={2}
+            placeholder="Why is this resource in the collection?"
+            data-testid={`textarea-item-note-${item.resourceId}`}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => { setNote(item.note ?? ""); setIsEditingNote(false); }}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => { onSaveNote(note); setIsEditingNote(false); }} disabled={isSaving}>
+              Save Note
+            </Button>
+          </div>
+        </div>
+      ) : (
+        item.note && <p className="ml-10 text-sm text-gray-700 bg-gray-50 rounded-md p-3 whitespace-pre-wrap">{item.note}</p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * A collection, either at /dashboard/collections/:id for members who can see
+ * it, or at /collections/shared/:token for anyone with the share link.
+ */
+export default function CollectionDetail() {
+  const { id, token } = useParams<{ id?: string; token?: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { isMember } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const detailKey = token ? `/api/collections/shared/${token}` : `/api/collections/${id}`;
+  const { data, isLoading, error } = useQuery<CollectionDetailResponse>({ queryKey: [detailKey] });
+
+  const collection = data?.collection;
+  const items = data?.items ?? [];
+  const isOwner = data?.access === "owner";
+  const itemsUrl = `/api/collections/${collection?.id}/items`;
+
+  const setItems = (updated: CollectionItemEntry[]) =>
+    queryClient.setQueryData<CollectionDetailResponse>([detailKey], (current) => current && { ...current, items: updated });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ordered: CollectionItemEntry[]): Promise<CollectionItemEntry[]> =>
+      apiRequest("PUT", `${itemsUrl}/order`, { resourceIds: ordered.map(item => item.resourceId) }),
+    onMutate: setItems,
+    onSuccess: setItems,
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: [detailKey] });
+      toast({ title: "Error", description: errorMessage(error, "Failed to reorder collection."), variant: "destructive" });
+    },
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: ({ resourceId, note }: { resourceId: string; note: string }) =>
+      apiRequest("PUT", `${itemsUrl}/${resourceId}`, { note: note.trim() || null }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [detailKey] }),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save note."), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (resourceId: string) => apiRequest("DELETE", `${itemsUrl}/${resourceId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [detailKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to remove resource."), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/collections/${collection!.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      toast({ title: "Collection deleted" });
+      setLocation("/dashboard/collections");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to delete collection."), variant: "destructive" });
+    },
+  });
+
+  const copyMutation = useMutation({
+    mutationFn: (): Promise<ResourceCollection> => apiRequest("POST", `/api/collections/${collection!.id}/copy`, { token }),
+    onSuccess: (copy) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      toast({ title: "Collection copied", description: "The copy is private until you share it." });
+      setLocation(`/dashboard/collections/${copy.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to copy collection."), variant: "destructive" });
+    },
+  });
+
+  const handleMove = (from: number, to: number) => {
+    const ordered = [...items];
+    const [moved] = ordered.splice(from, 1);
+    ordered.splice(to, 0, moved);
+    reorderMutation.mutate(ordered);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${collection!.title}"? Members it's shared with will lose access.`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-ugga-primary" />
+      </div>
+    );
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-16 text-center">
+        <Library className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h1 className="text-2xl font-semibold text-gray-900 mb-2">Collection not found</h1>
+        <p className="text-gray-600">It may have been deleted, or its owner stopped sharing it.</p>
+      </div>
+    );
+  }
+
+  const isSaving = reorderMutation.isPending || noteMutation.isPending || removeMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        {!token && (
+          <Link href="/dashboard/collections">
+            <Button variant="ghost" size="sm" className="flex items-center gap-2 mb-4">
+              <ArrowLeft className="h-4 w-4" />
+              All Collections
+            </Button>
+          </Link>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+          <div>
+            <div className="flex items-center gap-3 mb-2 flex-wrap">
+              <Library className="h-8 w-8 text-ugga-primary" />
+              <h1 className="text-3xl font-bold text-gray-900">{collection.title}</h1>
+              {isOwner && (
+                <Badge variant="outline">{VISIBILITY_OPTIONS.find(option => option.value === collection.visibility)?.label}</Badge>
+              )}
+            </div>
+            {collection.description && <p className="text-gray-700 whitespace-pre-wrap">{collection.description}</p>}
+            <p className="text-sm text-gray-500 mt-2">{items.length} resource{items.length === 1 ? "" : "s"}</p>
+          </div>
+
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {isOwner ? (
+              <>
+                <Button variant="outline" onClick={() => setIsEditing(true)} data-testid="button-edit-collection">
+                  <Edit className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+                <Button variant="ghost" onClick={handleDelete} disabled={deleteMutation.isPending} data-testid="button-delete-collection">
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              </>
+            ) : isMember ? (
+              <Button onClick={() => copyMutation.mutate()} disabled={copyMutation.isPending} data-testid="button-copy-collection">
+                <Copy className="h-4 w-4 mr-1" />
+                Copy to My Collections
+              </Button>
+            ) : (
+              <Link href="/login">
+                <Button variant="outline">Log in to copy this collection</Button>
+              </Link>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className={isOwner ? "lg:col-span-2" : "lg:col-span-3"}>
+            {items.length === 0 ? (
+              <div className="text-center py-12 text-gray-500 border rounded-lg bg-white">
+                {isOwner
+                  ? "This collection is empty. Use \"Add to Collection\" on a resource's page to add it here."
+                  : "This collection is empty."}
+              </div>
+            ) : (
+              <ol className="space-y-3">
+                {items.map((item, index) => (
+                  <CollectionItem
+                    key={item.id}
+                    item={item}
+                    index={index}
+                    count={items.length}
+                    isOwner={isOwner}
+                    isPublicView={!!token}
+                    onMove={handleMove}
+                    onSaveNote={(note) => noteMutation.mutate({ resourceId: item.resourceId, note })}
+                    onRemove={() => removeMutation.mutate(item.resourceId)}
+                    isSaving={isSaving}
+                  />
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {isOwner && (
+            <div>
+              <SharePanel collection={collection} shares={data.shares ?? []} />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isOwner && (
+        <CollectionFormDialog
+          open={isEditing}
+          onOpenChange={setIsEditing}
+          collection={collection}
+          onSaved={() => queryClient.invalidateQueries({ queryKey: [detailKey] })}
+        />
+      )}
+    </div>
+  );
+}
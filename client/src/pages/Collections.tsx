@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Library, Loader2, Plus, Share2 } from "lucide-react";
+import EmptyState from "@/components/common/EmptyState";
+import CollectionCard from "@/components/resources/CollectionCard";
+import CollectionFormDialog from "@/components/resources/CollectionFormDialog";
+import type { CollectionSummary } from "@/lib/api/collections";
+
+export default function Collections() {
+  const [, setLocation] = useLocation();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data, isLoading } = useQuery<{ owned: CollectionSummary[]; shared: CollectionSummary[] }>({
+    queryKey: ["/api/collections"],
+  });
+
+  const owned = data?.owned ?? [];
+  const shared = data?.shared ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <Library className="h-8 w-8 text-ugga-primary" />
+              <h1 className="text-3xl font-bold text-gray-900">Collections</h1>
+            </div>
+            <p className="text-gray-700">
+              Curated lists of library resources, in your order and with your notes, ready to share.
+            </p>
+          </div>
+          <Button onClick={() => setIsCreating(true)} className="flex items-center gap-2" data-testid="button-new-collection">
+            <Plus className="h-4 w-4" />
+            New Collection
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-ugga-primary" />
+          </div>
+        ) : (
+          <div className="space-y-10">
+            <section>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Collections</h2>
+              {owned.length === 0 ? (
+                <EmptyState
+                  title="No collections yet"
+                  body="Start a collection, then add resources to it from any resource's page."
+                  icon={<Library className="h-10 w-10 text-gray-400" />}
+                  ctaText="Create a Collection"
+                  onCtaClick={() => setIsCreating(true)}
+                />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {owned.map(collection => <CollectionCard key={collection.id} collection={collection} />)}
+                </div>
+              )}
+            </section>
+
+            {shared.length > 0 && (
+              <section>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <Share2 className="h-5 w-5" />
+                  Shared With You
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {shared.map(collection => <CollectionCard key={collection.id} collection={collection} showOwner />)}
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+
+      <CollectionFormDialog
+        open={isCreating}
+        onOpenChange={setIsCreating}
+        onSaved={(collection) => setLocation(`/dashboard/collections/${collection.id}`)}
+      />
+    </div>
+  );
+}
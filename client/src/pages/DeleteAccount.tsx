@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Link } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Sprout, Loader2, CheckCircle, XCircle, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+export default function DeleteAccount() {
+  const queryClient = useQueryClient();
+  // Read once; the link is only confirmed on an explicit click so mail
+  // scanners that prefetch links can't delete the account
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/me/delete", { token }),
+    onSuccess: () => {
+      queryClient.clear();
+    },
+  });
+
+  const failed = !token || deleteMutation.isError;
+
+  return (
+    <div className="min-h-screen py-8 px-4 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Sprout className="h-12 w-12 text-ugga-primary mx-auto mb-4" />
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Delete Your Account
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 text-sm sm:text-base">
+            This permanently removes your UGGA account
+          </p>
+        </div>
+
+        <Card className="shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-xl sm:text-2xl flex items-center gap-2">
+              {deleteMutation.isSuccess ? (
+                <>
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  Account Deleted
+                </>
+              ) : failed ? (
+                <>
+                  <XCircle className="h-5 w-5 text-red-600" />
+                  Deletion Failed
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-5 w-5 text-red-600" />
+                  Confirm Deletion
+                </>
+              )}
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            {deleteMutation.isSuccess ? (
+              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+                <p className="text-green-800 dark:text-green-200 text-sm">
+                  Your account and personal data have been deleted. Thank you for being part of UGGA.
+                </p>
+              </div>
+            ) : failed ? (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                <p className="text-red-800 dark:text-red-200 text-sm">
+                  {!token
+                    ? "This confirmation link is incomplete. Please use the link from your email."
+                    : deleteMutation.error?.message || "This confirmation link is invalid or has expired."}
+                </p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Your profile, saved resources, assessments, chat history, expert requests and feedback will be erased.
+                  Forum posts and comments stay in their threads but will no longer show your name.
+                </p>
+                <p className="text-sm font-medium text-red-700 dark:text-red-400">This can't be undone.</p>
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  onClick={() => deleteMutation.mutate()}
+                  disabled={deleteMutation.isPending}
+                  data-testid="button-confirm-delete-account"
+                >
+                  {deleteMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Deleting...
+                    </>
+                  ) : (
+                    "Permanently Delete My Account"
+                  )}
+                </Button>
+              </>
+            )}
+
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Link
+                href={deleteMutation.isSuccess ? "/" : "/dashboard/profile"}
+                className="flex items-center justify-center gap-2 text-sm text-ugga-primary hover:text-ugga-secondary transition-colors"
+              >
+                {deleteMutation.isSuccess ? "Back to Home" : "Keep My Account"}
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,641 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Farm as FarmRecord, type FarmInvitation, FarmRole } from "@shared/schema";
+import { Loader2, Warehouse, Users, Mail, Save, Trash2, LogOut, KeyRound } from "lucide-react";
+
+interface FarmMember {
+  id: string;
+  userId: string;
+  role: FarmRole;
+  username: string;
+  email: string;
+  name: string | null;
+}
+
+interface FarmResponse {
+  farm: FarmRecord | null;
+  role?: FarmRole;
+  members?: FarmMember[];
+  invitations?: Omit<FarmInvitation, "codeHash">[];
+}
+
+const farmSchema = z.object({
+  name: z.string().min(1, "Farm name is required"),
+  state: z.string().optional(),
+  county: z.string().optional(),
+  farmType: z.string().optional(),
+  ghSize: z.string().optional(),
+  productionMethod: z.string().optional(),
+  suppLighting: z.string().optional(),
+});
+
+type FarmForm = z.infer<typeof farmSchema>;
+
+const US_STATES = [
+  "Alabama", "Alaska", "Arizona", "Arkansas", "California", "Colorado", "Connecticut",
+  "Delaware", "Florida", "Georgia", "Hawaii", "Idaho", "Illinois", "Indiana", "Iowa",
+  "Kansas", "Kentucky", "Louisiana", "Maine", "Maryland", "Massachusetts", "Michigan",
+  "Minnesota", "Mississippi", "Missouri", "Montana", "Nebraska", "Nevada", "New Hampshire",
+  "New Jersey", "New Mexico", "New York", "North Carolina", "North Dakota", "Ohio",
+  "Oklahoma", "Oregon", "Pennsylvania", "Rhode Island", "South Carolina", "South Dakota",
+  "Tennessee", "Texas", "Utah", "Vermont", "Virginia", "Washington", "West Virginia",
+  "Wisconsin", "Wyoming"
+];
+
+const FARM_TYPES = [
+  "Vegetable", "Flower", "Herb", "Mixed", "Nursery", "Fruit", "Other"
+];
+
+const GREENHOUSE_SIZES = [
+  "Under 500 ft²", "500 – 2 000 ft²", "2 001 – 10 000 ft²", "10 001 – 43 560 ft² (≈ 1 acre)",
+  "43 560 – 87 119 ft² (1 – 2 acres)", "87 120 – 217 799 ft² (2 – 5 acres)", "Over 217 800 ft² (> 5 acres)", "N/A"
+];
+
+const PRODUCTION_METHODS = ["Soil-based", "Hydroponics", "N/A"];
+
+const LIGHTING_OPTIONS = ["Yes", "No", "Planning to add", "N/A"];
+
+const ROLE_LABELS: Record<FarmRole, string> = {
+  [FarmRole.OWNER]: "Owner",
+  [FarmRole.MANAGER]: "Manager",
+  [FarmRole.STAFF]: "Staff",
+};
+
+const getRoleColor = (role: FarmRole) => {
+  switch (role) {
+    case FarmRole.OWNER:
+      return "bg-green-100 text-green-800";
+    case FarmRole.MANAGER:
+      return "bg-blue-100 text-blue-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+function OptionSelect({ value, onChange, options, placeholder, disabled }: {
+  value?: string;
+  onChange: (value: string) => void;
+  options: string[];
+  placeholder: string;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value || undefined} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option} value={option}>{option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function Farm() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inviteCode, setInviteCode] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<FarmRole>(FarmRole.STAFF);
+  const [lastInviteCode, setLastInviteCode] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<FarmResponse>({
+    queryKey: ["/api/farm"],
+  });
+
+  const farm = data?.farm ?? null;
+  const myRole = data?.role;
+  const canManage = myRole === FarmRole.OWNER || myRole === FarmRole.MANAGER;
+  const isOwner = myRole === FarmRole.OWNER;
+
+  const form = useForm<FarmForm>({
+    resolver: zodResolver(farmSchema),
+    defaultValues: {
+      name: "",
+      state: "",
+      county: "",
+      farmType: "",
+      ghSize: "",
+      productionMethod: "",
+      suppLighting: "",
+    },
+  });
+
+  // Pick up an invite code from the invitation email link
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("invite");
+    if (code) {
+      setInviteCode(code);
+    }
+  }, []);
+
+  // Edit the farm's details, or start a new farm from the member's own profile
+  useEffect(() => {
+    if (farm) {
+      form.reset({
+        name: farm.name,
+        state: farm.state || "",
+        county: farm.county || "",
+        farmType: farm.farmType || "",
+        ghSize: farm.ghSize || "",
+        productionMethod: farm.productionMethod || "",
+        suppLighting: farm.suppLighting || "",
+      });
+    } else if (data && user?.profile) {
+      form.reset({
+        name: user.profile.employer || "",
+        state: user.profile.state || "",
+        county: user.profile.county || "",
+        farmType: user.profile.farmType || "",
+        ghSize: user.profile.ghSize || "",
+        productionMethod: user.profile.productionMethod || "",
+        suppLighting: user.profile.suppLighting || "",
+      });
+    }
+  }, [farm, data, user, form]);
+
+  const refreshFarm = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/farm"] });
+    // Favorites, assessments and expert requests are shared within a farm
+    queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/expert-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/farm-roadmap/profile"] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createFarmMutation = useMutation({
+    mutationFn: (values: FarmForm) => apiRequest("POST", "/api/farm", {
+      ...values,
+      // Carry over the crop and climate details from the creator's profile
+      cropTypes: user?.profile?.cropTypes || [],
+      otherCrop: user?.profile?.otherCrop || null,
+      climateControl: user?.profile?.climateControl || [],
+      otherFarmType: user?.profile?.otherFarmType || null,
+    }),
+    onSuccess: () => {
+      refreshFarm();
+      toast({ title: "Farm created", description: "You can now invite your staff." });
+    },
+    onError: showError("Couldn't create farm"),
+  });
+
+  const updateFarmMutation = useMutation({
+    mutationFn: (values: FarmForm) => apiRequest("PUT", "/api/farm", values),
+    onSuccess: () => {
+      refreshFarm();
+      toast({ title: "Farm details updated" });
+    },
+    onError: showError("Couldn't update farm"),
+  });
+
+  const joinFarmMutation = useMutation({
+    mutationFn: (code: string) => apiRequest("POST", "/api/farm/join", { code }),
+    onSuccess: (response: { message: string }) => {
+      setInviteCode("");
+      refreshFarm();
+      toast({ title: response.message });
+    },
+    onError: showError("Couldn't join farm"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/farm/invitations", { email: inviteEmail, role: inviteRole }),
+    onSuccess: (response: { inviteCode: string; emailSent: boolean }) => {
+      setInviteEmail("");
+      setLastInviteCode(response.inviteCode);
+      refreshFarm();
+      toast({
+        title: response.emailSent ? "Invitation sent" : "Invitation created",
+        description: response.emailSent
+          ? `We emailed ${inviteEmail} an invite code.`
+          : "The email couldn't be sent. Share the invite code directly.",
+      });
+    },
+    onError: showError("Couldn't send invitation"),
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/farm/invitations/${id}`),
+    onSuccess: () => {
+      refreshFarm();
+      toast({ title: "Invitation revoked" });
+    },
+    onError: showError("Couldn't revoke invitation"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: FarmRole }) =>
+      apiRequest("PATCH", `/api/farm/members/${userId}`, { role }),
+    onSuccess: () => {
+      refreshFarm();
+      toast({ title: "Member role updated" });
+    },
+    onError: showError("Couldn't update role"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest("DELETE", `/api/farm/members/${userId}`),
+    onSuccess: (response: { message: string }) => {
+      refreshFarm();
+      toast({ title: response.message });
+    },
+    onError: showError("Couldn't remove member"),
+  });
+
+  const deleteFarmMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/farm"),
+    onSuccess: () => {
+      refreshFarm();
+      toast({ title: "Farm deleted" });
+    },
+    onError: showError("Couldn't delete farm"),
+  });
+
+  const onSubmitFarm = (values: FarmForm) => {
+    if (farm) {
+      updateFarmMutation.mutate(values);
+    } else {
+      createFarmMutation.mutate(values);
+    }
+  };
+
+  const handleRemoveMember = (member: FarmMember) => {
+    const isSelf = member.userId === user?.id;
+    const message = isSelf
+      ? "Are you sure you want to leave this farm?"
+      : `Remove ${member.name || member.username} from this farm?`;
+    if (window.confirm(message)) {
+      removeMemberMutation.mutate(member.userId);
+    }
+  };
+
+  const handleDeleteFarm = () => {
+    if (window.confirm("Are you sure you want to delete this farm? Members will keep their own records but lose shared access.")) {
+      deleteFarmMutation.mutate();
+    }
+  };
+
+  const canRemove = (member: FarmMember) =>
+    member.userId === user?.id ||
+    isOwner ||
+    (myRole === FarmRole.MANAGER && member.role === FarmRole.STAFF);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const detailsDisabled = !!farm && !canManage;
+  const isSaving = createFarmMutation.isPending || updateFarmMutation.isPending;
+
+  return (
+    <div className="min-h-screen py-8 bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-12 h-12 bg-ugga-primary rounded-full flex items-center justify-center">
+              <Warehouse className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{farm ? farm.name : "My Farm"}</h1>
+              <p className="text-gray-600">
+                {farm && myRole
+                  ? `Your role: ${ROLE_LABELS[myRole]}`
+                  : "Share assessments, saved resources and expert requests with your team"}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Join with an invite code */}
+        {!farm && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Join an Existing Farm
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (inviteCode.trim()) joinFarmMutation.mutate(inviteCode.trim());
+                }}
+                className="flex flex-col sm:flex-row gap-2"
+              >
+                <Input
+                  placeholder="Invite code, e.g. ABCD-EFGH"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  data-testid="input-farm-invite-code"
+                />
+                <Button type="submit" disabled={!inviteCode.trim() || joinFarmMutation.isPending}>
+                  {joinFarmMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Join Farm
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Farm details */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Warehouse className="h-5 w-5" />
+              {farm ? "Farm Details" : "Create a Farm"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!farm && (
+              <p className="text-sm text-gray-600 mb-4">
+                Set up your greenhouse operation once and invite your managers and staff to share it.
+              </p>
+            )}
+            <form onSubmit={form.handleSubmit(onSubmitFarm)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="farm-name">Farm Name *</Label>
+                <Input
+                  id="farm-name"
+                  {...form.register("name")}
+                  disabled={detailsDisabled}
+                />
+                {form.formState.errors.name && (
+                  <p className="text-sm text-red-600">{form.formState.errors.name.message}</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>State</Label>
+                  <OptionSelect
+                    value={form.watch("state")}
+                    onChange={(value) => form.setValue("state", value)}
+                    options={US_STATES}
+                    placeholder="Select state"
+                    disabled={detailsDisabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="farm-county">County</Label>
+                  <Input id="farm-county" {...form.register("county")} disabled={detailsDisabled} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Farm Type</Label>
+                  <OptionSelect
+                    value={form.watch("farmType")}
+                    onChange={(value) => form.setValue("farmType", value)}
+                    options={FARM_TYPES}
+                    placeholder="Select farm type"
+                    disabled={detailsDisabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Greenhouse Size</Label>
+                  <OptionSelect
+                    value={form.watch("ghSize")}
+                    onChange={(value) => form.setValue("ghSize", value)}
+                    options={GREENHOUSE_SIZES}
+                    placeholder="Select size"
+                    disabled={detailsDisabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Production Method</Label>
+                  <OptionSelect
+                    value={form.watch("productionMethod")}
+                    onChange={(value) => form.setValue("productionMethod", value)}
+                    options={PRODUCTION_METHODS}
+                    placeholder="Select method"
+                    disabled={detailsDisabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Supplemental Lighting</Label>
+                  <OptionSelect
+                    value={form.watch("suppLighting")}
+                    onChange={(value) => form.setValue("suppLighting", value)}
+                    options={LIGHTING_OPTIONS}
+                    placeholder="Select option"
+                    disabled={detailsDisabled}
+                  />
+                </div>
+              </div>
+
+              {!detailsDisabled && (
+                <Button type="submit" disabled={isSaving} data-testid="button-save-farm">
+                  {isSaving ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  {farm ? "Save Changes" : "Create Farm"}
+                </Button>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+
+        {farm && (
+          <>
+            {/* Members */}
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Members
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data?.members?.map(member => (
+                      <TableRow key={member.id} data-testid={`row-farm-member-${member.userId}`}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {member.name || member.username}
+                            {member.userId === user?.id && <span className="text-gray-500 font-normal"> (you)</span>}
+                          </div>
+                          <div className="text-sm text-gray-500">{member.email}</div>
+                        </TableCell>
+                        <TableCell>
+                          {isOwner ? (
+                            <Select
+                              value={member.role}
+                              onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as FarmRole })}
+                              disabled={updateRoleMutation.isPending}
+                            >
+                              <SelectTrigger className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.values(FarmRole).map(role => (
+                                  <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge className={getRoleColor(member.role)}>{ROLE_LABELS[member.role]}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canRemove(member) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRemoveMember(member)}
+                              disabled={removeMemberMutation.isPending}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              {member.userId === user?.id ? (
+                                <>
+                                  <LogOut className="h-4 w-4 mr-1" />
+                                  Leave
+                                </>
+                              ) : (
+                                "Remove"
+                              )}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Invitations */}
+            {canManage && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Mail className="h-5 w-5" />
+                    Invite Staff
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      inviteMutation.mutate();
+                    }}
+                    className="flex flex-col sm:flex-row gap-2"
+                  >
+                    <Input
+                      type="email"
+                      placeholder="colleague@example.com"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      data-testid="input-farm-invite-email"
+                    />
+                    <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as FarmRole)}>
+                      <SelectTrigger className="sm:w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={FarmRole.STAFF}>Staff</SelectItem>
+                        {isOwner && <SelectItem value={FarmRole.MANAGER}>Manager</SelectItem>}
+                      </SelectContent>
+                    </Select>
+                    <Button type="submit" disabled={!inviteEmail || inviteMutation.isPending}>
+                      {inviteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Send Invite
+                    </Button>
+                  </form>
+
+                  {lastInviteCode && (
+                    <div className="rounded-md bg-green-50 border border-green-200 p-3 text-sm text-green-800">
+                      Invite code: <span className="font-mono font-semibold">{lastInviteCode}</span>. New members can
+                      enter it when they register; existing members can enter it on their My Farm page.
+                    </div>
+                  )}
+
+                  {!!data?.invitations?.length && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700 mb-2">Pending Invitations</h3>
+                      <ul className="divide-y divide-gray-200">
+                        {data.invitations.map(invitation => (
+                          <li key={invitation.id} className="flex items-center justify-between py-2">
+                            <div>
+                              <span className="text-sm text-gray-900">{invitation.email}</span>
+                              <Badge className={`ml-2 ${getRoleColor(invitation.role)}`}>{ROLE_LABELS[invitation.role]}</Badge>
+                              <div className="text-xs text-gray-500">
+                                Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                              </div>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                              disabled={revokeInvitationMutation.isPending}
+                            >
+                              Revoke
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {isOwner && (
+              <Card className="mt-6 border-red-200">
+                <CardContent className="pt-6 flex items-center justify-between gap-4">
+                  <div>
+                    <h3 className="font-medium text-gray-900">Delete Farm</h3>
+                    <p className="text-sm text-gray-600">
+                      Removes the farm and all memberships. Each member keeps the records they created.
+                    </p>
+                  </div>
+                  <Button
+                    variant="destructive"
+                    onClick={handleDeleteFarm}
+                    disabled={deleteFarmMutation.isPending}
+                    data-testid="button-delete-farm"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -26,7 +26,7 @@ import PostEditor from "@/components/PostEditor";
 import Comment from "@/components/Comment";
 import VoteButtons from "@/components/VoteButtons";
 import MarkdownRenderer from "@/components/MarkdownRenderer";
-import { ForumCategory } from "@shared/schema";
+import { ForumCategory, Permission } from "@shared/schema";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import ForumFilters from "@/components/ForumFilters";
 
@@ -53,7 +53,8 @@ export default function Forum() {
   const [filters, setFilters] = useState({ region: "", category: "" });
   const [savedPosts, setSavedPosts] = useState<Set<string>>(new Set());
   const [replyContent, setReplyContent] = useState("");
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canModerate = can(Permission.FORUM_MODERATE);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -338,7 +339,7 @@ export default function Forum() {
                       <h1 className="text-xl font-bold text-gray-900 dark:text-gray-100 mt-2">{selectedPost.title}</h1>
                     </div>
                     <div className="flex gap-2">
-                      {user?.id === selectedPost.userId && (
+                      {(user?.id === selectedPost.userId || canModerate) && (
                         <>
                           <Button size="sm" variant="ghost" onClick={() => setEditingPost(selectedPost)}>
                             <Edit className="h-4 w-4" />
@@ -458,7 +459,7 @@ export default function Forum() {
                           <span>•</span>
                           <span>{formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}</span>
                         </div>
-                        {user?.id === post.userId && (
+                        {(user?.id === post.userId || canModerate) && (
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button size="sm" variant="ghost" className="h-6 w-6 p-0 ml-auto" onClick={(e) => e.stopPropagation()}>
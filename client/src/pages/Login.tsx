@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -5,12 +6,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Link, useLocation } from "wouter";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Sprout, Loader2 } from "lucide-react";
+import { Sprout, Loader2, ShieldCheck, Mail, MailCheck } from "lucide-react";
 
 const loginSchema = z.object({
   identifier: z.string().min(1, "Email or username is required"),
@@ -20,8 +22,14 @@ const loginSchema = z.object({
 
 type LoginForm = z.infer<typeof loginSchema>;
 
+interface LoginResponse {
+  message?: string;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+}
+
 export default function Login() {
-  const [, setLocation] = useLocation();
+  const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -34,16 +42,30 @@ export default function Login() {
     },
   });
 
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [showMagicLink, setShowMagicLink] = useState(false);
+  const [magicLinkEmail, setMagicLinkEmail] = useState("");
+
+  const completeLogin = () => {
+    // Invalidate and refetch user data
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    toast({
+      title: "Welcome back!",
+      description: "You have been logged in successfully.",
+    });
+    setLocation("/dashboard");
+  };
+
   const loginMutation = useMutation({
-    mutationFn: (data: LoginForm) => apiRequest("POST", "/api/auth/login", data),
-    onSuccess: () => {
-      // Invalidate and refetch user data
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
-      toast({
-        title: "Welcome back!",
-        description: "You have been logged in successfully.",
-      });
-      setLocation("/dashboard");
+    mutationFn: (data: LoginForm): Promise<LoginResponse> => apiRequest("POST", "/api/auth/login", data),
+    onSuccess: (response) => {
+      if (response.twoFactorRequired && response.challengeToken) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
+      completeLogin();
     },
     onError: (error: Error) => {
       toast({
@@ -58,6 +80,188 @@ export default function Login() {
     loginMutation.mutate(data);
   };
 
+  const magicLinkMutation = useMutation({
+    mutationFn: (email: string) => apiRequest("POST", "/api/auth/magic-link", { email }),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send sign-in link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmitMagicLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (magicLinkEmail.trim()) {
+      magicLinkMutation.mutate(magicLinkEmail.trim());
+    }
+  };
+
+  const verifyMagicLinkMutation = useMutation({
+    mutationFn: (token: string): Promise<LoginResponse> => apiRequest("POST", "/api/auth/magic-link/verify", { token }),
+    onSuccess: (response) => {
+      if (response.twoFactorRequired && response.challengeToken) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
+      completeLogin();
+    },
+    onError: (error: Error) => {
+      setLocation("/login");
+      toast({
+        title: "Sign-in link didn't work",
+        description: error.message || "Request a new link or sign in with your password.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The emailed sign-in link lands on /magic-link?token=...
+  useEffect(() => {
+    if (location !== "/magic-link") return;
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (token) {
+      verifyMagicLinkMutation.mutate(token);
+    } else {
+      setLocation("/login");
+    }
+  }, []);
+
+  const twoFactorMutation = useMutation({
+    mutationFn: (code: string) => apiRequest("POST", "/api/auth/login/2fa", { challengeToken, code }),
+    onSuccess: completeLogin,
+    onError: (error: Error) => {
+      setTwoFactorCode("");
+      // The challenge is only valid for a few minutes
+      if (error.message.includes("sign in again")) {
+        setChallengeToken(null);
+        setLocation("/login");
+      }
+      toast({
+        title: "Verification failed",
+        description: error.message || "Please check your code and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmitTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (twoFactorCode.trim()) {
+      twoFactorMutation.mutate(twoFactorCode.trim());
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setTwoFactorCode("");
+    setUseBackupCode(false);
+    setLocation("/login");
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen py-16 bg-gray-50">
+        <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="text-center mb-8">
+            <ShieldCheck className="h-12 w-12 text-ugga-primary mx-auto mb-4" />
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Two-Factor Verification</h1>
+            <p className="text-gray-600">
+              {useBackupCode
+                ? "Enter one of your saved backup codes"
+                : "Enter the 6-digit code from your authenticator app"}
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              <form onSubmit={onSubmitTwoFactor} className="space-y-6">
+                {useBackupCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="backupCode">Backup Code</Label>
+                    <Input
+                      id="backupCode"
+                      type="text"
+                      autoComplete="off"
+                      placeholder="xxxxx-xxxxx"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      data-testid="input-backup-code"
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={6}
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
+                      autoFocus
+                      data-testid="input-totp-code"
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={twoFactorMutation.isPending || (!useBackupCode && twoFactorCode.length < 6)}
+                >
+                  {twoFactorMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    "Verify"
+                  )}
+                </Button>
+              </form>
+
+              <div className="mt-6 flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-ugga-primary hover:text-ugga-secondary"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setTwoFactorCode("");
+                  }}
+                >
+                  {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-600 hover:text-gray-900"
+                  onClick={cancelTwoFactor}
+                >
+                  Back to sign in
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (location === "/magic-link") {
+    return (
+      <div className="min-h-screen py-16 bg-gray-50">
+        <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 text-center">
+          <Loader2 className="h-12 w-12 text-ugga-primary mx-auto mb-4 animate-spin" />
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Signing You In</h1>
+          <p className="text-gray-600">Checking your sign-in link...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen py-16 bg-gray-50">
       <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
@@ -128,6 +332,64 @@ export default function Login() {
               </Button>
             </form>
 
+            <div className="relative my-6">
+              <div className="absolute inset-0 flex items-center">
+                <span className="w-full border-t border-gray-200" />
+              </div>
+              <div className="relative flex justify-center text-xs uppercase">
+                <span className="bg-white px-2 text-gray-500">or</span>
+              </div>
+            </div>
+
+            {magicLinkMutation.isSuccess ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex gap-3">
+                <MailCheck className="h-5 w-5 text-green-700 flex-shrink-0" />
+                <p className="text-sm text-green-800">
+                  If an account exists for {magicLinkEmail.trim()}, we've emailed it a sign-in link. The link works once and expires in 15 minutes.
+                </p>
+              </div>
+            ) : showMagicLink ? (
+              <form onSubmit={onSubmitMagicLink} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="magicLinkEmail">Email</Label>
+                  <Input
+                    id="magicLinkEmail"
+                    type="email"
+                    autoComplete="email"
+                    value={magicLinkEmail}
+                    onChange={(e) => setMagicLinkEmail(e.target.value)}
+                    data-testid="input-magic-link-email"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  className="w-full"
+                  disabled={!magicLinkEmail.trim() || magicLinkMutation.isPending}
+                >
+                  {magicLinkMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    "Send Sign-In Link"
+                  )}
+                </Button>
+              </form>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setShowMagicLink(true)}
+                data-testid="button-show-magic-link"
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                Email Me a Sign-In Link
+              </Button>
+            )}
+
             <div className="mt-6 text-center">
               <p className="text-sm text-gray-600">
                 New to UGGA?{" "}
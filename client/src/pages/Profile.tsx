@@ -16,6 +16,10 @@ import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
+import DevicesCard from "@/components/profile/DevicesCard";
+import TwoFactorCard from "@/components/profile/TwoFactorCard";
+import ApiTokensCard from "@/components/profile/ApiTokensCard";
+import AccountDataCard from "@/components/profile/AccountDataCard";
 
 const profileSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -231,6 +235,7 @@ export default function Profile() {
     mutationFn: (data: ProfileForm) => apiRequest("PUT", "/api/profile", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/location"] });
       refetch();
       toast({
         title: "Profile updated!",
@@ -252,6 +257,7 @@ export default function Profile() {
       newPassword: data.newPassword,
     }),
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
       passwordForm.reset();
       setNewPasswordLength(0);
       setConfirmPasswordLength(0);
@@ -766,6 +772,18 @@ export default function Profile() {
             </form>
           </CardContent>
         </Card>
+
+        {/* Two-Factor Authentication */}
+        <TwoFactorCard />
+
+        {/* Active Sessions */}
+        <DevicesCard />
+
+        {/* Personal API Tokens */}
+        <ApiTokensCard />
+
+        {/* Data Export and Account Deletion */}
+        <AccountDataCard />
       </div>
 
       {/* Success Modal */}
@@ -775,7 +793,7 @@ export default function Profile() {
             <DialogTitle>Password Updated</DialogTitle>
           </DialogHeader>
           <div className="text-center py-4">
-            <p className="text-gray-600">Password successfully updated.</p>
+            <p className="text-gray-600">Password successfully updated. Your other devices have been signed out.</p>
           </div>
           <div className="flex justify-center">
             <Button onClick={() => setShowSuccessModal(false)} className="min-w-24">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -41,9 +41,11 @@ const registerSchema = z.object({
   suppLighting: z.string().optional(),
   climateControl: z.array(z.string()).optional(),
   otherFarmType: z.string().optional(),
+  // Invite code for joining an existing farm
+  inviteCode: z.string().optional(),
 }).refine((data) => {
-  // Conditional validation for grower members
-  if (data.memberType === "grower") {
+  // Conditional validation for grower members; invited staff inherit the farm's details
+  if (data.memberType === "grower" && !data.inviteCode) {
     return data.county && data.county.length > 0;
   }
   return true;
@@ -121,6 +123,11 @@ const CLIMATE_CONTROL_OPTIONS = [
   { value: "Other / Not Listed", label: "Other / Not Listed", blurb: "Select if none match" }
 ];
 
+interface InvitePreview {
+  farmName: string;
+  role: string;
+}
+
 export default function Register() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -128,6 +135,8 @@ export default function Register() {
   const [showPassword, setShowPassword] = useState(false);
   const [selectedCrops, setSelectedCrops] = useState<string[]>([]);
   const [selectedClimateControl, setSelectedClimateControl] = useState<string[]>([]);
+  const [inviteCodeInput, setInviteCodeInput] = useState("");
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
 
   const form = useForm<RegisterForm>({
     resolver: zodResolver(registerSchema),
@@ -151,6 +160,7 @@ export default function Register() {
       suppLighting: "",
       climateControl: [],
       otherFarmType: "",
+      inviteCode: "",
     },
   });
 
@@ -162,7 +172,7 @@ export default function Register() {
     { id: 'memberType', title: 'Choose Membership Type' },
     { id: 'basicInfo', title: 'Account Information' },
     { id: 'password', title: 'Secure Your Account' },
-    ...(watchedMemberType === 'grower' ? [{ id: 'growerInfo', title: 'Your Growing Operation' }] : []),
+    ...(watchedMemberType === 'grower' && !invite ? [{ id: 'growerInfo', title: 'Your Growing Operation' }] : []),
     { id: 'confirmation', title: 'Welcome to the Community!' }
   ];
 
@@ -232,6 +242,39 @@ export default function Register() {
     form.setValue("climateControl", newSelection);
   };
 
+  const checkInviteMutation = useMutation({
+    mutationFn: (code: string): Promise<InvitePreview> =>
+      apiRequest("GET", `/api/farm/invitations/${encodeURIComponent(code)}`),
+    onSuccess: (data, code) => {
+      setInvite(data);
+      form.setValue("inviteCode", code);
+    },
+    onError: () => {
+      setInvite(null);
+      form.setValue("inviteCode", "");
+      toast({
+        title: "Invalid invite code",
+        description: "This invite code is invalid or has expired. Ask your farm manager for a new one.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Invitation emails link here with ?invite=CODE
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("invite");
+    if (code) {
+      setInviteCodeInput(code);
+      checkInviteMutation.mutate(code);
+    }
+  }, []);
+
+  const clearInvite = () => {
+    setInvite(null);
+    setInviteCodeInput("");
+    form.setValue("inviteCode", "");
+  };
+
   const registerMutation = useMutation({
     mutationFn: (data: RegisterForm) => apiRequest("POST", "/api/auth/register", data),
     onSuccess: () => {
@@ -330,6 +373,42 @@ export default function Register() {
                 </CardContent>
               </Card>
             </RadioGroup>
+            <div className="border-t pt-6 space-y-2">
+              <Label htmlFor="inviteCode">Joining an existing farm?</Label>
+              {invite ? (
+                <div className="flex items-center justify-between rounded-md bg-green-50 border border-green-200 p-3">
+                  <p className="text-sm text-green-800">
+                    You'll join <span className="font-medium">{invite.farmName}</span> as {invite.role}.
+                    Register with the email address the invitation was sent to.
+                  </p>
+                  <Button type="button" variant="ghost" size="sm" onClick={clearInvite}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    id="inviteCode"
+                    value={inviteCodeInput}
+                    onChange={(e) => setInviteCodeInput(e.target.value)}
+                    placeholder="Invite code, e.g. ABCD-EFGH"
+                    data-testid="input-invite-code"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => checkInviteMutation.mutate(inviteCodeInput.trim())}
+                    disabled={!inviteCodeInput.trim() || checkInviteMutation.isPending}
+                  >
+                    {checkInviteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Apply
+                  </Button>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Enter the code from your farm invitation to share its assessments, saved resources and expert requests.
+              </p>
+            </div>
           </div>
         );
 
@@ -652,6 +731,11 @@ export default function Register() {
               <p className="text-lg text-gray-600 mb-6">
                 Your account has been created successfully. You're now part of the growing UGGA network.
               </p>
+              {invite && (
+                <p className="text-gray-600 -mt-4 mb-6">
+                  You've joined <span className="font-medium">{invite.farmName}</span>.
+                </p>
+              )}
             </div>
             <div className="relative">
               <img 
@@ -5,13 +5,15 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, ExternalLink, Calendar, MapPin, DollarSign, Tag, Heart, AlertCircle, Download, Loader2 } from "lucide-react";
+import { ArrowLeft, ExternalLink, Calendar, MapPin, DollarSign, Tag, Heart, AlertCircle, Download, Loader2, Star } from "lucide-react";
 import { format, isAfter, addDays } from "date-fns";
 import { useState } from "react";
 
 // Import API functions
 import { type Resource } from "@/lib/api/resources";
 import { toggleFavorite, isFavorited } from "@/lib/api/favorites";
+import ResourceRatings from "@/components/resources/ResourceRatings";
+import AddToCollectionButton from "@/components/resources/AddToCollectionButton";
 
 async function apiRequest(url: string, options?: RequestInit) {
   const response = await fetch(url, {
@@ -249,6 +251,12 @@ export default function ResourceDetail() {
                   )}
                   <Badge variant="outline">{resource.type}</Badge>
                   <Badge variant="outline">Score: {resource.quality_score}</Badge>
+                  {resource.rating_average != null && (
+                    <Badge variant="outline" className="flex items-center gap-1">
+                      <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                      {resource.rating_average.toFixed(1)} ({resource.rating_count})
+                    </Badge>
+                  )}
                   {resource.last_verified_at && (
                     <Badge variant="outline" className="flex items-center gap-1">
                       <Calendar className="h-3 w-3" />
@@ -274,6 +282,8 @@ export default function ResourceDetail() {
                   )}
                   {favoriteStatus ? "Saved" : "Save"}
                 </Button>
+
+                <AddToCollectionButton resourceId={resource.id} />
                 
                 <Button 
                   className="flex items-center gap-2"
@@ -399,6 +409,8 @@ export default function ResourceDetail() {
                   </CardContent>
                 </Card>
               )}
+
+              <ResourceRatings resourceId={resource.id} />
             </div>
 
             {/* Sidebar */}
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from "react";
-import { Link, useLocation } from "wouter";
-import { Heart } from "lucide-react";
+import { Link, useSearch } from "wouter";
+import { BellRing, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -49,15 +49,15 @@ const recordAnalyticsEvent = (eventName: string, payload: any) => {
 };
 
 export default function Resources() {
-  const [location] = useLocation();
+  const search = useSearch();
   const [activeTab, setActiveTab] = useState('tools-templates');
   
-  // Update activeTab when location changes
+  // Update activeTab when the query string changes
   useEffect(() => {
-    const urlParams = new URLSearchParams(location.split('?')[1] || '');
+    const urlParams = new URLSearchParams(search);
     const tabFromUrl = urlParams.get('tab') || 'tools-templates';
     setActiveTab(tabFromUrl);
-  }, [location]);
+  }, [search]);
   
   // Tab change handler
   const handleTabChange = useCallback((tabId: string) => {
@@ -97,6 +97,13 @@ export default function Resources() {
                     Saved
                   </Button>
                 </Link>
+
+                <Link href="/dashboard/saved-searches">
+                  <Button variant="outline" size="sm" className="flex items-center gap-2">
+                    <BellRing className="h-4 w-4" aria-hidden="true" />
+                    Saved Searches
+                  </Button>
+                </Link>
                 
                 <SuggestDialog />
               </div>
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Link, useParams } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { BellOff, Loader2, XCircle } from "lucide-react";
+import { useEffect } from "react";
+
+// Landing page for the "Stop these emails" link in saved search digests
+export default function SavedSearchUnsubscribe() {
+  const { token } = useParams<{ token: string }>();
+  const { isAuthenticated } = useAuth();
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: (): Promise<{ name: string }> => apiRequest("POST", `/api/saved-searches/unsubscribe/${token}`),
+  });
+
+  useEffect(() => {
+    unsubscribeMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen py-8 px-4 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-md mx-auto">
+        <Card className="shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-xl sm:text-2xl flex items-center gap-2">
+              {unsubscribeMutation.isError ? (
+                <>
+                  <XCircle className="h-5 w-5 text-red-600" />
+                  Link Not Valid
+                </>
+              ) : unsubscribeMutation.isSuccess ? (
+                <>
+                  <BellOff className="h-5 w-5 text-ugga-primary" />
+                  Unsubscribed
+                </>
+              ) : (
+                <>
+                  <Loader2 className="h-5 w-5 animate-spin text-ugga-primary" />
+                  Unsubscribing...
+                </>
+              )}
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            {unsubscribeMutation.isSuccess && (
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                You won't get any more digest emails for "{unsubscribeMutation.data.name}". The saved search itself is
+                still there, and you can turn emails back on from your Saved Searches page.
+              </p>
+            )}
+            {unsubscribeMutation.isError && (
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                This unsubscribe link doesn't work any more, probably because the saved search was deleted. You can
+                manage digest emails from your Saved Searches page.
+              </p>
+            )}
+
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Link
+                href={isAuthenticated ? "/dashboard/saved-searches" : "/login"}
+                className="flex items-center justify-center gap-2 text-sm text-ugga-primary hover:text-ugga-secondary transition-colors"
+              >
+                {isAuthenticated ? "Go to Saved Searches" : "Log In"}
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
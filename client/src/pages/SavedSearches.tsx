@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowRight, BellRing, ChevronDown, ChevronRight, Loader2, Search, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import EmptyState from "@/components/common/EmptyState";
+import {
+  DIGEST_FREQUENCY_OPTIONS,
+  savedSearchResultsPath,
+  type SavedSearchEntry,
+  type SavedSearchMatch,
+} from "@/lib/api/savedSearches";
+import type { SavedSearchDigestFrequency } from "@shared/schema";
+
+const SAVED_SEARCHES_QUERY_KEY = "/api/saved-searches";
+
+// apiRequest errors read "<status>: <body>"
+function errorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function describeSearch(search: SavedSearchEntry): string {
+  const parts = [search.type ? search.type.replace("_", " ") : "All resources"];
+  if (search.q) parts.push(`"${search.q}"`);
+  const filterCount = Object.keys(search.filters).length;
+  if (filterCount > 0) parts.push(`${filterCount} filter${filterCount === 1 ? "" : "s"}`);
+  return parts.join(" · ");
+}
+
+function NewMatches({ search }: { search: SavedSearchEntry }) {
+  const { data, isLoading } = useQuery<{ items: SavedSearchMatch[]; total: number }>({
+    queryKey: [`${SAVED_SEARCHES_QUERY_KEY}/${search.id}/new-matches`],
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500 py-2">Loading new matches...</div>;
+  }
+  if (!data || data.total === 0) {
+    return <div className="text-sm text-gray-500 py-2">Nothing new since you last looked.</div>;
+  }
+
+  return (
+    <ul className="divide-y border rounded-md">
+      {data.items.map(match => (
+        <li key={match.id} className="p-3 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <Link href={`/dashboard/resources/${match.id}`} className="font-medium text-gray-900 hover:text-ugga-primary">
+              {match.title}
+            </Link>
+            {match.summary && <p className="text-sm text-gray-600 line-clamp-1">{match.summary}</p>}
+          </div>
+          <span className="text-xs text-gray-500 flex-shrink-0">
+            {formatDistanceToNow(new Date(match.changedAt), { addSuffix: true })}
+          </span>
+        </li>
+      ))}
+      {data.total > data.items.length && (
+        <li className="p-3 text-sm text-gray-500">...and {data.total - data.items.length} more</li>
+      )}
+    </ul>
+  );
+}
+
+export default function SavedSearches() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: searches = [], isLoading } = useQuery<SavedSearchEntry[]>({
+    queryKey: [SAVED_SEARCHES_QUERY_KEY],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, digestFrequency }: { id: string; digestFrequency: SavedSearchDigestFrequency }) =>
+      apiRequest("PUT", `${SAVED_SEARCHES_QUERY_KEY}/${id}`, { digestFrequency }),
+    onSuccess: (_result, { digestFrequency }) => {
+      queryClient.invalidateQueries({ queryKey: [SAVED_SEARCHES_QUERY_KEY] });
+      toast({ title: digestFrequency === "none" ? "Digest emails turned off" : `You'll get a ${digestFrequency} digest` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to update saved search."), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `${SAVED_SEARCHES_QUERY_KEY}/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SAVED_SEARCHES_QUERY_KEY] });
+      toast({ title: "Saved search deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to delete saved search."), variant: "destructive" });
+    },
+  });
+
+  // Opening the results resets the new-match count
+  const openMutation = useMutation({
+    mutationFn: (search: SavedSearchEntry) => apiRequest("POST", `${SAVED_SEARCHES_QUERY_KEY}/${search.id}/seen`),
+    onSettled: (_result, _error, search) => {
+      queryClient.invalidateQueries({ queryKey: [SAVED_SEARCHES_QUERY_KEY] });
+      setLocation(savedSearchResultsPath(search));
+    },
+  });
+
+  const handleDelete = (search: SavedSearchEntry) => {
+    if (window.confirm(`Delete the saved search "${search.name}"?`)) {
+      deleteMutation.mutate(search.id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <BellRing className="h-8 w-8 text-ugga-primary" />
+            <h1 className="text-3xl font-bold text-gray-900">Saved Searches</h1>
+          </div>
+          <p className="text-gray-700">
+            Searches you've saved in the Resource Library, with resources added or updated since you last opened them.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-ugga-primary" />
+          </div>
+        ) : searches.length === 0 ? (
+          <EmptyState
+            title="No saved searches yet"
+            body="Set up the filters you keep coming back to in the Grants or Learning tab, then choose Save Search."
+            icon={<Search className="h-10 w-10 text-gray-400" />}
+            ctaText="Browse Grants"
+            onCtaClick={() => setLocation("/dashboard/resources?tab=grants")}
+          />
+        ) : (
+          <div className="space-y-4">
+            {searches.map(search => {
+              const isExpanded = expandedId === search.id;
+
+              return (
+                <Card key={search.id} data-testid={`saved-search-${search.id}`}>
+                  <CardHeader className="pb-3">
+                    <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                      <div className="min-w-0">
+                        <CardTitle className="text-lg flex items-center gap-2 flex-wrap">
+                          {search.name}
+                          {search.newMatchCount > 0 && (
+                            <Badge className="bg-ugga-primary text-white" data-testid={`badge-new-matches-${search.id}`}>
+                              {search.newMatchCount} new
+                            </Badge>
+                          )}
+                        </CardTitle>
+                        <p className="text-sm text-gray-600 mt-1 capitalize">{describeSearch(search)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Last opened {formatDistanceToNow(new Date(search.lastSeenAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Select
+                          value={search.digestFrequency}
+                          onValueChange={(value) => updateMutation.mutate({ id: search.id, digestFrequency: value as SavedSearchDigestFrequency })}
+                          disabled={updateMutation.isPending}
+                        >
+                          <SelectTrigger className="w-40" data-testid={`select-digest-${search.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DIGEST_FREQUENCY_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          onClick={() => openMutation.mutate(search)}
+                          disabled={openMutation.isPending}
+                          data-testid={`button-open-saved-search-${search.id}`}
+                        >
+                          View Results
+                          <ArrowRight className="h-4 w-4 ml-1" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          onClick={() => handleDelete(search)}
+                          disabled={deleteMutation.isPending}
+                          aria-label={`Delete ${search.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pt-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-0 text-gray-700"
+                      onClick={() => setExpandedId(isExpanded ? null : search.id)}
+                    >
+                      {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                      What's new
+                    </Button>
+                    {isExpanded && <NewMatches search={search} />}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Link } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { Sprout, Loader2, CheckCircle, XCircle, MailCheck } from "lucide-react";
+import { useEffect, useState } from "react";
+
+export default function VerifyEmail() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed" | "missing">("verifying");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const verifyMutation = useMutation({
+    mutationFn: (token: string) => apiRequest("POST", "/api/auth/verify-email", { token }),
+    onSuccess: () => {
+      setStatus("verified");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError: (error: Error) => {
+      setStatus("failed");
+      setErrorMessage(error.message);
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/resend-verification"),
+  });
+
+  // Verify the token from the URL on mount
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const token = urlParams.get('token');
+    if (token) {
+      verifyMutation.mutate(token);
+    } else {
+      setStatus("missing");
+    }
+  }, []);
+
+  return (
+    <div className="min-h-screen py-8 px-4 bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-md mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Sprout className="h-12 w-12 text-ugga-primary mx-auto mb-4" />
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Verify Your Email
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 text-sm sm:text-base">
+            Confirming your address helps us keep the community grower-only
+          </p>
+        </div>
+
+        <Card className="shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-xl sm:text-2xl flex items-center gap-2">
+              {status === "verifying" && (
+                <>
+                  <Loader2 className="h-5 w-5 animate-spin text-ugga-primary" />
+                  Verifying...
+                </>
+              )}
+              {status === "verified" && (
+                <>
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  Email Verified
+                </>
+              )}
+              {(status === "failed" || status === "missing") && (
+                <>
+                  <XCircle className="h-5 w-5 text-red-600" />
+                  Verification Failed
+                </>
+              )}
+            </CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            {status === "verified" && (
+              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+                <p className="text-green-800 dark:text-green-200 text-sm">
+                  Thanks! Your email address has been confirmed. You now have full access to the forum and Ask an Expert.
+                </p>
+              </div>
+            )}
+
+            {(status === "failed" || status === "missing") && (
+              <div className="space-y-4">
+                <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                  <p className="text-red-800 dark:text-red-200 text-sm">
+                    {status === "missing"
+                      ? "This verification link is incomplete. Please use the link from your email."
+                      : errorMessage || "This verification link is invalid or has expired."}
+                  </p>
+                </div>
+
+                {isAuthenticated && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => resendMutation.mutate()}
+                    disabled={resendMutation.isPending || resendMutation.isSuccess}
+                  >
+                    {resendMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Sending...
+                      </>
+                    ) : resendMutation.isSuccess ? (
+                      <>
+                        <MailCheck className="mr-2 h-4 w-4" />
+                        New Link Sent
+                      </>
+                    ) : (
+                      "Send a New Verification Link"
+                    )}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Link
+                href={isAuthenticated ? "/dashboard" : "/login"}
+                className="flex items-center justify-center gap-2 text-sm text-ugga-primary hover:text-ugga-secondary transition-colors"
+              >
+                {isAuthenticated ? "Go to Dashboard" : "Back to Login"}
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
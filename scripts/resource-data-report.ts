@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migration report for resources.data
+ * Lists every resource whose data doesn't match the schema for its type
+ * (shared/resourceData.ts), plus keys the schema doesn't know about.
+ * Exits with status 1 when any resource fails validation.
+ *
+ * Usage: DATABASE_URL=... npm run resources:data-report [-- --json]
+ */
+
+import { buildResourceDataReport } from '../server/resourceData';
+import { pool } from '../server/db';
+
+async function main() {
+  const report = await buildResourceDataReport();
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    for (const row of report.rows) {
+      console.log(`${row.type ?? 'untyped'} ${row.id} "${row.title}"`);
+      for (const error of row.errors) {
+        console.log(`   ✗ ${error}`);
+      }
+      if (row.unknownKeys.length > 0) {
+        console.log(`   ? Unknown keys: ${row.unknownKeys.join(', ')}`);
+      }
+    }
+    console.log(`\n📊 Checked ${report.checked} resources: ${report.invalid} invalid, ${report.rows.length - report.invalid} with unknown keys only`);
+  }
+
+  return report.invalid === 0;
+}
+
+main()
+  .then(ok => process.exitCode = ok ? 0 : 1)
+  .catch(error => {
+    console.error('💥 Resource data report failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiTokenScope, Role } from "@shared/schema";
+import { canGrantScope, isRouteAllowedForScopes } from "./apiTokens";
+
+const { RESOURCES_READ, FORUM_WRITE, ADMIN } = ApiTokenScope;
+
+describe("isRouteAllowedForScopes", () => {
+  const cases: [scope: ApiTokenScope, method: string, path: string, allowed: boolean][] = [
+    // resources:read is read-only and limited to the public content APIs
+    [RESOURCES_READ, "GET", "/api/resources", true],
+    [RESOURCES_READ, "GET", "/api/resources/abc123", true],
+    [RESOURCES_READ, "GET", "/api/favorites", true],
+    [RESOURCES_READ, "GET", "/api/search", true],
+    [RESOURCES_READ, "GET", "/api/blog/some-post", true],
+    [RESOURCES_READ, "POST", "/api/resources", false],
+    [RESOURCES_READ, "DELETE", "/api/favorites/abc123", false],
+    [RESOURCES_READ, "GET", "/api/resources-export", false],
+    [RESOURCES_READ, "POST", "/api/blog-images/upload", false],
+    [RESOURCES_READ, "GET", "/api/forum/posts", false],
+
+    // forum:write covers the forum with any method, and nothing else
+    [FORUM_WRITE, "GET", "/api/forum/posts", true],
+    [FORUM_WRITE, "POST", "/api/forum/posts", true],
+    [FORUM_WRITE, "DELETE", "/api/forum/posts/abc123", true],
+    [FORUM_WRITE, "GET", "/api/forum", false],
+    [FORUM_WRITE, "GET", "/api/resources", false],
+
+    // admin covers the admin tools and image uploads
+    [ADMIN, "GET", "/api/admin/users", true],
+    [ADMIN, "PUT", "/api/admin/resources/abc123", true],
+    [ADMIN, "POST", "/api/resource-images/upload", true],
+    [ADMIN, "POST", "/api/blog-images/upload", true],
+    [ADMIN, "GET", "/api/resource-images/upload", false],
+    [ADMIN, "GET", "/api/resources", false],
+
+    // Account and token management stay cookie-only for every scope
+    [ADMIN, "POST", "/api/auth/api-tokens", false],
+    [ADMIN, "PUT", "/api/auth/change-password", false],
+    [FORUM_WRITE, "GET", "/api/auth/me", false],
+  ];
+
+  for (const [scope, method, path, allowed] of cases) {
+    it(`${allowed ? "allows" : "denies"} ${method} ${path} for ${scope}`, () => {
+      assert.equal(isRouteAllowedForScopes(method, path, [scope]), allowed);
+    });
+  }
+
+  it("keeps non-admin scopes out of the admin tools", () => {
+    for (const method of ["GET", "POST", "PUT", "PATCH", "DELETE"]) {
+      for (const path of ["/api/admin/users", "/api/admin/resources", "/api/admin/forum/posts/abc123", "/api/admin/blog"]) {
+        assert.equal(isRouteAllowedForScopes(method, path, [RESOURCES_READ, FORUM_WRITE]), false, `${method} ${path}`);
+      }
+    }
+  });
+
+  it("allows a route when any of the token's scopes covers it", () => {
+    assert.equal(isRouteAllowedForScopes("POST", "/api/forum/posts", [RESOURCES_READ, FORUM_WRITE]), true);
+  });
+
+  it("denies everything to a token without known scopes", () => {
+    assert.equal(isRouteAllowedForScopes("GET", "/api/resources", []), false);
+    assert.equal(isRouteAllowedForScopes("GET", "/api/admin/users", ["admin:everything"]), false);
+  });
+});
+
+describe("canGrantScope", () => {
+  it("lets every role grant the member scopes", () => {
+    for (const role of Object.values(Role)) {
+      assert.equal(canGrantScope(role, RESOURCES_READ), true, role);
+      assert.equal(canGrantScope(role, FORUM_WRITE), true, role);
+    }
+  });
+
+  it("only lets admins and staff grant the admin scope", () => {
+    assert.equal(canGrantScope(Role.ADMIN, ADMIN), true);
+    assert.equal(canGrantScope(Role.MODERATOR, ADMIN), true);
+    assert.equal(canGrantScope(Role.CONTENT_EDITOR, ADMIN), true);
+    assert.equal(canGrantScope(Role.EXPERT, ADMIN), true);
+    assert.equal(canGrantScope(Role.MEMBER, ADMIN), false);
+    assert.equal(canGrantScope(Role.GUEST, ADMIN), false);
+    assert.equal(canGrantScope("SUPERUSER", ADMIN), false);
+  });
+});
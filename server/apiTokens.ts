@@ -0,0 +1,74 @@
+import { createHash, randomBytes } from "crypto";
+import { ApiTokenScope, Role, ROLE_PERMISSIONS, type ApiToken } from "@shared/schema";
+
+export const API_TOKEN_PREFIX = "ugga_pat_";
+export const MAX_API_TOKENS_PER_USER = 20;
+
+// Writing last-used on every request would mean a database write per call
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+interface ScopeRoute {
+  methods?: string[]; // Any method when omitted
+  path: RegExp;
+}
+
+// Routes a token may call, by scope. Anything not listed (account, password,
+// token management) stays cookie-only, and the route's own role checks still
+// apply on top.
+const SCOPE_ROUTES: Record<ApiTokenScope, ScopeRoute[]> = {
+  [ApiTokenScope.RESOURCES_READ]: [
+    { methods: ["GET"], path: /^\/api\/(resources|favorites|search|blog)(\/|$)/ },
+  ],
+  [ApiTokenScope.FORUM_WRITE]: [
+    { path: /^\/api\/forum\// },
+  ],
+  [ApiTokenScope.ADMIN]: [
+    { path: /^\/api\/admin\// },
+    { methods: ["POST"], path: /^\/api\/(resource|blog)-images\/upload$/ },
+  ],
+};
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generate a new token. The raw token is shown to the member once; only the
+ * hash and a short prefix are stored.
+ */
+export function generateApiToken(): { token: string; tokenPrefix: string; tokenHash: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 4),
+    tokenHash: hashApiToken(token),
+  };
+}
+
+// The admin scope is only offered to roles that can use the admin tools
+export function canGrantScope(role: Role | string, scope: ApiTokenScope): boolean {
+  if (scope !== ApiTokenScope.ADMIN) return true;
+  return role === Role.ADMIN || (ROLE_PERMISSIONS[role as Role] ?? []).length > 0;
+}
+
+export function isApiTokenUsable(token: ApiToken): boolean {
+  return !token.revokedAt && (!token.expiresAt || token.expiresAt.getTime() > Date.now());
+}
+
+export function isRouteAllowedForScopes(method: string, path: string, scopes: string[]): boolean {
+  return scopes.some(scope =>
+    (SCOPE_ROUTES[scope as ApiTokenScope] ?? []).some(route =>
+      (!route.methods || route.methods.includes(method)) && route.path.test(path)
+    )
+  );
+}
+
+export function shouldRecordApiTokenUse(token: ApiToken): boolean {
+  return !token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS;
+}
+
+// Hide the hash when sending tokens to the client
+export function toApiTokenResponse(token: ApiToken) {
+  const { tokenHash, ...rest } = token;
+  return rest;
+}
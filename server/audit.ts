@@ -0,0 +1,192 @@
+import type { Response, NextFunction } from "express";
+import { storage, type AuditEntityType } from "./storage";
+import type { AuthRequest } from "./auth";
+import type { AuditChanges, AdminAuditLog } from "@shared/schema";
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Never copy secrets into the log, only the fact that they changed
+const REDACTED_FIELDS = new Set(["passwordHash", "password", "totpSecret", "refreshTokenHash", "codeHash", "shareToken"]);
+// Bookkeeping and derived columns that change on every write
+const IGNORED_FIELDS = new Set(["updatedAt", "search_vector"]);
+
+const METHOD_VERBS: Record<string, string> = {
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete",
+};
+
+interface AuditContext {
+  action?: string;
+  entityType?: AuditEntityType | string;
+  entityId?: string;
+  before?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+  privileged?: boolean; // Logs a mutation outside /api/admin; see auditPrivilegedMutations
+}
+
+type Snapshot = Record<string, unknown> | null | undefined;
+
+function getAuditContext(res: Response): AuditContext {
+  if (!res.locals.audit) {
+    res.locals.audit = {};
+  }
+  return res.locals.audit;
+}
+
+/**
+ * Describe the entity a handler is changing, for the audit entry written once
+ * the response finishes. Handlers creating records call this with the new id.
+ */
+export function setAuditContext(res: Response, context: AuditContext): void {
+  Object.assign(getAuditContext(res), context);
+}
+
+/**
+ * Snapshot an entity before it is changed so the audit entry can record a
+ * before/after diff. Call before updating or deleting.
+ */
+export async function captureAuditBefore(res: Response, entityType: AuditEntityType, entityId: string, action?: string): Promise<void> {
+  const before = await storage.getAuditSnapshot(entityType, entityId);
+  setAuditContext(res, { entityType, entityId, before: before ?? null, ...(action ? { action } : {}) });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Nested objects (the member profile, resource data) are diffed per field
+function flatten(snapshot: Snapshot, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (!snapshot) return out;
+  for (const [key, value] of Object.entries(snapshot)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flatten(value, path, out);
+    } else {
+      out[path] = value;
+    }
+  }
+  return out;
+}
+
+function normalize(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+export function diffSnapshots(before: Snapshot, after: Snapshot): AuditChanges {
+  const flatBefore = flatten(before);
+  const flatAfter = flatten(after);
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]))) {
+    const leaf = field.split(".").pop()!;
+    if (IGNORED_FIELDS.has(leaf)) continue;
+
+    const previous = normalize(flatBefore[field]);
+    const next = normalize(flatAfter[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(leaf)
+      ? { before: "[redacted]", after: "[redacted]" }
+      : { before: previous, after: next };
+  }
+  return changes;
+}
+
+// Fallback when a handler didn't describe its entity: /api/admin/members/123 -> "members"
+function entityTypeFromPath(path: string): string {
+  const [section] = path.replace(/^\/api\/(admin\/?)?/, "").split(/[/?]/);
+  return section || "admin";
+}
+
+async function writeAuditEntry(req: AuthRequest, res: Response): Promise<void> {
+  const context = getAuditContext(res);
+  const path = req.originalUrl.split("?")[0];
+  const entityType = context.entityType || entityTypeFromPath(path);
+  const entityId = context.entityId || req.params?.id || null;
+  const action = context.action || `${entityType}.${METHOD_VERBS[req.method] || req.method.toLowerCase()}`;
+
+  let after: Snapshot = null;
+  if (context.entityType && context.entityId && req.method !== "DELETE") {
+    after = await storage.getAuditSnapshot(context.entityType as AuditEntityType, context.entityId);
+  }
+
+  const changes = context.before !== undefined || after ? diffSnapshots(context.before, after) : null;
+
+  await storage.createAdminAuditLog({
+    actorId: req.user?.id ?? null,
+    actorEmail: req.user?.email ?? null,
+    action,
+    entityType,
+    entityId,
+    changes,
+    metadata: context.metadata ?? null,
+    method: req.method,
+    path,
+    ipAddress: req.ip || null,
+    userAgent: req.get("user-agent")?.slice(0, 512) || null,
+  });
+}
+
+// Write the entry once a successful mutation's response has been sent, if
+// it turns out to be one we log. Failed and rejected requests aren't logged.
+function auditOnFinish(req: AuthRequest, res: Response, next: NextFunction, shouldLog: () => boolean): void {
+  if (!MUTATING_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  res.on("finish", () => {
+    if (res.statusCode >= 400 || !req.user || !shouldLog()) return;
+    writeAuditEntry(req, res).catch(error => {
+      console.error("Failed to write audit log entry:", error);
+    });
+  });
+  next();
+}
+
+/**
+ * Record every successful mutation under /api/admin in the audit log.
+ */
+export function auditAdminMutations(req: AuthRequest, res: Response, next: NextFunction): void {
+  auditOnFinish(req, res, next, () => true);
+}
+
+/**
+ * Record privileged mutations elsewhere: routes behind requirePermission, and
+ * staff acting on someone else's content, which the handler marks with
+ * setAuditContext(res, { privileged: true }).
+ */
+export function auditPrivilegedMutations(req: AuthRequest, res: Response, next: NextFunction): void {
+  // auditAdminMutations already has these
+  if (/^\/api\/admin(\/|$)/.test(req.originalUrl)) {
+    next();
+    return;
+  }
+  auditOnFinish(req, res, next, () => getAuditContext(res).privileged === true);
+}
+
+export const AUDIT_CSV_HEADER = ["timestamp", "actor_id", "actor_email", "action", "entity_type", "entity_id", "method", "path", "ip_address", "changes", "metadata"];
+
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatAuditCsvRow(entry: AdminAuditLog): string {
+  return [
+    entry.createdAt.toISOString(),
+    entry.actorId,
+    entry.actorEmail,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    entry.method,
+    entry.path,
+    entry.ipAddress,
+    entry.changes,
+    entry.metadata,
+  ].map(csvCell).join(",");
+}
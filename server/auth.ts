@@ -1,18 +1,38 @@
 import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
+import { createHash, randomBytes, randomUUID } from "crypto";
 import { type Request, type Response, type NextFunction } from "express";
 import { storage } from "./storage";
-import { Role } from "@shared/schema";
+import { Role, MEMBER_ROLES, hasPermission, type Permission, type User, type ApiTokenScope } from "@shared/schema";
+import { isTwoFactorRequiredForAdmins } from "./twoFactor";
+import { hashApiToken, isApiTokenUsable, isRouteAllowedForScopes, shouldRecordApiTokenUse } from "./apiTokens";
+import { setAuditContext } from "./audit";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
 const SALT_ROUNDS = 12;
 
+// Access tokens are short-lived; the refresh token keeps the session alive
+const ACCESS_TOKEN_TTL = "15m";
+const ACCESS_TOKEN_MAX_AGE_MS = 15 * 60 * 1000; // 15 minutes
+const REFRESH_TOKEN_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+// Window in which the previous refresh token is still honoured, so parallel
+// requests racing the same rotation don't look like token theft
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     username: string;
     email: string;
     role: Role;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    sessionId?: string;
+  };
+  // Set when the request was authenticated with a personal API token
+  apiToken?: {
+    id: string;
+    scopes: ApiTokenScope[];
   };
 }
 
@@ -24,7 +44,7 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return await bcrypt.compare(password, hash);
 }
 
-export function generateToken(user: { id: string; username?: string; email: string; role?: Role; type?: string }, expiresIn: string = "7d"): string {
+export function generateToken(user: { id: string; username?: string; email: string; role?: Role; type?: string; sessionId?: string }, expiresIn: string = "7d"): string {
   return jwt.sign(
     {
       id: user.id,
@@ -32,6 +52,7 @@ export function generateToken(user: { id: string; username?: string; email: stri
       email: user.email,
       role: user.role,
       type: user.type,
+      sid: user.sessionId,
     },
     JWT_SECRET,
     { expiresIn: expiresIn }
@@ -51,42 +72,246 @@ export function setAuthCookie(res: Response, token: string): void {
     httpOnly: true,
     secure: process.env.NODE_ENV === "production",
     sameSite: "lax",
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    maxAge: ACCESS_TOKEN_MAX_AGE_MS,
+  });
+}
+
+function setRefreshCookie(res: Response, token: string): void {
+  res.cookie("refresh-token", token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: REFRESH_TOKEN_MAX_AGE_MS,
   });
 }
 
 export function clearAuthCookie(res: Response): void {
   res.clearCookie("auth-token");
+  res.clearCookie("refresh-token");
+}
+
+function hashRefreshSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+// Refresh cookie format is "<sessionId>.<secret>"
+function parseRefreshCookie(req: Request): { sessionId: string; secret: string } | null {
+  const raw = req.cookies?.["refresh-token"];
+  if (!raw || typeof raw !== "string") return null;
+
+  const separator = raw.indexOf(".");
+  if (separator <= 0) return null;
+
+  return { sessionId: raw.slice(0, separator), secret: raw.slice(separator + 1) };
+}
+
+type SessionUser = Pick<User, "id" | "username" | "email" | "role" | "emailVerified" | "totpEnabledAt">;
+
+function toAuthUser(user: SessionUser, sessionId?: string): NonNullable<AuthRequest["user"]> {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role as Role,
+    emailVerified: !!user.emailVerified,
+    twoFactorEnabled: !!user.totpEnabledAt,
+    sessionId,
+  };
+}
+
+function issueAccessToken(res: Response, user: SessionUser, sessionId: string): void {
+  const token = generateToken({
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role as Role,
+    sessionId,
+  }, ACCESS_TOKEN_TTL);
+  setAuthCookie(res, token);
+}
+
+/**
+ * Start a new server-side session for a freshly authenticated user and set
+ * both the access and refresh cookies.
+ */
+export async function createSession(req: Request, res: Response, user: SessionUser): Promise<string> {
+  const sessionId = randomUUID();
+  const secret = randomBytes(32).toString("base64url");
+
+  await storage.createSession({
+    id: sessionId,
+    userId: user.id,
+    refreshTokenHash: hashRefreshSecret(secret),
+    userAgent: req.get("user-agent")?.slice(0, 512) || null,
+    ipAddress: req.ip || null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_MAX_AGE_MS),
+  });
+
+  issueAccessToken(res, user, sessionId);
+  setRefreshCookie(res, `${sessionId}.${secret}`);
+  return sessionId;
+}
+
+/**
+ * Exchange the refresh cookie for a new access token, rotating the refresh
+ * token. Presenting an already-rotated token outside the grace window revokes
+ * the whole session, since it means the token was copied.
+ */
+export async function refreshSession(req: Request, res: Response): Promise<AuthRequest["user"] | null> {
+  const parsed = parseRefreshCookie(req);
+  if (!parsed) return null;
+
+  const session = await storage.getSession(parsed.sessionId);
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user) return null;
+
+  const presentedHash = hashRefreshSecret(parsed.secret);
+  const now = new Date();
+
+  if (presentedHash === session.refreshTokenHash) {
+    const nextSecret = randomBytes(32).toString("base64url");
+    await storage.updateSession(session.id, {
+      refreshTokenHash: hashRefreshSecret(nextSecret),
+      previousTokenHash: presentedHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      ipAddress: req.ip || session.ipAddress,
+    });
+    issueAccessToken(res, user, session.id);
+    setRefreshCookie(res, `${session.id}.${nextSecret}`);
+  } else if (
+    presentedHash === session.previousTokenHash &&
+    now.getTime() - session.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS
+  ) {
+    // A concurrent request already rotated; the browser has the new refresh cookie
+    issueAccessToken(res, user, session.id);
+  } else {
+    console.warn(`Refresh token reuse detected for session ${session.id}, revoking`);
+    await storage.revokeSession(session.id);
+    return null;
+  }
+
+  return toAuthUser(user, session.id);
+}
+
+/**
+ * Identify the session behind the current request, from either the access
+ * token (expired tokens are fine, the signature is still checked) or the
+ * refresh cookie.
+ */
+async function resolveRequestSessionId(req: Request): Promise<string | null> {
+  const token = req.cookies?.["auth-token"];
+  if (token) {
+    try {
+      const decoded = jwt.verify(token, JWT_SECRET, { ignoreExpiration: true }) as any;
+      if (decoded?.sid) return decoded.sid;
+    } catch {
+      // Fall through to the refresh cookie
+    }
+  }
+
+  const parsed = parseRefreshCookie(req);
+  if (!parsed) return null;
+
+  const session = await storage.getSession(parsed.sessionId);
+  const presentedHash = hashRefreshSecret(parsed.secret);
+  if (session && (presentedHash === session.refreshTokenHash || presentedHash === session.previousTokenHash)) {
+    return session.id;
+  }
+  return null;
+}
+
+/**
+ * Revoke the session behind the current request and clear its cookies.
+ */
+export async function endSession(req: Request, res: Response): Promise<void> {
+  const sessionId = await resolveRequestSessionId(req);
+  if (sessionId) {
+    await storage.revokeSession(sessionId);
+  }
+  clearAuthCookie(res);
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.get("authorization");
+  if (!header) return null;
+
+  const [scheme, value] = header.split(" ");
+  return scheme?.toLowerCase() === "bearer" && value ? value.trim() : null;
+}
+
+// Personal API tokens: no session, no cookie fallback, and limited to the
+// routes their scopes allow
+async function authenticateApiToken(req: AuthRequest, res: Response, next: NextFunction, rawToken: string): Promise<void> {
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(rawToken));
+  const user = apiToken && isApiTokenUsable(apiToken) ? await storage.getUser(apiToken.userId) : undefined;
+  if (!apiToken || !user) {
+    res.status(401).json({ message: "Invalid or expired API token" });
+    return;
+  }
+
+  const path = req.originalUrl.split("?")[0];
+  if (!isRouteAllowedForScopes(req.method, path, apiToken.scopes)) {
+    res.status(403).json({ message: "This API token doesn't have access to this endpoint" });
+    return;
+  }
+
+  if (shouldRecordApiTokenUse(apiToken)) {
+    storage.touchApiToken(apiToken.id, req.ip || null).catch(error => {
+      console.error("Failed to record API token use:", error);
+    });
+  }
+
+  req.user = toAuthUser(user);
+  req.apiToken = { id: apiToken.id, scopes: apiToken.scopes as ApiTokenScope[] };
+  next();
 }
 
 export async function authenticate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
   try {
-    const token = req.cookies["auth-token"];
-    
-    if (!token) {
-      res.status(401).json({ message: "Authentication required" });
+    const bearerToken = getBearerToken(req);
+    if (bearerToken) {
+      await authenticateApiToken(req, res, next, bearerToken);
       return;
     }
 
-    const decoded = verifyToken(token);
-    if (!decoded) {
-      res.status(401).json({ message: "Invalid token" });
-      return;
+    const token = req.cookies["auth-token"];
+    const decoded = token ? verifyToken(token) : null;
+
+    // Only session-bound access tokens are accepted; purpose tokens such as
+    // password-reset links carry no session id
+    if (decoded?.sid && !decoded.type) {
+      const session = await storage.getSession(decoded.sid);
+      if (session && !session.revokedAt && session.userId === decoded.id) {
+        // Verify user still exists
+        const user = await storage.getUser(decoded.id);
+        if (user) {
+          req.user = toAuthUser(user, session.id);
+        }
+      }
     }
 
-    // Verify user still exists
-    const user = await storage.getUser(decoded.id);
-    if (!user) {
-      res.status(401).json({ message: "User not found" });
-      return;
+    // Access token missing or expired: try a silent refresh
+    if (!req.user) {
+      const refreshedUser = await refreshSession(req, res);
+      if (refreshedUser) {
+        req.user = refreshedUser;
+      }
     }
 
-    req.user = {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role as Role,
-    };
+    if (!req.user) {
+      if (token || req.cookies["refresh-token"]) {
+        clearAuthCookie(res);
+        res.status(401).json({ message: "Session expired" });
+      } else {
+        res.status(401).json({ message: "Authentication required" });
+      }
+      return;
+    }
 
     next();
   } catch (error) {
@@ -110,5 +335,70 @@ export function requireRole(roles: Role[]) {
   };
 }
 
-export const requireMember = requireRole([Role.MEMBER, Role.ADMIN]);
-export const requireAdmin = requireRole([Role.ADMIN]);
+export const requireMember = requireRole(MEMBER_ROLES);
+
+const requireAdminRole = requireRole([Role.ADMIN]);
+
+// When REQUIRE_ADMIN_2FA=true, admins must enroll in two-factor auth before
+// they can use any admin route
+function rejectAdminWithoutTwoFactor(req: AuthRequest, res: Response): boolean {
+  if (req.user!.role === Role.ADMIN && isTwoFactorRequiredForAdmins() && !req.user!.twoFactorEnabled) {
+    res.status(403).json({
+      message: "Two-factor authentication is required for admin accounts",
+      code: "TWO_FACTOR_ENROLLMENT_REQUIRED",
+    });
+    return true;
+  }
+  return false;
+}
+
+export function requireAdmin(req: AuthRequest, res: Response, next: NextFunction): void {
+  requireAdminRole(req, res, () => {
+    if (rejectAdminWithoutTwoFactor(req, res)) return;
+    next();
+  });
+}
+
+/**
+ * Allow any role that grants `permission` (see ROLE_PERMISSIONS), so staff
+ * such as moderators and content editors can use their part of the admin
+ * tools without being full admins.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ message: "Authentication required" });
+      return;
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      res.status(403).json({ message: "Insufficient permissions" });
+      return;
+    }
+
+    if (rejectAdminWithoutTwoFactor(req, res)) return;
+    setAuditContext(res, { privileged: true });
+    next();
+  };
+}
+
+// Email verification is only enforced when REQUIRE_EMAIL_VERIFICATION=true,
+// so existing unverified accounts keep working until the flag is turned on.
+export function requireVerifiedEmail(req: AuthRequest, res: Response, next: NextFunction): void {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION !== "true") {
+    next();
+    return;
+  }
+
+  if (!req.user) {
+    res.status(401).json({ message: "Authentication required" });
+    return;
+  }
+
+  if (!req.user.emailVerified && req.user.role !== Role.ADMIN) {
+    res.status(403).json({ message: "Please verify your email address to continue", code: "EMAIL_NOT_VERIFIED" });
+    return;
+  }
+
+  next();
+}
@@ -5,6 +5,7 @@ interface UserEmailParams {
   subject: string;
   html: string;
   text: string;
+  headers?: Record<string, string>;
 }
 
 export async function sendUserEmail(params: UserEmailParams): Promise<boolean> {
@@ -33,6 +34,7 @@ export async function sendUserEmail(params: UserEmailParams): Promise<boolean> {
       subject: params.subject,
       text: params.text,
       html: params.html,
+      headers: params.headers,
     });
 
     console.log(`User email sent successfully to ${params.to}: ${params.subject}`);
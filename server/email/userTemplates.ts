@@ -0,0 +1,310 @@
+interface UserEmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Format the welcome / email verification message sent after registration
+ */
+export function formatVerificationEmail(data: {
+  verifyUrl: string;
+  isWelcome?: boolean;
+}): UserEmailContent {
+  const intro = data.isWelcome
+    ? "Thank you for joining our community. Your account has been created successfully."
+    : "You requested a new verification link for your UGGA account.";
+
+  return {
+    subject: data.isWelcome ? "Welcome to UGGA - Please verify your email" : "Verify your UGGA email address",
+    html: `
+      <h1>${data.isWelcome ? "Welcome to United Greenhouse Growers Association!" : "Verify Your Email"}</h1>
+      <p>${intro}</p>
+      <p>Please confirm your email address so other growers know you're for real (link expires in 24 hours):</p>
+      <p><a href="${data.verifyUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Verify Email</a></p>
+      <p>If the button doesn't work, copy and paste this link into your browser:</p>
+      <p>${data.verifyUrl}</p>
+      <p>If you didn't create an account, you can safely ignore this email.</p>
+    `,
+    text: `
+${data.isWelcome ? "Welcome to United Greenhouse Growers Association!" : "Verify Your Email"}
+
+${intro}
+
+Please confirm your email address by opening this link (link expires in 24 hours):
+${data.verifyUrl}
+
+If you didn't create an account, you can safely ignore this email.
+    `,
+  };
+}
+
+/**
+ * Format the notice sent when repeated failed sign-ins lock an account
+ */
+export function formatAccountLockedEmail(data: {
+  lockedUntil: Date;
+  resetUrl: string;
+  ipAddress?: string | null;
+}): UserEmailContent {
+  const unlockTime = data.lockedUntil.toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "UTC",
+  });
+  const source = data.ipAddress ? ` from IP address ${data.ipAddress}` : "";
+
+  return {
+    subject: "Your UGGA account has been temporarily locked",
+    html: `
+      <h1>Account Temporarily Locked</h1>
+      <p>We noticed several failed sign-in attempts on your UGGA account${source}, so we've locked it to keep it safe.</p>
+      <p>You can sign in again after <strong>${unlockTime} UTC</strong>.</p>
+      <p>If this wasn't you, we recommend resetting your password now:</p>
+      <p><a href="${data.resetUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Reset Password</a></p>
+      <p>If the button doesn't work, copy and paste this link into your browser:</p>
+      <p>${data.resetUrl}</p>
+      <p>If you need help getting back in, contact us and an administrator can unlock your account.</p>
+    `,
+    text: `
+Account Temporarily Locked
+
+We noticed several failed sign-in attempts on your UGGA account${source}, so we've locked it to keep it safe.
+
+You can sign in again after ${unlockTime} UTC.
+
+If this wasn't you, we recommend resetting your password now:
+${data.resetUrl}
+
+If you need help getting back in, contact us and an administrator can unlock your account.
+    `,
+  };
+}
+
+/**
+ * Format an invitation to join a farm account
+ */
+export function formatFarmInvitationEmail(data: {
+  farmName: string;
+  inviterName: string;
+  role: string;
+  inviteCode: string;
+  registerUrl: string;
+  joinUrl: string;
+}): UserEmailContent {
+  return {
+    subject: `You've been invited to join ${data.farmName} on UGGA`,
+    html: `
+      <h1>Join ${data.farmName} on UGGA</h1>
+      <p>${data.inviterName} has invited you to join <strong>${data.farmName}</strong> as ${data.role} on the United Greenhouse Growers Association platform.</p>
+      <p>Farm members share their Farm Roadmap assessments, saved resources and expert requests.</p>
+      <p>Your invite code is: <strong style="font-size: 18px; letter-spacing: 2px;">${data.inviteCode}</strong> (expires in 14 days)</p>
+      <p><strong>New to UGGA?</strong> Create your account with the invite code:</p>
+      <p><a href="${data.registerUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Create Account</a></p>
+      <p><strong>Already a member?</strong> Sign in and <a href="${data.joinUrl}">accept the invitation</a>.</p>
+      <p>If you weren't expecting this invitation, you can safely ignore this email.</p>
+    `,
+    text: `
+Join ${data.farmName} on UGGA
+
+${data.inviterName} has invited you to join ${data.farmName} as ${data.role} on the United Greenhouse Growers Association platform.
+
+Farm members share their Farm Roadmap assessments, saved resources and expert requests.
+
+Your invite code is: ${data.inviteCode} (expires in 14 days)
+
+New to UGGA? Create your account with the invite code:
+${data.registerUrl}
+
+Already a member? Sign in and accept the invitation:
+${data.joinUrl}
+
+If you weren't expecting this invitation, you can safely ignore this email.
+    `,
+  };
+}
+
+/**
+ * Format the confirmation link sent when a member asks to delete their account
+ */
+export function formatAccountDeletionConfirmEmail(data: {
+  confirmUrl: string;
+  exportUrl: string;
+}): UserEmailContent {
+  return {
+    subject: "Confirm your UGGA account deletion",
+    html: `
+      <h1>Confirm Account Deletion</h1>
+      <p>We received a request to permanently delete your UGGA account.</p>
+      <p>Once confirmed, your profile, saved resources, assessments, chat history, expert requests and feedback are erased. Your forum posts and comments stay in their threads but will no longer show your name.</p>
+      <p>Want a copy of your data first? <a href="${data.exportUrl}">Download it here</a> while you're still signed in.</p>
+      <p>To delete your account, click the button below (link expires in 1 hour):</p>
+      <p><a href="${data.confirmUrl}" style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Delete My Account</a></p>
+      <p>If the button doesn't work, copy and paste this link into your browser:</p>
+      <p>${data.confirmUrl}</p>
+      <p>If you didn't ask to delete your account, ignore this email and change your password.</p>
+    `,
+    text: `
+Confirm Account Deletion
+
+We received a request to permanently delete your UGGA account.
+
+Once confirmed, your profile, saved resources, assessments, chat history, expert requests and feedback are erased. Your forum posts and comments stay in their threads but will no longer show your name.
+
+Want a copy of your data first? Download it while you're still signed in:
+${data.exportUrl}
+
+To delete your account, open this link (link expires in 1 hour):
+${data.confirmUrl}
+
+If you didn't ask to delete your account, ignore this email and change your password.
+    `,
+  };
+}
+
+/**
+ * Format the notice sent once an account has been deleted
+ */
+export function formatAccountDeletedEmail(): UserEmailContent {
+  return {
+    subject: "Your UGGA account has been deleted",
+    html: `
+      <h1>Account Deleted</h1>
+      <p>Your UGGA account and the personal data linked to it have been deleted. Forum posts and comments you wrote remain, without your name.</p>
+      <p>Thank you for being part of the United Greenhouse Growers Association. You're welcome to join again any time.</p>
+    `,
+    text: `
+Account Deleted
+
+Your UGGA account and the personal data linked to it have been deleted. Forum posts and comments you wrote remain, without your name.
+
+Thank you for being part of the United Greenhouse Growers Association. You're welcome to join again any time.
+    `,
+  };
+}
+
+/**
+ * Format the passwordless sign-in link email
+ */
+export function formatMagicLinkEmail(data: {
+  loginUrl: string;
+}): UserEmailContent {
+  return {
+    subject: "Your UGGA sign-in link",
+    html: `
+      <h1>Sign In to UGGA</h1>
+      <p>Click the button below to sign in to your UGGA account. The link works once and expires in 15 minutes.</p>
+      <p><a href="${data.loginUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Sign In</a></p>
+      <p>If the button doesn't work, copy and paste this link into your browser:</p>
+      <p>${data.loginUrl}</p>
+      <p>If you didn't request this link, you can safely ignore this email.</p>
+    `,
+    text: `
+Sign In to UGGA
+
+Open this link to sign in to your UGGA account. The link works once and expires in 15 minutes:
+${data.loginUrl}
+
+If you didn't request this link, you can safely ignore this email.
+    `,
+  };
+}
+
+/**
+ * Format the notice sent when a member's suggested resource is added to the library
+ */
+export function formatResourceSubmissionAcceptedEmail(data: {
+  title: string;
+  resourceUrl: string;
+  reviewNote?: string | null;
+}): UserEmailContent {
+  return {
+    subject: `Your suggested resource was added: ${data.title}`,
+    html: `
+      <h1>Thanks for Your Suggestion</h1>
+      <p>Your suggested resource <strong>${data.title}</strong> has been added to the UGGA resource library.</p>
+      ${data.reviewNote ? `<p><strong>Note from the editors:</strong></p><p>${data.reviewNote.replace(/\n/g, '<br>')}</p>` : ''}
+      <p><a href="${data.resourceUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">View Resource</a></p>
+      <p>Thank you for helping fellow growers find what they need.</p>
+    `,
+    text: `
+Thanks for Your Suggestion
+
+Your suggested resource "${data.title}" has been added to the UGGA resource library.
+${data.reviewNote ? `\nNote from the editors:\n${data.reviewNote}\n` : ''}
+View it here:
+${data.resourceUrl}
+
+Thank you for helping fellow growers find what they need.
+    `,
+  };
+}
+
+/**
+ * Format the notice sent when a member's suggested resource is declined
+ */
+export function formatResourceSubmissionRejectedEmail(data: {
+  title: string;
+  reviewNote?: string | null;
+}): UserEmailContent {
+  return {
+    subject: `About your suggested resource: ${data.title}`,
+    html: `
+      <h1>Thanks for Your Suggestion</h1>
+      <p>We reviewed your suggested resource <strong>${data.title}</strong> and decided not to add it to the UGGA resource library.</p>
+      ${data.reviewNote ? `<p><strong>Note from the editors:</strong></p><p>${data.reviewNote.replace(/\n/g, '<br>')}</p>` : ''}
+      <p>We appreciate you taking the time, and hope you'll keep suggesting resources.</p>
+    `,
+    text: `
+Thanks for Your Suggestion
+
+We reviewed your suggested resource "${data.title}" and decided not to add it to the UGGA resource library.
+${data.reviewNote ? `\nNote from the editors:\n${data.reviewNote}\n` : ''}
+We appreciate you taking the time, and hope you'll keep suggesting resources.
+    `,
+  };
+}
+
+/**
+ * Format a saved search digest listing resources that are new or updated
+ * since the last one
+ */
+export function formatSavedSearchDigestEmail(data: {
+  searchName: string;
+  frequency: string;
+  matches: { title: string; summary: string | null; url: string }[];
+  total: number;
+  savedSearchesUrl: string;
+  unsubscribeUrl: string;
+}): UserEmailContent {
+  const period = data.frequency === "weekly" ? "this week" : "today";
+  const more = data.total - data.matches.length;
+  const intro = `${data.total} ${data.total === 1 ? "resource matching your saved search was" : "resources matching your saved search were"} added or updated in the UGGA Resource Library ${period}.`;
+
+  return {
+    subject: `New in the Resource Library for "${data.searchName}"`,
+    html: `
+      <h1>${data.searchName}</h1>
+      <p>${intro}</p>
+      <ul>
+        ${data.matches.map(match => `<li><a href="${match.url}">${match.title}</a>${match.summary ? `<br>${match.summary}` : ''}</li>`).join('\n        ')}
+      </ul>
+      ${more > 0 ? `<p>...and ${more} more.</p>` : ''}
+      <p><a href="${data.savedSearchesUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">See All Matches</a></p>
+      <p style="color: #6b7280; font-size: 12px;">You're getting this because you asked for ${data.frequency} emails about this saved search. <a href="${data.unsubscribeUrl}">Stop these emails</a></p>
+    `,
+    text: `
+${data.searchName}
+
+${intro}
+
+${data.matches.map(match => `- ${match.title}\n  ${match.url}`).join('\n')}
+${more > 0 ? `\n...and ${more} more.\n` : ''}
+See all matches:
+${data.savedSearchesUrl}
+
+You're getting this because you asked for ${data.frequency} emails about this saved search. To stop them, open:
+${data.unsubscribeUrl}
+    `,
+  };
+}
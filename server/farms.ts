@@ -0,0 +1,88 @@
+import { createHash, randomInt } from "crypto";
+import { type Response, type NextFunction } from "express";
+import { storage } from "./storage";
+import { type AuthRequest } from "./auth";
+import { FarmRole, type Farm, type FarmInvitation, type FarmMembership } from "@shared/schema";
+
+export const FARM_INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+// Unambiguous characters only (no 0/O, 1/I/L) since codes get typed in by hand
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+const FARM_ROLE_RANK: Record<FarmRole, number> = {
+  [FarmRole.STAFF]: 1,
+  [FarmRole.MANAGER]: 2,
+  [FarmRole.OWNER]: 3,
+};
+
+export interface FarmRequest extends AuthRequest {
+  farmMembership?: FarmMembership & { farm: Farm };
+}
+
+export function hasFarmRole(role: FarmRole, minimum: FarmRole): boolean {
+  return FARM_ROLE_RANK[role] >= FARM_ROLE_RANK[minimum];
+}
+
+// Invite codes look like "ABCD-EFGH"
+export function generateInviteCode(): string {
+  const chars = Array.from({ length: 8 }, () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+export function hashInviteCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Load the caller's farm membership onto the request, rejecting users who
+ * aren't in a farm or whose farm role is below `minimum`.
+ */
+export function requireFarmRole(minimum: FarmRole = FarmRole.STAFF) {
+  return async (req: FarmRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const membership = await storage.getFarmMembership(req.user!.id);
+      if (!membership) {
+        res.status(404).json({ message: "You are not a member of a farm" });
+        return;
+      }
+
+      if (!hasFarmRole(membership.role, minimum)) {
+        res.status(403).json({ message: "Insufficient farm permissions" });
+        return;
+      }
+
+      req.farmMembership = membership;
+      next();
+    } catch (error) {
+      console.error("Farm membership lookup error:", error);
+      res.status(500).json({ message: "Failed to load farm membership" });
+    }
+  };
+}
+
+/**
+ * Look up an invitation by its code, returning it only while it can still be
+ * accepted.
+ */
+export async function findPendingInvitation(code: unknown) {
+  if (typeof code !== "string" || !code.trim()) return undefined;
+
+  const invitation = await storage.getFarmInvitationByCodeHash(hashInviteCode(code));
+  if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt.getTime() <= Date.now()) {
+    return undefined;
+  }
+  return invitation;
+}
+
+// Invitations are addressed to one person; the code alone isn't enough
+export function isInvitationFor(invitation: Pick<FarmInvitation, "email">, email: string): boolean {
+  return invitation.email.trim().toLowerCase() === email.trim().toLowerCase();
+}
+
+// Farm-scoped records (favorites, assessments, expert requests) are shared
+// with the farm the user belongs to, if any
+export async function getUserFarmId(userId: string): Promise<string | undefined> {
+  const membership = await storage.getFarmMembership(userId);
+  return membership?.farmId;
+}
@@ -0,0 +1,185 @@
+import { storage } from "./storage";
+import type { Profile } from "@shared/schema";
+import type { GeoPoint } from "./resourceQuery";
+
+interface UsState {
+  code: string;
+  name: string;
+  center: GeoPoint; // Approximate geographic center
+}
+
+const US_STATES: UsState[] = [
+  { code: "AL", name: "Alabama", center: { lat: 32.79, lng: -86.83 } },
+  { code: "AK", name: "Alaska", center: { lat: 63.59, lng: -154.49 } },
+  { code: "AZ", name: "Arizona", center: { lat: 34.29, lng: -111.66 } },
+  { code: "AR", name: "Arkansas", center: { lat: 34.90, lng: -92.44 } },
+  { code: "CA", name: "California", center: { lat: 37.18, lng: -119.47 } },
+  { code: "CO", name: "Colorado", center: { lat: 39.00, lng: -105.55 } },
+  { code: "CT", name: "Connecticut", center: { lat: 41.62, lng: -72.73 } },
+  { code: "DE", name: "Delaware", center: { lat: 38.99, lng: -75.51 } },
+  { code: "DC", name: "District of Columbia", center: { lat: 38.90, lng: -77.02 } },
+  { code: "FL", name: "Florida", center: { lat: 28.63, lng: -82.45 } },
+  { code: "GA", name: "Georgia", center: { lat: 32.64, lng: -83.44 } },
+  { code: "HI", name: "Hawaii", center: { lat: 20.29, lng: -156.37 } },
+  { code: "ID", name: "Idaho", center: { lat: 44.35, lng: -114.61 } },
+  { code: "IL", name: "Illinois", center: { lat: 40.04, lng: -89.20 } },
+  { code: "IN", name: "Indiana", center: { lat: 39.89, lng: -86.28 } },
+  { code: "IA", name: "Iowa", center: { lat: 42.08, lng: -93.50 } },
+  { code: "KS", name: "Kansas", center: { lat: 38.49, lng: -98.38 } },
+  { code: "KY", name: "Kentucky", center: { lat: 37.53, lng: -85.30 } },
+  { code: "LA", name: "Louisiana", center: { lat: 31.07, lng: -91.99 } },
+  { code: "ME", name: "Maine", center: { lat: 45.37, lng: -69.24 } },
+  { code: "MD", name: "Maryland", center: { lat: 39.05, lng: -76.79 } },
+  { code: "MA", name: "Massachusetts", center: { lat: 42.26, lng: -71.81 } },
+  { code: "MI", name: "Michigan", center: { lat: 44.35, lng: -85.41 } },
+  { code: "MN", name: "Minnesota", center: { lat: 46.28, lng: -94.31 } },
+  { code: "MS", name: "Mississippi", center: { lat: 32.74, lng: -89.67 } },
+  { code: "MO", name: "Missouri", center: { lat: 38.36, lng: -92.46 } },
+  { code: "MT", name: "Montana", center: { lat: 47.05, lng: -109.63 } },
+  { code: "NE", name: "Nebraska", center: { lat: 41.54, lng: -99.80 } },
+  { code: "NV", name: "Nevada", center: { lat: 39.33, lng: -116.63 } },
+  { code: "NH", name: "New Hampshire", center: { lat: 43.68, lng: -71.58 } },
+  { code: "NJ", name: "New Jersey", center: { lat: 40.19, lng: -74.67 } },
+  { code: "NM", name: "New Mexico", center: { lat: 34.41, lng: -106.11 } },
+  { code: "NY", name: "New York", center: { lat: 42.95, lng: -75.53 } },
+  { code: "NC", name: "North Carolina", center: { lat: 35.56, lng: -79.39 } },
+  { code: "ND", name: "North Dakota", center: { lat: 47.45, lng: -100.47 } },
+  { code: "OH", name: "Ohio", center: { lat: 40.29, lng: -82.79 } },
+  { code: "OK", name: "Oklahoma", center: { lat: 35.59, lng: -97.49 } },
+  { code: "OR", name: "Oregon", center: { lat: 43.93, lng: -120.56 } },
+  { code: "PA", name: "Pennsylvania", center: { lat: 40.88, lng: -77.80 } },
+  { code: "RI", name: "Rhode Island", center: { lat: 41.68, lng: -71.56 } },
+  { code: "SC", name: "South Carolina", center: { lat: 33.92, lng: -80.90 } },
+  { code: "SD", name: "South Dakota", center: { lat: 44.44, lng: -100.23 } },
+  { code: "TN", name: "Tennessee", center: { lat: 35.86, lng: -86.35 } },
+  { code: "TX", name: "Texas", center: { lat: 31.48, lng: -99.33 } },
+  { code: "UT", name: "Utah", center: { lat: 39.31, lng: -111.67 } },
+  { code: "VT", name: "Vermont", center: { lat: 44.07, lng: -72.67 } },
+  { code: "VA", name: "Virginia", center: { lat: 37.52, lng: -78.85 } },
+  { code: "WA", name: "Washington", center: { lat: 47.38, lng: -120.45 } },
+  { code: "WV", name: "West Virginia", center: { lat: 38.64, lng: -80.62 } },
+  { code: "WI", name: "Wisconsin", center: { lat: 44.62, lng: -89.99 } },
+  { code: "WY", name: "Wyoming", center: { lat: 43.00, lng: -107.55 } },
+];
+
+// Profiles store full state names; other tables use 2-letter codes
+function findUsState(value: string): UsState | undefined {
+  const normalized = value.trim().toLowerCase();
+  return US_STATES.find(state => state.code.toLowerCase() === normalized || state.name.toLowerCase() === normalized);
+}
+
+// Where a member is, for "near me" resource searches
+export interface MemberLocation extends GeoPoint {
+  label: string; // e.g. "Polk County, Iowa"
+  precision: "county" | "state";
+}
+
+// Looks up one place; resolves null when it wasn't found. Swapped out in
+// tests.
+export type Geocoder = (query: string, timeoutMs: number) => Promise<GeoPoint | null>;
+
+/**
+ * OpenStreetMap's Nominatim. Its usage policy asks for an identifying
+ * User-Agent with contact details and at most one request a second, which
+ * the cache keeps us well under.
+ */
+export function createNominatimGeocoder(contactEmail: string): Geocoder {
+  const userAgent = `UGGA-Platform/1.0 (${contactEmail})`;
+
+  return async (query, timeoutMs) => {
+    const params = new URLSearchParams({ format: "json", limit: "1", countrycodes: "us", email: contactEmail, q: query });
+    const response = await fetch(`https://nominatim.openstreetmap.org/search?${params}`, {
+      headers: { "User-Agent": userAgent },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoding failed with HTTP ${response.status}`);
+    }
+
+    const [match] = await response.json() as { lat: string; lon: string }[];
+    if (!match) return null;
+    const point = { lat: parseFloat(match.lat), lng: parseFloat(match.lon) };
+    return Number.isFinite(point.lat) && Number.isFinite(point.lng) ? point : null;
+  };
+}
+
+let warnedMissingContact = false;
+
+/**
+ * The geocoder set up for this deployment, or null. Sending members' counties
+ * to a third party is opt-in: it takes GEOCODER=nominatim plus a
+ * GEOCODER_CONTACT_EMAIL for Nominatim to reach us at.
+ */
+export function configuredGeocoder(): Geocoder | null {
+  if (process.env.GEOCODER !== "nominatim") return null;
+
+  const contactEmail = process.env.GEOCODER_CONTACT_EMAIL?.trim();
+  if (!contactEmail) {
+    if (!warnedMissingContact) {
+      console.warn("GEOCODER=nominatim needs GEOCODER_CONTACT_EMAIL; county lookups are disabled");
+      warnedMissingContact = true;
+    }
+    return null;
+  }
+  return createNominatimGeocoder(contactEmail);
+}
+
+export interface GeocodeOptions {
+  geocoder?: Geocoder | null; // Defaults to configuredGeocoder(); null uses cached places only
+  timeoutMs?: number;
+}
+
+/**
+ * Geocode a place through the geocoded_places cache. Places that weren't
+ * found are cached too; lookup errors aren't, so they're retried next time.
+ */
+export async function geocodePlace(query: string, options: GeocodeOptions = {}): Promise<GeoPoint | null> {
+  const { geocoder = configuredGeocoder(), timeoutMs = 5_000 } = options;
+  const key = query.trim().toLowerCase();
+
+  const cached = await storage.getGeocodedPlace(key);
+  if (cached) {
+    return cached.lat !== null && cached.long !== null ? { lat: cached.lat, lng: cached.long } : null;
+  }
+  if (!geocoder) return null;
+
+  const point = await geocoder(query, timeoutMs);
+  await storage.saveGeocodedPlace({ query: key, lat: point?.lat ?? null, long: point?.lng ?? null });
+  return point;
+}
+
+// Members type their county free-form, with or without the "County"
+function countyName(county: string, state: UsState): string {
+  const name = county.trim();
+  if (/\b(county|parish|borough|census area)$/i.test(name)) return name;
+  if (state.code === "LA") return `${name} Parish`;
+  if (state.code === "AK") return `${name} Borough`;
+  return `${name} County`;
+}
+
+/**
+ * The center of a member's county, falling back to their state's center
+ * when the county is missing or can't be geocoded. Null when the profile's
+ * state isn't a US state.
+ */
+export async function resolveMemberLocation(
+  profile: Pick<Profile, "state" | "county">,
+  options: GeocodeOptions = {}
+): Promise<MemberLocation | null> {
+  const state = findUsState(profile.state);
+  if (!state) return null;
+
+  if (profile.county?.trim()) {
+    const label = `${countyName(profile.county, state)}, ${state.name}`;
+    try {
+      const point = await geocodePlace(label, options);
+      if (point) {
+        return { ...point, label, precision: "county" };
+      }
+    } catch (error) {
+      console.warn(`Geocoding "${label}" failed, using the state center:`, error);
+    }
+  }
+
+  return { ...state.center, label: state.name, precision: "state" };
+}
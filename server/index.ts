@@ -5,6 +5,10 @@ import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 
+// The app runs behind a single reverse proxy; trust it so req.ip is the
+// client address used for per-IP rate limiting
+app.set("trust proxy", 1);
+
 // Enable gzip compression for better performance
 app.use(compression({
   filter: (req, res) => {
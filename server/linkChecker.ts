@@ -0,0 +1,199 @@
+import { randomUUID } from "crypto";
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { resourceLinkChecks, resources, type InsertResourceLinkCheck, type Resource, type ResourceLinkCheck } from "@shared/schema";
+
+// Working links are rechecked weekly, broken ones daily in case they recover
+export const LINK_CHECK_INTERVAL_DAYS = 7;
+export const BROKEN_LINK_RECHECK_DAYS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many link checks are kept per resource
+const LINK_CHECK_HISTORY_LIMIT = 50;
+
+const LINK_CHECK_USER_AGENT = "UGGA-LinkChecker/1.0 (+https://ugga.org)";
+
+export interface LinkCheckResponse {
+  status: number;
+  url: string; // Final URL after any redirects
+}
+
+// Requests one URL; swapped out in tests for a client pointed at a stub server
+export type LinkCheckHttpClient = (url: string, timeoutMs: number) => Promise<LinkCheckResponse>;
+
+// Where checks are read from and recorded; tests pass an in-memory database
+export type LinkCheckDatabase = PgDatabase<PgQueryResultHKT, any>;
+
+export interface LinkCheckerOptions {
+  client?: LinkCheckHttpClient;
+  database?: LinkCheckDatabase;
+  batchSize?: number; // Resources checked per run
+  concurrency?: number; // Requests in flight at once
+  timeoutMs?: number;
+}
+
+export const fetchLinkCheckClient: LinkCheckHttpClient = async (url, timeoutMs) => {
+  const request = (method: "HEAD" | "GET") => fetch(url, {
+    method,
+    redirect: "follow",
+    headers: { "User-Agent": LINK_CHECK_USER_AGENT },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  let response = await request("HEAD");
+  // Plenty of servers refuse HEAD; only a failed GET means the link is broken
+  if (response.status >= 400) {
+    response = await request("GET");
+    await response.body?.cancel();
+  }
+  return { status: response.status, url: response.url || url };
+};
+
+function sameUrl(a: string, b: string): boolean {
+  try {
+    return new URL(a).href === new URL(b).href;
+  } catch {
+    return a === b;
+  }
+}
+
+// Never-checked links come first, then the longest unchecked; broken links
+// are retried sooner than working ones
+async function getResourcesDueForLinkCheck(
+  database: LinkCheckDatabase,
+  options: { checkedBefore: Date; brokenCheckedBefore: Date; limit: number }
+): Promise<Pick<Resource, "id" | "url">[]> {
+  return database
+    .select({ id: resources.id, url: resources.url })
+    .from(resources)
+    .where(or(
+      isNull(resources.link_checked_at),
+      lt(resources.link_checked_at, options.checkedBefore),
+      and(eq(resources.link_status, "broken"), lt(resources.link_checked_at, options.brokenCheckedBefore)),
+    ))
+    .orderBy(sql`${resources.link_checked_at} ASC NULLS FIRST`)
+    .limit(options.limit);
+}
+
+async function recordResourceLinkCheck(database: LinkCheckDatabase, checkData: InsertResourceLinkCheck): Promise<ResourceLinkCheck> {
+  return database.transaction(async (tx) => {
+    const [check] = await tx
+      .insert(resourceLinkChecks)
+      .values({ ...checkData, id: randomUUID() })
+      .returning();
+
+    // Skipped if the URL was edited while the check was running. A working
+    // link bumps last_verified_at; editorial verification (verified_at) is
+    // only given by a reviewer.
+    await tx
+      .update(resources)
+      .set({
+        link_status: check.ok ? "ok" : "broken",
+        link_checked_at: check.checkedAt,
+        ...(check.ok ? { last_verified_at: check.checkedAt } : {}),
+      })
+      .where(and(eq(resources.id, check.resourceId), eq(resources.url, check.url)));
+
+    await tx
+      .delete(resourceLinkChecks)
+      .where(and(
+        eq(resourceLinkChecks.resourceId, check.resourceId),
+        lt(resourceLinkChecks.checkedAt, sql`(
+          SELECT ${resourceLinkChecks.checkedAt} FROM ${resourceLinkChecks}
+          WHERE ${resourceLinkChecks.resourceId} = ${check.resourceId}
+          ORDER BY ${resourceLinkChecks.checkedAt} DESC
+          OFFSET ${LINK_CHECK_HISTORY_LIMIT - 1} LIMIT 1
+        )`)
+      ));
+
+    return check;
+  });
+}
+
+/**
+ * Request a resource's URL and record the outcome. A success bumps the
+ * resource's last_verified_at; a failure marks its link broken.
+ */
+export async function checkResourceLink(
+  resource: Pick<Resource, "id" | "url">,
+  options: LinkCheckerOptions = {}
+): Promise<ResourceLinkCheck> {
+  const { client = fetchLinkCheckClient, database = db, timeoutMs = 15_000 } = options;
+  const started = Date.now();
+
+  let result: { statusCode: number | null; redirectUrl: string | null; ok: boolean; error: string | null };
+  try {
+    const response = await client(resource.url, timeoutMs);
+    result = {
+      statusCode: response.status,
+      redirectUrl: sameUrl(response.url, resource.url) ? null : response.url,
+      ok: response.status < 400,
+      error: null,
+    };
+  } catch (error) {
+    result = {
+      statusCode: null,
+      redirectUrl: null,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return recordResourceLinkCheck(database, {
+    ...result,
+    resourceId: resource.id,
+    url: resource.url,
+    responseTimeMs: Date.now() - started,
+  });
+}
+
+// Checks the resources that are due, a few at a time
+export async function runLinkCheck(options: LinkCheckerOptions = {}): Promise<{ checked: number; broken: number }> {
+  const { database = db, batchSize = 100, concurrency = 5 } = options;
+  const now = Date.now();
+
+  const due = await getResourcesDueForLinkCheck(database, {
+    checkedBefore: new Date(now - LINK_CHECK_INTERVAL_DAYS * DAY_MS),
+    brokenCheckedBefore: new Date(now - BROKEN_LINK_RECHECK_DAYS * DAY_MS),
+    limit: batchSize,
+  });
+
+  let broken = 0;
+  for (let i = 0; i < due.length; i += concurrency) {
+    const checks = await Promise.all(due.slice(i, i + concurrency).map(resource => checkResourceLink(resource, options)));
+    broken += checks.filter(check => !check.ok).length;
+  }
+
+  return { checked: due.length, broken };
+}
+
+/**
+ * Run the link checker in the background every intervalMs. A run that is
+ * still going when the next one is due is left to finish instead.
+ * Returns a function that stops the checker.
+ */
+export function startLinkChecker(options: LinkCheckerOptions & { intervalMs?: number } = {}): () => void {
+  const { intervalMs = 60 * 60 * 1000, ...checkOptions } = options;
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { checked, broken } = await runLinkCheck(checkOptions);
+      if (checked > 0) console.log(`Link checker: checked ${checked} resources, ${broken} broken`);
+    } catch (error) {
+      console.error("Link checker error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,239 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { sendUserEmail } from "./email/userEmail";
+import { formatAccountLockedEmail } from "./email/userTemplates";
+import type { User, InsertAuthAttempt } from "@shared/schema";
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const ATTEMPT_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// Failed sign-ins: delays start after a few mistakes and double each time
+const DELAY_AFTER_FAILURES = 3;
+const MAX_DELAY_MS = 60 * 1000;
+const IP_MAX_FAILED_LOGINS = 50; // per window, across all accounts
+const ACCOUNT_LOCK_THRESHOLD = 10; // consecutive failures
+const ACCOUNT_LOCK_DURATION_MS = 30 * 60 * 1000; // 30 minutes
+
+// Password reset and magic sign-in link requests
+const EMAIL_LINK_MAX_PER_IP = 5; // per window
+const EMAIL_LINK_MAX_PER_ACCOUNT = 3; // per hour
+const EMAIL_LINK_ACCOUNT_WINDOW_MS = 60 * 60 * 1000;
+
+export interface ThrottleResult {
+  allowed: boolean;
+  message?: string;
+  retryAfterSeconds?: number;
+}
+
+let lastPrunedAt = 0;
+
+export function progressiveDelayMs(failures: number): number {
+  if (failures < DELAY_AFTER_FAILURES) return 0;
+  return Math.min(1000 * 2 ** (failures - DELAY_AFTER_FAILURES), MAX_DELAY_MS);
+}
+
+// Time left before another attempt is allowed, given the failure count so far
+export function remainingDelayMs(failures: number, lastFailureAt: Date | null, now = Date.now()): number {
+  if (!lastFailureAt) return 0;
+  return Math.max(0, lastFailureAt.getTime() + progressiveDelayMs(failures) - now);
+}
+
+// Consecutive failures still held against an account. A quiet spell as long
+// as the attempt window (which an expired lock always is) starts over.
+export function recentFailureCount(failures: number, lastFailureAt: Date | null, now = Date.now()): number {
+  if (!lastFailureAt || lastFailureAt.getTime() <= now - ATTEMPT_WINDOW_MS) return 0;
+  return failures;
+}
+
+// When an account with this many consecutive failures unlocks, or null if it
+// stays open
+export function accountLockedUntil(failures: number, now = Date.now()): Date | null {
+  return failures >= ACCOUNT_LOCK_THRESHOLD ? new Date(now + ACCOUNT_LOCK_DURATION_MS) : null;
+}
+
+function blocked(waitMs: number, message: string): ThrottleResult {
+  return { allowed: false, message, retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)) };
+}
+
+function normalizeIdentifier(identifier: unknown): string | null {
+  return typeof identifier === "string" && identifier.trim() ? identifier.trim().toLowerCase().slice(0, 255) : null;
+}
+
+async function recordAttempt(attempt: InsertAuthAttempt): Promise<void> {
+  await storage.recordAuthAttempt(attempt);
+
+  // Old attempts are only needed for the throttling windows above
+  if (Date.now() - lastPrunedAt > PRUNE_INTERVAL_MS) {
+    lastPrunedAt = Date.now();
+    storage.pruneAuthAttempts(new Date(Date.now() - ATTEMPT_RETENTION_MS)).catch(error => {
+      console.error("Failed to prune auth attempts:", error);
+    });
+  }
+}
+
+/**
+ * Decide whether a sign-in attempt may proceed, based on the account's lock
+ * state and the recent failures from the same IP address and account.
+ */
+export async function checkLoginAllowed(req: Request, user?: User): Promise<ThrottleResult> {
+  const now = Date.now();
+
+  if (user?.lockedUntil && user.lockedUntil.getTime() > now) {
+    return blocked(
+      user.lockedUntil.getTime() - now,
+      "This account is temporarily locked after too many failed sign-in attempts. Try again later or reset your password."
+    );
+  }
+
+  if (req.ip) {
+    const ipStats = await storage.getAuthAttemptStats({
+      kind: "login",
+      ipAddress: req.ip,
+      since: new Date(now - ATTEMPT_WINDOW_MS),
+      failedOnly: true,
+    });
+
+    if (ipStats.count >= IP_MAX_FAILED_LOGINS) {
+      return blocked(ATTEMPT_WINDOW_MS, "Too many failed sign-in attempts from your network. Please try again later.");
+    }
+
+    const ipWait = remainingDelayMs(ipStats.count, ipStats.lastAttemptAt);
+    if (ipWait > 0) {
+      return blocked(ipWait, "Too many failed sign-in attempts. Please wait a moment and try again.");
+    }
+  }
+
+  if (user) {
+    const failures = recentFailureCount(user.failedLoginAttempts, user.lastFailedLoginAt, now);
+    const accountWait = remainingDelayMs(failures, user.lastFailedLoginAt, now);
+    if (accountWait > 0) {
+      return blocked(accountWait, "Too many failed sign-in attempts. Please wait a moment and try again.");
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Record a failed sign-in (wrong password or second-factor code) and lock the
+ * account once it crosses the threshold, emailing the owner.
+ */
+export async function recordFailedLogin(req: Request, identifier: unknown, user?: User): Promise<void> {
+  await recordAttempt({
+    kind: "login",
+    identifier: normalizeIdentifier(identifier),
+    userId: user?.id ?? null,
+    ipAddress: req.ip || null,
+    succeeded: false,
+  });
+
+  if (!user) return;
+
+  const updated = await storage.recordFailedLogin(user.id, new Date(Date.now() - ATTEMPT_WINDOW_MS));
+  const lockedUntil = accountLockedUntil(updated.failedLoginAttempts);
+  if (!lockedUntil) return;
+
+  await storage.lockUser(user.id, lockedUntil);
+  console.warn(`Account ${user.id} locked until ${lockedUntil.toISOString()} after ${updated.failedLoginAttempts} failed sign-ins`);
+
+  await sendUserEmail({
+    to: user.email,
+    ...formatAccountLockedEmail({
+      lockedUntil,
+      resetUrl: `${req.protocol}://${req.get('host')}/reset-password`,
+      ipAddress: req.ip,
+    }),
+  });
+}
+
+export async function recordSuccessfulLogin(req: Request, identifier: unknown, user: User): Promise<void> {
+  await recordAttempt({
+    kind: "login",
+    identifier: normalizeIdentifier(identifier),
+    userId: user.id,
+    ipAddress: req.ip || null,
+    succeeded: true,
+  });
+
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    await storage.resetFailedLogins(user.id);
+  }
+}
+
+// Emailed links (password resets, magic sign-in links) share the same limits
+type EmailLinkKind = "password_reset" | "magic_link";
+
+async function checkEmailLinkAllowed(req: Request, kind: EmailLinkKind, message: string): Promise<ThrottleResult> {
+  if (!req.ip) return { allowed: true };
+
+  const ipStats = await storage.getAuthAttemptStats({
+    kind,
+    ipAddress: req.ip,
+    since: new Date(Date.now() - ATTEMPT_WINDOW_MS),
+  });
+
+  if (ipStats.count >= EMAIL_LINK_MAX_PER_IP) {
+    return blocked(ATTEMPT_WINDOW_MS, message);
+  }
+
+  return { allowed: true };
+}
+
+async function canSendEmailLink(user: User, kind: EmailLinkKind): Promise<boolean> {
+  const accountStats = await storage.getAuthAttemptStats({
+    kind,
+    userId: user.id,
+    since: new Date(Date.now() - EMAIL_LINK_ACCOUNT_WINDOW_MS),
+  });
+
+  return accountStats.count < EMAIL_LINK_MAX_PER_ACCOUNT;
+}
+
+async function recordEmailLinkRequest(req: Request, kind: EmailLinkKind, identifier: unknown, user?: User): Promise<void> {
+  await recordAttempt({
+    kind,
+    identifier: normalizeIdentifier(identifier),
+    userId: user?.id ?? null,
+    ipAddress: req.ip || null,
+    succeeded: !!user,
+  });
+}
+
+/**
+ * Per-IP limit on password reset requests.
+ */
+export async function checkPasswordResetAllowed(req: Request): Promise<ThrottleResult> {
+  return checkEmailLinkAllowed(req, "password_reset", "Too many password reset requests. Please try again later.");
+}
+
+/**
+ * Per-account cap on reset emails. Callers should skip sending silently
+ * rather than erroring, so the response doesn't reveal whether the account
+ * exists.
+ */
+export async function canSendPasswordReset(user: User): Promise<boolean> {
+  return canSendEmailLink(user, "password_reset");
+}
+
+export async function recordPasswordResetRequest(req: Request, identifier: unknown, user?: User): Promise<void> {
+  await recordEmailLinkRequest(req, "password_reset", identifier, user);
+}
+
+/**
+ * Per-IP limit on magic sign-in link requests.
+ */
+export async function checkMagicLinkAllowed(req: Request): Promise<ThrottleResult> {
+  return checkEmailLinkAllowed(req, "magic_link", "Too many sign-in link requests. Please try again later.");
+}
+
+/**
+ * Per-account cap on magic sign-in link emails; like resets, skip silently.
+ */
+export async function canSendMagicLink(user: User): Promise<boolean> {
+  return canSendEmailLink(user, "magic_link");
+}
+
+export async function recordMagicLinkRequest(req: Request, identifier: unknown, user?: User): Promise<void> {
+  await recordEmailLinkRequest(req, "magic_link", identifier, user);
+}
@@ -0,0 +1,39 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { Role, SignInSettings, User } from "@shared/schema";
+
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const SIGN_IN_SETTINGS_KEY = "sign_in";
+
+export function hashMagicLinkToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function getSignInSettings(): Promise<Required<SignInSettings>> {
+  const settings = await storage.getAppSetting<SignInSettings>(SIGN_IN_SETTINGS_KEY);
+  return {
+    magicLinkDisabledRoles: settings?.magicLinkDisabledRoles ?? [],
+  };
+}
+
+export async function isMagicLinkEnabledForRole(role: Role | string): Promise<boolean> {
+  const { magicLinkDisabledRoles } = await getSignInSettings();
+  return !magicLinkDisabledRoles.includes(role as Role);
+}
+
+/**
+ * Create a single-use sign-in token for the user. Only its hash is stored;
+ * the raw token goes out in the emailed link.
+ */
+export async function createMagicLink(user: User, ipAddress?: string | null): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+
+  await storage.createMagicLinkToken({
+    userId: user.id,
+    tokenHash: hashMagicLinkToken(token),
+    ipAddress: ipAddress || null,
+    expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS),
+  });
+
+  return token;
+}
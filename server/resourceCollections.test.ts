@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ResourceCollectionVisibility } from "@shared/schema";
+import {
+  MAX_COLLECTION_ITEMS,
+  ResourceCollectionInputSchema,
+  ResourceCollectionOrderSchema,
+  resourceCollectionAccess,
+} from "./resourceCollections";
+
+function collection(visibility: ResourceCollectionVisibility) {
+  return { ownerId: "owner", visibility, shareToken: "secret-token" };
+}
+
+describe("resourceCollectionAccess", () => {
+  it("lets the owner manage their collection whatever its visibility", () => {
+    assert.equal(resourceCollectionAccess(collection("private"), { userId: "owner" }), "owner");
+  });
+
+  it("keeps private collections to the owner and the members it was shared with", () => {
+    assert.equal(resourceCollectionAccess(collection("private"), { userId: "member", isSharedWith: true }), "shared");
+    assert.equal(resourceCollectionAccess(collection("private"), { userId: "member" }), undefined);
+    assert.equal(resourceCollectionAccess(collection("private"), { userId: "member", shareToken: "secret-token" }), undefined);
+  });
+
+  it("opens link-shared collections only with the current token", () => {
+    assert.equal(resourceCollectionAccess(collection("link"), { shareToken: "secret-token" }), "viewer");
+    assert.equal(resourceCollectionAccess(collection("link"), { shareToken: "old-token" }), undefined);
+    assert.equal(resourceCollectionAccess(collection("link"), { userId: "member" }), undefined);
+  });
+
+  it("shows public collections to every signed-in member", () => {
+    assert.equal(resourceCollectionAccess(collection("public"), { userId: "member" }), "viewer");
+    assert.equal(resourceCollectionAccess(collection("public"), {}), undefined);
+  });
+});
+
+describe("collection input", () => {
+  it("defaults new collections to private and trims the title", () => {
+    assert.deepEqual(ResourceCollectionInputSchema.parse({ title: "  Grants to apply for " }), {
+      title: "Grants to apply for",
+      visibility: "private",
+    });
+    assert.equal(ResourceCollectionInputSchema.safeParse({ title: "   " }).success, false);
+  });
+
+  it("caps a reorder at the collection size limit", () => {
+    const ids = (count: number) => Array.from({ length: count }, (_, index) => `resource-${index}`);
+    assert.equal(ResourceCollectionOrderSchema.safeParse({ resourceIds: ids(MAX_COLLECTION_ITEMS) }).success, true);
+    assert.equal(ResourceCollectionOrderSchema.safeParse({ resourceIds: ids(MAX_COLLECTION_ITEMS + 1) }).success, false);
+  });
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { RESOURCE_COLLECTION_VISIBILITIES, type ResourceCollection } from "@shared/schema";
+
+// Keeps collections to something a person can read through
+export const MAX_COLLECTION_ITEMS = 200;
+
+export const ResourceCollectionInputSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).nullish(),
+  visibility: z.enum(RESOURCE_COLLECTION_VISIBILITIES).default("private"),
+});
+
+export const ResourceCollectionUpdateSchema = ResourceCollectionInputSchema.partial();
+
+export const ResourceCollectionItemInputSchema = z.object({
+  resourceId: z.string().min(1),
+  note: z.string().trim().max(2000).nullish(),
+});
+
+export const ResourceCollectionItemNoteSchema = ResourceCollectionItemInputSchema.pick({ note: true });
+
+// The collection's resource IDs in their new order
+export const ResourceCollectionOrderSchema = z.object({
+  resourceIds: z.array(z.string()).max(MAX_COLLECTION_ITEMS),
+});
+
+export const ResourceCollectionShareSchema = z.object({
+  member: z.string().trim().min(1).max(255), // Username or email address
+});
+
+// owner: can edit and share it; shared: it was shared with them by name;
+// viewer: it's public, or they came in through the share link
+export type ResourceCollectionAccess = "owner" | "shared" | "viewer";
+
+/**
+ * Work out how a member may see a collection, or undefined if they can't.
+ * A share token only counts while the collection is shared by link or public.
+ */
+export function resourceCollectionAccess(
+  collection: Pick<ResourceCollection, "ownerId" | "visibility" | "shareToken">,
+  viewer: { userId?: string; isSharedWith?: boolean; shareToken?: string }
+): ResourceCollectionAccess | undefined {
+  if (viewer.userId && viewer.userId === collection.ownerId) return "owner";
+  if (viewer.isSharedWith) return "shared";
+  if (collection.visibility === "public" && viewer.userId) return "viewer";
+  if (collection.visibility !== "private" && viewer.shareToken === collection.shareToken) return "viewer";
+  return undefined;
+}
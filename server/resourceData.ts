@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import { RESOURCE_TYPES } from "./resourceQuery";
+import {
+  RESOURCE_DATA_SCHEMAS,
+  describeResourceDataIssues,
+  unknownResourceDataKeys,
+} from "@shared/resourceData";
+import type { ResourceType } from "@shared/schema";
+
+export interface ResourceDataReportRow {
+  id: string;
+  title: string;
+  type: string | null;
+  errors: string[];
+  unknownKeys: string[];
+}
+
+export interface ResourceDataReport {
+  checked: number;
+  invalid: number; // Rows with errors; rows that only have unknown keys still pass
+  rows: ResourceDataReportRow[];
+}
+
+function isResourceType(type: unknown): type is ResourceType {
+  return typeof type === "string" && (RESOURCE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Check a resource's type-specific data against the schema for its type and
+ * return it trimmed and cleaned. Throws a ZodError when it doesn't match.
+ * Untyped resources from before types existed have no schema to check.
+ */
+export function parseResourceData(type: unknown, data: unknown): Record<string, unknown> {
+  if (!isResourceType(type)) {
+    return (data ?? {}) as Record<string, unknown>;
+  }
+  return RESOURCE_DATA_SCHEMAS[type].parse(data ?? {});
+}
+
+/**
+ * List every stored resource whose data doesn't match its type's schema, or
+ * has keys the schema doesn't know about, so old rows can be cleaned up.
+ */
+export async function buildResourceDataReport(): Promise<ResourceDataReport> {
+  const resources = await storage.listResourceData();
+  const rows: ResourceDataReportRow[] = [];
+
+  for (const resource of resources) {
+    const data = (resource.data ?? {}) as Record<string, unknown>;
+    if (!isResourceType(resource.type)) {
+      rows.push({ id: resource.id, title: resource.title, type: resource.type, errors: ["No resource type"], unknownKeys: [] });
+      continue;
+    }
+
+    const checked = RESOURCE_DATA_SCHEMAS[resource.type].safeParse(data);
+    const errors = checked.success ? [] : describeResourceDataIssues(resource.type, checked.error);
+    const unknownKeys = unknownResourceDataKeys(resource.type, data);
+    if (errors.length > 0 || unknownKeys.length > 0) {
+      rows.push({ id: resource.id, title: resource.title, type: resource.type, errors, unknownKeys });
+    }
+  }
+
+  return {
+    checked: resources.length,
+    invalid: rows.filter(row => row.errors.length > 0).length,
+    rows,
+  };
+}
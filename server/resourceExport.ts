@@ -0,0 +1,115 @@
+import { z } from "zod";
+import * as XLSX from "xlsx";
+import { csvCell } from "./audit";
+import { ResourceQuerySchema } from "./resourceQuery";
+import { RESOURCE_IMPORT_FIELDS, type Resource, type ResourceType } from "@shared/schema";
+
+export const RESOURCE_EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+
+export type ResourceExportFormat = typeof RESOURCE_EXPORT_FORMATS[number];
+
+export const ResourceExportQuerySchema = ResourceQuerySchema
+  .pick({ type: true, q: true, filters: true, sort: true, near: true, radiusKm: true, bbox: true })
+  .extend({ format: z.enum(RESOURCE_EXPORT_FORMATS).default("csv") });
+
+export const RESOURCE_EXPORT_CONTENT_TYPES: Record<ResourceExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+};
+
+export type ExportedResource = Omit<Resource, "search_vector">;
+
+export interface ResourceExportColumn {
+  key: string; // Property name in JSON exports
+  header: string; // Column header in CSV and Excel exports
+  value: (resource: ExportedResource) => unknown;
+}
+
+const CORE_COLUMN_VALUES: Record<string, (resource: ExportedResource) => unknown> = {
+  title: resource => resource.title,
+  url: resource => resource.url,
+  summary: resource => resource.summary,
+  tags: resource => resource.tags,
+  externalId: resource => resource.external_id,
+};
+
+function resourceData(resource: ExportedResource): Record<string, unknown> {
+  return (resource.data as Record<string, unknown> | null) ?? {};
+}
+
+/**
+ * Columns for exporting one resource type. They follow the importer's fields
+ * and are headed by its labels, so an edited file maps itself on re-import;
+ * data keys the importer doesn't know about travel in "Additional Data".
+ * Exports across all types carry data as a single JSON column instead.
+ */
+export function getResourceExportColumns(type?: ResourceType): ResourceExportColumn[] {
+  const idColumn: ResourceExportColumn = { key: "id", header: "ID", value: resource => resource.id };
+
+  if (!type) {
+    return [
+      idColumn,
+      { key: "type", header: "Type", value: resource => resource.type },
+      { key: "title", header: "Title", value: CORE_COLUMN_VALUES.title },
+      { key: "url", header: "URL", value: CORE_COLUMN_VALUES.url },
+      { key: "summary", header: "Summary", value: CORE_COLUMN_VALUES.summary },
+      { key: "tags", header: "Tags", value: CORE_COLUMN_VALUES.tags },
+      { key: "externalId", header: "External ID", value: CORE_COLUMN_VALUES.externalId },
+      { key: "data", header: "Data", value: resource => resource.data },
+    ];
+  }
+
+  const fields = RESOURCE_IMPORT_FIELDS[type];
+  const fieldKeys = new Set(fields.map(field => field.value));
+
+  return [
+    idColumn,
+    ...fields.map(field => ({
+      key: field.value,
+      header: field.label,
+      value: CORE_COLUMN_VALUES[field.value] ?? ((resource: ExportedResource) => resourceData(resource)[field.value]),
+    })),
+    {
+      key: "additionalData",
+      header: "Additional Data",
+      value: resource => {
+        const extra = Object.entries(resourceData(resource)).filter(([key]) => !fieldKeys.has(key));
+        return extra.length > 0 ? Object.fromEntries(extra) : null;
+      },
+    },
+  ];
+}
+
+// Lists become "a, b" and booleans yes/no, which is how the importer reads them
+function spreadsheetValue(value: unknown): string | number {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (Array.isArray(value) && value.every(item => typeof item !== "object")) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatResourceCsvHeader(columns: ResourceExportColumn[]): string {
+  return columns.map(column => csvCell(column.header)).join(",");
+}
+
+export function formatResourceCsvRow(resource: ExportedResource, columns: ResourceExportColumn[]): string {
+  return columns.map(column => csvCell(spreadsheetValue(column.value(resource)))).join(",");
+}
+
+export function toResourceExportObject(resource: ExportedResource, columns: ResourceExportColumn[]): Record<string, unknown> {
+  return Object.fromEntries(columns.map(column => [column.key, column.value(resource) ?? null]));
+}
+
+// Excel files can't be streamed, so the workbook is built from all rows at once
+export function buildResourceWorkbook(resources: ExportedResource[], columns: ResourceExportColumn[]): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    columns.map(column => column.header),
+    ...resources.map(resource => columns.map(column => spreadsheetValue(column.value(resource)))),
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Resources");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
@@ -0,0 +1,335 @@
+import * as XLSX from "xlsx";
+import { storage, type ResourceImportWrite } from "./storage";
+import {
+  RESOURCE_IMPORT_CORE_FIELDS,
+  RESOURCE_IMPORT_FIELDS,
+  type Resource,
+  type ResourceImportField,
+  type ResourceType,
+} from "@shared/schema";
+import { RESOURCE_DATA_SCHEMAS, describeResourceDataIssues } from "@shared/resourceData";
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export const IMPORT_FILE_EXTENSIONS = [".csv", ".xlsx", ".xls"];
+
+export type ImportMatchBy = "url" | "externalId" | "none";
+
+export interface ImportColumn {
+  header: string;
+  sample: string;
+}
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportRowResult {
+  row: number; // Spreadsheet row number; the header is row 1
+  data: Record<string, unknown>;
+  errors: string[];
+  warnings: string[];
+  valid: boolean;
+  action?: "create" | "update";
+  resourceId?: string; // Existing resource an update applies to
+}
+
+export interface ResourceImportSummary {
+  total: number;
+  valid: number;
+  invalid: number;
+  warnings: number;
+  create: number;
+  update: number;
+}
+
+export interface ResourceImportPlan {
+  rows: ImportRowResult[];
+  summary: ResourceImportSummary;
+}
+
+// Problems with the uploaded file itself, reported to the admin as a 400
+export class ResourceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResourceImportError";
+  }
+}
+
+/**
+ * Read the first sheet of an uploaded CSV or Excel file into rows keyed by
+ * header. CSV cells are kept as typed; Excel dates come out as YYYY-MM-DD.
+ */
+export function parseImportFile(file: { buffer: Buffer; originalname: string }): ParsedImportFile {
+  const isCsv = file.originalname.toLowerCase().endsWith(".csv");
+
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(file.buffer, isCsv ? { type: "buffer", raw: true } : { type: "buffer", cellDates: true });
+  } catch {
+    throw new ResourceImportError("The file could not be read as CSV or Excel");
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new ResourceImportError("The file has no sheets");
+  }
+
+  // Excel formats dates by the workbook's own number format otherwise
+  for (const [address, cell] of Object.entries(sheet)) {
+    if (address.startsWith("!") || (cell as XLSX.CellObject).t !== "d") continue;
+    (cell as XLSX.CellObject).z = "yyyy-mm-dd";
+    delete (cell as XLSX.CellObject).w;
+  }
+
+  // Read by column position so headers with stray spaces still line up
+  const [headerRow = [], ...cellRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "", raw: false, blankrows: false });
+  const columns = headerRow
+    .map((header, index) => ({ header: String(header ?? "").trim(), index }))
+    .filter(column => column.header);
+  if (columns.length === 0) {
+    throw new ResourceImportError("The first row must contain column headers");
+  }
+
+  const headers = columns.map(column => column.header);
+  const rows = cellRows
+    .map(cells => Object.fromEntries(columns.map(({ header, index }) => [header, String(cells[index] ?? "").trim()])))
+    .filter(row => Object.values(row).some(Boolean));
+
+  if (rows.length === 0) {
+    throw new ResourceImportError("The file has no data rows");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ResourceImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return { headers, rows };
+}
+
+export function describeImportColumns(file: ParsedImportFile): ImportColumn[] {
+  return file.headers.map(header => ({
+    header,
+    sample: file.rows.find(row => row[header])?.[header] ?? "",
+  }));
+}
+
+function parseList(value: string): string[] {
+  return value.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+}
+
+function parseNumber(value: string): number | undefined {
+  const parsed = parseFloat(value.replace(/[$,%\s]/g, ""));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.toLowerCase();
+  if (["true", "yes", "y", "1"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return undefined;
+}
+
+function parseDate(value: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const timestamp = Date.parse(value);
+  return isNaN(timestamp) ? undefined : new Date(timestamp).toISOString().split("T")[0];
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Converts one cell for its field, noting anything that had to be dropped
+function convertCell(field: ResourceImportField, value: string, result: ImportRowResult): void {
+  switch (field.kind) {
+    case "list":
+      result.data[field.value] = parseList(value);
+      return;
+    case "number": {
+      const parsed = parseNumber(value);
+      if (parsed === undefined) {
+        result.warnings.push(`${field.label} "${value}" is not a number and was left blank`);
+      } else {
+        result.data[field.value] = parsed;
+      }
+      return;
+    }
+    case "boolean": {
+      const parsed = parseBoolean(value);
+      if (parsed === undefined) {
+        result.warnings.push(`${field.label} "${value}" is not yes/no and was left blank`);
+      } else {
+        result.data[field.value] = parsed;
+      }
+      return;
+    }
+    case "date": {
+      const parsed = parseDate(value);
+      if (parsed === undefined) {
+        result.warnings.push(`${field.label} "${value}" is not a date and was left blank`);
+      } else {
+        result.data[field.value] = parsed;
+      }
+      return;
+    }
+    case "url":
+      if (isHttpUrl(value)) {
+        result.data[field.value] = value;
+      } else {
+        result.errors.push(`${field.label} "${value}" is not a valid http(s) URL`);
+      }
+      return;
+    case "email":
+      if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+        result.data[field.value] = value;
+      } else {
+        result.warnings.push(`${field.label} "${value}" is not a valid email and was left blank`);
+      }
+      return;
+    default:
+      result.data[field.value] = value;
+  }
+}
+
+// The part of a row that is stored in resources.data
+function resourceDataOf(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([key]) => !RESOURCE_IMPORT_CORE_FIELDS.includes(key)));
+}
+
+/**
+ * Apply the admin's column mapping (resource field -> spreadsheet header) to
+ * each row and validate it against the fields of the resource type.
+ */
+export function validateImportRows(type: ResourceType, mapping: Record<string, string>, rows: Record<string, string>[]): ImportRowResult[] {
+  const fields = RESOURCE_IMPORT_FIELDS[type];
+
+  return rows.map((row, index) => {
+    const result: ImportRowResult = { row: index + 2, data: {}, errors: [], warnings: [], valid: true };
+
+    for (const field of fields) {
+      const header = mapping[field.value];
+      const value = header ? row[header] ?? "" : "";
+
+      if (!value) {
+        if (field.required) {
+          result.errors.push(`Missing required field: ${field.label}`);
+        }
+        continue;
+      }
+      convertCell(field, value, result);
+    }
+
+    if (!result.data.summary) {
+      result.warnings.push("No summary; the resource will show without a description");
+    }
+
+    // Only check the data schema once every required cell is there, so a
+    // missing field isn't reported twice
+    if (result.errors.length === 0) {
+      const checked = RESOURCE_DATA_SCHEMAS[type].safeParse(resourceDataOf(result.data));
+      if (!checked.success) {
+        result.errors.push(...describeResourceDataIssues(type, checked.error));
+      }
+    }
+
+    result.valid = result.errors.length === 0;
+    return result;
+  });
+}
+
+function matchKey(matchBy: ImportMatchBy, data: Record<string, unknown>): string | undefined {
+  if (matchBy === "none") return undefined;
+  const value = data[matchBy];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Validate the rows and work out which ones create a resource and which
+ * update an existing one, matched by URL or external ID. Nothing is written.
+ */
+export async function planResourceImport(options: {
+  type: ResourceType;
+  mapping: Record<string, string>;
+  matchBy: ImportMatchBy;
+  rows: Record<string, string>[];
+}): Promise<ResourceImportPlan> {
+  const { type, mapping, matchBy } = options;
+  const rows = validateImportRows(type, mapping, options.rows);
+
+  if (matchBy === "externalId" && !mapping.externalId) {
+    throw new ResourceImportError("Map the External ID column to match resources by external ID");
+  }
+
+  // The same key twice in one file would update the same resource twice
+  const firstRowByKey = new Map<string, number>();
+  for (const result of rows) {
+    const key = matchKey(matchBy, result.data);
+    if (!key) continue;
+    const firstRow = firstRowByKey.get(key);
+    if (firstRow !== undefined) {
+      result.errors.push(`Duplicate of row ${firstRow}`);
+      result.valid = false;
+    } else {
+      firstRowByKey.set(key, result.row);
+    }
+  }
+
+  const existing = matchBy === "none"
+    ? []
+    : await storage.findResourcesForImport(matchBy, Array.from(firstRowByKey.keys()));
+  const existingByKey = new Map<string, Resource>(
+    existing.map(resource => [(matchBy === "url" ? resource.url : resource.external_id) as string, resource])
+  );
+
+  for (const result of rows) {
+    const key = matchKey(matchBy, result.data);
+    const match = key ? existingByKey.get(key) : undefined;
+
+    if (match && match.type !== type) {
+      result.errors.push(`Matches an existing ${match.type ?? "untyped"} resource, not ${type}`);
+      result.valid = false;
+    }
+    if (!result.valid) continue;
+
+    result.action = match ? "update" : "create";
+    result.resourceId = match?.id;
+  }
+
+  const valid = rows.filter(result => result.valid);
+  return {
+    rows,
+    summary: {
+      total: rows.length,
+      valid: valid.length,
+      invalid: rows.length - valid.length,
+      warnings: rows.filter(result => result.warnings.length > 0).length,
+      create: valid.filter(result => result.action === "create").length,
+      update: valid.filter(result => result.action === "update").length,
+    },
+  };
+}
+
+// Splits a validated row into resource columns and type-specific data
+export function toResourceImportWrite(result: ImportRowResult): ResourceImportWrite {
+  const { title, url, summary, tags, externalId } = result.data;
+  const data = resourceDataOf(result.data);
+
+  return {
+    rowNumber: result.row,
+    resourceId: result.resourceId,
+    values: {
+      ...(title !== undefined ? { title: title as string } : {}),
+      ...(url !== undefined ? { url: url as string } : {}),
+      ...(summary !== undefined ? { summary: summary as string } : {}),
+      ...(tags !== undefined ? { tags: tags as string[] } : {}),
+      ...(externalId !== undefined ? { external_id: externalId as string } : {}),
+      data,
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resourceDataFields } from "@shared/resourceData";
+import { DEFAULT_REVIEW_INTERVAL_DAYS } from "@shared/schema";
+import { QUALITY_FACTOR_WEIGHTS, computeResourceQuality, type ResourceQualityInput } from "./resourceQuality";
+
+const now = new Date("2026-06-01T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function input(resource: Partial<ResourceQualityInput["resource"]> = {}, favorites = 0, clicks = 0): ResourceQualityInput {
+  return {
+    resource: {
+      type: "grants",
+      summary: null,
+      image_url: null,
+      data: {},
+      link_status: null,
+      verification_status: null,
+      verified_at: null,
+      review_interval_days: null,
+      ...resource,
+    },
+    favorites,
+    clicks,
+  };
+}
+
+// Every data field of the type filled in, nested ones included
+function completeGrantData() {
+  const data: Record<string, any> = {};
+  for (const field of resourceDataFields("grants")) {
+    const path = field.name.split(".");
+    const parent = path.slice(0, -1).reduce((object, key) => (object[key] ??= {}), data);
+    parent[path.at(-1)!] = "filled";
+  }
+  return data;
+}
+
+describe("computeResourceQuality", () => {
+  it("has weights that add up to 100", () => {
+    assert.equal(Object.values(QUALITY_FACTOR_WEIGHTS).reduce((sum, weight) => sum + weight, 0), 100);
+  });
+
+  it("gives a fully complete, healthy, freshly verified and popular resource 100", () => {
+    const { score, breakdown } = computeResourceQuality(input({
+      summary: "About",
+      image_url: "/image.png",
+      data: completeGrantData(),
+      link_status: "ok",
+      verification_status: "verified",
+      verified_at: now,
+    }, 25, 100), now);
+
+    assert.equal(score, 100);
+    for (const part of Object.values(breakdown)) {
+      assert.equal(part.points, part.max);
+    }
+  });
+
+  it("gives an empty, unchecked and unverified resource only the unchecked-link half", () => {
+    const { score, breakdown } = computeResourceQuality(input(), now);
+
+    assert.equal(breakdown.completeness.points, 0);
+    assert.equal(breakdown.linkHealth.points, QUALITY_FACTOR_WEIGHTS.linkHealth / 2);
+    assert.equal(breakdown.linkHealth.detail, "Link not checked yet");
+    assert.equal(breakdown.verification.detail, "Not verified");
+    assert.equal(score, 10);
+  });
+
+  it("counts required fields double towards completeness", () => {
+    const fields = resourceDataFields("grants");
+    const required = fields.find(field => field.required)!;
+    const optional = fields.find(field => !field.required)!;
+
+    const withRequired = computeResourceQuality(input({ data: { [required.name]: "x" } }), now).breakdown.completeness;
+    const withOptional = computeResourceQuality(input({ data: { [optional.name]: "x" } }), now).breakdown.completeness;
+
+    assert.ok(Math.abs(withRequired.points - 2 * withOptional.points) < 0.2);
+    assert.equal(withRequired.detail, `1 of ${fields.length + 2} fields filled in`);
+  });
+
+  it("scores nothing for a broken link", () => {
+    assert.equal(computeResourceQuality(input({ link_status: "broken" }), now).breakdown.linkHealth.points, 0);
+  });
+
+  it("lets verification credit run out over the review interval", () => {
+    const verifiedDaysAgo = (days: number, review_interval_days: number | null = null) =>
+      computeResourceQuality(input({
+        verification_status: "verified",
+        verified_at: new Date(now.getTime() - days * DAY),
+        review_interval_days,
+      }), now).breakdown.verification;
+
+    assert.equal(verifiedDaysAgo(DEFAULT_REVIEW_INTERVAL_DAYS / 2).points, QUALITY_FACTOR_WEIGHTS.verification / 2);
+    assert.equal(verifiedDaysAgo(DEFAULT_REVIEW_INTERVAL_DAYS + 10).points, 0);
+    assert.equal(verifiedDaysAgo(15, 30).points, QUALITY_FACTOR_WEIGHTS.verification / 2);
+    assert.equal(verifiedDaysAgo(1).detail, "Verified 1 day ago");
+  });
+
+  it("weighs the first favorites and clicks the most", () => {
+    const favorites = (count: number) => computeResourceQuality(input({}, count), now).breakdown.favorites.points;
+
+    assert.equal(favorites(0), 0);
+    assert.ok(favorites(5) > QUALITY_FACTOR_WEIGHTS.favorites / 2);
+    assert.equal(favorites(1000), QUALITY_FACTOR_WEIGHTS.favorites);
+    assert.equal(computeResourceQuality(input({}, 0, 1), now).breakdown.clicks.detail, "1 outbound click in the last 90 days");
+  });
+
+  it("scores untyped resources on summary and image alone", () => {
+    const { breakdown } = computeResourceQuality(input({ type: null, summary: "About" }), now);
+    assert.equal(breakdown.completeness.detail, "1 of 2 fields filled in");
+  });
+});
@@ -0,0 +1,109 @@
+import { RESOURCE_DATA_SCHEMAS, resourceDataFields } from "@shared/resourceData";
+import {
+  DEFAULT_REVIEW_INTERVAL_DAYS,
+  type Resource,
+  type ResourceQualityBreakdown,
+  type ResourceQualityFactor,
+  type ResourceQualityFactorScore,
+  type ResourceType,
+} from "@shared/schema";
+
+// Points each factor is worth; they add up to 100
+export const QUALITY_FACTOR_WEIGHTS: Record<ResourceQualityFactor, number> = {
+  completeness: 30,
+  linkHealth: 20,
+  verification: 20,
+  favorites: 15,
+  clicks: 15,
+};
+
+// Outbound clicks count towards the score for this long
+export const QUALITY_CLICK_WINDOW_DAYS = 90;
+
+// Engagement earns full marks at these counts, on a log scale so the first
+// few favorites and clicks count for the most
+const FAVORITES_FOR_FULL_MARKS = 25;
+const CLICKS_FOR_FULL_MARKS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ResourceQualityInput {
+  resource: Pick<
+    Resource,
+    "type" | "summary" | "image_url" | "data" | "link_status" | "verification_status" | "verified_at" | "review_interval_days"
+  >;
+  favorites: number;
+  clicks: number; // Outbound clicks within QUALITY_CLICK_WINDOW_DAYS
+}
+
+function factor(name: ResourceQualityFactor, fraction: number, detail: string): ResourceQualityFactorScore {
+  const max = QUALITY_FACTOR_WEIGHTS[name];
+  return { points: Math.round(max * Math.min(1, Math.max(0, fraction)) * 10) / 10, max, detail };
+}
+
+function isFilled(value: unknown): boolean {
+  if (value === undefined || value === null || value === "" || value === false) return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+function getPath(data: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+}
+
+// Summary, image and the type's data fields; required fields count double
+function completeness(resource: ResourceQualityInput["resource"]): ResourceQualityFactorScore {
+  const fields = resource.type && resource.type in RESOURCE_DATA_SCHEMAS ? resourceDataFields(resource.type as ResourceType) : [];
+  const checks = [
+    { filled: isFilled(resource.summary), weight: 2 },
+    { filled: isFilled(resource.image_url), weight: 1 },
+    ...fields.map(field => ({ filled: isFilled(getPath(resource.data, field.name)), weight: field.required ? 2 : 1 })),
+  ];
+  const total = checks.reduce((sum, check) => sum + check.weight, 0);
+  const earned = checks.reduce((sum, check) => sum + (check.filled ? check.weight : 0), 0);
+  const filled = checks.filter(check => check.filled).length;
+  return factor("completeness", earned / total, `${filled} of ${checks.length} fields filled in`);
+}
+
+function linkHealth(resource: ResourceQualityInput["resource"]): ResourceQualityFactorScore {
+  if (resource.link_status === "ok") return factor("linkHealth", 1, "Link working");
+  if (resource.link_status === "broken") return factor("linkHealth", 0, "Link broken");
+  return factor("linkHealth", 0.5, "Link not checked yet");
+}
+
+// Full marks right after verification, falling to nothing when it expires
+function verification(resource: ResourceQualityInput["resource"], now: Date): ResourceQualityFactorScore {
+  if (resource.verification_status !== "verified" || !resource.verified_at) {
+    return factor("verification", 0, "Not verified");
+  }
+  const intervalDays = resource.review_interval_days ?? DEFAULT_REVIEW_INTERVAL_DAYS;
+  const ageDays = Math.max(0, Math.floor((now.getTime() - new Date(resource.verified_at).getTime()) / DAY_MS));
+  return factor("verification", 1 - ageDays / intervalDays, `Verified ${plural(ageDays, "day")} ago`);
+}
+
+function engagement(name: "favorites" | "clicks", count: number, fullMarksAt: number, detail: string): ResourceQualityFactorScore {
+  return factor(name, Math.log1p(count) / Math.log1p(fullMarksAt), detail);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** Score a resource out of 100 and explain where the points came from. */
+export function computeResourceQuality(
+  input: ResourceQualityInput,
+  now: Date = new Date()
+): { score: number; breakdown: ResourceQualityBreakdown } {
+  const breakdown: ResourceQualityBreakdown = {
+    completeness: completeness(input.resource),
+    linkHealth: linkHealth(input.resource),
+    verification: verification(input.resource, now),
+    favorites: engagement("favorites", input.favorites, FAVORITES_FOR_FULL_MARKS, plural(input.favorites, "favorite")),
+    clicks: engagement("clicks", input.clicks, CLICKS_FOR_FULL_MARKS,
+      `${plural(input.clicks, "outbound click")} in the last ${QUALITY_CLICK_WINDOW_DAYS} days`),
+  };
+  const score = Math.round(Object.values(breakdown).reduce((sum, part) => sum + part.points, 0));
+  return { score, breakdown };
+}
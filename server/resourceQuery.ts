@@ -0,0 +1,668 @@
+import { z } from "zod";
+import { and, asc, eq, getTableColumns, inArray, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { QUALIFIED_RESOURCE_ID, RESOURCE_VERIFICATION_CURRENT } from "./storage";
+import { resourceRevisions, resources, type ResourceType } from "@shared/schema";
+
+// Radius searches are for "within driving distance" questions, not continents
+export const MAX_RADIUS_KM = 2000;
+
+export const RESOURCE_TYPES = ['universities', 'organizations', 'grants', 'tools', 'templates', 'learning', 'bulletins', 'industry_news'] as const;
+
+// Resource filter validation schema. Keys without a registered handler are
+// matched against the same-named field in resources.data.
+export const ResourceFiltersSchema = z.object({
+  // Shared column filters; comma-separated values match any of them
+  topics: z.string().optional(),
+  crop: z.string().optional(),
+  system_type: z.string().optional(),
+  region: z.string().optional(),
+  cost: z.string().optional(),
+  state: z.string().optional(),
+  country: z.string().optional(),
+  programName: z.string().optional(),
+  rfpDueDate: z.string().optional(),
+  eligibility: z.string().optional(),
+  // Grants-specific filters
+  agency: z.string().optional(),
+  amountMin: z.string().optional(),
+  amountMax: z.string().optional(),
+  focusAreas: z.string().optional(),
+  orgTypes: z.string().optional(),
+  regions: z.string().optional(),
+  hideExpired: z.string().optional(),
+  eligibilityType: z.string().optional(),
+  // Organization-specific filters
+  functions: z.string().optional(),
+  // Learning-specific filters
+  category: z.string().optional(),
+  costType: z.string().optional(),
+  level: z.string().optional(),
+  format: z.string().optional(),
+  language: z.string().optional()
+}).passthrough();
+
+export const ResourceQuerySchema = z.object({
+  type: z.enum(RESOURCE_TYPES).optional(),
+  q: z.string().optional(),
+  filters: z.string().optional(),
+  sort: z.enum(['relevance', 'title', 'newest', 'quality', 'rating', 'dueDate', 'agency', 'amount', 'provider', 'cost', 'distance']).default('relevance'),
+  // "lat,lng" to measure distances from; radiusKm limits results to that far away
+  near: z.string().optional(),
+  radiusKm: z.coerce.number().positive().max(MAX_RADIUS_KM).optional(),
+  // "west,south,east,north" in degrees; west > east crosses the antimeridian
+  bbox: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().min(1).max(10000).default(20)
+});
+
+export const ResourceFacetsQuerySchema = ResourceQuerySchema.pick({ type: true, q: true, filters: true, near: true, radiusKm: true, bbox: true });
+
+export type ResourceFilters = z.infer<typeof ResourceFiltersSchema>;
+export type ResourceSort = z.infer<typeof ResourceQuerySchema>['sort'];
+
+// Turns one filter value into a condition; returning undefined skips it
+export type ResourceFilterHandler = (value: string) => SQL | undefined;
+
+// One ORDER BY key. Cursors compare on its value, so it must never be NULL.
+export interface ResourceSortKey {
+  value: SQL;
+  direction: 'asc' | 'desc';
+}
+
+export interface ResourceTypeQueryConfig {
+  filters?: Record<string, ResourceFilterHandler>;
+  // Sort keys, most significant first; results are always tie-broken by id
+  sorts?: Partial<Record<ResourceSort, ResourceSortKey[]>>;
+  // Expressions yielding a resource's value(s) for each facet, keyed by the
+  // filter that narrows on it. Set-returning expressions count every element.
+  facets?: Record<string, SQL>;
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeoBoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Resources without coordinates never match a radius or bounding box
+export interface ResourceLocationQuery {
+  near?: GeoPoint;
+  radiusKm?: number; // Only applies with near
+  bbox?: GeoBoundingBox;
+}
+
+export interface ResourceQueryInput {
+  type?: ResourceType;
+  q?: string;
+  filters?: ResourceFilters;
+  location?: ResourceLocationQuery;
+  sort?: ResourceSort;
+  cursor?: string;
+  limit: number;
+}
+
+// Any drizzle Postgres database; tests run listings against an in-memory one
+export type ResourceQueryDatabase = Pick<PgDatabase<PgQueryResultHKT, any>, 'select' | 'execute'>;
+
+export interface ResourceFacetValue {
+  value: string;
+  count: number;
+}
+
+// Search matches wrapped in <mark> tags, present when the query had a search term
+export interface ResourceHighlights {
+  title: string;
+  summary: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor format");
+    this.name = "InvalidCursorError";
+  }
+}
+
+const registry = new Map<ResourceType, ResourceTypeQueryConfig>();
+
+/**
+ * Register the filters and sorts a resource type supports beyond the common
+ * ones. Filter keys registered for any type are never treated as plain
+ * data field matches.
+ */
+export function registerResourceType(type: ResourceType, config: ResourceTypeQueryConfig): void {
+  const existing = registry.get(type);
+  registry.set(type, {
+    filters: { ...existing?.filters, ...config.filters },
+    sorts: { ...existing?.sorts, ...config.sorts },
+    facets: { ...existing?.facets, ...config.facets },
+  });
+}
+
+// data->>'key', with the key bound as a parameter
+function dataField(key: string): SQL {
+  return sql`${resources.data}->>${key}`;
+}
+
+// websearch_to_tsquery accepts the syntax people type into search boxes
+// ("quoted phrases", OR, -excluded) and never raises on malformed input
+function searchQuery(q: string): SQL {
+  return sql`websearch_to_tsquery('english', ${q.substring(0, 200)})`;
+}
+
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const SUMMARY_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "';
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Matches when the JSON array at `path` contains any of the listed values
+function jsonArrayContainsAny(path: SQL, value: string): SQL | undefined {
+  const items = splitList(value);
+  if (items.length === 0) return undefined;
+  return or(...items.map(item => sql`${path} ? ${item}`));
+}
+
+// Matches when the text[] column shares any of the listed values
+function arrayOverlapsAny(column: AnyPgColumn, value: string): SQL | undefined {
+  const items = splitList(value);
+  if (items.length === 0) return undefined;
+  return sql`${column} && ARRAY[${sql.join(items.map(item => sql`${item}`), sql`, `)}]::text[]`;
+}
+
+function inList(column: AnyPgColumn, value: string): SQL | undefined {
+  const items = splitList(value);
+  return items.length > 0 ? inArray(column, items) : undefined;
+}
+
+// Elements of a JSON array in resources.data, or nothing when it isn't an array
+function jsonArrayElements(path: SQL): SQL {
+  return sql`jsonb_array_elements_text(CASE WHEN jsonb_typeof(${path}) = 'array' THEN ${path} ELSE '[]'::jsonb END)`;
+}
+
+function parseInteger(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parseCoordinates(value: string, count: number): number[] | undefined {
+  const parts = value.split(',').map(part => part.trim());
+  if (parts.length !== count || parts.some(part => part === '')) return undefined;
+  const numbers = parts.map(Number);
+  return numbers.every(Number.isFinite) ? numbers : undefined;
+}
+
+const validLat = (lat: number) => lat >= -90 && lat <= 90;
+const validLng = (lng: number) => lng >= -180 && lng <= 180;
+
+// "lat,lng", or undefined when it isn't a point on the globe
+export function parseGeoPoint(value: string): GeoPoint | undefined {
+  const coordinates = parseCoordinates(value, 2);
+  if (!coordinates) return undefined;
+  const [lat, lng] = coordinates;
+  return validLat(lat) && validLng(lng) ? { lat, lng } : undefined;
+}
+
+// "west,south,east,north", or undefined when it isn't a valid box
+export function parseGeoBoundingBox(value: string): GeoBoundingBox | undefined {
+  const coordinates = parseCoordinates(value, 4);
+  if (!coordinates) return undefined;
+  const [west, south, east, north] = coordinates;
+  const valid = validLng(west) && validLng(east) && validLat(south) && validLat(north) && south <= north;
+  return valid ? { west, south, east, north } : undefined;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+// The expression resources_location_idx is built on
+const resourcePoint = sql`point(${resources.long}, ${resources.lat})`;
+
+// Uses resources_location_idx. Boxes crossing the antimeridian are split in two.
+function withinBox({ west, south, east, north }: GeoBoundingBox): SQL {
+  const box = (w: number, e: number) =>
+    sql`${resourcePoint} <@ box(point(${w}::float8, ${south}::float8), point(${e}::float8, ${north}::float8))`;
+  return west <= east ? box(west, east) : or(box(west, 180), box(-180, east))!;
+}
+
+// Great-circle (haversine) distance from `from`, in km
+function distanceKm(from: GeoPoint): SQL<number> {
+  return sql<number>`(${2 * EARTH_RADIUS_KM} * asin(sqrt(
+    power(sin(radians(${resources.lat} - ${from.lat}::float8) / 2), 2)
+    + cos(radians(${from.lat}::float8)) * cos(radians(${resources.lat}))
+      * power(sin(radians(${resources.long} - ${from.lng}::float8) / 2), 2)
+  )))`;
+}
+
+// Smallest box holding every point within radiusKm of center, so the index
+// narrows a radius search before the exact distance check
+function radiusBox(center: GeoPoint, radiusKm: number): GeoBoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const south = Math.max(center.lat - latDelta, -90);
+  const north = Math.min(center.lat + latDelta, 90);
+  const lngDelta = latDelta / Math.cos((Math.max(Math.abs(south), Math.abs(north)) * Math.PI) / 180);
+  // Near a pole, or wide enough to wrap the globe: every longitude is in range
+  if (north === 90 || south === -90 || !Number.isFinite(lngDelta) || lngDelta >= 180) {
+    return { west: -180, south, east: 180, north };
+  }
+  const wrap = (lng: number) => (lng < -180 ? lng + 360 : lng > 180 ? lng - 360 : lng);
+  return { west: wrap(center.lng - lngDelta), south, east: wrap(center.lng + lngDelta), north };
+}
+
+function buildLocationConditions(location: ResourceLocationQuery): SQL[] {
+  const conditions: SQL[] = [];
+  if (location.bbox) {
+    conditions.push(withinBox(location.bbox));
+  }
+  if (location.near && location.radiusKm !== undefined) {
+    conditions.push(withinBox(radiusBox(location.near, location.radiusKm)));
+    conditions.push(sql`${distanceKm(location.near)} <= ${location.radiusKm}`);
+  }
+  return conditions;
+}
+
+// Filters on the shared resource columns, available for every type. Each
+// accepts a comma-separated list and matches any of its values.
+const COMMON_FILTERS: Record<string, ResourceFilterHandler> = {
+  topics: (value) => arrayOverlapsAny(resources.topics, value),
+  crop: (value) => arrayOverlapsAny(resources.crop, value),
+  system_type: (value) => arrayOverlapsAny(resources.system_type, value),
+  region: (value) => inList(resources.region, value),
+  cost: (value) => inList(resources.cost, value),
+};
+
+const COMMON_FACETS: Record<string, SQL> = {
+  topics: sql`unnest(${resources.topics})`,
+  crop: sql`unnest(${resources.crop})`,
+  system_type: sql`unnest(${resources.system_type})`,
+  region: sql`${resources.region}`,
+  cost: sql`${resources.cost}`,
+};
+
+// Facets list at most this many values, most common first
+const MAX_FACET_VALUES = 50;
+
+const ascending = (value: SQL): ResourceSortKey => ({ value, direction: 'asc' });
+const descending = (value: SQL): ResourceSortKey => ({ value, direction: 'desc' });
+
+const COMMON_SORTS: Partial<Record<ResourceSort, ResourceSortKey[]>> = {
+  title: [ascending(sql`${resources.title}`)],
+  newest: [descending(sql`COALESCE(${dataField('createdAt')}, '1970-01-01')`)],
+  quality: [descending(sql`COALESCE(${resources.quality_score}, 0)`)],
+  // Averages are pulled towards a neutral 3 stars as if every resource had
+  // five extra 3-star ratings, so a single 5-star rating doesn't outrank
+  // forty 4.8s
+  rating: [
+    descending(sql`(COALESCE(${resources.rating_average}, 0) * ${resources.rating_count} + 15) / (${resources.rating_count} + 5)`),
+    descending(sql`${resources.rating_count}`),
+  ],
+};
+
+registerResourceType('grants', {
+  filters: {
+    // Show grants where the max award is at least the user's minimum
+    amountMin: (value) => {
+      const amount = parseInteger(value);
+      return amount === undefined ? undefined : sql`COALESCE((${dataField('award_max')})::int, 0) >= ${amount}`;
+    },
+    // Show grants where the min award is at most the user's maximum
+    amountMax: (value) => {
+      const amount = parseInteger(value);
+      return amount === undefined ? undefined : sql`COALESCE((${dataField('award_min')})::int, 0) <= ${amount}`;
+    },
+    focusAreas: (value) => jsonArrayContainsAny(sql`${resources.data}->'focusAreas'`, value),
+    orgTypes: (value) => jsonArrayContainsAny(sql`${resources.data}->'eligibility'->'orgTypes'`, value),
+    regions: (value) => {
+      const regions = jsonArrayContainsAny(sql`${resources.data}->'eligibility'->'regions'`, value);
+      return regions ? or(regions, sql`${resources.data}->'eligibility'->'regions' ? 'All US States'`) : undefined;
+    },
+    hideExpired: (value) => {
+      if (value !== 'true') return undefined;
+      const today = new Date().toISOString().split('T')[0];
+      return or(
+        sql`${dataField('due_date')} >= ${today}`,
+        sql`${dataField('status')} = 'Rolling'`,
+        sql`${dataField('status')} = 'recurring'`
+      );
+    },
+  },
+  sorts: {
+    dueDate: [ascending(sql`COALESCE(${dataField('applicationDeadline')}, ${dataField('rfpDueDate')}, '9999-12-31')`)],
+    agency: [ascending(sql`COALESCE(${dataField('agency')}, 'ZZZ')`)],
+    amount: [descending(sql`COALESCE((${dataField('grantAmountMax')})::int, (${dataField('grantAmountMin')})::int, 0)`)],
+  },
+  facets: {
+    focusAreas: jsonArrayElements(sql`${resources.data}->'focusAreas'`),
+  },
+});
+
+registerResourceType('organizations', {
+  filters: {
+    functions: (value) => jsonArrayContainsAny(sql`${resources.data}->'functions'`, value),
+    country: (value) => sql`${resources.data}->'hq'->>'country' = ${value}`,
+  },
+  facets: {
+    functions: jsonArrayElements(sql`${resources.data}->'functions'`),
+  },
+});
+
+registerResourceType('learning', {
+  filters: {
+    level: (value) => {
+      const levels = splitList(value);
+      return levels.length > 0 ? inArray(dataField('level'), levels) : undefined;
+    },
+  },
+  sorts: {
+    provider: [ascending(sql`COALESCE(${dataField('provider')}, 'ZZZ')`)],
+    cost: [ascending(sql`COALESCE(${dataField('costType')}, 'ZZZ')`)],
+  },
+  facets: {
+    level: dataField('level'),
+  },
+});
+
+function isTypeSpecificFilter(key: string): boolean {
+  return Array.from(registry.values()).some(config => !!config.filters?.[key]);
+}
+
+/**
+ * Build the WHERE conditions for a resource listing, excluding the cursor so
+ * the same conditions can be reused for the total count.
+ */
+export function buildResourceConditions(input: Pick<ResourceQueryInput, 'type' | 'q' | 'filters' | 'location'>): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (input.type) {
+    conditions.push(eq(resources.type, input.type));
+  }
+
+  if (input.q) {
+    conditions.push(sql`${resources.search_vector} @@ ${searchQuery(input.q)}`);
+  }
+
+  const typeFilters = (input.type && registry.get(input.type)?.filters) || {};
+  for (const [key, value] of Object.entries(input.filters || {})) {
+    if (!value || typeof value !== 'string') continue;
+
+    const handler = typeFilters[key] ?? COMMON_FILTERS[key];
+    const condition = handler
+      ? handler(value)
+      : isTypeSpecificFilter(key) ? undefined : sql`${dataField(key)} = ${value}`;
+    if (condition) {
+      conditions.push(condition);
+    }
+  }
+
+  if (input.location) {
+    conditions.push(...buildLocationConditions(input.location));
+  }
+
+  return conditions;
+}
+
+// Type-specific sorts only apply when listing that type, and the distance
+// sort needs a point to measure from; anything else falls back to relevance,
+// which ranks search matches and is id order otherwise
+function resourceSortKeys(
+  type: ResourceType | undefined,
+  sort: ResourceSort = 'relevance',
+  q?: string,
+  near?: GeoPoint
+): ResourceSortKey[] {
+  // Resources without coordinates come last; the key can't be NULL
+  if (sort === 'distance' && near) {
+    return [ascending(sql`COALESCE(${distanceKm(near)}, 'Infinity'::float8)`)];
+  }
+  const typeSorts = type ? registry.get(type)?.sorts : undefined;
+  return typeSorts?.[sort] ?? COMMON_SORTS[sort]
+    ?? (q ? [descending(sql`ts_rank_cd(${resources.search_vector}, ${searchQuery(q)})`)] : []);
+}
+
+export function buildResourceOrderBy(
+  type: ResourceType | undefined,
+  sort: ResourceSort = 'relevance',
+  q?: string,
+  near?: GeoPoint
+): SQL[] {
+  const order = resourceSortKeys(type, sort, q, near)
+    .map(key => key.direction === 'asc' ? sql`${key.value} ASC` : sql`${key.value} DESC`);
+  return [...order, asc(resources.id)];
+}
+
+type SortValue = string | number;
+
+// Cursors are base64url JSON of the last item's sort key values and id
+interface ResourceCursor {
+  values: SortValue[];
+  id: string;
+}
+
+function encodeCursor(cursor: ResourceCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, keyCount: number): ResourceCursor {
+  let decoded: Partial<ResourceCursor>;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  const { values, id } = decoded ?? {};
+  const validValue = (value: unknown) => typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+  if (typeof id !== 'string' || id.length > 100 || !Array.isArray(values) || values.length !== keyCount || !values.every(validValue)) {
+    throw new InvalidCursorError();
+  }
+  return { values, id };
+}
+
+// Rows after the cursor in ORDER BY order: a later value of the first key
+// that differs, or the same values and a later id. Spelled out rather than
+// as a row comparison because keys can sort in different directions.
+function buildCursorCondition(keys: ResourceSortKey[], cursor: ResourceCursor): SQL {
+  const sameUpTo = (count: number) => keys.slice(0, count).map((key, i) => sql`${key.value} = ${cursor.values[i]}`);
+  const branches = keys.map((key, i) => and(
+    ...sameUpTo(i),
+    key.direction === 'asc' ? sql`${key.value} > ${cursor.values[i]}` : sql`${key.value} < ${cursor.values[i]}`
+  )!);
+  branches.push(and(...sameUpTo(keys.length), sql`${resources.id} > ${cursor.id}`)!);
+  return sql`(${or(...branches)})`;
+}
+
+/**
+ * Run a resource listing query with cursor pagination. Throws
+ * InvalidCursorError for malformed cursors, including ones from a listing
+ * with a different sort.
+ */
+export async function queryResources(input: ResourceQueryInput, database: ResourceQueryDatabase = db) {
+  const conditions = buildResourceConditions(input);
+  const sortKeys = resourceSortKeys(input.type, input.sort, input.q, input.location?.near);
+  const pageConditions = input.cursor
+    ? [...conditions, buildCursorCondition(sortKeys, decodeCursor(input.cursor, sortKeys.length))]
+    : conditions;
+
+  const rows = await database
+    .select({
+      id: resources.id,
+      title: resources.title,
+      url: resources.url,
+      type: resources.type,
+      summary: resources.summary,
+      data: resources.data,
+      tags: resources.tags,
+      lat: resources.lat,
+      long: resources.long,
+      ugga_verified: RESOURCE_VERIFICATION_CURRENT,
+      quality_score: resources.quality_score,
+      rating_average: resources.rating_average,
+      rating_count: resources.rating_count,
+      image_url: resources.image_url,
+      // Kilometres from `near`, to one decimal place; null without near or coordinates
+      distance_km: input.location?.near
+        ? sql<number | null>`round(${distanceKm(input.location.near)}::numeric, 1)::float8`
+        : sql<number | null>`NULL`,
+      highlights: input.q
+        ? sql<ResourceHighlights>`json_build_object(
+            'title', ts_headline('english', ${resources.title}, ${searchQuery(input.q)}, ${TITLE_HEADLINE_OPTIONS}),
+            'summary', ts_headline('english', ${resources.summary}, ${searchQuery(input.q)}, ${SUMMARY_HEADLINE_OPTIONS})
+          )`
+        : sql<ResourceHighlights | null>`NULL`,
+      // For the next page's cursor; not part of the response
+      sort_values: sortKeys.length > 0
+        ? sql<SortValue[]>`json_build_array(${sql.join(sortKeys.map(key => key.value), sql`, `)})`
+        : sql<SortValue[]>`'[]'::json`,
+    })
+    .from(resources)
+    .where(pageConditions.length > 0 ? and(...pageConditions) : undefined)
+    .orderBy(...buildResourceOrderBy(input.type, input.sort, input.q, input.location?.near))
+    .limit(input.limit + 1);
+
+  const hasNext = rows.length > input.limit;
+  if (hasNext) {
+    rows.pop(); // Remove the extra item
+  }
+
+  const last = rows[rows.length - 1];
+  const nextCursor = hasNext && last ? encodeCursor({ values: last.sort_values, id: last.id }) : null;
+  const items = rows.map(({ sort_values: _sortValues, ...item }) => item);
+
+  // Total uses only the filter conditions, not the cursor
+  const [{ count }] = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(resources)
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+  return {
+    items,
+    nextCursor,
+    total: Number(count) || 0,
+  };
+}
+
+// Full rows for exports, paged by offset in the same order as the listing
+export async function listResourcesForExport(
+  input: Pick<ResourceQueryInput, 'type' | 'q' | 'filters' | 'location' | 'sort'>,
+  options: { offset: number; limit: number }
+) {
+  const { search_vector: _searchVector, ...columns } = getTableColumns(resources);
+  const conditions = buildResourceConditions(input);
+
+  return db
+    .select(columns)
+    .from(resources)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(...buildResourceOrderBy(input.type, input.sort, input.q, input.location?.near))
+    .limit(options.limit)
+    .offset(options.offset);
+}
+
+// Baseline revisions only record what a resource held before its first
+// tracked edit, so they don't count as changes
+function changedAfter(since: Date): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM ${resourceRevisions}
+    WHERE ${resourceRevisions.resourceId} = ${resources.id}
+      AND ${resourceRevisions.changeType} <> 'baseline'
+      AND ${resourceRevisions.createdAt} > ${since}
+  )`;
+}
+
+/**
+ * Resources matching a listing that were added or edited after `since`,
+ * most recently changed first, with how many there are in all.
+ */
+export async function listResourcesChangedSince(
+  input: Pick<ResourceQueryInput, 'type' | 'q' | 'filters'>,
+  since: Date,
+  limit: number,
+  database: ResourceQueryDatabase = db
+) {
+  const conditions = [...buildResourceConditions(input), changedAfter(since)];
+  const changedAt = sql`(
+    SELECT max(${resourceRevisions.createdAt}) FROM ${resourceRevisions}
+    WHERE ${resourceRevisions.resourceId} = ${QUALIFIED_RESOURCE_ID} AND ${resourceRevisions.changeType} <> 'baseline'
+  )`.mapWith(resourceRevisions.createdAt);
+
+  const [items, total] = await Promise.all([
+    limit > 0
+      ? database
+          .select({
+            id: resources.id,
+            title: resources.title,
+            url: resources.url,
+            type: resources.type,
+            summary: resources.summary,
+            changedAt,
+          })
+          .from(resources)
+          .where(and(...conditions))
+          .orderBy(sql`${changedAt} DESC`, asc(resources.id))
+          .limit(limit)
+      : [],
+    countResourcesChangedSince(input, since, database),
+  ]);
+
+  return { items, total };
+}
+
+export async function countResourcesChangedSince(
+  input: Pick<ResourceQueryInput, 'type' | 'q' | 'filters'>,
+  since: Date,
+  database: ResourceQueryDatabase = db
+): Promise<number> {
+  const conditions = [...buildResourceConditions(input), changedAfter(since)];
+  const [{ count }] = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(resources)
+    .where(and(...conditions));
+  return Number(count) || 0;
+}
+
+/**
+ * Count resources per facet value under the applied filters. Each facet
+ * ignores its own filter, so selecting one value doesn't hide the others.
+ */
+export async function getResourceFacets(
+  input: Pick<ResourceQueryInput, 'type' | 'q' | 'filters' | 'location'>,
+  database: ResourceQueryDatabase = db
+) {
+  const facetExpressions = { ...COMMON_FACETS, ...(input.type && registry.get(input.type)?.facets) };
+
+  const entries = await Promise.all(Object.entries(facetExpressions).map(async ([key, expression]) => {
+    const { [key]: _ownFilter, ...otherFilters } = input.filters || {};
+    const conditions = buildResourceConditions({ ...input, filters: otherFilters });
+    const where = conditions.length > 0 ? sql`WHERE ${and(...conditions)}` : sql``;
+
+    const result = await database.execute(sql`
+      SELECT value, count(DISTINCT id)::int AS count
+      FROM (SELECT ${resources.id} AS id, ${expression} AS value FROM ${resources} ${where}) facet
+      WHERE value IS NOT NULL AND value <> ''
+      GROUP BY value
+      ORDER BY count DESC, value
+      LIMIT ${MAX_FACET_VALUES}
+    `);
+    // Both neon and pglite results carry the rows here
+    return [key, (result as { rows: unknown[] }).rows as ResourceFacetValue[]] as const;
+  }));
+
+  const conditions = buildResourceConditions(input);
+  const [{ count }] = await database
+    .select({ count: sql<number>`count(*)` })
+    .from(resources)
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+  return {
+    facets: Object.fromEntries(entries) as Record<string, ResourceFacetValue[]>,
+    total: Number(count) || 0,
+  };
+}
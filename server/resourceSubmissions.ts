@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { validateImportRows } from "./resourceImport";
+import { RESOURCE_TYPES } from "./resourceQuery";
+import { RESOURCE_SUBMISSION_FIELDS, type ResourceSubmission, type ResourceType } from "@shared/schema";
+
+export const ResourceSubmissionContentSchema = z.object({
+  type: z.enum(RESOURCE_TYPES),
+  fields: z.record(z.string().max(5000)), // Keyed by the type's RESOURCE_SUBMISSION_FIELDS
+});
+
+export const ResourceSubmissionInputSchema = ResourceSubmissionContentSchema.extend({
+  note: z.string().max(1000).optional(),
+});
+
+export const ResourceSubmissionDecisionSchema = z.object({
+  reviewNote: z.string().max(2000).optional(),
+});
+
+export type ResourceSubmissionContent = Pick<ResourceSubmission, "type" | "title" | "url" | "summary" | "data">;
+
+/**
+ * Check a submission's fields the same way the importer checks a spreadsheet
+ * row, so an accepted submission makes a resource the library can use as is.
+ */
+export function parseResourceSubmission(
+  type: ResourceType,
+  values: Record<string, string>
+): { content: ResourceSubmissionContent; errors: [] } | { content?: undefined; errors: string[] } {
+  const fields = RESOURCE_SUBMISSION_FIELDS[type];
+  const mapping = Object.fromEntries(fields.map(field => [field.value, field.value]));
+  const row = Object.fromEntries(fields.map(field => [field.value, (values[field.value] ?? "").trim()]));
+
+  const [result] = validateImportRows(type, mapping, [row]);
+  if (!result.valid) {
+    return { errors: result.errors };
+  }
+
+  const { title, url, summary, ...data } = result.data;
+  return {
+    errors: [],
+    content: {
+      type,
+      title: title as string,
+      url: url as string,
+      summary: (summary as string | undefined) ?? null,
+      data,
+    },
+  };
+}
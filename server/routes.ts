@@ -7,20 +7,138 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { z } from "zod";
-import { storage } from "./storage";
+import { storage, FarmInvitationUnavailableError, type AdminAuditLogFilter } from "./storage";
 import { 
   authenticate, 
   requireMember, 
   requireAdmin, 
+  requirePermission,
   hashPassword, 
   verifyPassword, 
   generateToken, 
   verifyToken,
-  setAuthCookie, 
   clearAuthCookie,
+  createSession,
+  refreshSession,
+  endSession,
+  requireVerifiedEmail,
   type AuthRequest 
 } from "./auth";
 import { sendUserEmail } from "./email/userEmail";
+import {
+  formatVerificationEmail,
+  formatFarmInvitationEmail,
+  formatAccountDeletionConfirmEmail,
+  formatAccountDeletedEmail,
+  formatMagicLinkEmail,
+  formatResourceSubmissionAcceptedEmail,
+  formatResourceSubmissionRejectedEmail,
+} from "./email/userTemplates";
+import {
+  generateTotpSecret,
+  buildTotpEnrollment,
+  verifyTotpCode,
+  generateBackupCodes,
+  hashBackupCode,
+  isTwoFactorRequiredForAdmins,
+} from "./twoFactor";
+import {
+  checkLoginAllowed,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  checkPasswordResetAllowed,
+  canSendPasswordReset,
+  recordPasswordResetRequest,
+  checkMagicLinkAllowed,
+  canSendMagicLink,
+  recordMagicLinkRequest,
+  type ThrottleResult,
+} from "./loginProtection";
+import {
+  requireFarmRole,
+  hasFarmRole,
+  generateInviteCode,
+  hashInviteCode,
+  findPendingInvitation,
+  isInvitationFor,
+  getUserFarmId,
+  FARM_INVITATION_TTL_MS,
+  type FarmRequest,
+} from "./farms";
+import {
+  createMagicLink,
+  hashMagicLinkToken,
+  isMagicLinkEnabledForRole,
+  getSignInSettings,
+  SIGN_IN_SETTINGS_KEY,
+} from "./magicLink";
+import {
+  generateApiToken,
+  canGrantScope,
+  toApiTokenResponse,
+  MAX_API_TOKENS_PER_USER,
+} from "./apiTokens";
+import {
+  ResourceFiltersSchema,
+  ResourceQuerySchema,
+  ResourceFacetsQuerySchema,
+  RESOURCE_TYPES,
+  InvalidCursorError,
+  queryResources,
+  listResourcesChangedSince,
+  getResourceFacets,
+  listResourcesForExport,
+  parseGeoPoint,
+  parseGeoBoundingBox,
+  type ResourceFilters,
+  type ResourceLocationQuery,
+} from "./resourceQuery";
+import { resolveMemberLocation } from "./geocoding";
+import {
+  parseImportFile,
+  describeImportColumns,
+  planResourceImport,
+  toResourceImportWrite,
+  ResourceImportError,
+  IMPORT_FILE_EXTENSIONS,
+} from "./resourceImport";
+import {
+  ResourceExportQuerySchema,
+  RESOURCE_EXPORT_CONTENT_TYPES,
+  getResourceExportColumns,
+  formatResourceCsvHeader,
+  formatResourceCsvRow,
+  toResourceExportObject,
+  buildResourceWorkbook,
+  type ExportedResource,
+} from "./resourceExport";
+import {
+  ResourceSubmissionInputSchema,
+  ResourceSubmissionContentSchema,
+  ResourceSubmissionDecisionSchema,
+  parseResourceSubmission,
+} from "./resourceSubmissions";
+import {
+  MAX_COLLECTION_ITEMS,
+  ResourceCollectionInputSchema,
+  ResourceCollectionUpdateSchema,
+  ResourceCollectionItemInputSchema,
+  ResourceCollectionItemNoteSchema,
+  ResourceCollectionOrderSchema,
+  ResourceCollectionShareSchema,
+  resourceCollectionAccess,
+  type ResourceCollectionAccess,
+} from "./resourceCollections";
+import {
+  MAX_SAVED_SEARCHES,
+  SavedSearchInputSchema,
+  SavedSearchUpdateSchema,
+  savedSearchQuery,
+  startSavedSearchAlerts,
+} from "./savedSearches";
+import { parseResourceData, buildResourceDataReport } from "./resourceData";
+import { startLinkChecker, checkResourceLink } from "./linkChecker";
+import { auditAdminMutations, auditPrivilegedMutations, setAuditContext, captureAuditBefore, diffSnapshots, formatAuditCsvRow, AUDIT_CSV_HEADER } from "./audit";
 import { findGrowerAI, assessmentAI } from "./openai";
 import { notifyAllAdmins, formatExpertRequestEmail, formatChallengeEmail, formatFeedbackEmail, formatContactFormEmail } from "./emailNotifications";
 import { calculateFarmProfile, generateRecommendations } from "./farmRoadmapLogic";
@@ -31,8 +149,22 @@ import {
   insertResourceSchema,
   insertGrowerChallengeSchema,
   insertExpertRequestSchema,
+  insertFarmSchema,
   Role,
-  resources
+  FarmRole,
+  Permission,
+  ApiTokenScope,
+  hasPermission,
+  resources,
+  RESOURCE_VERIFICATION_STATUSES,
+  RESOURCE_VERIFICATION_TRANSITIONS,
+  RESOURCE_REVIEW_CHECKLIST,
+  RESOURCE_SUBMISSION_STATUSES,
+  RESOURCE_RATING_STATUSES,
+  MEMBER_ROLES,
+  type ResourceCollection,
+  type SavedSearch,
+  type User
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { sql, eq, and, or, like, desc, asc, count } from "drizzle-orm";
@@ -46,6 +178,116 @@ const aiRateLimit = rateLimit({
   message: "Too many AI requests, please try again later",
 });
 
+// Rate limiting for verification email resends
+const verificationRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 3, // limit each IP to 3 resends per windowMs
+  message: { message: "Too many verification emails requested, please try again later" },
+});
+
+// Rate limiting for two-factor code attempts
+const twoFactorRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // limit each IP to 10 code attempts per windowMs
+  message: { message: "Too many verification attempts, please try again later" },
+});
+
+// Rate limiting for farm invite code lookups
+const farmInviteRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // limit each IP to 20 lookups per windowMs
+  message: { message: "Too many invite code attempts, please try again later" },
+});
+
+// Rate limiting for resource library exports
+const resourceExportRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // limit each IP to 20 exports per windowMs
+  message: { message: "Too many exports requested, please try again later" },
+});
+
+// Rate limiting for member resource suggestions
+const resourceSubmissionRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // limit each IP to 10 suggestions per windowMs
+  message: { message: "Too many resource suggestions, please try again later" },
+});
+
+// Rate limiting for account deletion requests
+const accountDeletionRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // limit each IP to 5 requests per windowMs
+  message: { message: "Too many account deletion requests, please try again later" },
+});
+
+// A member can't leave a farm without an owner. Returns the farm to delete
+// along with the account when the member is its only one.
+async function checkFarmForAccountDeletion(userId: string): Promise<{ error?: string; farmToDelete?: string }> {
+  const membership = await storage.getFarmMembership(userId);
+  if (!membership) return {};
+
+  const members = await storage.listFarmMembers(membership.farmId);
+  if (members.length === 1) {
+    return { farmToDelete: membership.farmId };
+  }
+
+  const owners = members.filter(member => member.role === FarmRole.OWNER);
+  if (membership.role === FarmRole.OWNER && owners.length === 1) {
+    return { error: "Make another member of your farm an owner before deleting your account" };
+  }
+  return {};
+}
+
+// Reject a throttled sign-in or reset request with 429 and a Retry-After hint
+function sendThrottled(res: express.Response, result: ThrottleResult) {
+  if (result.retryAfterSeconds) {
+    res.set("Retry-After", String(result.retryAfterSeconds));
+  }
+  return res.status(429).json({ message: result.message, retryAfter: result.retryAfterSeconds });
+}
+
+// Check an authenticator code and spend its time step
+async function acceptTotpCode(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep);
+  return step !== null && await storage.claimTotpStep(user.id, step);
+}
+
+// Check a TOTP code, or redeem a one-time backup code
+async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret || !code) return false;
+
+  if (await acceptTotpCode(user, code)) {
+    return true;
+  }
+
+  return await storage.consumeBackupCode(user.id, hashBackupCode(code));
+}
+
+// Generate a fresh set of backup codes, invalidating any previous ones
+async function issueBackupCodes(userId: string): Promise<string[]> {
+  const backupCodes = generateBackupCodes();
+  await storage.replaceBackupCodes(userId, backupCodes.map(hashBackupCode));
+  return backupCodes;
+}
+
+// Send a signed, single-purpose email verification link (valid for 24 hours)
+async function sendVerificationEmail(req: express.Request, user: { id: string; email: string }, isWelcome = false): Promise<boolean> {
+  const verificationToken = generateToken({
+    id: user.id,
+    email: user.email,
+    type: 'email-verification'
+  }, '24h');
+
+  const verifyUrl = `${req.protocol}://${req.get('host')}/verify-email?token=${verificationToken}`;
+
+  return await sendUserEmail({
+    to: user.email,
+    ...formatVerificationEmail({ verifyUrl, isWelcome }),
+  });
+}
+
 // Configure multer for file uploads
 const uploadDir = path.join(process.cwd(), "public", "uploads");
 if (!fs.existsSync(uploadDir)) {
@@ -67,8 +309,166 @@ const upload = multer({
   }
 });
 
+// Spreadsheets for the resource importer are parsed in memory and never saved
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (IMPORT_FILE_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only CSV and Excel (.xlsx, .xls) files are allowed.'));
+    }
+  }
+});
+
+// An admin resource update with its data checked against the schema for the
+// resource's type, which may be changing in the same update. Updates touching
+// neither are passed through; undefined when the resource doesn't exist.
+async function withCheckedResourceData(id: string, updates: Record<string, unknown>): Promise<Record<string, unknown> | undefined> {
+  if (updates.type === undefined && updates.data === undefined) {
+    return updates;
+  }
+  const [current] = await storage.listResourceData([id]);
+  if (!current) return undefined;
+
+  const data = parseResourceData(updates.type ?? current.type, updates.data ?? current.data);
+  return updates.data === undefined ? updates : { ...updates, data };
+}
+
+// Loads a collection the caller may see, or sends a 404 so private collections
+// don't give away that they exist. Only the owner gets the share token back.
+async function loadResourceCollection(
+  req: AuthRequest,
+  res: express.Response,
+  shareToken?: string
+): Promise<{ collection: ResourceCollection; access: ResourceCollectionAccess } | undefined> {
+  const collection = await storage.getResourceCollection(req.params.id);
+  const access = collection && resourceCollectionAccess(collection, {
+    userId: req.user?.id,
+    isSharedWith: !!req.user && await storage.isResourceCollectionSharedWith(collection.id, req.user.id),
+    shareToken,
+  });
+  if (!collection || !access) {
+    res.status(404).json({ message: "Collection not found" });
+    return undefined;
+  }
+  return { collection, access };
+}
+
+async function loadOwnResourceCollection(req: AuthRequest, res: express.Response): Promise<ResourceCollection | undefined> {
+  const loaded = await loadResourceCollection(req, res);
+  if (!loaded) return undefined;
+  if (loaded.access !== "owner") {
+    res.status(403).json({ message: "Only the collection's owner can change it" });
+    return undefined;
+  }
+  return loaded.collection;
+}
+
+function collectionForViewer(collection: ResourceCollection, access: ResourceCollectionAccess) {
+  if (access === "owner") return collection;
+  const { shareToken: _shareToken, ...rest } = collection;
+  return rest;
+}
+
+async function loadOwnSavedSearch(req: AuthRequest, res: express.Response): Promise<SavedSearch | undefined> {
+  const search = await storage.getSavedSearch(req.params.id);
+  if (!search || search.userId !== req.user!.id) {
+    res.status(404).json({ message: "Saved search not found" });
+    return undefined;
+  }
+  return search;
+}
+
+// The unsubscribe token only ever travels in digest emails
+function savedSearchForOwner(search: SavedSearch) {
+  const { unsubscribeToken: _unsubscribeToken, ...rest } = search;
+  return rest;
+}
+
+// Parse the JSON `filters` query parameter shared by the resource listing endpoints
+function parseResourceFilters(filtersStr?: string): { filters: ResourceFilters; error?: { message: string; errors?: unknown } } {
+  if (!filtersStr) {
+    return { filters: {} };
+  }
+
+  try {
+    const filterResult = ResourceFiltersSchema.safeParse(JSON.parse(filtersStr));
+    if (!filterResult.success) {
+      return { filters: {}, error: { message: "Invalid filters format", errors: filterResult.error.errors } };
+    }
+    return { filters: filterResult.data };
+  } catch {
+    return { filters: {}, error: { message: "Invalid JSON in filters parameter" } };
+  }
+}
+
+// Parse the near/radiusKm/bbox query parameters shared by the resource listing endpoints
+function parseResourceLocation(params: { near?: string; radiusKm?: number; bbox?: string }): { location?: ResourceLocationQuery; error?: { message: string } } {
+  const near = params.near ? parseGeoPoint(params.near) : undefined;
+  if (params.near && !near) {
+    return { error: { message: "near must be \"lat,lng\"" } };
+  }
+  if (params.radiusKm !== undefined && !near) {
+    return { error: { message: "radiusKm needs a near point to measure from" } };
+  }
+
+  const bbox = params.bbox ? parseGeoBoundingBox(params.bbox) : undefined;
+  if (params.bbox && !bbox) {
+    return { error: { message: "bbox must be \"west,south,east,north\"" } };
+  }
+
+  if (!near && !bbox) {
+    return {};
+  }
+  return { location: { near, radiusKm: params.radiusKm, bbox } };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   app.use(cookieParser());
+
+  // Every successful admin mutation is written to the audit log, along with
+  // privileged ones on other routes
+  app.use("/api/admin", auditAdminMutations);
+  app.use("/api", auditPrivilegedMutations);
+
+  // Index resources that were written without a search vector (older rows,
+  // seeds and direct SQL)
+  storage.refreshResourceSearchVectors()
+    .then(indexed => {
+      if (indexed > 0) console.log(`Indexed ${indexed} resources for full-text search`);
+    })
+    .catch(error => console.error("Resource search indexing error:", error));
+
+  // Verified resources past their review interval go stale. Flags set before
+  // the review workflow existed are adopted as verifications first.
+  const expireVerifications = () => storage.expireResourceVerifications()
+    .then(expired => {
+      if (expired > 0) console.log(`Marked ${expired} resource verifications stale`);
+    })
+    .catch(error => console.error("Verification expiry error:", error));
+  storage.adoptLegacyResourceVerifications()
+    .catch(error => console.error("Legacy verification adoption error:", error))
+    .finally(expireVerifications);
+  setInterval(expireVerifications, 60 * 60 * 1000).unref();
+
+  // Quality scores also depend on favorites, clicks and how long ago a
+  // resource was verified, so they are recomputed regularly, not just on edit
+  const refreshQualityScores = () => storage.refreshResourceQualityScores()
+    .catch(error => console.error("Quality score error:", error));
+  void refreshQualityScores();
+  setInterval(refreshQualityScores, 6 * 60 * 60 * 1000).unref();
+
+  // Check resource links in the background; LINK_CHECKER=off turns it off
+  if (process.env.LINK_CHECKER !== "off") {
+    startLinkChecker();
+  }
+
+  // Count saved searches' new matches and email their digests
+  startSavedSearchAlerts({ appUrl: process.env.APP_URL });
   
   // Health check endpoint for deployment monitoring
   app.get("/health", (_req, res) => {
@@ -101,8 +501,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(409).json({ message: "User already exists" });
       }
 
+      // Joining an existing farm: the farm already holds the greenhouse details
+      const invitation = userData.inviteCode ? await findPendingInvitation(userData.inviteCode) : undefined;
+      if (userData.inviteCode && !invitation) {
+        return res.status(400).json({ message: "Invalid or expired invite code" });
+      }
+      if (invitation && !isInvitationFor(invitation, String(userData.email ?? ""))) {
+        return res.status(403).json({ message: "This invitation was sent to a different email address" });
+      }
+
       // Validate member type specific requirements
-      if (memberType === "grower") {
+      if (memberType === "grower" && !invitation) {
         const { cropTypes, otherCrop, county, climateControl, farmType, otherFarmType } = req.body;
         
         if (!county) {
@@ -124,24 +533,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Create user
+      // Profile with member type specific fields
+      const { 
+        name, phone, state, employer, jobTitle, greenhouseRole
+      } = req.body;
+      let {
+        farmType, county, cropTypes, otherCrop, ghSize,
+        productionMethod, suppLighting, climateControl, otherFarmType
+      } = req.body;
+
+      // Invited staff inherit the farm's greenhouse details
+      if (invitation && memberType === "grower") {
+        const { farm } = invitation;
+        ({ farmType, county, cropTypes, otherCrop, ghSize, productionMethod, suppLighting, climateControl, otherFarmType } = farm);
+      }
+      
       const passwordHash = await hashPassword(password);
-      const user = await storage.createUser({
+      const user = await storage.createMember({
         username: userData.username,
         email: userData.email,
         passwordHash,
         role: Role.MEMBER,
-      });
-
-      // Create profile with member type specific fields
-      const { 
-        name, phone, state, employer, jobTitle, farmType,
-        county, greenhouseRole, cropTypes, otherCrop, 
-        ghSize, productionMethod, suppLighting, climateControl,
-        otherFarmType
-      } = req.body;
-      
-      await storage.createProfile(user.id, {
+      }, {
         name,
         phone,
         state,
@@ -159,32 +572,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         suppLighting: memberType === "grower" ? suppLighting : null,
         climateControl: memberType === "grower" ? (climateControl || []) : [],
         otherFarmType: memberType === "grower" ? otherFarmType : null,
-      });
-
-      // Generate token and set cookie for automatic login
-      const token = generateToken(user);
-      setAuthCookie(res, token);
+      }, invitation);
 
-      // Send welcome email via Brevo SMTP
-      await sendUserEmail({
-        to: user.email,
-        subject: "Welcome to UGGA",
-        html: `
-          <h1>Welcome to United Greenhouse Growers Association!</h1>
-          <p>Thank you for joining our community. Your account has been created successfully.</p>
-          <p>You can now log in and access all member features.</p>
-        `,
-        text: `
-Welcome to United Greenhouse Growers Association!
-
-Thank you for joining our community. Your account has been created successfully.
+      // Start a session for automatic login
+      await createSession(req, res, user);
 
-You can now log in and access all member features.
-        `,
-      });
+      // Send welcome email with verification link via Brevo SMTP
+      await sendVerificationEmail(req, user, true);
 
       res.status(201).json({ message: "Registration successful" });
     } catch (error) {
+      if (error instanceof FarmInvitationUnavailableError) {
+        return res.status(400).json({ message: "Invalid or expired invite code" });
+      }
       console.error("Registration error:", error);
       res.status(500).json({ message: "Registration failed" });
     }
@@ -198,25 +598,37 @@ You can now log in and access all member features.
       const user = await storage.getUserByEmail(identifier) || 
                    await storage.getUserByUsername(identifier);
 
+      // Brute-force protection: lockout and progressive delays
+      const throttle = await checkLoginAllowed(req, user);
+      if (!throttle.allowed) {
+        return sendThrottled(res, throttle);
+      }
+
       if (!user) {
+        await recordFailedLogin(req, identifier);
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
       // Verify password
       const isValid = await verifyPassword(password, user.passwordHash);
       if (!isValid) {
+        await recordFailedLogin(req, identifier, user);
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
-      // Generate token and set cookie
-      const token = generateToken({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role as Role,
-      });
+      // Accounts with two-factor auth get a short-lived challenge instead of a session
+      if (user.totpEnabledAt) {
+        const challengeToken = generateToken({
+          id: user.id,
+          email: user.email,
+          type: 'two-factor-challenge'
+        }, '5m');
+        return res.json({ twoFactorRequired: true, challengeToken });
+      }
 
-      setAuthCookie(res, token);
+      // Start a server-side session and set cookies
+      await createSession(req, res, user);
+      await recordSuccessfulLogin(req, identifier, user);
 
       res.json({ message: "Login successful" });
     } catch (error) {
@@ -225,635 +637,2248 @@ You can now log in and access all member features.
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    clearAuthCookie(res);
-    res.json({ message: "Logout successful" });
+  app.post("/api/auth/login/2fa", twoFactorRateLimit, async (req, res) => {
+    try {
+      const { challengeToken, code } = req.body;
+
+      const decoded = challengeToken ? verifyToken(challengeToken) : null;
+      if (!decoded || decoded.type !== 'two-factor-challenge') {
+        return res.status(401).json({ message: "Your sign-in attempt expired, please sign in again" });
+      }
+
+      const user = await storage.getUser(decoded.id);
+      if (!user || !user.totpEnabledAt) {
+        return res.status(401).json({ message: "Your sign-in attempt expired, please sign in again" });
+      }
+
+      // Second-factor guesses count towards the same lockout as passwords
+      const throttle = await checkLoginAllowed(req, user);
+      if (!throttle.allowed) {
+        return sendThrottled(res, throttle);
+      }
+
+      const isValid = await verifySecondFactor(user, String(code || ""));
+      if (!isValid) {
+        await recordFailedLogin(req, user.email, user);
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      await createSession(req, res, user);
+      await recordSuccessfulLogin(req, user.email, user);
+
+      res.json({ message: "Login successful" });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
   });
 
-  app.get("/api/auth/me", authenticate, async (req: AuthRequest, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
     try {
-      const user = await storage.getUser(req.user!.id);
-      const profile = await storage.getProfile(req.user!.id);
-      
-      res.json({
-        ...user,
-        profile,
-        passwordHash: undefined, // Don't send password hash
-      });
+      await endSession(req, res);
+      res.json({ message: "Logout successful" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch user data" });
+      console.error("Logout error:", error);
+      clearAuthCookie(res);
+      res.json({ message: "Logout successful" });
     }
   });
 
-  // Password reset routes
-  app.post("/api/auth/forgot-password", async (req, res) => {
+  app.post("/api/auth/refresh", async (req, res) => {
     try {
-      const { email } = req.body;
-      
-      if (!email) {
-        return res.status(400).json({ message: "Email is required" });
-      }
-
-      // Find user by email
-      const user = await storage.getUserByEmail(email);
-      
-      // Always return success to prevent email enumeration
+      const user = await refreshSession(req, res);
       if (!user) {
-        return res.json({ message: "If an account with that email exists, a password reset link has been sent." });
+        clearAuthCookie(res);
+        return res.status(401).json({ message: "Session expired" });
       }
 
-      // Generate reset token (valid for 1 hour)
-      const resetToken = generateToken({
-        id: user.id,
-        email: user.email,
-        type: 'password-reset'
-      }, '1h');
+      res.json({ message: "Session refreshed" });
+    } catch (error) {
+      console.error("Refresh session error:", error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
 
-      // Send reset email via Brevo SMTP
-      const resetUrl = `${req.protocol}://${req.get('host')}/reset-password?token=${resetToken}`;
-      
-      await sendUserEmail({
-        to: user.email,
-        subject: "Reset Your UGGA Password",
-        html: `
-          <h1>Reset Your Password</h1>
-          <p>You requested a password reset for your UGGA account.</p>
-          <p>Click the link below to reset your password (link expires in 1 hour):</p>
-          <p><a href="${resetUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Reset Password</a></p>
-          <p>If the button doesn't work, copy and paste this link into your browser:</p>
-          <p>${resetUrl}</p>
-          <p>If you didn't request this reset, you can safely ignore this email.</p>
-        `,
-        text: `
-Reset Your Password
+  // Active session (device) management
+  app.get("/api/auth/sessions", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const activeSessions = await storage.listActiveSessions(req.user!.id);
+      res.json(activeSessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.id === req.user!.sessionId,
+      })));
+    } catch (error) {
+      console.error("List sessions error:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
 
-You requested a password reset for your UGGA account.
+  app.delete("/api/auth/sessions/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session || session.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
 
-Click this link to reset your password (link expires in 1 hour):
-${resetUrl}
+      await storage.revokeSession(session.id);
 
-If you didn't request this reset, you can safely ignore this email.
-        `
-      });
+      if (session.id === req.user!.sessionId) {
+        clearAuthCookie(res);
+      }
 
-      res.json({ message: "If an account with that email exists, a password reset link has been sent." });
+      res.json({ message: "Session revoked" });
     } catch (error) {
-      console.error("Forgot password error:", error);
-      res.status(500).json({ message: "Failed to process password reset request" });
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
     }
   });
 
-  app.post("/api/auth/reset-password", async (req, res) => {
+  app.post("/api/auth/logout-all", authenticate, async (req: AuthRequest, res) => {
     try {
-      const { token, password } = req.body;
-      
-      if (!token || !password) {
-        return res.status(400).json({ message: "Token and password are required" });
-      }
+      await storage.revokeAllUserSessions(req.user!.id);
+      clearAuthCookie(res);
+      res.json({ message: "Signed out of all devices" });
+    } catch (error) {
+      console.error("Logout all error:", error);
+      res.status(500).json({ message: "Failed to sign out of all devices" });
+    }
+  });
 
-      // Validate password strength
-      if (password.length < 12) {
-        return res.status(400).json({ message: "Password must be at least 12 characters long" });
+  // Personal API tokens
+  const apiTokenSchema = z.object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    scopes: z.array(z.nativeEnum(ApiTokenScope)).min(1, "Choose at least one scope"),
+    expiresInDays: z.union([z.literal(30), z.literal(90), z.literal(365)]).nullable(),
+  });
+
+  app.get("/api/auth/api-tokens", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const tokens = await storage.listApiTokens(req.user!.id);
+      res.json(tokens.map(toApiTokenResponse));
+    } catch (error) {
+      console.error("List API tokens error:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/auth/api-tokens", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const parsed = apiTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid token details" });
       }
 
-      // Verify reset token
-      const decoded = verifyToken(token);
-      if (!decoded || decoded.type !== 'password-reset') {
-        return res.status(400).json({ message: "Invalid or expired reset token" });
+      const { name, expiresInDays } = parsed.data;
+      const scopes = Array.from(new Set(parsed.data.scopes));
+      if (scopes.some(scope => !canGrantScope(req.user!.role, scope))) {
+        return res.status(403).json({ message: "Only admins and staff can create tokens with the admin scope" });
       }
 
-      // Find user
-      const user = await storage.getUserByEmail(decoded.email);
-      if (!user) {
-        return res.status(400).json({ message: "Invalid reset token" });
+      const existing = await storage.listApiTokens(req.user!.id);
+      if (existing.length >= MAX_API_TOKENS_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_API_TOKENS_PER_USER} API tokens. Revoke one you no longer use first.` });
       }
 
-      // Update password
-      const passwordHash = await hashPassword(password);
-      await storage.updateUserPassword(user.id, passwordHash);
+      const { token, tokenPrefix, tokenHash } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        tokenPrefix,
+        tokenHash,
+        scopes,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
 
-      res.json({ message: "Password reset successful" });
+      // The raw token is only ever returned here
+      res.status(201).json({ ...toApiTokenResponse(apiToken), token });
     } catch (error) {
-      console.error("Reset password error:", error);
-      if (error instanceof Error && error.name === 'TokenExpiredError') {
-        return res.status(400).json({ message: "Reset token has expired" });
+      console.error("Create API token error:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/auth/api-tokens/:id", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await storage.revokeApiToken(req.user!.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "API token not found" });
       }
-      res.status(500).json({ message: "Failed to reset password" });
+
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      console.error("Revoke API token error:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
     }
   });
 
-  // Contact form
-  app.post("/api/contact", async (req, res) => {
+  // Two-factor authentication management
+  app.get("/api/auth/2fa", authenticate, async (req: AuthRequest, res) => {
     try {
-      const { name, email, subject, message } = req.body;
-      
-      if (!name || !email || !subject || !message) {
-        return res.status(400).json({ message: "All fields are required" });
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Send notification to all admins
-      const emailData = formatContactFormEmail({
-        name,
-        email,
-        subject,
-        message,
+      res.json({
+        enabled: !!user.totpEnabledAt,
+        enabledAt: user.totpEnabledAt,
+        backupCodesRemaining: user.totpEnabledAt ? await storage.countUnusedBackupCodes(user.id) : 0,
+        required: user.role === Role.ADMIN && isTwoFactorRequiredForAdmins(),
       });
-      
-      const emailSent = await notifyAllAdmins(emailData);
+    } catch (error) {
+      console.error("Two-factor status error:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
 
-      if (!emailSent) {
-        return res.status(500).json({ message: "Failed to send email" });
+  app.post("/api/auth/2fa/setup", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      res.json({ message: "Message sent successfully" });
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      // Pending secret; it only takes effect once confirmed with a valid code
+      const secret = generateTotpSecret();
+      await storage.updateUser(user.id, { totpSecret: secret });
+
+      const { otpauthUrl, qrCode } = await buildTotpEnrollment(secret, user.email);
+
+      res.json({ secret, otpauthUrl, qrCode });
     } catch (error) {
-      console.error("Contact form error:", error);
-      res.status(500).json({ message: "Failed to send message" });
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
     }
   });
 
-  // Member feedback form
-  app.post("/api/feedback", authenticate, requireMember, async (req: AuthRequest, res) => {
+  app.post("/api/auth/2fa/enable", twoFactorRateLimit, authenticate, async (req: AuthRequest, res) => {
     try {
-      const { subject, message, type } = req.body;
-      
-      if (!subject || !message || !type) {
-        return res.status(400).json({ message: "All fields are required" });
-      }
+      const { code } = req.body;
 
       const user = await storage.getUser(req.user!.id);
-      const profile = await storage.getProfile(req.user!.id);
-      
-      // Send notification to all admins
-      const emailData = formatFeedbackEmail({
-        userName: profile?.name || user?.username || 'Unknown User',
-        userEmail: user?.email || 'Unknown Email',
-        memberSince: user?.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'Unknown',
-        organization: profile?.employer || 'Not specified',
-        state: profile?.state || 'Not specified',
-        type,
-        subject,
-        message,
-      });
-      
-      const emailSent = await notifyAllAdmins(emailData);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
 
-      if (!emailSent) {
-        return res.status(500).json({ message: "Failed to send email" });
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
       }
 
-      res.json({ message: "Feedback sent successfully" });
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      if (!await acceptTotpCode(user, String(code || ""))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.updateUser(user.id, { totpEnabledAt: new Date() });
+      const backupCodes = await issueBackupCodes(user.id);
+
+      // Other sessions were opened without a second factor
+      await storage.revokeAllUserSessions(user.id, req.user!.sessionId);
+
+      res.json({ message: "Two-factor authentication enabled", backupCodes });
     } catch (error) {
-      console.error("Feedback error:", error);
-      res.status(500).json({ message: "Failed to send feedback" });
+      console.error("Two-factor enable error:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
     }
   });
 
-  // Blog routes
-  app.get("/api/blog", async (req, res) => {
+  app.post("/api/auth/2fa/backup-codes", twoFactorRateLimit, authenticate, async (req: AuthRequest, res) => {
     try {
-      const posts = await storage.getAllBlogPosts();
-      res.json(posts);
+      const { code } = req.body;
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !user.totpEnabledAt || !user.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      // Require a fresh authenticator code, not a backup code
+      if (!await acceptTotpCode(user, String(code || ""))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const backupCodes = await issueBackupCodes(user.id);
+
+      res.json({ backupCodes });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch blog posts" });
+      console.error("Backup code regeneration error:", error);
+      res.status(500).json({ message: "Failed to regenerate backup codes" });
     }
   });
 
-  app.get("/api/blog/:slug", async (req, res) => {
+  app.post("/api/auth/2fa/disable", twoFactorRateLimit, authenticate, async (req: AuthRequest, res) => {
     try {
-      const post = await storage.getBlogPost(req.params.slug);
-      if (!post) {
-        return res.status(404).json({ message: "Blog post not found" });
+      const { password, code } = req.body;
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !user.totpEnabledAt) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
       }
-      res.json(post);
+
+      if (user.role === Role.ADMIN && isTwoFactorRequiredForAdmins()) {
+        return res.status(403).json({ message: "Two-factor authentication is required for admin accounts" });
+      }
+
+      const isPasswordValid = password ? await verifyPassword(password, user.passwordHash) : false;
+      if (!isPasswordValid) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+
+      if (!(await verifySecondFactor(user, String(code || "")))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.updateUser(user.id, { totpSecret: null, totpEnabledAt: null });
+      await storage.deleteBackupCodes(user.id);
+
+      res.json({ message: "Two-factor authentication disabled" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch blog post" });
+      console.error("Two-factor disable error:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
     }
   });
 
-  // Resource filter validation schemas
-  const ResourceFiltersSchema = z.object({
-    state: z.string().optional(),
-    country: z.string().optional(),
-    programName: z.string().optional(),
-    rfpDueDate: z.string().optional(),
-    eligibility: z.string().optional(),
-    // Grants-specific filters
-    agency: z.string().optional(),
-    amountMin: z.string().optional(),
-    amountMax: z.string().optional(),
-    focusAreas: z.string().optional(),
-    orgTypes: z.string().optional(),
-    regions: z.string().optional(),
-    hideExpired: z.string().optional(),
-    eligibilityType: z.string().optional(),
-    // Organization-specific filters
-    functions: z.string().optional(),
-    // Learning-specific filters
-    category: z.string().optional(),
-    costType: z.string().optional(),
-    level: z.string().optional(),
-    format: z.string().optional(),
-    language: z.string().optional()
-  }).passthrough();
-  
-  const ResourceQuerySchema = z.object({
-    type: z.enum(['universities', 'organizations', 'grants', 'tools', 'templates', 'learning', 'bulletins', 'industry_news']).optional(),
-    q: z.string().optional(),
-    filters: z.string().optional(),
-    sort: z.enum(['relevance', 'title', 'newest', 'quality', 'dueDate', 'agency', 'amount', 'provider', 'cost']).default('relevance'),
-    cursor: z.string().optional(),
-    limit: z.coerce.number().min(1).max(10000).default(20)
+  app.get("/api/auth/me", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const profile = await storage.getProfile(req.user!.id);
+      
+      res.json({
+        ...user,
+        profile,
+        passwordHash: undefined, // Don't send password hash
+        totpSecret: undefined,
+        twoFactorEnabled: !!user?.totpEnabledAt,
+        twoFactorRequired: user?.role === Role.ADMIN && isTwoFactorRequiredForAdmins(),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user data" });
+    }
   });
 
-  // Resources routes - New type-aware API
-  app.get("/api/resources", async (req, res) => {
+  // Email verification routes
+  app.post("/api/auth/verify-email", async (req, res) => {
     try {
-      // Validate query parameters
-      const queryResult = ResourceQuerySchema.safeParse(req.query);
-      if (!queryResult.success) {
-        return res.status(400).json({ 
-          message: "Invalid query parameters", 
-          errors: queryResult.error.errors 
-        });
-      }
-      
-      const { type, q, filters: filtersStr, sort, cursor, limit } = queryResult.data;
-      
-      // Parse and validate filters JSON
-      let filters = {};
-      if (filtersStr) {
-        try {
-          const parsedFilters = JSON.parse(filtersStr);
-          const filterResult = ResourceFiltersSchema.safeParse(parsedFilters);
-          if (!filterResult.success) {
-            return res.status(400).json({ 
-              message: "Invalid filters format", 
-              errors: filterResult.error.errors 
-            });
-          }
-          filters = filterResult.data;
-        } catch {
-          return res.status(400).json({ message: "Invalid JSON in filters parameter" });
-        }
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({ message: "Verification token is required" });
       }
-      
-      // Build WHERE conditions - separate cursor from other filters
-      const filterConditions = [];
-      const params: any[] = [];
-      let paramIndex = 1;
-      let cursorCondition: string | null = null;
-      
-      // Type filter
-      if (type) {
-        filterConditions.push(`type = '${type.replace(/'/g, "''")}'`);
+
+      const decoded = verifyToken(token);
+      if (!decoded || decoded.type !== 'email-verification') {
+        return res.status(400).json({ message: "Invalid or expired verification link" });
       }
-      
-      // Text search
-      if (q) {
-        const searchTerm = q.replace(/'/g, "''").substring(0, 200);
-        filterConditions.push(`(title ILIKE '%${searchTerm}%' OR summary ILIKE '%${searchTerm}%' OR array_to_string(tags, ' ') ILIKE '%${searchTerm}%')`);
+
+      const user = await storage.getUser(decoded.id);
+      // Tokens are bound to the address they were sent to, so changing the
+      // email invalidates any outstanding links
+      if (!user || user.email !== decoded.email) {
+        return res.status(400).json({ message: "Invalid or expired verification link" });
       }
-      
-      // JSON path filters - skip type-specific keys that will be handled later
-      const typeSpecificKeys = new Set(['amountMin', 'amountMax', 'focusAreas', 'orgTypes', 'regions', 'hideExpired', 'functions', 'country']);
-      for (const [key, value] of Object.entries(filters)) {
-        if (value && typeof value === 'string' && !typeSpecificKeys.has(key)) {
-          filterConditions.push(`data->>'${key}' = '${value.replace(/'/g, "''")}'`);
-        }
+
+      // One-time use: once verified, the link has no further effect
+      if (user.emailVerified) {
+        return res.json({ message: "Email already verified", alreadyVerified: true });
       }
-      
-      // Cursor-based pagination - store separately
-      if (cursor) {
-        try {
-          const [id, timestamp] = Buffer.from(cursor, 'base64').toString().split('|');
-          cursorCondition = `(id, COALESCE(data->>'createdAt', '1970-01-01')) > ('${id.replace(/'/g, "''").substring(0, 100)}', '${timestamp.replace(/'/g, "''").substring(0, 50)}')`;
-        } catch {
-          return res.status(400).json({ message: "Invalid cursor format" });
-        }
+
+      await storage.updateUser(user.id, { emailVerified: new Date() });
+
+      res.json({ message: "Email verified successfully" });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", verificationRateLimit, authenticate, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      // Build ORDER BY clause
-      let orderBy = 'id';
-      switch (sort) {
-        case 'title':
-          orderBy = 'title, id';
-          break;
-        case 'newest':
-          orderBy = "COALESCE(data->>'createdAt', '1970-01-01') DESC, id";
-          break;
-        case 'quality':
-          orderBy = "COALESCE((data->>'qualityScore')::int, 0) DESC, id";
-          break;
-        case 'dueDate':
-          orderBy = "COALESCE(data->>'applicationDeadline', data->>'rfpDueDate', '9999-12-31') ASC, id";
-          break;
-        case 'agency':
-          orderBy = "COALESCE(data->>'agency', 'ZZZ') ASC, id";
-          break;
-        case 'amount':
-          orderBy = "COALESCE((data->>'grantAmountMax')::int, (data->>'grantAmountMin')::int, 0) DESC, id";
-          break;
-        case 'provider':
-          orderBy = "COALESCE(data->>'provider', 'ZZZ') ASC, id";
-          break;
-        case 'cost':
-          orderBy = "COALESCE(data->>'costType', 'ZZZ') ASC, id";
-          break;
-        default:
-          orderBy = 'id';
-      }
-      
-      // Handle grants-specific filters
-      if (type === 'grants') {
-        const processedKeys = new Set();
-        for (const [key, value] of Object.entries(filters)) {
-          if (key === 'amountMin' && value && typeof value === 'string') {
-            // Show grants where the max award is at least the user's minimum
-            filterConditions.push(`COALESCE((data->>'award_max')::int, 0) >= ${parseInt(value)}`);
-            processedKeys.add(key);
-          } else if (key === 'amountMax' && value && typeof value === 'string') {
-            // Show grants where the min award is at most the user's maximum
-            filterConditions.push(`COALESCE((data->>'award_min')::int, 0) <= ${parseInt(value)}`);
-            processedKeys.add(key);
-          } else if (key === 'focusAreas' && value && typeof value === 'string') {
-            const areas = value.split(',').map(area => `'${area.replace(/'/g, "''")}'`);
-            const areaConditions = areas.map(area => `data->'focusAreas' ? ${area}`);
-            filterConditions.push(`(${areaConditions.join(' OR ')})`);
-          } else if (key === 'orgTypes' && value && typeof value === 'string') {
-            const types = value.split(',').map(type => `'${type.replace(/'/g, "''")}'`);
-            const typeConditions = types.map(type => `data->'eligibility'->'orgTypes' ? ${type}`);
-            filterConditions.push(`(${typeConditions.join(' OR ')})`);
-          } else if (key === 'regions' && value && typeof value === 'string') {
-            const regions = value.split(',').map(region => `'${region.replace(/'/g, "''")}'`);
-            const regionConditions = regions.map(region => `(data->'eligibility'->'regions' ? ${region} OR data->'eligibility'->'regions' ? 'All US States')`);
-            filterConditions.push(`(${regionConditions.join(' OR ')})`);
-          } else if (key === 'hideExpired' && value === 'true') {
-            const today = new Date().toISOString().split('T')[0];
-            filterConditions.push(`(data->>'due_date' >= '${today}' OR data->>'status' = 'Rolling' OR data->>'status' = 'recurring')`);
-          }
-        }
+
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Email is already verified" });
       }
-      
-      // Handle organization function filters  
-      if (type === 'organizations') {
-        for (const [key, value] of Object.entries(filters)) {
-          if (key === 'functions' && value && typeof value === 'string') {
-            filterConditions.push(`data->'functions' ? '${value.replace(/'/g, "''")}'`);
-          } else if (key === 'country' && value && typeof value === 'string') {
-            filterConditions.push(`data->'hq'->>'country' = '${value.replace(/'/g, "''")}'`);
-          }
-        }
+
+      const emailSent = await sendVerificationEmail(req, user);
+      if (!emailSent) {
+        return res.status(500).json({ message: "Failed to send verification email" });
       }
+
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Password reset routes
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = req.body;
       
-      // Build final SQL query - combine filter conditions with cursor condition for main query
-      const allConditions = [...filterConditions];
-      if (cursorCondition) {
-        allConditions.push(cursorCondition);
+      if (!email) {
+        return res.status(400).json({ message: "Email is required" });
       }
-      const whereClause = allConditions.length > 0 ? `WHERE ${allConditions.join(' AND ')}` : '';
-      
-      const baseQuery = `
-        SELECT id, title, url, type, summary, data, tags, lat, long, ugga_verified, quality_score, image_url 
-        FROM resources 
-        ${whereClause}
-        ORDER BY ${orderBy}
-        LIMIT ${limit + 1}
-      `;
-      
-      // Execute query
-      const result = await db.execute(sql.raw(baseQuery));
-      const items = result.rows as any[];
-      
-      // Prepare response
-      const hasNext = items.length > limit;
-      if (hasNext) {
-        items.pop(); // Remove the extra item
+
+      const throttle = await checkPasswordResetAllowed(req);
+      if (!throttle.allowed) {
+        return sendThrottled(res, throttle);
       }
+
+      // Find user by email
+      const user = await storage.getUserByEmail(email);
       
-      // Generate next cursor
-      let nextCursor: string | null = null;
-      if (hasNext && items.length > 0) {
-        const lastItem = items[items.length - 1] as any;
-        const timestamp = lastItem.data?.createdAt || '1970-01-01';
-        nextCursor = Buffer.from(`${lastItem.id}|${timestamp}`).toString('base64');
+      // Always return success to prevent email enumeration; accounts that
+      // already received several links recently are skipped silently
+      const shouldSend = user ? await canSendPasswordReset(user) : false;
+      await recordPasswordResetRequest(req, email, user);
+
+      if (!user || !shouldSend) {
+        return res.json({ message: "If an account with that email exists, a password reset link has been sent." });
       }
+
+      // Generate reset token (valid for 1 hour)
+      const resetToken = generateToken({
+        id: user.id,
+        email: user.email,
+        type: 'password-reset'
+      }, '1h');
+
+      // Send reset email via Brevo SMTP
+      const resetUrl = `${req.protocol}://${req.get('host')}/reset-password?token=${resetToken}`;
       
-      // Get total count using ONLY filter conditions (exclude cursor)
-      const countWhereClause = filterConditions.length > 0 ? 
-        `WHERE ${filterConditions.join(' AND ')}` : '';
-      
-      const countQuery = `
-        SELECT COUNT(*) as count 
-        FROM resources 
-        ${countWhereClause}
-      `;
-      
-      const countResult = await db.execute(sql.raw(countQuery));
-      const total = Number(countResult.rows[0]?.count) || 0;
-      
-      res.json({
-        items,
-        nextCursor,
-        total
+      await sendUserEmail({
+        to: user.email,
+        subject: "Reset Your UGGA Password",
+        html: `
+          <h1>Reset Your Password</h1>
+          <p>You requested a password reset for your UGGA account.</p>
+          <p>Click the link below to reset your password (link expires in 1 hour):</p>
+          <p><a href="${resetUrl}" style="background-color: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Reset Password</a></p>
+          <p>If the button doesn't work, copy and paste this link into your browser:</p>
+          <p>${resetUrl}</p>
+          <p>If you didn't request this reset, you can safely ignore this email.</p>
+        `,
+        text: `
+Reset Your Password
+
+You requested a password reset for your UGGA account.
+
+Click this link to reset your password (link expires in 1 hour):
+${resetUrl}
+
+If you didn't request this reset, you can safely ignore this email.
+        `
       });
-      
+
+      res.json({ message: "If an account with that email exists, a password reset link has been sent." });
     } catch (error) {
-      console.error("Resources API error:", error);
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Failed to process password reset request" });
     }
   });
 
-  // Admin resource counts endpoint
-  app.get("/api/admin/resources/counts", authenticate, requireAdmin, async (req, res) => {
+  app.post("/api/auth/reset-password", async (req, res) => {
     try {
-      const resourceTypes = ['universities', 'organizations', 'grants', 'tools', 'templates', 'learning', 'bulletins', 'industry_news'];
+      const { token, password } = req.body;
       
-      const counts = await Promise.all(
-        resourceTypes.map(async (type) => {
-          const countQuery = `SELECT COUNT(*) as count FROM resources WHERE type = '${type.replace(/'/g, "''")}'`;
-          const result = await db.execute(sql.raw(countQuery));
-          const count = parseInt((result.rows[0]?.count || '0') as string);
-          return { type, total: count };
-        })
-      );
+      if (!token || !password) {
+        return res.status(400).json({ message: "Token and password are required" });
+      }
+
+      // Validate password strength
+      if (password.length < 12) {
+        return res.status(400).json({ message: "Password must be at least 12 characters long" });
+      }
+
+      // Verify reset token
+      const decoded = verifyToken(token);
+      if (!decoded || decoded.type !== 'password-reset') {
+        return res.status(400).json({ message: "Invalid or expired reset token" });
+      }
+
+      // Find user
+      const user = await storage.getUserByEmail(decoded.email);
+      if (!user) {
+        return res.status(400).json({ message: "Invalid reset token" });
+      }
+
+      // Update password
+      const passwordHash = await hashPassword(password);
+      await storage.updateUserPassword(user.id, passwordHash);
+
+      // Sign out every device that may have been using the old password
+      await storage.revokeAllUserSessions(user.id);
+
+      // A successful reset also lifts any brute-force lockout
+      await storage.resetFailedLogins(user.id);
+
+      res.json({ message: "Password reset successful" });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      if (error instanceof Error && error.name === 'TokenExpiredError') {
+        return res.status(400).json({ message: "Reset token has expired" });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Passwordless magic-link sign in
+  app.post("/api/auth/magic-link", async (req, res) => {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "Email is required" });
+      }
+
+      const throttle = await checkMagicLinkAllowed(req);
+      if (!throttle.allowed) {
+        return sendThrottled(res, throttle);
+      }
+
+      const user = await storage.getUserByEmail(email);
+
+      // Same response whether or not the account exists. Accounts whose role
+      // must use a password, or that were sent several links recently, are
+      // skipped silently.
+      const shouldSend = user
+        ? await isMagicLinkEnabledForRole(user.role) && await canSendMagicLink(user)
+        : false;
+      await recordMagicLinkRequest(req, email, user);
+
+      if (user && shouldSend) {
+        const token = await createMagicLink(user, req.ip);
+        await sendUserEmail({
+          to: user.email,
+          ...formatMagicLinkEmail({
+            loginUrl: `${req.protocol}://${req.get('host')}/magic-link?token=${token}`,
+          }),
+        });
+      }
+
+      res.json({ message: "If an account with that email exists, a sign-in link has been sent." });
+    } catch (error) {
+      console.error("Magic link request error:", error);
+      res.status(500).json({ message: "Failed to send sign-in link" });
+    }
+  });
+
+  app.post("/api/auth/magic-link/verify", async (req, res) => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Sign-in token is required" });
+      }
+
+      const magicLink = await storage.consumeMagicLinkToken(hashMagicLinkToken(token));
+      const user = magicLink ? await storage.getUser(magicLink.userId) : undefined;
+      if (!user) {
+        return res.status(400).json({ message: "This sign-in link is invalid, expired or has already been used" });
+      }
+
+      // The role may have been switched to password-only since the link was sent
+      if (!(await isMagicLinkEnabledForRole(user.role))) {
+        return res.status(403).json({ message: "Email sign-in links are turned off for your account. Please sign in with your password." });
+      }
+
+      const throttle = await checkLoginAllowed(req, user);
+      if (!throttle.allowed) {
+        return sendThrottled(res, throttle);
+      }
+
+      // Opening the link proves the member controls the address
+      if (!user.emailVerified) {
+        await storage.updateUser(user.id, { emailVerified: new Date() });
+      }
+
+      // The link replaces the password, not the second factor
+      if (user.totpEnabledAt) {
+        const challengeToken = generateToken({
+          id: user.id,
+          email: user.email,
+          type: 'two-factor-challenge'
+        }, '5m');
+        return res.json({ twoFactorRequired: true, challengeToken });
+      }
+
+      await createSession(req, res, user);
+      await recordSuccessfulLogin(req, user.email, user);
+
+      res.json({ message: "Login successful" });
+    } catch (error) {
+      console.error("Magic link sign-in error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  // Contact form
+  app.post("/api/contact", async (req, res) => {
+    try {
+      const { name, email, subject, message } = req.body;
+      
+      if (!name || !email || !subject || !message) {
+        return res.status(400).json({ message: "All fields are required" });
+      }
+
+      // Send notification to all admins
+      const emailData = formatContactFormEmail({
+        name,
+        email,
+        subject,
+        message,
+      });
+      
+      const emailSent = await notifyAllAdmins(emailData);
+
+      if (!emailSent) {
+        return res.status(500).json({ message: "Failed to send email" });
+      }
+
+      res.json({ message: "Message sent successfully" });
+    } catch (error) {
+      console.error("Contact form error:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Member feedback form
+  app.post("/api/feedback", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { subject, message, type } = req.body;
+      
+      if (!subject || !message || !type) {
+        return res.status(400).json({ message: "All fields are required" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      const profile = await storage.getProfile(req.user!.id);
+      
+      // Send notification to all admins
+      const emailData = formatFeedbackEmail({
+        userName: profile?.name || user?.username || 'Unknown User',
+        userEmail: user?.email || 'Unknown Email',
+        memberSince: user?.createdAt ? new Date(user.createdAt).toLocaleDateString() : 'Unknown',
+        organization: profile?.employer || 'Not specified',
+        state: profile?.state || 'Not specified',
+        type,
+        subject,
+        message,
+      });
+      
+      const emailSent = await notifyAllAdmins(emailData);
+
+      if (!emailSent) {
+        return res.status(500).json({ message: "Failed to send email" });
+      }
+
+      res.json({ message: "Feedback sent successfully" });
+    } catch (error) {
+      console.error("Feedback error:", error);
+      res.status(500).json({ message: "Failed to send feedback" });
+    }
+  });
+
+  // Blog routes
+  app.get("/api/blog", async (req, res) => {
+    try {
+      const posts = await storage.getAllBlogPosts();
+      res.json(posts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch blog posts" });
+    }
+  });
+
+  app.get("/api/blog/:slug", async (req, res) => {
+    try {
+      const post = await storage.getBlogPost(req.params.slug);
+      if (!post) {
+        return res.status(404).json({ message: "Blog post not found" });
+      }
+      res.json(post);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch blog post" });
+    }
+  });
+
+  // Resources routes - New type-aware API
+  app.get("/api/resources", async (req, res) => {
+    try {
+      // Validate query parameters
+      const queryResult = ResourceQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid query parameters", 
+          errors: queryResult.error.errors 
+        });
+      }
+      
+      const { type, q, filters: filtersStr, sort, cursor, limit, near, radiusKm, bbox } = queryResult.data;
+      
+      const { filters, error: filtersError } = parseResourceFilters(filtersStr);
+      if (filtersError) {
+        return res.status(400).json(filtersError);
+      }
+
+      const { location, error: locationError } = parseResourceLocation({ near, radiusKm, bbox });
+      if (locationError) {
+        return res.status(400).json(locationError);
+      }
+      
+      res.json(await queryResources({ type, q, filters, location, sort, cursor, limit }));
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Resources API error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Per-value counts for the filter panel, under the same type/q/filters as /api/resources
+  app.get("/api/resources/facets", async (req, res) => {
+    try {
+      const queryResult = ResourceFacetsQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid query parameters", 
+          errors: queryResult.error.errors 
+        });
+      }
+
+      const { type, q, filters: filtersStr, near, radiusKm, bbox } = queryResult.data;
+
+      const { filters, error: filtersError } = parseResourceFilters(filtersStr);
+      if (filtersError) {
+        return res.status(400).json(filtersError);
+      }
+
+      const { location, error: locationError } = parseResourceLocation({ near, radiusKm, bbox });
+      if (locationError) {
+        return res.status(400).json(locationError);
+      }
+
+      res.json(await getResourceFacets({ type, q, filters, location }));
+    } catch (error) {
+      console.error("Resource facets error:", error);
+      res.status(500).json({ message: "Failed to fetch resource facets" });
+    }
+  });
+
+  // Export the full filtered result set, not just the loaded page
+  app.get("/api/resources/export", authenticate, resourceExportRateLimit, async (req: AuthRequest, res) => {
+    try {
+      const queryResult = ResourceExportQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({
+          message: "Invalid query parameters",
+          errors: queryResult.error.errors
+        });
+      }
+
+      const { type, q, sort, format, filters: filtersStr, near, radiusKm, bbox } = queryResult.data;
+
+      const { filters, error: filtersError } = parseResourceFilters(filtersStr);
+      if (filtersError) {
+        return res.status(400).json(filtersError);
+      }
+
+      const { location, error: locationError } = parseResourceLocation({ near, radiusKm, bbox });
+      if (locationError) {
+        return res.status(400).json(locationError);
+      }
+
+      const input = { type, q, filters, location, sort };
+      const columns = getResourceExportColumns(type);
+      const date = new Date().toISOString().split("T")[0];
+      const batchSize = 500;
+
+      const setDownloadHeaders = () => {
+        res.setHeader("Content-Type", RESOURCE_EXPORT_CONTENT_TYPES[format]);
+        res.setHeader("Content-Disposition", `attachment; filename="${type || "resources"}-${date}.${format}"`);
+      };
+
+      // Headers wait until the workbook is built, so a failure can still return a 500
+      if (format === "xlsx") {
+        const rows: ExportedResource[] = [];
+        for (let offset = 0; ; offset += batchSize) {
+          const items = await listResourcesForExport(input, { offset, limit: batchSize });
+          rows.push(...items);
+          if (items.length < batchSize) break;
+        }
+        const workbook = buildResourceWorkbook(rows, columns);
+        setDownloadHeaders();
+        return res.send(workbook);
+      }
+
+      setDownloadHeaders();
+      res.write(format === "json" ? "[" : `${formatResourceCsvHeader(columns)}\n`);
+
+      let written = 0;
+      for (let offset = 0; ; offset += batchSize) {
+        const items = await listResourcesForExport(input, { offset, limit: batchSize });
+        for (const resource of items) {
+          res.write(format === "json"
+            ? `${written > 0 ? "," : ""}${JSON.stringify(toResourceExportObject(resource, columns))}`
+            : `${formatResourceCsvRow(resource, columns)}\n`);
+          written++;
+        }
+        if (items.length < batchSize) break;
+      }
+
+      res.end(format === "json" ? "]" : "");
+    } catch (error) {
+      console.error("Export resources error:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: "Failed to export resources" });
+      }
+    }
+  });
+
+  // Admin resource counts endpoint
+  app.get("/api/admin/resources/counts", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req, res) => {
+    try {
+      const counts = await Promise.all(
+        RESOURCE_TYPES.map(async (type) => {
+          const result = await db.execute(sql`SELECT COUNT(*) as count FROM resources WHERE type = ${type}`);
+          const count = parseInt((result.rows[0]?.count || '0') as string);
+          return { type, total: count };
+        })
+      );
+
+      res.json(counts);
+    } catch (error) {
+      console.error("Resource counts error:", error);
+      res.status(500).json({ message: "Failed to fetch resource counts" });
+    }
+  });
+  
+  // Legacy resources route for backward compatibility
+  app.get("/api/resources/legacy", async (req, res) => {
+    try {
+      // Use simplified Resource Library format
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : 24;
+      const sort = req.query.sort as string;
+      const q = req.query.q as string;
+      
+      // Collect all filter values as tags for simplified filtering
+      const tags: string[] = [];
+      const filterFields = ['type', 'topics', 'crop', 'system_type', 'region', 'audience', 'cost', 'status', 'eligibility_geo', 'format'];
+      for (const field of filterFields) {
+        const values = req.query[field];
+        if (values) {
+          if (Array.isArray(values)) {
+            tags.push(...(values as string[]));
+          } else {
+            tags.push(values as string);
+          }
+        }
+      }
+        
+      const result = await storage.listResources({
+        page,
+        pageSize,
+        sort,
+        q,
+        tags
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Resources error:", error);
+      res.status(500).json({ message: "Failed to fetch resources" });
+    }
+  });
+
+  app.get("/api/resources/:id", async (req, res) => {
+    try {
+      const resource = await storage.getResourceById(req.params.id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json(resource);
+    } catch (error) {
+      console.error("Get resource error:", error);
+      res.status(500).json({ message: "Failed to fetch resource" });
+    }
+  });
+
+
+  // Add feedback endpoint for resource update requests and suggestions
+  app.post("/api/feedback", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { type, resource_id, message, title, resourceType, url, note } = req.body;
+      
+      // Save feedback to database
+      const feedbackId = randomUUID();
+      const feedback = {
+        id: feedbackId,
+        user_id: req.user!.id,
+        type,
+        title,
+        resource_id,
+        resource_type: resourceType,
+        url,
+        note: note || message,
+        status: 'pending'
+      };
+      
+      await db.execute(sql`
+        INSERT INTO feedback (id, user_id, type, title, resource_id, resource_type, url, note, status)
+        VALUES (${feedbackId}, ${req.user!.id}, ${type}, ${title || ''}, ${resource_id || ''}, ${resourceType || ''}, ${url || ''}, ${note || message || ''}, 'pending')
+      `);
+      
+      console.log(`${type} received from user ${req.user!.username}:`, feedback);
+      
+      res.json({ 
+        message: "Feedback received successfully",
+        id: feedbackId
+      });
+    } catch (error) {
+      console.error("Feedback error:", error);
+      res.status(500).json({ message: "Failed to submit feedback" });
+    }
+  });
+
+  // Farm (organization) routes
+  app.get("/api/farm", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const membership = await storage.getFarmMembership(req.user!.id);
+      if (!membership) {
+        return res.json({ farm: null });
+      }
+
+      const members = await storage.listFarmMembers(membership.farmId);
+      const canManage = hasFarmRole(membership.role, FarmRole.MANAGER);
+      const invitations = canManage ? await storage.listPendingFarmInvitations(membership.farmId) : [];
+
+      res.json({
+        farm: membership.farm,
+        role: membership.role,
+        members,
+        invitations: invitations.map(({ codeHash, ...invitation }) => invitation),
+      });
+    } catch (error) {
+      console.error("Get farm error:", error);
+      res.status(500).json({ message: "Failed to fetch farm" });
+    }
+  });
+
+  app.post("/api/farm", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const existingMembership = await storage.getFarmMembership(req.user!.id);
+      if (existingMembership) {
+        return res.status(409).json({ message: "You already belong to a farm" });
+      }
+
+      const farmData = insertFarmSchema.parse(req.body);
+      const farm = await storage.createFarm(farmData, req.user!.id);
+
+      res.status(201).json(farm);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid farm details", errors: error.errors });
+      }
+      console.error("Create farm error:", error);
+      res.status(500).json({ message: "Failed to create farm" });
+    }
+  });
+
+  app.put("/api/farm", authenticate, requireMember, requireFarmRole(FarmRole.MANAGER), async (req: FarmRequest, res) => {
+    try {
+      const updates = insertFarmSchema.partial().parse(req.body);
+      const farm = await storage.updateFarm(req.farmMembership!.farmId, updates);
+      res.json(farm);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid farm details", errors: error.errors });
+      }
+      console.error("Update farm error:", error);
+      res.status(500).json({ message: "Failed to update farm" });
+    }
+  });
+
+  app.delete("/api/farm", authenticate, requireMember, requireFarmRole(FarmRole.OWNER), async (req: FarmRequest, res) => {
+    try {
+      await storage.deleteFarm(req.farmMembership!.farmId);
+      res.json({ message: "Farm deleted successfully" });
+    } catch (error) {
+      console.error("Delete farm error:", error);
+      res.status(500).json({ message: "Failed to delete farm" });
+    }
+  });
+
+  app.post("/api/farm/invitations", authenticate, requireMember, requireFarmRole(FarmRole.MANAGER), async (req: FarmRequest, res) => {
+    try {
+      const { email, role = FarmRole.STAFF } = req.body;
+      const membership = req.farmMembership!;
+
+      if (!email || typeof email !== "string" || !z.string().email().safeParse(email).success) {
+        return res.status(400).json({ message: "A valid email address is required" });
+      }
+
+      if (![FarmRole.MANAGER, FarmRole.STAFF].includes(role)) {
+        return res.status(400).json({ message: "Invitations can be for managers or staff" });
+      }
+
+      // Managers can only bring in staff
+      if (role === FarmRole.MANAGER && membership.role !== FarmRole.OWNER) {
+        return res.status(403).json({ message: "Only farm owners can invite managers" });
+      }
+
+      const inviteCode = generateInviteCode();
+      const invitation = await storage.createFarmInvitation({
+        farmId: membership.farmId,
+        email: email.trim().toLowerCase(),
+        role,
+        codeHash: hashInviteCode(inviteCode),
+        invitedBy: req.user!.id,
+        expiresAt: new Date(Date.now() + FARM_INVITATION_TTL_MS),
+      });
+
+      const inviterProfile = await storage.getProfile(req.user!.id);
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const emailSent = await sendUserEmail({
+        to: invitation.email,
+        ...formatFarmInvitationEmail({
+          farmName: membership.farm.name,
+          inviterName: inviterProfile?.name || req.user!.username,
+          role,
+          inviteCode,
+          registerUrl: `${baseUrl}/register?invite=${encodeURIComponent(inviteCode)}`,
+          joinUrl: `${baseUrl}/dashboard/farm?invite=${encodeURIComponent(inviteCode)}`,
+        }),
+      });
+
+      const { codeHash, ...invitationData } = invitation;
+      // The code is returned once so it can also be shared directly
+      res.status(201).json({ ...invitationData, inviteCode, emailSent });
+    } catch (error) {
+      console.error("Create farm invitation error:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  app.delete("/api/farm/invitations/:id", authenticate, requireMember, requireFarmRole(FarmRole.MANAGER), async (req: FarmRequest, res) => {
+    try {
+      const revoked = await storage.revokeFarmInvitation(req.farmMembership!.farmId, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      res.json({ message: "Invitation revoked" });
+    } catch (error) {
+      console.error("Revoke farm invitation error:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
+  // Public preview so the registration form can confirm an invite code
+  app.get("/api/farm/invitations/:code", farmInviteRateLimit, async (req, res) => {
+    try {
+      const invitation = await findPendingInvitation(req.params.code);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invalid or expired invite code" });
+      }
+
+      res.json({
+        farmName: invitation.farm.name,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error) {
+      console.error("Farm invitation lookup error:", error);
+      res.status(500).json({ message: "Failed to look up invitation" });
+    }
+  });
+
+  app.post("/api/farm/join", farmInviteRateLimit, authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const existingMembership = await storage.getFarmMembership(req.user!.id);
+      if (existingMembership) {
+        return res.status(409).json({ message: "You already belong to a farm. Leave it before joining another." });
+      }
+
+      const invitation = await findPendingInvitation(req.body.code);
+      if (!invitation) {
+        return res.status(400).json({ message: "Invalid or expired invite code" });
+      }
+      if (!isInvitationFor(invitation, req.user!.email)) {
+        return res.status(403).json({ message: "This invitation was sent to a different email address" });
+      }
+
+      await storage.acceptFarmInvitation(invitation, req.user!.id);
+
+      res.json({ message: `You've joined ${invitation.farm.name}`, farmId: invitation.farmId });
+    } catch (error) {
+      if (error instanceof FarmInvitationUnavailableError) {
+        return res.status(400).json({ message: "Invalid or expired invite code" });
+      }
+      console.error("Join farm error:", error);
+      res.status(500).json({ message: "Failed to join farm" });
+    }
+  });
+
+  app.patch("/api/farm/members/:userId", authenticate, requireMember, requireFarmRole(FarmRole.OWNER), async (req: FarmRequest, res) => {
+    try {
+      const { role } = req.body;
+      const farmId = req.farmMembership!.farmId;
+
+      if (!Object.values(FarmRole).includes(role)) {
+        return res.status(400).json({ message: "Invalid farm role" });
+      }
+
+      const members = await storage.listFarmMembers(farmId);
+      const target = members.find(member => member.userId === req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      // Every farm keeps at least one owner
+      const owners = members.filter(member => member.role === FarmRole.OWNER);
+      if (target.role === FarmRole.OWNER && role !== FarmRole.OWNER && owners.length === 1) {
+        return res.status(400).json({ message: "Make another member an owner first" });
+      }
+
+      const membership = await storage.updateFarmMemberRole(farmId, target.userId, role);
+      res.json(membership);
+    } catch (error) {
+      console.error("Update farm member error:", error);
+      res.status(500).json({ message: "Failed to update member role" });
+    }
+  });
+
+  app.delete("/api/farm/members/:userId", authenticate, requireMember, requireFarmRole(FarmRole.STAFF), async (req: FarmRequest, res) => {
+    try {
+      const membership = req.farmMembership!;
+      const isSelf = req.params.userId === req.user!.id;
+
+      const members = await storage.listFarmMembers(membership.farmId);
+      const target = members.find(member => member.userId === req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      // Anyone may leave; managers can remove staff, owners can remove anyone
+      const canRemove = isSelf ||
+        membership.role === FarmRole.OWNER ||
+        (membership.role === FarmRole.MANAGER && target.role === FarmRole.STAFF);
+      if (!canRemove) {
+        return res.status(403).json({ message: "Insufficient farm permissions" });
+      }
+
+      const owners = members.filter(member => member.role === FarmRole.OWNER);
+      if (target.role === FarmRole.OWNER && owners.length === 1) {
+        return res.status(400).json({
+          message: members.length === 1
+            ? "You're the only member; delete the farm instead"
+            : "Make another member an owner before leaving",
+        });
+      }
+
+      await storage.removeFarmMember(membership.farmId, target.userId);
+
+      res.json({ message: isSelf ? "You've left the farm" : "Member removed" });
+    } catch (error) {
+      console.error("Remove farm member error:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Favorites routes (member-only)
+  app.post("/api/favorites/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const farmId = await getUserFarmId(req.user!.id);
+      await storage.toggleFavorite(req.user!.id, req.params.id, true, farmId);
+      res.json({ message: "Resource added to favorites" });
+    } catch (error) {
+      console.error("Add favorite error:", error);
+      res.status(500).json({ message: "Failed to add favorite" });
+    }
+  });
+
+  app.delete("/api/favorites/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const farmId = await getUserFarmId(req.user!.id);
+      await storage.toggleFavorite(req.user!.id, req.params.id, false, farmId);
+      res.json({ message: "Resource removed from favorites" });
+    } catch (error) {
+      console.error("Remove favorite error:", error);
+      res.status(500).json({ message: "Failed to remove favorite" });
+    }
+  });
+
+  // Resource ratings and reviews: anyone can read the published ones, members
+  // rate a resource once and can change or withdraw their rating
+  const resourceRatingSchema = z.object({
+    rating: z.number().int().min(1).max(5),
+    review: z.string().trim().max(5000).nullish(),
+  });
+
+  app.get("/api/resources/:id/ratings", async (req, res) => {
+    try {
+      const resource = await storage.getResourceById(req.params.id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json(await storage.getResourceRatingSummary(resource.id));
+    } catch (error) {
+      console.error("Get resource ratings error:", error);
+      res.status(500).json({ message: "Failed to fetch ratings" });
+    }
+  });
+
+  app.get("/api/resources/:id/rating", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      res.json((await storage.getUserResourceRating(req.params.id, req.user!.id)) ?? null);
+    } catch (error) {
+      console.error("Get own resource rating error:", error);
+      res.status(500).json({ message: "Failed to fetch your rating" });
+    }
+  });
+
+  app.put("/api/resources/:id/rating", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { rating, review } = resourceRatingSchema.parse(req.body);
+      const resource = await storage.getResourceById(req.params.id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json(await storage.saveResourceRating(resource.id, req.user!.id, { rating, review: review || null }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rating", errors: error.errors });
+      }
+      console.error("Save resource rating error:", error);
+      res.status(500).json({ message: "Failed to save rating" });
+    }
+  });
+
+  app.delete("/api/resources/:id/rating", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      if (!(await storage.deleteUserResourceRating(req.params.id, req.user!.id))) {
+        return res.status(404).json({ message: "Rating not found" });
+      }
+      res.json({ message: "Rating removed" });
+    } catch (error) {
+      console.error("Delete resource rating error:", error);
+      res.status(500).json({ message: "Failed to remove rating" });
+    }
+  });
+
+  // Resource collections: members' own ordered lists of resources with notes,
+  // shared by link or with named members, and copied by anyone who can see them
+  app.get("/api/collections", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const [owned, shared] = await Promise.all([
+        storage.listUserResourceCollections(req.user!.id),
+        storage.listSharedResourceCollections(req.user!.id),
+      ]);
+      res.json({ owned, shared: shared.map(collection => collectionForViewer(collection, "shared")) });
+    } catch (error) {
+      console.error("List collections error:", error);
+      res.status(500).json({ message: "Failed to fetch collections" });
+    }
+  });
+
+  app.post("/api/collections", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { title, description, visibility } = ResourceCollectionInputSchema.parse(req.body);
+      const collection = await storage.createResourceCollection(req.user!.id, { title, description: description || null, visibility });
+      res.status(201).json(collection);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid collection", errors: error.errors });
+      }
+      console.error("Create collection error:", error);
+      res.status(500).json({ message: "Failed to create collection" });
+    }
+  });
+
+  app.get("/api/collections/featured", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const featured = await storage.listFeaturedResourceCollections();
+      res.json(featured.map(collection => collectionForViewer(collection, "viewer")));
+    } catch (error) {
+      console.error("List featured collections error:", error);
+      res.status(500).json({ message: "Failed to fetch featured collections" });
+    }
+  });
+
+  // Share links work without an account, so growers outside UGGA can use them
+  app.get("/api/collections/shared/:token", async (req, res) => {
+    try {
+      const collection = await storage.getResourceCollectionByShareToken(req.params.token);
+      if (!collection || collection.visibility === "private") {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      res.json({
+        collection: collectionForViewer(collection, "viewer"),
+        access: "viewer",
+        items: await storage.getResourceCollectionItems(collection.id),
+      });
+    } catch (error) {
+      console.error("Get shared collection error:", error);
+      res.status(500).json({ message: "Failed to fetch collection" });
+    }
+  });
+
+  app.get("/api/collections/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const loaded = await loadResourceCollection(req, res);
+      if (!loaded) return;
+
+      const { collection, access } = loaded;
+      const [items, shares] = await Promise.all([
+        storage.getResourceCollectionItems(collection.id),
+        access === "owner" ? storage.listResourceCollectionShares(collection.id) : Promise.resolve(undefined),
+      ]);
+      res.json({ collection: collectionForViewer(collection, access), access, items, shares });
+    } catch (error) {
+      console.error("Get collection error:", error);
+      res.status(500).json({ message: "Failed to fetch collection" });
+    }
+  });
+
+  app.put("/api/collections/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const updates = ResourceCollectionUpdateSchema.parse(req.body);
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      res.json(await storage.updateResourceCollection(collection.id, {
+        ...updates,
+        ...(updates.description !== undefined ? { description: updates.description || null } : {}),
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid collection", errors: error.errors });
+      }
+      console.error("Update collection error:", error);
+      res.status(500).json({ message: "Failed to update collection" });
+    }
+  });
+
+  app.delete("/api/collections/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      await storage.deleteResourceCollection(collection.id);
+      res.json({ message: "Collection deleted" });
+    } catch (error) {
+      console.error("Delete collection error:", error);
+      res.status(500).json({ message: "Failed to delete collection" });
+    }
+  });
+
+  // Visitors from a share link pass its token along to prove they've seen it
+  app.post("/api/collections/:id/copy", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { token } = z.object({ token: z.string().optional() }).parse(req.body ?? {});
+      const loaded = await loadResourceCollection(req, res, token);
+      if (!loaded) return;
+
+      const copy = await storage.copyResourceCollection(loaded.collection.id, req.user!.id);
+      res.status(201).json(copy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      console.error("Copy collection error:", error);
+      res.status(500).json({ message: "Failed to copy collection" });
+    }
+  });
+
+  app.post("/api/collections/:id/share-link", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      res.json(await storage.resetResourceCollectionShareToken(collection.id));
+    } catch (error) {
+      console.error("Reset collection share link error:", error);
+      res.status(500).json({ message: "Failed to reset share link" });
+    }
+  });
+
+  app.post("/api/collections/:id/items", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { resourceId, note } = ResourceCollectionItemInputSchema.parse(req.body);
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      if (!(await storage.getResourceById(resourceId))) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      const items = await storage.getResourceCollectionItems(collection.id);
+      if (items.length >= MAX_COLLECTION_ITEMS) {
+        return res.status(409).json({ message: `Collections can hold up to ${MAX_COLLECTION_ITEMS} resources` });
+      }
+
+      const item = await storage.addResourceCollectionItem(collection.id, resourceId, note || null);
+      if (!item) {
+        return res.status(409).json({ message: "This resource is already in the collection" });
+      }
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid collection item", errors: error.errors });
+      }
+      console.error("Add collection item error:", error);
+      res.status(500).json({ message: "Failed to add resource to collection" });
+    }
+  });
+
+  app.put("/api/collections/:id/items/order", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { resourceIds } = ResourceCollectionOrderSchema.parse(req.body);
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      await storage.reorderResourceCollectionItems(collection.id, resourceIds);
+      res.json(await storage.getResourceCollectionItems(collection.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order", errors: error.errors });
+      }
+      console.error("Reorder collection items error:", error);
+      res.status(500).json({ message: "Failed to reorder collection" });
+    }
+  });
+
+  app.put("/api/collections/:id/items/:resourceId", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { note } = ResourceCollectionItemNoteSchema.parse(req.body);
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      const item = await storage.updateResourceCollectionItem(collection.id, req.params.resourceId, note || null);
+      if (!item) {
+        return res.status(404).json({ message: "Resource is not in this collection" });
+      }
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid note", errors: error.errors });
+      }
+      console.error("Update collection item error:", error);
+      res.status(500).json({ message: "Failed to update note" });
+    }
+  });
+
+  app.delete("/api/collections/:id/items/:resourceId", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      if (!(await storage.removeResourceCollectionItem(collection.id, req.params.resourceId))) {
+        return res.status(404).json({ message: "Resource is not in this collection" });
+      }
+      res.json({ message: "Resource removed from collection" });
+    } catch (error) {
+      console.error("Remove collection item error:", error);
+      res.status(500).json({ message: "Failed to remove resource from collection" });
+    }
+  });
+
+  app.post("/api/collections/:id/shares", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const { member } = ResourceCollectionShareSchema.parse(req.body);
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      const user = await storage.getUserByEmail(member) || await storage.getUserByUsername(member);
+      if (!user || !MEMBER_ROLES.includes(user.role)) {
+        return res.status(404).json({ message: "No member found with that username or email" });
+      }
+      if (user.id === collection.ownerId) {
+        return res.status(400).json({ message: "You already own this collection" });
+      }
+
+      await storage.shareResourceCollection(collection.id, user.id);
+      res.status(201).json(await storage.listResourceCollectionShares(collection.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member", errors: error.errors });
+      }
+      console.error("Share collection error:", error);
+      res.status(500).json({ message: "Failed to share collection" });
+    }
+  });
+
+  app.delete("/api/collections/:id/shares/:userId", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const collection = await loadOwnResourceCollection(req, res);
+      if (!collection) return;
+
+      if (!(await storage.unshareResourceCollection(collection.id, req.params.userId))) {
+        return res.status(404).json({ message: "The collection isn't shared with this member" });
+      }
+      res.json(await storage.listResourceCollectionShares(collection.id));
+    } catch (error) {
+      console.error("Unshare collection error:", error);
+      res.status(500).json({ message: "Failed to stop sharing collection" });
+    }
+  });
+
+  // Saved resource searches with new-match counts and optional email digests
+  app.get("/api/saved-searches", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const searches = await storage.listSavedSearches(req.user!.id);
+      res.json(searches.map(savedSearchForOwner));
+    } catch (error) {
+      console.error("List saved searches error:", error);
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  app.post("/api/saved-searches", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const input = SavedSearchInputSchema.parse(req.body);
+      if (await storage.countSavedSearches(req.user!.id) >= MAX_SAVED_SEARCHES) {
+        return res.status(409).json({ message: `You can keep up to ${MAX_SAVED_SEARCHES} saved searches` });
+      }
+
+      const search = await storage.createSavedSearch(req.user!.id, {
+        ...input,
+        type: input.type ?? null,
+        q: input.q || null,
+      });
+      res.status(201).json(savedSearchForOwner(search));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+      }
+      console.error("Create saved search error:", error);
+      res.status(500).json({ message: "Failed to save search" });
+    }
+  });
+
+  // One-click unsubscribe from a digest email; the token is the credential
+  app.post("/api/saved-searches/unsubscribe/:token", async (req, res) => {
+    try {
+      const search = await storage.getSavedSearchByUnsubscribeToken(req.params.token);
+      if (!search) {
+        return res.status(404).json({ message: "This unsubscribe link is no longer valid" });
+      }
+      await storage.updateSavedSearch(search.id, { digestFrequency: "none" });
+      res.json({ name: search.name });
+    } catch (error) {
+      console.error("Saved search unsubscribe error:", error);
+      res.status(500).json({ message: "Failed to unsubscribe" });
+    }
+  });
+
+  app.put("/api/saved-searches/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const updates = SavedSearchUpdateSchema.parse(req.body);
+      const search = await loadOwnSavedSearch(req, res);
+      if (!search) return;
+
+      const updated = await storage.updateSavedSearch(search.id, updates);
+      res.json(savedSearchForOwner(updated!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+      }
+      console.error("Update saved search error:", error);
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const search = await loadOwnSavedSearch(req, res);
+      if (!search) return;
+
+      await storage.deleteSavedSearch(search.id);
+      res.json({ message: "Saved search deleted" });
+    } catch (error) {
+      console.error("Delete saved search error:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
+  // Resources added or edited since the member last opened the results
+  app.get("/api/saved-searches/:id/new-matches", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const search = await loadOwnSavedSearch(req, res);
+      if (!search) return;
+
+      res.json(await listResourcesChangedSince(savedSearchQuery(search), search.lastSeenAt, 50));
+    } catch (error) {
+      console.error("Saved search new matches error:", error);
+      res.status(500).json({ message: "Failed to fetch new matches" });
+    }
+  });
+
+  app.post("/api/saved-searches/:id/seen", authenticate, requireMember, async (req: AuthRequest, res) => {
+    try {
+      const search = await loadOwnSavedSearch(req, res);
+      if (!search) return;
+
+      const updated = await storage.markSavedSearchSeen(search.id);
+      res.json(savedSearchForOwner(updated!));
+    } catch (error) {
+      console.error("Mark saved search seen error:", error);
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  // Admin-only resource management endpoints
+  app.post("/api/admin/resources", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const data = parseResourceData(req.body.type, req.body.data);
+      const resource = await storage.createResource({ ...req.body, data }, req.user!.id);
+      setAuditContext(res, { entityType: "resource", entityId: resource.id });
+      res.json(resource);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid resource data", errors: error.errors });
+      }
+      console.error("Create resource error:", error);
+      res.status(500).json({ message: "Failed to create resource" });
+    }
+  });
+
+  app.put("/api/admin/resources/:id", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const updates = await withCheckedResourceData(req.params.id, req.body);
+      if (!updates) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      await captureAuditBefore(res, "resource", req.params.id);
+      const resource = await storage.updateResource(req.params.id, updates, req.user!.id);
+      res.json(resource);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid resource data", errors: error.errors });
+      }
+      console.error("Update resource error:", error);
+      res.status(500).json({ message: "Failed to update resource" });
+    }
+  });
+
+  app.delete("/api/admin/resources/:id", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      await captureAuditBefore(res, "resource", req.params.id);
+      await storage.deleteResource(req.params.id);
+      res.json({ message: "Resource deleted successfully" });
+    } catch (error) {
+      console.error("Delete resource error:", error);
+      res.status(500).json({ message: "Failed to delete resource" });
+    }
+  });
+
+  // Resource import (CSV/XLSX). The file is uploaded again for each step so
+  // nothing is kept on the server between preview and commit.
+  const resourceImportSchema = z.object({
+    type: z.enum(RESOURCE_TYPES),
+    mapping: z.record(z.string()), // Resource field -> spreadsheet column header
+    matchBy: z.enum(["url", "externalId", "none"]).default("url"),
+  });
+
+  app.post("/api/admin/resources/import/columns", authenticate, requirePermission(Permission.RESOURCES_EDIT), importUpload.single("file"), async (req: AuthRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const file = parseImportFile(req.file);
+      res.json({ columns: describeImportColumns(file), rowCount: file.rows.length });
+    } catch (error) {
+      if (error instanceof ResourceImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Import columns error:", error);
+      res.status(500).json({ message: "Failed to read import file" });
+    }
+  });
+
+  app.post("/api/admin/resources/import", authenticate, requirePermission(Permission.RESOURCES_EDIT), importUpload.single("file"), async (req: AuthRequest, res) => {
+    try {
+      const isDryRun = req.query.dryRun === '1';
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      let mapping: unknown;
+      try {
+        mapping = JSON.parse(req.body.mapping || "{}");
+      } catch {
+        return res.status(400).json({ message: "Invalid JSON in mapping" });
+      }
+
+      const parsed = resourceImportSchema.safeParse({ ...req.body, mapping });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid import options", errors: parsed.error.errors });
+      }
+
+      const { type, matchBy } = parsed.data;
+      const file = parseImportFile(req.file);
+      const plan = await planResourceImport({ ...parsed.data, rows: file.rows });
+
+      if (isDryRun) {
+        setAuditContext(res, {
+          action: "resource.import_preview",
+          entityType: "resource",
+          metadata: { dryRun: true, fileName: req.file.originalname, summary: plan.summary },
+        });
+        return res.json(plan);
+      }
+
+      if (plan.summary.valid === 0) {
+        return res.status(400).json({ message: "No valid rows to import", ...plan });
+      }
+
+      const batch = await storage.commitResourceImport(
+        {
+          resourceType: type,
+          fileName: req.file.originalname,
+          matchBy,
+          createdCount: plan.summary.create,
+          updatedCount: plan.summary.update,
+          skippedCount: plan.summary.invalid,
+          createdBy: req.user!.id,
+        },
+        plan.rows.filter(row => row.valid).map(toResourceImportWrite)
+      );
+
+      setAuditContext(res, {
+        action: "resource.import",
+        entityType: "resource_import_batch",
+        entityId: batch.id,
+        metadata: { fileName: batch.fileName, summary: plan.summary },
+      });
+      res.json({ batch, ...plan });
+    } catch (error) {
+      if (error instanceof ResourceImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Resource import error:", error);
+      res.status(500).json({ message: "Failed to process resource import" });
+    }
+  });
+
+  app.get("/api/admin/resources/import/batches", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.listResourceImportBatches());
+    } catch (error) {
+      console.error("List import batches error:", error);
+      res.status(500).json({ message: "Failed to fetch import history" });
+    }
+  });
+
+  app.post("/api/admin/resources/import/batches/:id/rollback", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const batch = await storage.getResourceImportBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Import batch not found" });
+      }
+      if (batch.status !== "committed") {
+        return res.status(409).json({ message: "This import has already been rolled back" });
+      }
+
+      await captureAuditBefore(res, "resource_import_batch", batch.id, "resource.import_rollback");
+      res.json(await storage.rollbackResourceImport(batch.id, req.user!.id));
+    } catch (error) {
+      console.error("Rollback import error:", error);
+      res.status(500).json({ message: "Failed to roll back import" });
+    }
+  });
+
+  // Stored resources whose data doesn't match the schema for their type
+  app.get("/api/admin/resources/data-report", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      res.json(await buildResourceDataReport());
+    } catch (error) {
+      console.error("Resource data report error:", error);
+      res.status(500).json({ message: "Failed to build resource data report" });
+    }
+  });
+
+  // Editorial review queue: resources with broken links or past their review interval
+  app.get("/api/admin/resources/review-queue", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const type = typeof req.query.type === "string" ? req.query.type : undefined;
+      res.json(await storage.getResourceReviewQueue({ type }));
+    } catch (error) {
+      console.error("Review queue error:", error);
+      res.status(500).json({ message: "Failed to fetch review queue" });
+    }
+  });
+
+  // Score breakdown for the admin resource form
+  app.get("/api/admin/resources/:id/quality", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const quality = await storage.getResourceQuality(req.params.id);
+      if (!quality) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json(quality);
+    } catch (error) {
+      console.error("Resource quality error:", error);
+      res.status(500).json({ message: "Failed to fetch resource quality" });
+    }
+  });
+
+  app.post("/api/admin/resources/:id/quality", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const scored = await storage.refreshResourceQualityScores([req.params.id]);
+      if (scored === 0) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json(await storage.getResourceQuality(req.params.id));
+    } catch (error) {
+      console.error("Resource quality error:", error);
+      res.status(500).json({ message: "Failed to recompute resource quality" });
+    }
+  });
+
+  app.get("/api/admin/resources/:id/link-checks", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.listResourceLinkChecks(req.params.id));
+    } catch (error) {
+      console.error("List link checks error:", error);
+      res.status(500).json({ message: "Failed to fetch link check history" });
+    }
+  });
+
+  app.post("/api/admin/resources/:id/check-link", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const resource = await storage.getResourceById(req.params.id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+
+      await captureAuditBefore(res, "resource", resource.id, "resource.link_check");
+      res.json(await checkResourceLink(resource));
+    } catch (error) {
+      console.error("Check link error:", error);
+      res.status(500).json({ message: "Failed to check link" });
+    }
+  });
+
+  // Resource revisions, newest first, each with its field-level changes from
+  // the revision before it
+  app.get("/api/admin/resources/:id/revisions", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const revisions = await storage.listResourceRevisions(req.params.id);
+      res.json(revisions.map((revision, index) => ({
+        ...revision,
+        changes: diffSnapshots(revisions[index + 1]?.snapshot ?? null, revision.snapshot),
+      })));
+    } catch (error) {
+      console.error("List resource revisions error:", error);
+      res.status(500).json({ message: "Failed to fetch revision history" });
+    }
+  });
+
+  app.post("/api/admin/resources/:id/revisions/:revisionId/restore", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const revision = await storage.getResourceRevision(req.params.id, req.params.revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      // Snapshots taken before a schema change must still match it
+      const [current] = await storage.listResourceData([req.params.id]);
+      if (!current) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      const data = parseResourceData(revision.snapshot.type ?? current.type, revision.snapshot.data ?? current.data);
+
+      await captureAuditBefore(res, "resource", req.params.id, "resource.restore_revision");
+      setAuditContext(res, { metadata: { revisionNumber: revision.revisionNumber } });
+      const resource = await storage.restoreResourceRevision(req.params.id, revision.id, req.user!.id, data);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json(resource);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "This revision's data no longer matches the resource's schema", errors: error.errors });
+      }
+      console.error("Restore resource revision error:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // Editorial verification workflow
+  const reviewChecklistSchema = z.record(z.boolean()).optional();
+  const reviewTransitionSchema = z.object({
+    to: z.enum(RESOURCE_VERIFICATION_STATUSES),
+    checklist: reviewChecklistSchema,
+    notes: z.string().max(2000).optional(),
+  });
+  const reviewNoteSchema = z.object({
+    notes: z.string().trim().min(1).max(2000),
+    checklist: reviewChecklistSchema,
+  });
+
+  app.get("/api/admin/resources/reviewers", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.listResourceReviewers());
+    } catch (error) {
+      console.error("List reviewers error:", error);
+      res.status(500).json({ message: "Failed to fetch reviewers" });
+    }
+  });
+
+  app.get("/api/admin/resources/:id/review", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const state = await storage.getResourceReviewState(req.params.id);
+      if (!state) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json({ ...state, events: await storage.listResourceReviewEvents(state.id) });
+    } catch (error) {
+      console.error("Get resource review error:", error);
+      res.status(500).json({ message: "Failed to fetch review history" });
+    }
+  });
+
+  app.post("/api/admin/resources/:id/review/transition", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const { to, checklist, notes } = reviewTransitionSchema.parse(req.body);
+      const state = await storage.getResourceReviewState(req.params.id);
+      if (!state) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+
+      const from = state.verification_status;
+      if (!RESOURCE_VERIFICATION_TRANSITIONS[from].includes(to)) {
+        return res.status(409).json({ message: `A ${from.replace("_", " ")} resource can't be moved to ${to.replace("_", " ")}` });
+      }
+      if (to === "verified" && !RESOURCE_REVIEW_CHECKLIST.every(item => checklist?.[item.id])) {
+        return res.status(400).json({ message: "Complete every checklist item before verifying" });
+      }
+
+      await captureAuditBefore(res, "resource", state.id, `resource.review_${to}`);
+      const updated = await storage.transitionResourceVerification(state.id, { from, to, actorId: req.user!.id, checklist, notes });
+      if (!updated) {
+        return res.status(409).json({ message: "The resource's review status changed; reload and try again" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review update", errors: error.errors });
+      }
+      console.error("Review transition error:", error);
+      res.status(500).json({ message: "Failed to update review status" });
+    }
+  });
+
+  app.put("/api/admin/resources/:id/review/reviewer", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const { reviewerId } = z.object({ reviewerId: z.string().nullable() }).parse(req.body);
+      if (reviewerId) {
+        const reviewers = await storage.listResourceReviewers();
+        if (!reviewers.some(reviewer => reviewer.id === reviewerId)) {
+          return res.status(400).json({ message: "Reviewers must be able to edit resources" });
+        }
+      }
+
+      await captureAuditBefore(res, "resource", req.params.id, "resource.assign_reviewer");
+      const state = await storage.assignResourceReviewer(req.params.id, reviewerId, req.user!.id);
+      if (!state) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      res.json(state);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reviewer", errors: error.errors });
+      }
+      console.error("Assign reviewer error:", error);
+      res.status(500).json({ message: "Failed to assign reviewer" });
+    }
+  });
+
+  app.post("/api/admin/resources/:id/review/notes", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
+    try {
+      const note = reviewNoteSchema.parse(req.body);
+      const state = await storage.getResourceReviewState(req.params.id);
+      if (!state) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+
+      const event = await storage.addResourceReviewNote(state.id, req.user!.id, note);
+      setAuditContext(res, { entityType: "resource", entityId: state.id, action: "resource.review_note" });
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review note", errors: error.errors });
+      }
+      console.error("Add review note error:", error);
+      res.status(500).json({ message: "Failed to add review note" });
+    }
+  });
+
+  // Member resource submissions, triaged by editors
+  app.post("/api/resource-submissions", authenticate, requireMember, requireVerifiedEmail, resourceSubmissionRateLimit, async (req: AuthRequest, res) => {
+    try {
+      const { type, fields, note } = ResourceSubmissionInputSchema.parse(req.body);
+      const { content, errors } = parseResourceSubmission(type, fields);
+      if (!content) {
+        return res.status(400).json({ message: errors[0], errors });
+      }
+
+      const existing = await storage.findResourceByUrl(content.url);
+      if (existing) {
+        return res.status(409).json({ message: "This resource is already in the library", resource: existing });
+      }
+      if (await storage.findPendingResourceSubmissionByUrl(content.url)) {
+        return res.status(409).json({ message: "This resource has already been suggested and is waiting for review" });
+      }
+
+      const submission = await storage.createResourceSubmission({
+        ...content,
+        userId: req.user!.id,
+        note: note?.trim() || null,
+      });
 
-      res.json(counts);
+      res.status(201).json(submission);
     } catch (error) {
-      console.error("Resource counts error:", error);
-      res.status(500).json({ message: "Failed to fetch resource counts" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid submission", errors: error.errors });
+      }
+      console.error("Create resource submission error:", error);
+      res.status(500).json({ message: "Failed to submit resource" });
     }
   });
-  
-  // Get resource by ID
-  app.get("/api/resources/:id", async (req, res) => {
+
+  app.get("/api/resource-submissions", authenticate, requireMember, async (req: AuthRequest, res) => {
     try {
-      const { id } = req.params;
-      
-      const result = await db.execute(
-        sql`SELECT * FROM resources WHERE id = ${id}`
-      );
-      
-      if (result.rows.length === 0) {
-        return res.status(404).json({ message: "Resource not found" });
-      }
-      
-      res.json(result.rows[0]);
-      
+      res.json(await storage.getUserResourceSubmissions(req.user!.id));
     } catch (error) {
-      console.error("Resource detail API error:", error);
-      res.status(500).json({ message: "Internal server error" });
+      console.error("Get resource submissions error:", error);
+      res.status(500).json({ message: "Failed to fetch resource submissions" });
     }
   });
-  
-  // Legacy resources route for backward compatibility
-  app.get("/api/resources/legacy", async (req, res) => {
+
+  app.get("/api/admin/resource-submissions", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      // Use simplified Resource Library format
-      const page = req.query.page ? parseInt(req.query.page as string) : 1;
-      const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : 24;
-      const sort = req.query.sort as string;
-      const q = req.query.q as string;
-      
-      // Collect all filter values as tags for simplified filtering
-      const tags: string[] = [];
-      const filterFields = ['type', 'topics', 'crop', 'system_type', 'region', 'audience', 'cost', 'status', 'eligibility_geo', 'format'];
-      for (const field of filterFields) {
-        const values = req.query[field];
-        if (values) {
-          if (Array.isArray(values)) {
-            tags.push(...(values as string[]));
-          } else {
-            tags.push(values as string);
-          }
-        }
-      }
-        
-      const result = await storage.listResources({
-        page,
-        pageSize,
-        sort,
-        q,
-        tags
-      });
-      res.json(result);
+      const { status, page, pageSize } = z.object({
+        status: z.enum(RESOURCE_SUBMISSION_STATUSES).optional(),
+        page: z.coerce.number().int().optional(),
+        pageSize: z.coerce.number().int().optional(),
+      }).parse(req.query);
+      res.json(await storage.listResourceSubmissions({ status, page, pageSize }));
     } catch (error) {
-      console.error("Resources error:", error);
-      res.status(500).json({ message: "Failed to fetch resources" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      console.error("List resource submissions error:", error);
+      res.status(500).json({ message: "Failed to fetch resource submissions" });
     }
   });
 
-  app.get("/api/resources/:id", async (req, res) => {
+  app.put("/api/admin/resource-submissions/:id", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      const resource = await storage.getResourceById(req.params.id);
-      if (!resource) {
-        return res.status(404).json({ message: "Resource not found" });
+      const { type, fields } = ResourceSubmissionContentSchema.parse(req.body);
+      const { content, errors } = parseResourceSubmission(type, fields);
+      if (!content) {
+        return res.status(400).json({ message: errors[0], errors });
       }
-      res.json(resource);
+
+      const existing = await storage.getResourceSubmission(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      await captureAuditBefore(res, "resource_submission", existing.id);
+      const submission = await storage.updateResourceSubmission(existing.id, content);
+      if (!submission) {
+        return res.status(409).json({ message: "Only pending submissions can be edited" });
+      }
+      res.json(submission);
     } catch (error) {
-      console.error("Get resource error:", error);
-      res.status(500).json({ message: "Failed to fetch resource" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid submission", errors: error.errors });
+      }
+      console.error("Update resource submission error:", error);
+      res.status(500).json({ message: "Failed to update resource submission" });
     }
   });
 
-
-  // Add feedback endpoint for resource update requests and suggestions
-  app.post("/api/feedback", authenticate, async (req: AuthRequest, res) => {
+  app.post("/api/admin/resource-submissions/:id/accept", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      const { type, resource_id, message, title, resourceType, url, note } = req.body;
-      
-      // Save feedback to database
-      const feedbackId = randomUUID();
-      const feedback = {
-        id: feedbackId,
-        user_id: req.user!.id,
-        type,
-        title,
-        resource_id,
-        resource_type: resourceType,
-        url,
-        note: note || message,
-        status: 'pending'
-      };
-      
-      await db.execute(sql`
-        INSERT INTO feedback (id, user_id, type, title, resource_id, resource_type, url, note, status)
-        VALUES (${feedbackId}, ${req.user!.id}, ${type}, ${title || ''}, ${resource_id || ''}, ${resourceType || ''}, ${url || ''}, ${note || message || ''}, 'pending')
-      `);
-      
-      console.log(`${type} received from user ${req.user!.username}:`, feedback);
-      
-      res.json({ 
-        message: "Feedback received successfully",
-        id: feedbackId
+      const { reviewNote } = ResourceSubmissionDecisionSchema.parse(req.body ?? {});
+      const existing = await storage.getResourceSubmission(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      // The same URL may have been added to the library since it was suggested
+      const duplicate = await storage.findResourceByUrl(existing.url);
+      if (duplicate) {
+        return res.status(409).json({ message: "A resource with this URL is already in the library", resource: duplicate });
+      }
+
+      await captureAuditBefore(res, "resource_submission", existing.id, "resource_submission.accept");
+      const accepted = await storage.acceptResourceSubmission(existing.id, req.user!.id, reviewNote?.trim() || undefined);
+      if (!accepted) {
+        return res.status(409).json({ message: "This submission has already been decided" });
+      }
+      setAuditContext(res, { metadata: { resourceId: accepted.resource.id } });
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const emailSent = !!existing.submitterEmail && await sendUserEmail({
+        to: existing.submitterEmail,
+        ...formatResourceSubmissionAcceptedEmail({
+          title: accepted.resource.title,
+          resourceUrl: `${baseUrl}/dashboard/resources/${accepted.resource.id}`,
+          reviewNote: accepted.submission.reviewNote,
+        }),
       });
+
+      res.json({ ...accepted, emailSent });
     } catch (error) {
-      console.error("Feedback error:", error);
-      res.status(500).json({ message: "Failed to submit feedback" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review note", errors: error.errors });
+      }
+      console.error("Accept resource submission error:", error);
+      res.status(500).json({ message: "Failed to accept resource submission" });
     }
   });
 
-  // Favorites routes (member-only)
-  app.post("/api/favorites/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+  app.post("/api/admin/resource-submissions/:id/reject", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      await storage.toggleFavorite(req.user!.id, req.params.id, true);
-      res.json({ message: "Resource added to favorites" });
+      const { reviewNote } = ResourceSubmissionDecisionSchema.parse(req.body ?? {});
+      const existing = await storage.getResourceSubmission(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      await captureAuditBefore(res, "resource_submission", existing.id, "resource_submission.reject");
+      const submission = await storage.rejectResourceSubmission(existing.id, req.user!.id, reviewNote?.trim() || undefined);
+      if (!submission) {
+        return res.status(409).json({ message: "This submission has already been decided" });
+      }
+
+      const emailSent = !!existing.submitterEmail && await sendUserEmail({
+        to: existing.submitterEmail,
+        ...formatResourceSubmissionRejectedEmail({ title: submission.title, reviewNote: submission.reviewNote }),
+      });
+
+      res.json({ submission, emailSent });
     } catch (error) {
-      console.error("Add favorite error:", error);
-      res.status(500).json({ message: "Failed to add favorite" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review note", errors: error.errors });
+      }
+      console.error("Reject resource submission error:", error);
+      res.status(500).json({ message: "Failed to reject resource submission" });
     }
   });
 
-  app.delete("/api/favorites/:id", authenticate, requireMember, async (req: AuthRequest, res) => {
+  // Moderation of member ratings and reviews
+  app.get("/api/admin/resource-ratings", authenticate, requirePermission(Permission.FORUM_MODERATE), async (req: AuthRequest, res) => {
     try {
-      await storage.toggleFavorite(req.user!.id, req.params.id, false);
-      res.json({ message: "Resource removed from favorites" });
+      const { status, page, pageSize } = z.object({
+        status: z.enum(RESOURCE_RATING_STATUSES).optional(),
+        page: z.coerce.number().int().optional(),
+        pageSize: z.coerce.number().int().optional(),
+      }).parse(req.query);
+      res.json(await storage.listResourceRatingsForModeration({ status, page, pageSize }));
     } catch (error) {
-      console.error("Remove favorite error:", error);
-      res.status(500).json({ message: "Failed to remove favorite" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      console.error("List resource ratings error:", error);
+      res.status(500).json({ message: "Failed to fetch ratings" });
     }
   });
 
-  // Admin-only resource management endpoints
-  app.post("/api/admin/resources", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.put("/api/admin/resource-ratings/:id", authenticate, requirePermission(Permission.FORUM_MODERATE), async (req: AuthRequest, res) => {
     try {
-      const resource = await storage.createResource(req.body);
-      res.json(resource);
+      const { status, moderationNote } = z.object({
+        status: z.enum(RESOURCE_RATING_STATUSES),
+        moderationNote: z.string().trim().max(2000).optional(),
+      }).parse(req.body);
+
+      const existing = await storage.getResourceRating(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rating not found" });
+      }
+
+      await captureAuditBefore(res, "resource_rating", existing.id, status === "hidden" ? "resource_rating.hide" : "resource_rating.publish");
+      const rating = await storage.moderateResourceRating(existing.id, req.user!.id, { status, moderationNote: moderationNote || undefined });
+      res.json(rating);
     } catch (error) {
-      console.error("Create resource error:", error);
-      res.status(500).json({ message: "Failed to create resource" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid moderation decision", errors: error.errors });
+      }
+      console.error("Moderate resource rating error:", error);
+      res.status(500).json({ message: "Failed to update rating" });
     }
   });
 
-  app.put("/api/admin/resources/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.delete("/api/admin/resource-ratings/:id", authenticate, requirePermission(Permission.FORUM_MODERATE), async (req: AuthRequest, res) => {
     try {
-      const resource = await storage.updateResource(req.params.id, req.body);
-      res.json(resource);
+      await captureAuditBefore(res, "resource_rating", req.params.id);
+      if (!(await storage.deleteResourceRating(req.params.id))) {
+        return res.status(404).json({ message: "Rating not found" });
+      }
+      res.json({ message: "Rating deleted" });
     } catch (error) {
-      console.error("Update resource error:", error);
-      res.status(500).json({ message: "Failed to update resource" });
+      console.error("Delete resource rating error:", error);
+      res.status(500).json({ message: "Failed to delete rating" });
     }
   });
 
-  app.delete("/api/admin/resources/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  // Featuring public member collections on the dashboard
+  app.get("/api/admin/resource-collections", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      await storage.deleteResource(req.params.id);
-      res.json({ message: "Resource deleted successfully" });
+      const { page, pageSize } = z.object({
+        page: z.coerce.number().int().optional(),
+        pageSize: z.coerce.number().int().optional(),
+      }).parse(req.query);
+      res.json(await storage.listPublicResourceCollections({ page, pageSize }));
     } catch (error) {
-      console.error("Delete resource error:", error);
-      res.status(500).json({ message: "Failed to delete resource" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      console.error("List public collections error:", error);
+      res.status(500).json({ message: "Failed to fetch collections" });
     }
   });
 
-  // CSV Import endpoint
-  app.post("/api/admin/resources/import", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.put("/api/admin/resource-collections/:id/featured", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      const isDryRun = req.query.dryRun === '1';
-      const result = await storage.importResourcesFromCSV(req, isDryRun);
-      res.json(result);
+      const { featured } = z.object({ featured: z.boolean() }).parse(req.body);
+      const existing = await storage.getResourceCollection(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      if (featured && existing.visibility !== "public") {
+        return res.status(409).json({ message: "Only public collections can be featured" });
+      }
+
+      await captureAuditBefore(res, "resource_collection", existing.id, featured ? "resource_collection.feature" : "resource_collection.unfeature");
+      res.json(await storage.setResourceCollectionFeatured(existing.id, featured, req.user!.id));
     } catch (error) {
-      console.error("CSV import error:", error);
-      res.status(500).json({ message: "Failed to process CSV import" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      console.error("Feature collection error:", error);
+      res.status(500).json({ message: "Failed to update collection" });
     }
   });
 
@@ -890,7 +2915,8 @@ If you didn't request this reset, you can safely ignore this email.
         pageSize: req.query.pageSize ? parseInt(req.query.pageSize as string) : 24,
       };
       
-      const result = await storage.listFavorites(req.user!.id, params);
+      const farmId = await getUserFarmId(req.user!.id);
+      const result = await storage.listFavorites(req.user!.id, params, farmId);
       res.json(result);
     } catch (error) {
       console.error("List favorites error:", error);
@@ -954,6 +2980,25 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
+  // Where "near me" resource searches start from: the member's county, or
+  // their state when the county can't be placed. Counties that aren't cached
+  // are only looked up when a geocoder is configured.
+  app.get("/api/profile/location", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const profile = await storage.getProfile(req.user!.id);
+      const location = profile
+        ? await resolveMemberLocation(profile)
+        : null;
+      if (!location) {
+        return res.status(404).json({ message: "Add a US state to your profile to search near you" });
+      }
+      res.json(location);
+    } catch (error) {
+      console.error("Profile location error:", error);
+      res.status(500).json({ message: "Failed to look up your location" });
+    }
+  });
+
   // Protected member routes
   app.put("/api/profile", authenticate, requireMember, async (req: AuthRequest, res) => {
     try {
@@ -997,6 +3042,9 @@ If you didn't request this reset, you can safely ignore this email.
       // Update password
       await storage.updateUser(req.user!.id, { passwordHash: newPasswordHash });
       
+      // Keep this device signed in, revoke every other session
+      await storage.revokeAllUserSessions(req.user!.id, req.user!.sessionId);
+      
       res.json({ message: "Password changed successfully" });
     } catch (error) {
       console.error("Change password error:", error);
@@ -1004,6 +3052,109 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
+  // Member data export and account deletion
+  app.get("/api/me/export", authenticate, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.getUserDataExport(req.user!.id);
+      if (!data) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const filename = `ugga-data-export-${new Date().toISOString().slice(0, 10)}.json`;
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error("Data export error:", error);
+      res.status(500).json({ message: "Failed to export your data" });
+    }
+  });
+
+  app.post("/api/me/delete-request", accountDeletionRateLimit, authenticate, async (req: AuthRequest, res) => {
+    try {
+      const { password } = req.body;
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const isPasswordValid = password ? await verifyPassword(password, user.passwordHash) : false;
+      if (!isPasswordValid) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+
+      const farmCheck = await checkFarmForAccountDeletion(user.id);
+      if (farmCheck.error) {
+        return res.status(409).json({ message: farmCheck.error });
+      }
+
+      // Bound to the current email, like verification links
+      const deletionToken = generateToken({
+        id: user.id,
+        email: user.email,
+        type: 'account-deletion'
+      }, '1h');
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      await sendUserEmail({
+        to: user.email,
+        ...formatAccountDeletionConfirmEmail({
+          confirmUrl: `${baseUrl}/delete-account?token=${deletionToken}`,
+          exportUrl: `${baseUrl}/api/me/export`,
+        }),
+      });
+
+      res.json({ message: "Check your email to confirm deleting your account" });
+    } catch (error) {
+      console.error("Account deletion request error:", error);
+      res.status(500).json({ message: "Failed to request account deletion" });
+    }
+  });
+
+  // Confirmed from the emailed link, which may be opened on another device
+  app.post("/api/me/delete", async (req, res) => {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({ message: "Confirmation token is required" });
+      }
+
+      const decoded = verifyToken(token);
+      if (!decoded || decoded.type !== 'account-deletion') {
+        return res.status(400).json({ message: "Invalid or expired confirmation link" });
+      }
+
+      const user = await storage.getUser(decoded.id);
+      if (!user || user.email !== decoded.email) {
+        return res.status(400).json({ message: "Invalid or expired confirmation link" });
+      }
+
+      // Farm ownership may have changed since the link was sent
+      const farmCheck = await checkFarmForAccountDeletion(user.id);
+      if (farmCheck.error) {
+        return res.status(409).json({ message: farmCheck.error });
+      }
+      if (farmCheck.farmToDelete) {
+        await storage.deleteFarm(farmCheck.farmToDelete);
+      }
+
+      await storage.deleteUserAccount(user.id);
+
+      await sendUserEmail({
+        to: user.email,
+        ...formatAccountDeletedEmail(),
+      });
+
+      clearAuthCookie(res);
+      res.json({ message: "Your account has been deleted" });
+    } catch (error) {
+      console.error("Account deletion error:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
   // AI routes with rate limiting
   app.post("/api/ai/find-grower", aiRateLimit, authenticate, requireMember, async (req: AuthRequest, res) => {
     try {
@@ -1077,10 +3228,12 @@ If you didn't request this reset, you can safely ignore this email.
       }
       
       const userId = req.user!.id;
+      const farmId = await getUserFarmId(userId);
       
-      // Create assessment record
+      // Create assessment record, shared with the member's farm
       const assessment = await storage.createFarmAssessment({
         userId,
+        farmId,
         responses,
       });
       
@@ -1090,6 +3243,7 @@ If you didn't request this reset, you can safely ignore this email.
       // Create farm profile
       const farmProfile = await storage.createFarmProfile({
         userId,
+        farmId,
         assessmentId: assessment.id,
         profileData,
         strengths: profileData.strengths,
@@ -1119,8 +3273,9 @@ If you didn't request this reset, you can safely ignore this email.
   app.get("/api/farm-roadmap/profile", authenticate, requireMember, async (req: AuthRequest, res) => {
     try {
       const userId = req.user!.id;
+      const farmId = await getUserFarmId(userId);
       
-      const profile = await storage.getFarmProfileByUser(userId);
+      const profile = await storage.getFarmProfileByUser(userId, farmId);
       if (!profile) {
         return res.status(404).json({ message: "No farm profile found" });
       }
@@ -1140,7 +3295,8 @@ If you didn't request this reset, you can safely ignore this email.
   app.get("/api/farm-roadmap/assessments", authenticate, requireMember, async (req: AuthRequest, res) => {
     try {
       const userId = req.user!.id;
-      const assessments = await storage.getFarmAssessmentsByUser(userId);
+      const farmId = await getUserFarmId(userId);
+      const assessments = await storage.getFarmAssessmentsByUser(userId, farmId);
       res.json(assessments);
     } catch (error) {
       console.error("Farm assessments fetch error:", error);
@@ -1157,7 +3313,7 @@ If you didn't request this reset, you can safely ignore this email.
         state as string,
         farmType as string
       );
-      res.json(members);
+      res.json(members.map(({ passwordHash, totpSecret, ...member }) => member));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch members" });
     }
@@ -1172,6 +3328,10 @@ If you didn't request this reset, you can safely ignore this email.
         return res.status(400).json({ message: "Username, email, and password are required" });
       }
 
+      if (userData.role && !Object.values(Role).includes(userData.role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
       // Validate password strength
       if (password.length < 12) {
         return res.status(400).json({ message: "Password must be at least 12 characters long" });
@@ -1199,6 +3359,7 @@ If you didn't request this reset, you can safely ignore this email.
         await storage.createProfile(user.id, userData.profile);
       }
 
+      setAuditContext(res, { entityType: "user", entityId: user.id, action: "member.create" });
       res.status(201).json({ message: "Member created successfully", userId: user.id });
     } catch (error) {
       console.error("Member creation error:", error);
@@ -1211,6 +3372,25 @@ If you didn't request this reset, you can safely ignore this email.
       const { id } = req.params;
       const { profile, ...userData } = req.body;
 
+      if (userData.role && !Object.values(Role).includes(userData.role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      // Admins can't remove their own admin access by mistake
+      if (id === req.user!.id && userData.role && userData.role !== Role.ADMIN) {
+        return res.status(400).json({ message: "You can't change your own role" });
+      }
+
+      await captureAuditBefore(res, "user", id, "member.update");
+
+      // A changed email address must be verified again
+      if (userData.email) {
+        const existingUser = await storage.getUser(id);
+        if (existingUser && existingUser.email !== userData.email) {
+          userData.emailVerified = null;
+        }
+      }
+
       // Update user data
       if (Object.keys(userData).length > 0) {
         await storage.updateUser(id, userData);
@@ -1233,17 +3413,127 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
-  app.post("/api/admin/blog", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/members/:id/unlock", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      await captureAuditBefore(res, "user", user.id, "member.unlock");
+      await storage.resetFailedLogins(user.id);
+
+      res.json({ message: "Member unlocked successfully" });
+    } catch (error) {
+      console.error("Member unlock error:", error);
+      res.status(500).json({ message: "Failed to unlock member" });
+    }
+  });
+
+  // Sign-in settings
+  app.get("/api/admin/settings/sign-in", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      res.json(await getSignInSettings());
+    } catch (error) {
+      console.error("Get sign-in settings error:", error);
+      res.status(500).json({ message: "Failed to fetch sign-in settings" });
+    }
+  });
+
+  app.put("/api/admin/settings/sign-in", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const parsed = z.object({
+        magicLinkDisabledRoles: z.array(z.nativeEnum(Role)),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid sign-in settings" });
+      }
+
+      await captureAuditBefore(res, "app_setting", SIGN_IN_SETTINGS_KEY, "settings.sign_in.update");
+      const magicLinkDisabledRoles = Array.from(new Set(parsed.data.magicLinkDisabledRoles));
+      await storage.setAppSetting(SIGN_IN_SETTINGS_KEY, { magicLinkDisabledRoles }, req.user!.id);
+
+      res.json(await getSignInSettings());
+    } catch (error) {
+      console.error("Update sign-in settings error:", error);
+      res.status(500).json({ message: "Failed to update sign-in settings" });
+    }
+  });
+
+  // Admin audit log
+  const parseAuditLogFilter = (query: any): AdminAuditLogFilter => {
+    const parseDate = (value: unknown) => {
+      if (typeof value !== "string" || !value) return undefined;
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? undefined : date;
+    };
+    return {
+      actor: typeof query.actor === "string" && query.actor ? query.actor : undefined,
+      action: typeof query.action === "string" && query.action ? query.action : undefined,
+      entityType: typeof query.entityType === "string" && query.entityType ? query.entityType : undefined,
+      entityId: typeof query.entityId === "string" && query.entityId ? query.entityId : undefined,
+      from: parseDate(query.from),
+      to: parseDate(query.to),
+    };
+  };
+
+  app.get("/api/admin/audit-log", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 50;
+      const result = await storage.listAdminAuditLogs(parseAuditLogFilter(req.query), { page, pageSize });
+      res.json({ ...result, page, pageSize });
+    } catch (error) {
+      console.error("Get audit log error:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  app.get("/api/admin/audit-log/export", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const filter = parseAuditLogFilter(req.query);
+      const format = req.query.format === "json" ? "json" : "csv";
+      const date = new Date().toISOString().split("T")[0];
+      const batchSize = 1000;
+
+      res.setHeader("Content-Type", format === "json" ? "application/json" : "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${date}.${format}"`);
+      res.write(format === "json" ? "[" : `${AUDIT_CSV_HEADER.join(",")}\n`);
+
+      let written = 0;
+      for (let page = 1; ; page++) {
+        const { items } = await storage.listAdminAuditLogs(filter, { page, pageSize: batchSize });
+        for (const entry of items) {
+          res.write(format === "json" ? `${written > 0 ? "," : ""}${JSON.stringify(entry)}` : `${formatAuditCsvRow(entry)}\n`);
+          written++;
+        }
+        if (items.length < batchSize) break;
+      }
+
+      res.end(format === "json" ? "]" : "");
+    } catch (error) {
+      console.error("Export audit log error:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: "Failed to export audit log" });
+      }
+    }
+  });
+
+  app.post("/api/admin/blog", authenticate, requirePermission(Permission.BLOG_PUBLISH), async (req: AuthRequest, res) => {
     try {
       const post = await storage.createBlogPost(req.body);
+      setAuditContext(res, { entityType: "blog_post", entityId: post.id });
       res.status(201).json(post);
     } catch (error) {
       res.status(500).json({ message: "Failed to create blog post" });
     }
   });
 
-  app.put("/api/admin/blog/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.put("/api/admin/blog/:id", authenticate, requirePermission(Permission.BLOG_PUBLISH), async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "blog_post", req.params.id);
       const post = await storage.updateBlogPost(req.params.id, req.body);
       res.json(post);
     } catch (error) {
@@ -1251,8 +3541,9 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
-  app.delete("/api/admin/blog/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.delete("/api/admin/blog/:id", authenticate, requirePermission(Permission.BLOG_PUBLISH), async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "blog_post", req.params.id);
       await storage.deleteBlogPost(req.params.id);
       res.json({ message: "Blog post deleted" });
     } catch (error) {
@@ -1260,26 +3551,40 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
-  app.post("/api/admin/resources", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/admin/resources", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      const resource = await storage.createResource(req.body);
+      const data = parseResourceData(req.body.type, req.body.data);
+      const resource = await storage.createResource({ ...req.body, data }, req.user!.id);
+      setAuditContext(res, { entityType: "resource", entityId: resource.id });
       res.status(201).json(resource);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid resource data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create resource" });
     }
   });
 
-  app.put("/api/admin/resources/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.put("/api/admin/resources/:id", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
-      const resource = await storage.updateResource(req.params.id, req.body);
+      const updates = await withCheckedResourceData(req.params.id, req.body);
+      if (!updates) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      await captureAuditBefore(res, "resource", req.params.id);
+      const resource = await storage.updateResource(req.params.id, updates, req.user!.id);
       res.json(resource);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid resource data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update resource" });
     }
   });
 
-  app.delete("/api/admin/resources/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.delete("/api/admin/resources/:id", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "resource", req.params.id);
       await storage.deleteResource(req.params.id);
       res.json({ message: "Resource deleted" });
     } catch (error) {
@@ -1334,6 +3639,7 @@ If you didn't request this reset, you can safely ignore this email.
   app.patch("/api/admin/challenges/:id/flag", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
       const { adminFlag } = req.body;
+      await captureAuditBefore(res, "grower_challenge", req.params.id, "grower_challenge.flag");
       const challenge = await storage.updateGrowerChallengeFlag(req.params.id, adminFlag);
       res.json(challenge);
     } catch (error) {
@@ -1354,11 +3660,12 @@ If you didn't request this reset, you can safely ignore this email.
   });
 
   // Expert request routes
-  app.post("/api/expert-requests", authenticate, requireMember, async (req: AuthRequest, res) => {
+  app.post("/api/expert-requests", authenticate, requireMember, requireVerifiedEmail, async (req: AuthRequest, res) => {
     try {
       const validatedData = insertExpertRequestSchema.parse({
         ...req.body,
         userId: req.user!.id,
+        farmId: await getUserFarmId(req.user!.id) ?? null,
       });
       
       const request = await storage.createExpertRequest(validatedData);
@@ -1388,7 +3695,8 @@ If you didn't request this reset, you can safely ignore this email.
 
   app.get("/api/expert-requests", authenticate, requireMember, async (req: AuthRequest, res) => {
     try {
-      const requests = await storage.getUserExpertRequests(req.user!.id);
+      const farmId = await getUserFarmId(req.user!.id);
+      const requests = await storage.getUserExpertRequests(req.user!.id, farmId);
       res.json(requests);
     } catch (error) {
       console.error("Get expert requests error:", error);
@@ -1397,7 +3705,7 @@ If you didn't request this reset, you can safely ignore this email.
   });
 
   // Admin expert request routes
-  app.get("/api/admin/expert-requests", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.get("/api/admin/expert-requests", authenticate, requirePermission(Permission.EXPERT_ANSWER), async (req: AuthRequest, res) => {
     try {
       const requests = await storage.getAllExpertRequests();
       res.json(requests);
@@ -1407,9 +3715,10 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
-  app.patch("/api/admin/expert-requests/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.patch("/api/admin/expert-requests/:id", authenticate, requirePermission(Permission.EXPERT_ANSWER), async (req: AuthRequest, res) => {
     try {
       const { status, adminNotes } = req.body;
+      await captureAuditBefore(res, "expert_request", req.params.id);
       const request = await storage.updateExpertRequestStatus(req.params.id, status, adminNotes);
       res.json(request);
     } catch (error) {
@@ -1435,7 +3744,7 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
-  app.post("/api/forum/posts", authenticate, requireMember, async (req: AuthRequest, res) => {
+  app.post("/api/forum/posts", authenticate, requireMember, requireVerifiedEmail, async (req: AuthRequest, res) => {
     try {
       const postData = {
         ...req.body,
@@ -1455,11 +3764,15 @@ If you didn't request this reset, you can safely ignore this email.
       const postId = req.params.id;
       const updates = req.body;
       
-      // Check if user owns the post
+      // Authors can edit their own posts; moderators can edit any
       const post = await storage.getForumPost(postId);
-      if (!post || post.userId !== req.user!.id) {
+      if (!post || (post.userId !== req.user!.id && !hasPermission(req.user!.role, Permission.FORUM_MODERATE))) {
         return res.status(403).json({ message: "You can only edit your own posts" });
       }
+      if (post.userId !== req.user!.id) {
+        await captureAuditBefore(res, "forum_post", postId);
+        setAuditContext(res, { privileged: true });
+      }
       
       const updatedPost = await storage.updateForumPost(postId, updates);
       res.json(updatedPost);
@@ -1474,11 +3787,15 @@ If you didn't request this reset, you can safely ignore this email.
     try {
       const postId = req.params.id;
       
-      // Check if user owns the post
+      // Authors can delete their own posts; moderators can delete any
       const post = await storage.getForumPost(postId);
-      if (!post || post.userId !== req.user!.id) {
+      if (!post || (post.userId !== req.user!.id && !hasPermission(req.user!.role, Permission.FORUM_MODERATE))) {
         return res.status(403).json({ message: "You can only delete your own posts" });
       }
+      if (post.userId !== req.user!.id) {
+        await captureAuditBefore(res, "forum_post", postId);
+        setAuditContext(res, { privileged: true });
+      }
       
       const deletedPost = await storage.softDeleteForumPost(postId);
       res.json(deletedPost);
@@ -1488,7 +3805,7 @@ If you didn't request this reset, you can safely ignore this email.
     }
   });
 
-  app.post("/api/forum/posts/:postId/comments", authenticate, requireMember, async (req: AuthRequest, res) => {
+  app.post("/api/forum/posts/:postId/comments", authenticate, requireMember, requireVerifiedEmail, async (req: AuthRequest, res) => {
     try {
       const commentData = {
         postId: req.params.postId,
@@ -1514,9 +3831,13 @@ If you didn't request this reset, you can safely ignore this email.
       const post = await storage.getForumPost(req.params.postId);
       const comment = post?.comments.find(c => c.id === commentId);
       
-      if (!comment || comment.userId !== req.user!.id) {
+      if (!comment || (comment.userId !== req.user!.id && !hasPermission(req.user!.role, Permission.FORUM_MODERATE))) {
         return res.status(403).json({ message: "You can only edit your own comments" });
       }
+      if (comment.userId !== req.user!.id) {
+        await captureAuditBefore(res, "forum_comment", commentId);
+        setAuditContext(res, { privileged: true });
+      }
       
       const updatedComment = await storage.updateForumComment(commentId, updates);
       res.json(updatedComment);
@@ -1535,9 +3856,13 @@ If you didn't request this reset, you can safely ignore this email.
       const post = await storage.getForumPost(req.params.postId);
       const comment = post?.comments.find(c => c.id === commentId);
       
-      if (!comment || comment.userId !== req.user!.id) {
+      if (!comment || (comment.userId !== req.user!.id && !hasPermission(req.user!.role, Permission.FORUM_MODERATE))) {
         return res.status(403).json({ message: "You can only delete your own comments" });
       }
+      if (comment.userId !== req.user!.id) {
+        await captureAuditBefore(res, "forum_comment", commentId);
+        setAuditContext(res, { privileged: true });
+      }
       
       const deletedComment = await storage.softDeleteForumComment(commentId);
       res.json(deletedComment);
@@ -1708,10 +4033,11 @@ If you didn't request this reset, you can safely ignore this email.
   });
 
   // Resource image upload and serving routes
-  app.post("/api/resource-images/upload", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/resource-images/upload", authenticate, requirePermission(Permission.RESOURCES_EDIT), async (req: AuthRequest, res) => {
     try {
       const objectStorageService = new ObjectStorageService();
       const uploadURL = await objectStorageService.getResourceImageUploadURL();
+      setAuditContext(res, { action: "resource_image.upload", entityType: "resource_image" });
       res.json({ uploadURL });
     } catch (error) {
       console.error("Resource image upload URL error:", error);
@@ -1735,10 +4061,11 @@ If you didn't request this reset, you can safely ignore this email.
   });
 
   // Blog image upload and serving routes
-  app.post("/api/blog-images/upload", authenticate, requireAdmin, async (req: AuthRequest, res) => {
+  app.post("/api/blog-images/upload", authenticate, requirePermission(Permission.BLOG_PUBLISH), async (req: AuthRequest, res) => {
     try {
       const objectStorageService = new ObjectStorageService();
       const uploadURL = await objectStorageService.getBlogImageUploadURL();
+      setAuditContext(res, { action: "blog_image.upload", entityType: "blog_image" });
       res.json({ uploadURL });
     } catch (error) {
       console.error("Blog image upload URL error:", error);
@@ -1787,6 +4114,7 @@ If you didn't request this reset, you can safely ignore this email.
   app.post("/api/admin/farm-roadmap/categories", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
       const category = await storage.createFarmRoadmapCategory(req.body);
+      setAuditContext(res, { entityType: "farm_roadmap_category", entityId: category.id });
       res.status(201).json(category);
     } catch (error) {
       console.error("Create category error:", error);
@@ -1796,6 +4124,7 @@ If you didn't request this reset, you can safely ignore this email.
 
   app.put("/api/admin/farm-roadmap/categories/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "farm_roadmap_category", req.params.id);
       const category = await storage.updateFarmRoadmapCategory(req.params.id, req.body);
       res.json(category);
     } catch (error) {
@@ -1806,6 +4135,7 @@ If you didn't request this reset, you can safely ignore this email.
 
   app.delete("/api/admin/farm-roadmap/categories/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "farm_roadmap_category", req.params.id);
       await storage.deleteFarmRoadmapCategory(req.params.id);
       res.json({ message: "Category deleted" });
     } catch (error) {
@@ -1829,6 +4159,7 @@ If you didn't request this reset, you can safely ignore this email.
   app.post("/api/admin/farm-roadmap/questions", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
       const question = await storage.createFarmRoadmapQuestion(req.body);
+      setAuditContext(res, { entityType: "farm_roadmap_question", entityId: question.id });
       res.status(201).json(question);
     } catch (error) {
       console.error("Create question error:", error);
@@ -1838,6 +4169,7 @@ If you didn't request this reset, you can safely ignore this email.
 
   app.put("/api/admin/farm-roadmap/questions/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "farm_roadmap_question", req.params.id);
       const question = await storage.updateFarmRoadmapQuestion(req.params.id, req.body);
       res.json(question);
     } catch (error) {
@@ -1848,6 +4180,7 @@ If you didn't request this reset, you can safely ignore this email.
 
   app.delete("/api/admin/farm-roadmap/questions/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "farm_roadmap_question", req.params.id);
       await storage.deleteFarmRoadmapQuestion(req.params.id);
       res.json({ message: "Question deleted" });
     } catch (error) {
@@ -1886,6 +4219,7 @@ If you didn't request this reset, you can safely ignore this email.
         ...req.body,
         createdBy: req.user!.id,
       });
+      setAuditContext(res, { entityType: "ai_agent_config", entityId: config.id });
       res.status(201).json(config);
     } catch (error) {
       console.error("Create AI agent config error:", error);
@@ -1895,7 +4229,10 @@ If you didn't request this reset, you can safely ignore this email.
 
   app.put("/api/admin/ai-agent-configs/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
-      const config = await storage.updateAiAgentConfig(req.params.id, req.body);
+      // createdBy keeps the original author; the editor is tracked separately
+      const { createdBy, updatedBy, ...updates } = req.body;
+      await captureAuditBefore(res, "ai_agent_config", req.params.id);
+      const config = await storage.updateAiAgentConfig(req.params.id, { ...updates, updatedBy: req.user!.id });
       res.json(config);
     } catch (error) {
       console.error("Update AI agent config error:", error);
@@ -1905,6 +4242,7 @@ If you didn't request this reset, you can safely ignore this email.
 
   app.delete("/api/admin/ai-agent-configs/:id", authenticate, requireAdmin, async (req: AuthRequest, res) => {
     try {
+      await captureAuditBefore(res, "ai_agent_config", req.params.id);
       await storage.deleteAiAgentConfig(req.params.id);
       res.json({ message: "AI agent configuration deleted" });
     } catch (error) {
@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { storage, type SavedSearchDigestEntry } from "./storage";
+import { countResourcesChangedSince, listResourcesChangedSince, ResourceQuerySchema, type ResourceQueryDatabase } from "./resourceQuery";
+import { sendUserEmail } from "./email/userEmail";
+import { formatSavedSearchDigestEmail } from "./email/userTemplates";
+import { SAVED_SEARCH_DIGEST_FREQUENCIES, type SavedSearch, type SavedSearchDigestFrequency } from "@shared/schema";
+
+export const MAX_SAVED_SEARCHES = 50;
+
+// Resources listed in one digest email; the rest are counted
+export const DIGEST_MAX_MATCHES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIGEST_INTERVAL_DAYS: Record<Exclude<SavedSearchDigestFrequency, "none">, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+export const SavedSearchInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: ResourceQuerySchema.shape.type.nullish(),
+  q: z.string().trim().max(200).nullish(),
+  // The same filters /api/resources takes, as an object rather than JSON text
+  filters: z.record(z.string().max(500))
+    .refine(filters => Object.keys(filters).length <= 30, "Too many filters")
+    .default({}),
+  // Saved searches don't keep a location, so there's nothing to sort by distance from
+  sort: ResourceQuerySchema.shape.sort.removeDefault().exclude(["distance"]).default("relevance"),
+  digestFrequency: z.enum(SAVED_SEARCH_DIGEST_FREQUENCIES).default("none"),
+});
+
+export const SavedSearchUpdateSchema = SavedSearchInputSchema.pick({ name: true, digestFrequency: true }).partial();
+
+// The listing a saved search stands for, in the shape resourceQuery takes
+export function savedSearchQuery(search: Pick<SavedSearch, "type" | "q" | "filters">) {
+  return {
+    type: search.type ?? undefined,
+    q: search.q || undefined,
+    filters: search.filters,
+  };
+}
+
+export interface SavedSearchAlertOptions {
+  batchSize?: number; // Saved searches counted per run
+  appUrl?: string; // Site address for links in digests; digests are held back without one
+  database?: ResourceQueryDatabase; // Where matches are counted; the app database by default
+  sendEmail?: typeof sendUserEmail;
+}
+
+// Recount new matches for the searches counted longest ago
+async function refreshNewMatchCounts(batchSize: number, database?: ResourceQueryDatabase): Promise<number> {
+  const searches = await storage.listSavedSearchesForMatchCheck(batchSize);
+  for (const search of searches) {
+    const checkedAt = new Date();
+    const count = await countResourcesChangedSince(savedSearchQuery(search), search.lastSeenAt, database);
+    await storage.setSavedSearchNewMatchCount(search.id, count, { since: search.lastSeenAt, at: checkedAt });
+  }
+  return searches.length;
+}
+
+// Email one saved search's changes since its last digest. "failed" leaves
+// the window open for the next run to try again.
+async function sendDigest(
+  search: SavedSearchDigestEntry,
+  appUrl: string,
+  options: Pick<SavedSearchAlertOptions, "database" | "sendEmail">
+): Promise<"sent" | "empty" | "failed"> {
+  const { database, sendEmail = sendUserEmail } = options;
+  const since = search.lastDigestAt ?? search.createdAt;
+  const { items, total } = await listResourcesChangedSince(savedSearchQuery(search), since, DIGEST_MAX_MATCHES, database);
+  if (total === 0) return "empty";
+
+  const email = formatSavedSearchDigestEmail({
+    searchName: search.name,
+    frequency: search.digestFrequency,
+    matches: items.map(item => ({ title: item.title, summary: item.summary, url: `${appUrl}/dashboard/resources/${item.id}` })),
+    total,
+    savedSearchesUrl: `${appUrl}/dashboard/saved-searches`,
+    unsubscribeUrl: `${appUrl}/saved-searches/unsubscribe/${search.unsubscribeToken}`,
+  });
+  const sent = await sendEmail({
+    to: search.email,
+    ...email,
+    headers: {
+      "List-Unsubscribe": `<${appUrl}/api/saved-searches/unsubscribe/${search.unsubscribeToken}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  });
+  return sent ? "sent" : "failed";
+}
+
+async function sendDueDigests(
+  appUrl: string,
+  batchSize: number,
+  options: Pick<SavedSearchAlertOptions, "database" | "sendEmail">
+): Promise<number> {
+  const now = new Date();
+  let sent = 0;
+
+  for (const [frequency, days] of Object.entries(DIGEST_INTERVAL_DAYS) as [keyof typeof DIGEST_INTERVAL_DAYS, number][]) {
+    const due = await storage.listSavedSearchesDueForDigest(frequency, new Date(now.getTime() - days * DAY_MS), batchSize);
+    for (const search of due) {
+      // Windows with nothing new close too, so they aren't rechecked every run
+      const outcome = await sendDigest(search, appUrl, options);
+      if (outcome === "failed") continue;
+      await storage.markSavedSearchDigestSent(search.id, now);
+      if (outcome === "sent") sent++;
+    }
+  }
+
+  return sent;
+}
+
+export async function runSavedSearchAlerts(options: SavedSearchAlertOptions = {}): Promise<{ counted: number; digests: number }> {
+  const { batchSize = 500, appUrl, database, sendEmail } = options;
+  const counted = await refreshNewMatchCounts(batchSize, database);
+  const digests = appUrl ? await sendDueDigests(appUrl.replace(/\/+$/, ""), batchSize, { database, sendEmail }) : 0;
+  return { counted, digests };
+}
+
+/**
+ * Count saved searches' new matches and send due digests every intervalMs,
+ * skipping a run while the previous one is still going. Returns a function
+ * that stops it.
+ */
+export function startSavedSearchAlerts(options: SavedSearchAlertOptions & { intervalMs?: number } = {}): () => void {
+  const { intervalMs = 60 * 60 * 1000, ...alertOptions } = options;
+  let running = false;
+
+  if (!alertOptions.appUrl) {
+    console.warn("APP_URL is not set - saved search digest emails will not be sent");
+  }
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { digests } = await runSavedSearchAlerts(alertOptions);
+      if (digests > 0) console.log(`Saved searches: sent ${digests} digest emails`);
+    } catch (error) {
+      console.error("Saved search alerts error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return () => clearInterval(timer);
+}
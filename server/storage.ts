@@ -19,8 +19,46 @@ import {
   farmRoadmapCategories,
   farmRoadmapQuestions,
   aiAgentConfigs,
+  sessions,
+  twoFactorBackupCodes,
+  magicLinkTokens,
+  apiTokens,
+  authAttempts,
+  farms,
+  farmMemberships,
+  farmInvitations,
+  appSettings,
+  adminAuditLogs,
+  resourceImportBatches,
+  resourceImportBatchItems,
+  resourceLinkChecks,
+  resourceReviewEvents,
+  resourceRevisions,
+  resourceSubmissions,
+  resourceRatings,
+  resourceCollections,
+  resourceCollectionItems,
+  resourceCollectionShares,
+  savedSearches,
+  geocodedPlaces,
+  DEFAULT_REVIEW_INTERVAL_DAYS,
+  ROLE_PERMISSIONS,
+  Permission,
   type User,
   type InsertUser,
+  type Session,
+  type InsertSession,
+  type TwoFactorBackupCode,
+  type InsertAuthAttempt,
+  type MagicLinkToken,
+  type ApiToken,
+  type InsertApiToken,
+  type InsertMagicLinkToken,
+  type Farm,
+  type InsertFarm,
+  type FarmMembership,
+  type FarmInvitation,
+  FarmRole,
   type Profile,
   type InsertProfile,
   type BlogPost,
@@ -59,13 +97,282 @@ import {
   type InsertFarmRoadmapQuestion,
   type AiAgentConfig,
   type InsertAiAgentConfig,
+  type AppSetting,
+  type AdminAuditLog,
+  type InsertAdminAuditLog,
   type ResourceType,
+  type ResourceImportBatch,
+  type InsertResourceImportBatch,
+  type ResourceLinkCheck,
+  type ResourceReviewEvent,
+  type ResourceRevision,
+  type ResourceRevisionChangeType,
+  type ResourceSubmission,
+  type InsertResourceSubmission,
+  type ResourceSubmissionStatus,
+  type ResourceRating,
+  type ResourceRatingStatus,
+  type ResourceCollection,
+  type ResourceCollectionItem,
+  type ResourceCollectionShare,
+  type SavedSearch,
+  type SavedSearchDigestFrequency,
+  type GeocodedPlace,
+  type ResourceVerificationStatus,
   Role
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, like, desc, gte, ilike, sql } from "drizzle-orm";
+import { eq, and, or, like, asc, desc, gte, gt, lt, lte, ilike, isNull, ne, inArray, sql, getTableColumns, type AnyColumn, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { forumPostFavorites } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
+import { computeResourceQuality, QUALITY_CLICK_WINDOW_DAYS } from "./resourceQuality";
+
+// Tables whose rows can be snapshotted for the admin audit log
+const AUDITED_TABLES = {
+  user: users,
+  resource: resources,
+  blog_post: blogPosts,
+  grower_challenge: growerChallenges,
+  expert_request: expertRequests,
+  farm_roadmap_category: farmRoadmapCategories,
+  farm_roadmap_question: farmRoadmapQuestions,
+  ai_agent_config: aiAgentConfigs,
+  app_setting: appSettings,
+  resource_import_batch: resourceImportBatches,
+  resource_submission: resourceSubmissions,
+  resource_rating: resourceRatings,
+  resource_collection: resourceCollections,
+  forum_post: forumPosts,
+  forum_comment: forumComments,
+};
+
+export type AuditEntityType = keyof typeof AUDITED_TABLES;
+
+export interface AdminAuditLogFilter {
+  actor?: string; // Actor user ID or (partial) email
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Weighted full-text document for a resource, stored in resources.search_vector
+// whenever the resource is written
+const RESOURCE_SEARCH_DOCUMENT = sql`
+  setweight(to_tsvector('english', coalesce(${resources.title}, '')), 'A') ||
+  setweight(to_tsvector('english', concat_ws(' ', array_to_string(${resources.tags}, ' '), array_to_string(${resources.topics}, ' '))), 'B') ||
+  setweight(to_tsvector('english', coalesce(${resources.summary}, '')), 'C') ||
+  setweight(to_tsvector('english', concat_ws(' ',
+    ${resources.data}->>'agency',
+    ${resources.data}->>'sponsor',
+    ${resources.data}->>'provider',
+    ${resources.data}->>'programName',
+    ${resources.data}->>'program_name',
+    ${resources.data}->>'category',
+    ${resources.data}->>'focusAreas',
+    ${resources.data}->>'functions'
+  )), 'D')`;
+
+// resources.id qualified with its table. Drizzle leaves the columns of a
+// single-table select list unqualified, so a bare ${resources.id} in a
+// correlated subquery there would bind to the subquery's own table
+export const QUALIFIED_RESOURCE_ID = sql`${resources}.${sql.identifier(resources.id.name)}`;
+
+// A verification counts only until review_interval_days after it was given;
+// the public verified badge is derived from this rather than ugga_verified
+export const RESOURCE_VERIFICATION_CURRENT = sql<boolean>`(
+  ${resources.verification_status} = 'verified' AND
+  ${resources.verified_at} > now() - make_interval(days => COALESCE(${resources.review_interval_days}, ${DEFAULT_REVIEW_INTERVAL_DAYS}))
+)`;
+
+// Forum posts and comments of deleted accounts are reassigned to this
+// placeholder so threads stay intact without identifying the author
+export const DELETED_USER_ID = "deleted-user";
+
+// One validated spreadsheet row written by a resource import
+export interface ResourceImportWrite {
+  rowNumber: number;
+  resourceId?: string; // Existing resource to update; a new one is created otherwise
+  values: {
+    title?: string;
+    url?: string;
+    summary?: string;
+    tags?: string[];
+    external_id?: string;
+    data: Record<string, unknown>; // Merged into the existing data on update
+  };
+}
+
+// A resource in the editorial review queue, flagged for a broken link, an
+// overdue review or both
+export interface ResourceReviewItem {
+  id: string;
+  title: string;
+  url: string;
+  type: ResourceType | null;
+  verified_at: Date | null;
+  review_interval_days: number | null;
+  link_status: string | null;
+  link_checked_at: Date | null;
+  broken: boolean;
+  overdue: boolean;
+  latestCheck: ResourceLinkCheck | null;
+}
+
+export interface ResourceReviewState {
+  id: string;
+  verification_status: ResourceVerificationStatus;
+  reviewer_id: string | null;
+  verified_by: string | null;
+  verified_at: Date | null;
+  review_interval_days: number | null;
+  expiresAt: Date | null; // When the current verification lapses
+}
+
+export type ResourceReviewTimelineEntry = ResourceReviewEvent & {
+  actorName: string | null;
+  reviewerName: string | null;
+};
+
+// Columns only the storage layer's own workflows write; stripped from
+// admin create and update payloads
+function withoutManagedResourceFields<T extends Partial<Record<keyof Resource, unknown>>>(values: T) {
+  const {
+    search_vector: _searchVector,
+    link_status: _linkStatus,
+    link_checked_at: _linkCheckedAt,
+    ugga_verified: _uggaVerified,
+    verification_status: _verificationStatus,
+    reviewer_id: _reviewerId,
+    verified_by: _verifiedBy,
+    verified_at: _verifiedAt,
+    quality_score: _qualityScore,
+    quality_breakdown: _qualityBreakdown,
+    quality_scored_at: _qualityScoredAt,
+    rating_average: _ratingAverage,
+    rating_count: _ratingCount,
+    ...rest
+  } = values;
+  return rest;
+}
+
+// The editable content of a resource, as kept in its revisions
+function resourceContent(resource: Resource): Record<string, unknown> {
+  const { id: _id, last_verified_at: _lastVerifiedAt, ...content } = withoutManagedResourceFields(resource);
+  return content;
+}
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ResourceRevisionEntry = ResourceRevision & { authorName: string | null };
+
+export type ResourceSubmissionEntry = ResourceSubmission & {
+  submitterName: string | null;
+  submitterEmail: string | null;
+};
+
+export type ResourceRatingEntry = ResourceRating & { authorName: string | null };
+
+export type ResourceRatingModerationEntry = ResourceRatingEntry & { resourceTitle: string | null };
+
+// What anyone may see of a published rating; author ids and moderation
+// details stay with staff
+export type PublicResourceRating = Pick<ResourceRating, "id" | "rating" | "review" | "createdAt" | "updatedAt"> & { authorName: string | null };
+
+export type ResourceCollectionSummary = ResourceCollection & { itemCount: number; ownerName: string | null };
+
+export type ResourceCollectionItemEntry = ResourceCollectionItem & {
+  resource: Pick<Resource, "id" | "title" | "url" | "type" | "summary" | "image_url" | "rating_average" | "rating_count"> & {
+    ugga_verified: boolean;
+  };
+};
+
+export type ResourceCollectionShareEntry = ResourceCollectionShare & { username: string | null; email: string | null };
+
+// A saved search with the address its digest goes to
+export type SavedSearchDigestEntry = SavedSearch & { email: string; username: string };
+
+// Raised when an invitation was used, revoked or expired between being looked
+// up and being accepted
+export class FarmInvitationUnavailableError extends Error {
+  constructor() {
+    super("Invitation is no longer valid");
+    this.name = "FarmInvitationUnavailableError";
+  }
+}
+
+function newShareToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+// A resource as members see it: search internals, review assignment and
+// link checks stay on the admin side
+export type PublicResourceRow = Omit<Resource, "search_vector" | "reviewer_id" | "verified_by" | "link_status" | "link_checked_at">;
+
+export type PublicResource = PublicResourceRow & { has_location: boolean };
+
+// Columns for PublicResourceRow; the verified badge only shows while the
+// verification is current, not from the stored flag
+function publicResourceColumns() {
+  const {
+    search_vector: _searchVector,
+    reviewer_id: _reviewerId,
+    verified_by: _verifiedBy,
+    link_status: _linkStatus,
+    link_checked_at: _linkCheckedAt,
+    ...columns
+  } = getTableColumns(resources);
+  return { ...columns, ugga_verified: RESOURCE_VERIFICATION_CURRENT };
+}
+
+export interface ResourceRatingSummary {
+  average: number | null; // Null until the resource has a published rating
+  count: number;
+  ratings: PublicResourceRating[]; // Published ratings, newest first
+}
+
+// Member-suggested URLs count as duplicates regardless of scheme, "www.",
+// letter case and trailing slashes
+function comparableUrl(url: string): string {
+  return url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?|\/+$/g, "");
+}
+
+function comparableUrlSql(column: AnyColumn) {
+  return sql<string>`regexp_replace(lower(trim(${column})), '^https?://(www\\.)?|/+$', '', 'g')`;
+}
+
+// A resource whose URL changes goes back to unchecked, so the link checker
+// picks it up on its next run
+function resetLinkStatusOnUrlChange(url: string | undefined) {
+  if (url === undefined) return {};
+  return {
+    link_status: sql<string | null>`CASE WHEN ${resources.url} = ${url} THEN ${resources.link_status} END`,
+    link_checked_at: sql<Date | null>`CASE WHEN ${resources.url} = ${url} THEN ${resources.link_checked_at} END`,
+  };
+}
+
+export interface UserDataExport {
+  exportedAt: string;
+  account: Omit<User, "passwordHash" | "totpSecret">;
+  profile: Profile | null;
+  farmMembership: { farmId: string; farmName: string; role: FarmRole; joinedAt: Date } | null;
+  forumPosts: ForumPost[];
+  forumComments: ForumComment[];
+  forumVotes: ForumVote[];
+  favorites: Favorite[];
+  forumPostFavorites: ForumPostFavorite[];
+  chatLogs: ChatLog[];
+  farmAssessments: FarmAssessment[];
+  farmProfiles: FarmProfile[];
+  expertRequests: ExpertRequest[];
+  growerChallenges: GrowerChallenge[];
+  resourceSubmissions: ResourceSubmission[];
+  resourceRatings: ResourceRating[];
+  resourceCollections: (ResourceCollection & { items: ResourceCollectionItem[] })[];
+  savedSearches: Omit<SavedSearch, "unsubscribeToken">[];
+}
 
 export interface IStorage {
   // User operations
@@ -73,8 +380,59 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createMember(user: InsertUser, profile: InsertProfile, invitation?: FarmInvitation): Promise<User>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
   updateUser(id: string, updates: Partial<User>): Promise<User>;
   
+  // Session operations
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  updateSession(id: string, updates: Partial<Session>): Promise<Session>;
+  listActiveSessions(userId: string): Promise<Session[]>;
+  revokeSession(id: string): Promise<void>;
+  revokeAllUserSessions(userId: string, exceptSessionId?: string): Promise<void>;
+
+  // Two-factor backup code operations
+  replaceBackupCodes(userId: string, codeHashes: string[]): Promise<TwoFactorBackupCode[]>;
+  countUnusedBackupCodes(userId: string): Promise<number>;
+  consumeBackupCode(userId: string, codeHash: string): Promise<boolean>;
+  deleteBackupCodes(userId: string): Promise<void>;
+
+  // Brute-force protection operations
+  recordAuthAttempt(attempt: InsertAuthAttempt): Promise<void>;
+  getAuthAttemptStats(filter: { kind: "login" | "password_reset" | "magic_link"; since: Date; ipAddress?: string; userId?: string; failedOnly?: boolean }): Promise<{ count: number; lastAttemptAt: Date | null }>;
+  pruneAuthAttempts(before: Date): Promise<void>;
+  recordFailedLogin(userId: string, windowStart: Date): Promise<User>;
+  lockUser(userId: string, until: Date): Promise<void>;
+  resetFailedLogins(userId: string): Promise<void>;
+  
+  // Magic link sign-in operations
+  createMagicLinkToken(tokenData: InsertMagicLinkToken): Promise<MagicLinkToken>;
+  consumeMagicLinkToken(tokenHash: string): Promise<MagicLinkToken | undefined>;
+
+  // Personal API token operations
+  createApiToken(tokenData: InsertApiToken): Promise<ApiToken>;
+  listApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: string, ipAddress: string | null): Promise<void>;
+  revokeApiToken(userId: string, id: string): Promise<boolean>;
+
+  // Farm (organization) operations
+  createFarm(farm: InsertFarm, ownerId: string): Promise<Farm>;
+  getFarm(id: string): Promise<Farm | undefined>;
+  updateFarm(id: string, updates: Partial<Farm>): Promise<Farm>;
+  deleteFarm(id: string): Promise<void>;
+  getFarmMembership(userId: string): Promise<(FarmMembership & { farm: Farm }) | undefined>;
+  listFarmMembers(farmId: string): Promise<(FarmMembership & { username: string; email: string; name: string | null })[]>;
+  addFarmMember(farmId: string, userId: string, role: FarmRole): Promise<FarmMembership>;
+  updateFarmMemberRole(farmId: string, userId: string, role: FarmRole): Promise<FarmMembership | undefined>;
+  removeFarmMember(farmId: string, userId: string): Promise<void>;
+  createFarmInvitation(invitation: Omit<FarmInvitation, "id" | "createdAt" | "acceptedAt" | "acceptedBy" | "revokedAt">): Promise<FarmInvitation>;
+  listPendingFarmInvitations(farmId: string): Promise<FarmInvitation[]>;
+  getFarmInvitationByCodeHash(codeHash: string): Promise<(FarmInvitation & { farm: Farm }) | undefined>;
+  revokeFarmInvitation(farmId: string, id: string): Promise<boolean>;
+  acceptFarmInvitation(invitation: FarmInvitation, userId: string): Promise<FarmMembership>;
+
   // Profile operations
   getProfile(userId: string): Promise<Profile | undefined>;
   createProfile(userId: string, profile: InsertProfile): Promise<Profile>;
@@ -88,8 +446,8 @@ export interface IStorage {
   deleteBlogPost(id: string): Promise<void>;
   
   // Resource operations
-  getAllResources(): Promise<Resource[]>;
-  getFilteredResources(state?: string, farmType?: string): Promise<Resource[]>;
+  getAllResources(): Promise<PublicResourceRow[]>;
+  getFilteredResources(state?: string, farmType?: string): Promise<PublicResourceRow[]>;
   listResources(params: {
     page?: number;
     pageSize?: number;
@@ -107,15 +465,110 @@ export interface IStorage {
     format?: string;
     has_location?: boolean;
   }): Promise<{ items: (Resource & { has_location: boolean })[], total: number }>;
-  getResourceById(id: string): Promise<(Resource & { has_location: boolean }) | undefined>;
-  createResource(resource: InsertResource): Promise<Resource>;
-  updateResource(id: string, updates: Partial<Resource>): Promise<Resource>;
+  getResourceById(id: string): Promise<PublicResource | undefined>;
+  createResource(resource: InsertResource, changedBy?: string): Promise<Resource>;
+  updateResource(id: string, updates: Partial<Resource>, changedBy?: string): Promise<Resource>;
   deleteResource(id: string): Promise<void>;
-  importResourcesFromCSV(req: any, isDryRun: boolean): Promise<any>;
+  refreshResourceSearchVectors(ids?: string[]): Promise<number>;
+  refreshResourceQualityScores(ids?: string[]): Promise<number>;
+  getResourceQuality(id: string): Promise<Pick<Resource, "id" | "quality_score" | "quality_breakdown" | "quality_scored_at"> | undefined>;
+  findResourcesForImport(matchBy: "url" | "externalId", keys: string[]): Promise<Resource[]>;
+  listResourceData(ids?: string[]): Promise<Pick<Resource, "id" | "title" | "type" | "data">[]>;
+  commitResourceImport(batch: InsertResourceImportBatch, rows: ResourceImportWrite[]): Promise<ResourceImportBatch>;
+  listResourceImportBatches(limit?: number): Promise<ResourceImportBatch[]>;
+  getResourceImportBatch(id: string): Promise<ResourceImportBatch | undefined>;
+  rollbackResourceImport(id: string, userId: string): Promise<ResourceImportBatch>;
+
+  // Resource link check operations
+  listResourceLinkChecks(resourceId: string, limit?: number): Promise<ResourceLinkCheck[]>;
+  getResourceReviewQueue(params: { type?: string; limit?: number }): Promise<{ items: ResourceReviewItem[]; total: number }>;
+
+  // Resource revision operations
+  listResourceRevisions(resourceId: string): Promise<ResourceRevisionEntry[]>;
+  getResourceRevision(resourceId: string, revisionId: string): Promise<ResourceRevision | undefined>;
+  restoreResourceRevision(resourceId: string, revisionId: string, userId: string, data: Record<string, unknown>): Promise<Resource | undefined>;
+
+  // Resource verification operations
+  getResourceReviewState(id: string): Promise<ResourceReviewState | undefined>;
+  transitionResourceVerification(id: string, change: {
+    from: ResourceVerificationStatus;
+    to: ResourceVerificationStatus;
+    actorId: string;
+    checklist?: Record<string, boolean>;
+    notes?: string;
+  }): Promise<ResourceReviewState | undefined>;
+  assignResourceReviewer(id: string, reviewerId: string | null, actorId: string): Promise<ResourceReviewState | undefined>;
+  addResourceReviewNote(id: string, actorId: string, note: { notes: string; checklist?: Record<string, boolean> }): Promise<ResourceReviewEvent>;
+  listResourceReviewEvents(resourceId: string): Promise<ResourceReviewTimelineEntry[]>;
+  listResourceReviewers(): Promise<Pick<User, "id" | "username" | "email">[]>;
+  expireResourceVerifications(): Promise<number>;
+  adoptLegacyResourceVerifications(): Promise<number>;
+
+  // Resource submission operations
+  findResourceByUrl(url: string): Promise<Pick<Resource, "id" | "title" | "type" | "url"> | undefined>;
+  findPendingResourceSubmissionByUrl(url: string): Promise<ResourceSubmission | undefined>;
+  createResourceSubmission(submission: InsertResourceSubmission): Promise<ResourceSubmission>;
+  getUserResourceSubmissions(userId: string): Promise<ResourceSubmission[]>;
+  listResourceSubmissions(params: { status?: ResourceSubmissionStatus; page?: number; pageSize?: number }): Promise<{ items: ResourceSubmissionEntry[]; total: number }>;
+  getResourceSubmission(id: string): Promise<ResourceSubmissionEntry | undefined>;
+  updateResourceSubmission(id: string, updates: Partial<Pick<ResourceSubmission, "type" | "title" | "url" | "summary" | "data">>): Promise<ResourceSubmission | undefined>;
+  acceptResourceSubmission(id: string, reviewerId: string, reviewNote?: string): Promise<{ submission: ResourceSubmission; resource: Resource } | undefined>;
+  rejectResourceSubmission(id: string, reviewerId: string, reviewNote?: string): Promise<ResourceSubmission | undefined>;
+
+  // Resource rating operations
+  getResourceRatingSummary(resourceId: string): Promise<ResourceRatingSummary>;
+  getUserResourceRating(resourceId: string, userId: string): Promise<ResourceRating | undefined>;
+  saveResourceRating(resourceId: string, userId: string, rating: Pick<ResourceRating, "rating" | "review">): Promise<ResourceRating>;
+  deleteUserResourceRating(resourceId: string, userId: string): Promise<boolean>;
+  listResourceRatingsForModeration(params: { status?: ResourceRatingStatus; page?: number; pageSize?: number }): Promise<{ items: ResourceRatingModerationEntry[]; total: number }>;
+  getResourceRating(id: string): Promise<ResourceRating | undefined>;
+  moderateResourceRating(id: string, moderatorId: string, decision: { status: ResourceRatingStatus; moderationNote?: string }): Promise<ResourceRating | undefined>;
+  deleteResourceRating(id: string): Promise<boolean>;
+
+  // Resource collection operations
+  listUserResourceCollections(userId: string): Promise<ResourceCollectionSummary[]>;
+  listSharedResourceCollections(userId: string): Promise<ResourceCollectionSummary[]>;
+  listFeaturedResourceCollections(): Promise<ResourceCollectionSummary[]>;
+  listPublicResourceCollections(params: { page?: number; pageSize?: number }): Promise<{ items: ResourceCollectionSummary[]; total: number }>;
+  getResourceCollection(id: string): Promise<ResourceCollection | undefined>;
+  getResourceCollectionByShareToken(token: string): Promise<ResourceCollection | undefined>;
+  isResourceCollectionSharedWith(collectionId: string, userId: string): Promise<boolean>;
+  getResourceCollectionItems(collectionId: string): Promise<ResourceCollectionItemEntry[]>;
+  createResourceCollection(ownerId: string, collection: Pick<ResourceCollection, "title" | "description" | "visibility">): Promise<ResourceCollection>;
+  updateResourceCollection(id: string, updates: Partial<Pick<ResourceCollection, "title" | "description" | "visibility">>): Promise<ResourceCollection | undefined>;
+  deleteResourceCollection(id: string): Promise<void>;
+  resetResourceCollectionShareToken(id: string): Promise<ResourceCollection | undefined>;
+  copyResourceCollection(id: string, userId: string): Promise<ResourceCollection | undefined>;
+  setResourceCollectionFeatured(id: string, featured: boolean, adminId: string): Promise<ResourceCollection | undefined>;
+  addResourceCollectionItem(collectionId: string, resourceId: string, note?: string | null): Promise<ResourceCollectionItem | undefined>;
+  updateResourceCollectionItem(collectionId: string, resourceId: string, note: string | null): Promise<ResourceCollectionItem | undefined>;
+  removeResourceCollectionItem(collectionId: string, resourceId: string): Promise<boolean>;
+  reorderResourceCollectionItems(collectionId: string, resourceIds: string[]): Promise<void>;
+  listResourceCollectionShares(collectionId: string): Promise<ResourceCollectionShareEntry[]>;
+  shareResourceCollection(collectionId: string, userId: string): Promise<void>;
+  unshareResourceCollection(collectionId: string, userId: string): Promise<boolean>;
+
+  // Saved search operations
+  listSavedSearches(userId: string): Promise<SavedSearch[]>;
+  countSavedSearches(userId: string): Promise<number>;
+  getSavedSearch(id: string): Promise<SavedSearch | undefined>;
+  getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined>;
+  createSavedSearch(userId: string, search: Pick<SavedSearch, "name" | "type" | "q" | "filters" | "sort" | "digestFrequency">): Promise<SavedSearch>;
+  updateSavedSearch(id: string, updates: Partial<Pick<SavedSearch, "name" | "digestFrequency">>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(id: string): Promise<void>;
+  markSavedSearchSeen(id: string): Promise<SavedSearch | undefined>;
+  listSavedSearchesForMatchCheck(limit: number): Promise<SavedSearch[]>;
+  setSavedSearchNewMatchCount(id: string, count: number, counted: { since: Date; at: Date }): Promise<void>;
+  listSavedSearchesDueForDigest(frequency: Exclude<SavedSearchDigestFrequency, "none">, windowStartedBefore: Date, limit: number): Promise<SavedSearchDigestEntry[]>;
+  markSavedSearchDigestSent(id: string, sentAt: Date): Promise<void>;
+
+  // Geocoding cache operations
+  getGeocodedPlace(query: string): Promise<GeocodedPlace | undefined>;
+  saveGeocodedPlace(place: Pick<GeocodedPlace, "query" | "lat" | "long">): Promise<void>;
   
   // Favorites operations
-  toggleFavorite(userId: string, resourceId: string, on: boolean): Promise<void>;
-  listFavorites(userId: string, params?: { page?: number; pageSize?: number }): Promise<{ items: (Favorite & { resource: Resource & { has_location: boolean } })[], total: number }>;
+  toggleFavorite(userId: string, resourceId: string, on: boolean, farmId?: string): Promise<void>;
+  listFavorites(userId: string, params?: { page?: number; pageSize?: number }, farmId?: string): Promise<{ items: (Favorite & { resource: PublicResource })[], total: number }>;
   
   // Forum post favorites operations
   toggleForumPostFavorite(userId: string, postId: string): Promise<{ isFavorited: boolean }>;
@@ -138,7 +591,7 @@ export interface IStorage {
   }>;
   
   // Search operations
-  searchResources(query: string, types?: string[]): Promise<Resource[]>;
+  searchResources(query: string, types?: string[]): Promise<PublicResourceRow[]>;
   searchBlogPosts(query: string): Promise<BlogPost[]>;
   searchForumPosts(query: string): Promise<any[]>;
   searchProducts(query: string): Promise<any[]>;
@@ -158,7 +611,7 @@ export interface IStorage {
   
   // Expert request operations
   createExpertRequest(request: InsertExpertRequest): Promise<ExpertRequest>;
-  getUserExpertRequests(userId: string): Promise<(ExpertRequest & { user: User & { profile: Profile } })[]>;
+  getUserExpertRequests(userId: string, farmId?: string): Promise<(ExpertRequest & { user: User & { profile: Profile } })[]>;
   getAllExpertRequests(): Promise<(ExpertRequest & { user: User & { profile: Profile } })[]>;
   updateExpertRequestStatus(id: string, status: string, adminNotes?: string): Promise<ExpertRequest>;
   
@@ -185,9 +638,9 @@ export interface IStorage {
   
   // Farm Assessment operations (legacy - keeping for existing farm roadmap)
   createFarmAssessment(assessment: InsertFarmAssessment): Promise<FarmAssessment>;
-  getFarmAssessmentsByUser(userId: string): Promise<FarmAssessment[]>;
+  getFarmAssessmentsByUser(userId: string, farmId?: string): Promise<FarmAssessment[]>;
   createFarmProfile(profile: InsertFarmProfile): Promise<FarmProfile>;
-  getFarmProfileByUser(userId: string): Promise<FarmProfile | undefined>;
+  getFarmProfileByUser(userId: string, farmId?: string): Promise<FarmProfile | undefined>;
   createFarmRecommendations(recommendations: InsertFarmRecommendation[]): Promise<FarmRecommendation[]>;
   getFarmRecommendationsByProfile(profileId: string): Promise<FarmRecommendation[]>;
 
@@ -210,6 +663,19 @@ export interface IStorage {
   createAiAgentConfig(config: InsertAiAgentConfig): Promise<AiAgentConfig>;
   updateAiAgentConfig(id: string, updates: Partial<AiAgentConfig>): Promise<AiAgentConfig>;
   deleteAiAgentConfig(id: string): Promise<void>;
+
+  // Account data operations (member self-service export and deletion)
+  getUserDataExport(userId: string): Promise<UserDataExport | undefined>;
+  deleteUserAccount(userId: string): Promise<void>;
+
+  // App settings operations
+  getAppSetting<T>(id: string): Promise<T | undefined>;
+  setAppSetting(id: string, value: unknown, updatedBy: string): Promise<AppSetting>;
+
+  // Admin audit log operations (append-only)
+  createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog>;
+  listAdminAuditLogs(filter: AdminAuditLogFilter, params?: { page?: number; pageSize?: number }): Promise<{ items: AdminAuditLog[]; total: number }>;
+  getAuditSnapshot(entityType: AuditEntityType, id: string): Promise<Record<string, unknown> | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -230,7 +696,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUser(userData: InsertUser): Promise<User> {
-    const [user] = await db
+    return this.insertUser(db, userData);
+  }
+
+  // Account, profile and farm membership all land or none do, so a spent
+  // invite code can't leave a half-registered account behind
+  async createMember(userData: InsertUser, profileData: InsertProfile, invitation?: FarmInvitation): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const user = await this.insertUser(tx, userData);
+      await this.insertProfile(tx, user.id, profileData);
+      if (invitation) {
+        await this.insertInvitationAcceptance(tx, invitation, user.id);
+      }
+      return user;
+    });
+  }
+
+  private async insertUser(executor: DbExecutor, userData: InsertUser): Promise<User> {
+    const [user] = await executor
       .insert(users)
       .values({
         id: randomUUID(),
@@ -253,6 +736,19 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Conditional update so two requests can't both spend the same code
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const claimed = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+      ))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
   async updateUserPassword(id: string, passwordHash: string): Promise<User> {
     const [user] = await db
       .update(users)
@@ -262,6 +758,422 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Session operations
+  async createSession(sessionData: InsertSession): Promise<Session> {
+    const [session] = await db
+      .insert(sessions)
+      .values(sessionData)
+      .returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async updateSession(id: string, updates: Partial<Session>): Promise<Session> {
+    const [session] = await db
+      .update(sessions)
+      .set(updates)
+      .where(eq(sessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async listActiveSessions(userId: string): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)));
+  }
+
+  async revokeAllUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+    const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+    if (exceptSessionId) {
+      conditions.push(ne(sessions.id, exceptSessionId));
+    }
+
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions));
+  }
+
+  // Two-factor backup code operations
+  async replaceBackupCodes(userId: string, codeHashes: string[]): Promise<TwoFactorBackupCode[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+      return await tx
+        .insert(twoFactorBackupCodes)
+        .values(codeHashes.map(codeHash => ({
+          id: randomUUID(),
+          userId,
+          codeHash,
+        })))
+        .returning();
+    });
+  }
+
+  async countUnusedBackupCodes(userId: string): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(twoFactorBackupCodes)
+      .where(and(eq(twoFactorBackupCodes.userId, userId), isNull(twoFactorBackupCodes.usedAt)));
+    return Number(count);
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    // Conditional update so a code can't be redeemed twice by concurrent requests
+    const consumed = await db
+      .update(twoFactorBackupCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorBackupCodes.userId, userId),
+        eq(twoFactorBackupCodes.codeHash, codeHash),
+        isNull(twoFactorBackupCodes.usedAt)
+      ))
+      .returning();
+    return consumed.length > 0;
+  }
+
+  async deleteBackupCodes(userId: string): Promise<void> {
+    await db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+  }
+
+  // Brute-force protection operations
+  async recordAuthAttempt(attempt: InsertAuthAttempt): Promise<void> {
+    await db.insert(authAttempts).values({ id: randomUUID(), ...attempt });
+  }
+
+  async getAuthAttemptStats(filter: { kind: "login" | "password_reset" | "magic_link"; since: Date; ipAddress?: string; userId?: string; failedOnly?: boolean }): Promise<{ count: number; lastAttemptAt: Date | null }> {
+    const conditions = [eq(authAttempts.kind, filter.kind), gte(authAttempts.createdAt, filter.since)];
+    if (filter.ipAddress) {
+      conditions.push(eq(authAttempts.ipAddress, filter.ipAddress));
+    }
+    if (filter.userId) {
+      conditions.push(eq(authAttempts.userId, filter.userId));
+    }
+    if (filter.failedOnly) {
+      conditions.push(eq(authAttempts.succeeded, false));
+    }
+
+    const [stats] = await db
+      .select({
+        count: sql<number>`count(*)`,
+        lastAttemptAt: sql<string | null>`max(${authAttempts.createdAt})`,
+      })
+      .from(authAttempts)
+      .where(and(...conditions));
+
+    return {
+      count: Number(stats.count),
+      lastAttemptAt: stats.lastAttemptAt ? new Date(stats.lastAttemptAt) : null,
+    };
+  }
+
+  async pruneAuthAttempts(before: Date): Promise<void> {
+    await db.delete(authAttempts).where(lt(authAttempts.createdAt, before));
+  }
+
+  // Failures before windowStart no longer count; see recentFailureCount
+  async recordFailedLogin(userId: string, windowStart: Date): Promise<User> {
+    // Increment in SQL so concurrent failures are all counted
+    const [user] = await db
+      .update(users)
+      .set({
+        failedLoginAttempts: sql`CASE
+          WHEN ${gt(users.lastFailedLoginAt, windowStart)} THEN ${users.failedLoginAttempts} + 1
+          ELSE 1
+        END`,
+        lastFailedLoginAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async lockUser(userId: string, until: Date): Promise<void> {
+    await db.update(users).set({ lockedUntil: until }).where(eq(users.id, userId));
+  }
+
+  async resetFailedLogins(userId: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  // Magic link sign-in operations
+  async createMagicLinkToken(tokenData: InsertMagicLinkToken): Promise<MagicLinkToken> {
+    const [token] = await db
+      .insert(magicLinkTokens)
+      .values({
+        id: randomUUID(),
+        ...tokenData,
+      })
+      .returning();
+    return token;
+  }
+
+  // Marks the link used in the same statement that checks it, so a link
+  // opened twice at once still signs in only once
+  async consumeMagicLinkToken(tokenHash: string): Promise<MagicLinkToken | undefined> {
+    const [token] = await db
+      .update(magicLinkTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(magicLinkTokens.tokenHash, tokenHash),
+        isNull(magicLinkTokens.usedAt),
+        gt(magicLinkTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  // Personal API token operations
+  async createApiToken(tokenData: InsertApiToken): Promise<ApiToken> {
+    const [token] = await db
+      .insert(apiTokens)
+      .values({
+        id: randomUUID(),
+        ...tokenData,
+      })
+      .returning();
+    return token;
+  }
+
+  // Revoked tokens are hidden; expired ones stay listed until revoked
+  async listApiTokens(userId: string): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async touchApiToken(id: string, ipAddress: string | null): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress })
+      .where(eq(apiTokens.id, id));
+  }
+
+  async revokeApiToken(userId: string, id: string): Promise<boolean> {
+    const revoked = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return revoked.length > 0;
+  }
+
+  // Farm (organization) operations
+  async createFarm(farmData: InsertFarm, ownerId: string): Promise<Farm> {
+    return await db.transaction(async (tx) => {
+      const [farm] = await tx
+        .insert(farms)
+        .values({
+          id: randomUUID(),
+          ...farmData,
+          createdBy: ownerId,
+        })
+        .returning();
+
+      await tx.insert(farmMemberships).values({
+        id: randomUUID(),
+        farmId: farm.id,
+        userId: ownerId,
+        role: FarmRole.OWNER,
+      });
+
+      return farm;
+    });
+  }
+
+  async getFarm(id: string): Promise<Farm | undefined> {
+    const [farm] = await db.select().from(farms).where(eq(farms.id, id));
+    return farm;
+  }
+
+  async updateFarm(id: string, updates: Partial<Farm>): Promise<Farm> {
+    const [farm] = await db
+      .update(farms)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(farms.id, id))
+      .returning();
+    return farm;
+  }
+
+  async deleteFarm(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Shared records fall back to belonging only to the member who created them
+      await tx.update(favorites).set({ farm_id: null }).where(eq(favorites.farm_id, id));
+      await tx.update(expertRequests).set({ farmId: null }).where(eq(expertRequests.farmId, id));
+      await tx.update(farmAssessments).set({ farmId: null }).where(eq(farmAssessments.farmId, id));
+      await tx.update(farmProfiles).set({ farmId: null }).where(eq(farmProfiles.farmId, id));
+
+      await tx.delete(farmInvitations).where(eq(farmInvitations.farmId, id));
+      await tx.delete(farmMemberships).where(eq(farmMemberships.farmId, id));
+      await tx.delete(farms).where(eq(farms.id, id));
+    });
+  }
+
+  async getFarmMembership(userId: string): Promise<(FarmMembership & { farm: Farm }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(farmMemberships)
+      .innerJoin(farms, eq(farmMemberships.farmId, farms.id))
+      .where(eq(farmMemberships.userId, userId));
+
+    if (!result) return undefined;
+    return { ...result.farm_memberships, farm: result.farms };
+  }
+
+  async listFarmMembers(farmId: string): Promise<(FarmMembership & { username: string; email: string; name: string | null })[]> {
+    const results = await db
+      .select()
+      .from(farmMemberships)
+      .innerJoin(users, eq(farmMemberships.userId, users.id))
+      .leftJoin(profiles, eq(users.id, profiles.userId))
+      .where(eq(farmMemberships.farmId, farmId))
+      .orderBy(farmMemberships.createdAt);
+
+    return results.map((result: any) => ({
+      ...result.farm_memberships,
+      username: result.users.username,
+      email: result.users.email,
+      name: result.profiles?.name || null,
+    }));
+  }
+
+  async addFarmMember(farmId: string, userId: string, role: FarmRole): Promise<FarmMembership> {
+    const [membership] = await db
+      .insert(farmMemberships)
+      .values({
+        id: randomUUID(),
+        farmId,
+        userId,
+        role,
+      })
+      .returning();
+    return membership;
+  }
+
+  async updateFarmMemberRole(farmId: string, userId: string, role: FarmRole): Promise<FarmMembership | undefined> {
+    const [membership] = await db
+      .update(farmMemberships)
+      .set({ role })
+      .where(and(eq(farmMemberships.farmId, farmId), eq(farmMemberships.userId, userId)))
+      .returning();
+    return membership;
+  }
+
+  async removeFarmMember(farmId: string, userId: string): Promise<void> {
+    // Records the member shared with the farm stay with the farm
+    await db
+      .delete(farmMemberships)
+      .where(and(eq(farmMemberships.farmId, farmId), eq(farmMemberships.userId, userId)));
+  }
+
+  async createFarmInvitation(invitationData: Omit<FarmInvitation, "id" | "createdAt" | "acceptedAt" | "acceptedBy" | "revokedAt">): Promise<FarmInvitation> {
+    const [invitation] = await db
+      .insert(farmInvitations)
+      .values({
+        id: randomUUID(),
+        ...invitationData,
+      })
+      .returning();
+    return invitation;
+  }
+
+  async listPendingFarmInvitations(farmId: string): Promise<FarmInvitation[]> {
+    return await db
+      .select()
+      .from(farmInvitations)
+      .where(and(
+        eq(farmInvitations.farmId, farmId),
+        isNull(farmInvitations.acceptedAt),
+        isNull(farmInvitations.revokedAt),
+        gt(farmInvitations.expiresAt, new Date())
+      ))
+      .orderBy(desc(farmInvitations.createdAt));
+  }
+
+  async getFarmInvitationByCodeHash(codeHash: string): Promise<(FarmInvitation & { farm: Farm }) | undefined> {
+    const [result] = await db
+      .select()
+      .from(farmInvitations)
+      .innerJoin(farms, eq(farmInvitations.farmId, farms.id))
+      .where(eq(farmInvitations.codeHash, codeHash));
+
+    if (!result) return undefined;
+    return { ...result.farm_invitations, farm: result.farms };
+  }
+
+  async revokeFarmInvitation(farmId: string, id: string): Promise<boolean> {
+    const revoked = await db
+      .update(farmInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(farmInvitations.id, id),
+        eq(farmInvitations.farmId, farmId),
+        isNull(farmInvitations.acceptedAt)
+      ))
+      .returning();
+    return revoked.length > 0;
+  }
+
+  async acceptFarmInvitation(invitation: FarmInvitation, userId: string): Promise<FarmMembership> {
+    return await db.transaction(async (tx) => this.insertInvitationAcceptance(tx, invitation, userId));
+  }
+
+  private async insertInvitationAcceptance(executor: DbExecutor, invitation: FarmInvitation, userId: string): Promise<FarmMembership> {
+    // Conditional update so an invitation can only be used once, and only
+    // while it's still open
+    const accepted = await executor
+      .update(farmInvitations)
+      .set({ acceptedAt: new Date(), acceptedBy: userId })
+      .where(and(
+        eq(farmInvitations.id, invitation.id),
+        isNull(farmInvitations.acceptedAt),
+        isNull(farmInvitations.revokedAt),
+        gt(farmInvitations.expiresAt, new Date())
+      ))
+      .returning();
+    if (accepted.length === 0) {
+      throw new FarmInvitationUnavailableError();
+    }
+
+    const [membership] = await executor
+      .insert(farmMemberships)
+      .values({
+        id: randomUUID(),
+        farmId: invitation.farmId,
+        userId,
+        role: invitation.role,
+      })
+      .returning();
+    return membership;
+  }
+
   // Profile operations
   async getProfile(userId: string): Promise<Profile | undefined> {
     const [profile] = await db.select().from(profiles).where(eq(profiles.userId, userId));
@@ -269,7 +1181,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProfile(userId: string, profileData: InsertProfile): Promise<Profile> {
-    const [profile] = await db
+    return this.insertProfile(db, userId, profileData);
+  }
+
+  private async insertProfile(executor: DbExecutor, userId: string, profileData: InsertProfile): Promise<Profile> {
+    const [profile] = await executor
       .insert(profiles)
       .values({ 
         ...profileData, 
@@ -322,13 +1238,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Resource operations
-  async getAllResources(): Promise<Resource[]> {
-    return await db.select().from(resources);
+  async getAllResources(): Promise<PublicResourceRow[]> {
+    return await db.select(publicResourceColumns()).from(resources);
   }
 
-  async getFilteredResources(state?: string, farmType?: string): Promise<Resource[]> {
+  async getFilteredResources(state?: string, farmType?: string): Promise<PublicResourceRow[]> {
     if (!state && !farmType) {
-      return await db.select().from(resources);
+      return await db.select(publicResourceColumns()).from(resources);
     }
     
     const conditions = [];
@@ -340,7 +1256,7 @@ export class DatabaseStorage implements IStorage {
     }
     
     return await db
-      .select()
+      .select(publicResourceColumns())
       .from(resources)
       .where(sql`${conditions.join(' OR ')}`);
   }
@@ -372,7 +1288,7 @@ export class DatabaseStorage implements IStorage {
         long: resources.long,
         data: resources.data,
         summary: resources.summary,
-        ugga_verified: resources.ugga_verified,
+        ugga_verified: RESOURCE_VERIFICATION_CURRENT,
         quality_score: resources.quality_score
       })
       .from(resources)
@@ -423,7 +1339,7 @@ export class DatabaseStorage implements IStorage {
       ) || [],
       cost: 'free', // Default assumption
       ugga_verified: item.ugga_verified || false,
-      quality_score: item.quality_score || 75,
+      quality_score: item.quality_score ?? 0,
       has_location: !!(item.lat && item.long),
       region: 'US', // Default
       summary: item.summary || (item.tags?.length > 0 ? `Resource about ${item.tags.slice(0, 3).join(', ')}.` : 'Educational resource for greenhouse growers.'),
@@ -452,240 +1368,1372 @@ export class DatabaseStorage implements IStorage {
     return { items, total };
   }
 
-  async getResourceById(id: string): Promise<(Resource & { has_location: boolean }) | undefined> {
-    const [resource] = await db
+  async getResourceById(id: string): Promise<PublicResource | undefined> {
+    const [resource] = await db
+      .select(publicResourceColumns())
+      .from(resources)
+      .where(eq(resources.id, id));
+
+    if (!resource) return undefined;
+    return { ...resource, has_location: resource.lat !== null && resource.long !== null };
+  }
+
+  async createResource(resourceData: InsertResource, changedBy?: string): Promise<Resource> {
+    const resource = await db.transaction(async (tx) => {
+      const [resource] = await tx
+        .insert(resources)
+        .values({ 
+          ...withoutManagedResourceFields(resourceData),
+          id: randomUUID(),
+          type: resourceData.type as ResourceType | null
+        })
+        .returning();
+      await this.recordResourceRevision(tx, resource, { changeType: "create", changedBy });
+      return resource;
+    });
+    return this.indexResource(resource.id);
+  }
+
+  async updateResource(id: string, updates: Partial<Resource>, changedBy?: string): Promise<Resource> {
+    const changes = withoutManagedResourceFields(updates);
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(resources).where(eq(resources.id, id));
+      const [after] = await tx
+        .update(resources)
+        .set({ ...changes, ...resetLinkStatusOnUrlChange(changes.url) })
+        .where(eq(resources.id, id))
+        .returning();
+      if (after) {
+        await this.recordResourceRevision(tx, after, { changeType: "update", changedBy, before });
+      }
+    });
+    return this.indexResource(id);
+  }
+
+  /**
+   * Append a revision holding the resource's content after a change. When a
+   * resource written before revision history existed changes for the first
+   * time, its earlier content is kept as a baseline revision first.
+   */
+  private async recordResourceRevision(executor: DbExecutor, resource: Resource, revision: {
+    changeType: ResourceRevisionChangeType;
+    changedBy?: string | null;
+    before?: Resource;
+    restoredFrom?: number;
+  }): Promise<void> {
+    const [{ latest }] = await executor
+      .select({ latest: sql<number | null>`max(${resourceRevisions.revisionNumber})` })
+      .from(resourceRevisions)
+      .where(eq(resourceRevisions.resourceId, resource.id));
+    let revisionNumber = Number(latest) || 0;
+
+    if (revisionNumber === 0 && revision.before) {
+      await executor.insert(resourceRevisions).values({
+        id: randomUUID(),
+        resourceId: resource.id,
+        revisionNumber: ++revisionNumber,
+        changeType: "baseline",
+        snapshot: resourceContent(revision.before),
+      });
+    }
+
+    await executor.insert(resourceRevisions).values({
+      id: randomUUID(),
+      resourceId: resource.id,
+      revisionNumber: revisionNumber + 1,
+      changeType: revision.changeType,
+      changedBy: revision.changedBy ?? null,
+      restoredFrom: revision.restoredFrom ?? null,
+      snapshot: resourceContent(resource),
+    });
+  }
+
+  // The search document and quality score are built from the stored row, so
+  // they run after the write
+  private async indexResource(id: string): Promise<Resource> {
+    await this.refreshResourceQualityScores([id]);
+    const [resource] = await db
+      .update(resources)
+      .set({ search_vector: RESOURCE_SEARCH_DOCUMENT })
+      .where(eq(resources.id, id))
+      .returning();
+    return resource;
+  }
+
+  // Rebuilds the search vectors of the given resources, or of every resource
+  // that doesn't have one yet
+  async refreshResourceSearchVectors(ids?: string[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+
+    const updated = await db
+      .update(resources)
+      .set({ search_vector: RESOURCE_SEARCH_DOCUMENT })
+      .where(ids ? inArray(resources.id, ids) : isNull(resources.search_vector))
+      .returning({ id: resources.id });
+    return updated.length;
+  }
+
+  // Recomputes the quality scores of the given resources, or of all of them
+  async refreshResourceQualityScores(ids?: string[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+
+    const clicksSince = new Date(Date.now() - QUALITY_CLICK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const rows = await db
+      .select({
+        id: resources.id,
+        type: resources.type,
+        summary: resources.summary,
+        image_url: resources.image_url,
+        data: resources.data,
+        link_status: resources.link_status,
+        verification_status: resources.verification_status,
+        verified_at: resources.verified_at,
+        review_interval_days: resources.review_interval_days,
+        favorites: sql<number>`(SELECT count(*) FROM ${favorites} WHERE ${favorites.resource_id} = ${QUALIFIED_RESOURCE_ID})`.mapWith(Number),
+        clicks: sql<number>`(
+          SELECT count(*) FROM ${analytics_events}
+          WHERE ${analytics_events.resource_id} = ${QUALIFIED_RESOURCE_ID}
+            AND ${analytics_events.event_type} = 'outbound_click'
+            AND ${analytics_events.created_at} >= ${clicksSince}
+        )`.mapWith(Number),
+      })
+      .from(resources)
+      .where(ids ? inArray(resources.id, ids) : undefined);
+
+    const scoredAt = new Date();
+    for (const { id, favorites: favoriteCount, clicks, ...resource } of rows) {
+      const { score, breakdown } = computeResourceQuality({ resource, favorites: favoriteCount, clicks }, scoredAt);
+      await db
+        .update(resources)
+        .set({ quality_score: score, quality_breakdown: breakdown, quality_scored_at: scoredAt })
+        .where(eq(resources.id, id));
+    }
+    return rows.length;
+  }
+
+  async getResourceQuality(id: string): Promise<Pick<Resource, "id" | "quality_score" | "quality_breakdown" | "quality_scored_at"> | undefined> {
+    const [quality] = await db
+      .select({
+        id: resources.id,
+        quality_score: resources.quality_score,
+        quality_breakdown: resources.quality_breakdown,
+        quality_scored_at: resources.quality_scored_at,
+      })
+      .from(resources)
+      .where(eq(resources.id, id));
+    return quality;
+  }
+
+  async deleteResource(id: string): Promise<void> {
+    // First delete related analytics events to avoid foreign key constraint violation
+    await db.delete(analytics_events).where(eq(analytics_events.resource_id, id));
+    
+    // Then delete related favorites
+    await db.delete(favorites).where(eq(favorites.resource_id, id));
+
+    await db.delete(resourceLinkChecks).where(eq(resourceLinkChecks.resourceId, id));
+    await db.delete(resourceReviewEvents).where(eq(resourceReviewEvents.resourceId, id));
+    await db.delete(resourceRevisions).where(eq(resourceRevisions.resourceId, id));
+    await db.delete(resourceRatings).where(eq(resourceRatings.resourceId, id));
+    await db.delete(resourceCollectionItems).where(eq(resourceCollectionItems.resourceId, id));
+    
+    // Finally delete the resource itself
+    await db.delete(resources).where(eq(resources.id, id));
+  }
+
+  // Favorites operations
+  // Favorites of farm members are shared: a member sees their own plus any
+  // saved for their farm
+  private favoritesScope(userId: string, farmId?: string) {
+    return farmId
+      ? or(eq(favorites.user_id, userId), eq(favorites.farm_id, farmId))!
+      : eq(favorites.user_id, userId);
+  }
+
+  async toggleFavorite(userId: string, resourceId: string, on: boolean, farmId?: string): Promise<void> {
+    if (on) {
+      try {
+        await db
+          .insert(favorites)
+          .values({ user_id: userId, resource_id: resourceId, farm_id: farmId ?? null })
+          .onConflictDoNothing();
+      } catch (error) {
+        // Ignore conflict errors (already favorited)
+      }
+    } else {
+      await db
+        .delete(favorites)
+        .where(and(
+          this.favoritesScope(userId, farmId),
+          eq(favorites.resource_id, resourceId)
+        ));
+    }
+  }
+
+  async toggleForumPostFavorite(userId: string, postId: string): Promise<{ isFavorited: boolean }> {
+    // Check if already favorited
+    const [existing] = await db
+      .select()
+      .from(forumPostFavorites)
+      .where(
+        and(
+          eq(forumPostFavorites.userId, userId),
+          eq(forumPostFavorites.postId, postId)
+        )
+      );
+
+    if (existing) {
+      // Remove favorite
+      await db.delete(forumPostFavorites).where(
+        and(
+          eq(forumPostFavorites.userId, userId),
+          eq(forumPostFavorites.postId, postId)
+        )
+      );
+      return { isFavorited: false };
+    } else {
+      // Add favorite
+      await db.insert(forumPostFavorites).values({
+        userId,
+        postId,
+      });
+      return { isFavorited: true };
+    }
+  }
+
+  async getUserForumPostFavorites(userId: string): Promise<string[]> {
+    const favorites = await db
+      .select()
+      .from(forumPostFavorites)
+      .where(eq(forumPostFavorites.userId, userId));
+    
+    return favorites.map(f => f.postId);
+  }
+
+  async isForumPostFavorited(userId: string, postId: string): Promise<boolean> {
+    const [favorite] = await db
+      .select()
+      .from(forumPostFavorites)
+      .where(
+        and(
+          eq(forumPostFavorites.userId, userId),
+          eq(forumPostFavorites.postId, postId)
+        )
+      );
+    
+    return !!favorite;
+  }
+
+  async listFavorites(userId: string, params?: { page?: number; pageSize?: number }, farmId?: string): Promise<{ items: (Favorite & { resource: PublicResource })[], total: number }> {
+    const { page = 1, pageSize = 24 } = params || {};
+    const offset = (page - 1) * pageSize;
+    const scope = this.favoritesScope(userId, farmId);
+    
+    // Get total count (several farm members may have saved the same resource)
+    const [{ count: total }] = await db
+      .select({ count: sql<number>`count(distinct ${favorites.resource_id})` })
+      .from(favorites)
+      .where(scope);
+    
+    // Most recent save of each resource
+    const scopedFavorites = db
+      .selectDistinctOn([favorites.resource_id])
+      .from(favorites)
+      .where(scope)
+      .orderBy(favorites.resource_id, desc(favorites.created_at))
+      .as("scoped_favorites");
+
+    // Get items
+    const results = await db
+      .select({
+        id: scopedFavorites.id,
+        user_id: scopedFavorites.user_id,
+        resource_id: scopedFavorites.resource_id,
+        farm_id: scopedFavorites.farm_id,
+        created_at: scopedFavorites.created_at,
+        resource: publicResourceColumns(),
+      })
+      .from(scopedFavorites)
+      .innerJoin(resources, eq(scopedFavorites.resource_id, resources.id))
+      .orderBy(desc(scopedFavorites.created_at))
+      .offset(offset)
+      .limit(pageSize);
+    
+    const items = results.map(({ resource, ...favorite }) => ({
+      ...favorite,
+      resource: { ...resource, has_location: resource.lat !== null && resource.long !== null },
+    }));
+    
+    return { items, total };
+  }
+
+  // Resource import operations
+  async findResourcesForImport(matchBy: "url" | "externalId", keys: string[]): Promise<Resource[]> {
+    if (keys.length === 0) return [];
+    const column = matchBy === "url" ? resources.url : resources.external_id;
+    return db.select().from(resources).where(inArray(column, keys));
+  }
+
+  // Just the type-specific part of resources, for checking it against the data schemas
+  async listResourceData(ids?: string[]): Promise<Pick<Resource, "id" | "title" | "type" | "data">[]> {
+    return db
+      .select({ id: resources.id, title: resources.title, type: resources.type, data: resources.data })
+      .from(resources)
+      .where(ids ? inArray(resources.id, ids) : undefined)
+      .orderBy(asc(resources.type), asc(resources.title));
+  }
+
+  // All rows are written or none are; each write is recorded against the batch
+  // so it can be rolled back later
+  async commitResourceImport(batchData: InsertResourceImportBatch, rows: ResourceImportWrite[]): Promise<ResourceImportBatch> {
+    const batch = await db.transaction(async (tx) => {
+      const [batch] = await tx
+        .insert(resourceImportBatches)
+        .values({ ...batchData, id: randomUUID() })
+        .returning();
+
+      for (const row of rows) {
+        let resourceId = row.resourceId;
+        let previous: Resource | null = null;
+
+        if (resourceId) {
+          [previous] = await tx.select().from(resources).where(eq(resources.id, resourceId));
+          if (!previous) {
+            throw new Error(`Resource ${resourceId} for row ${row.rowNumber} no longer exists`);
+          }
+          const [updated] = await tx
+            .update(resources)
+            .set({
+              ...row.values,
+              ...resetLinkStatusOnUrlChange(row.values.url),
+              data: { ...(previous.data as Record<string, unknown> | null), ...row.values.data },
+            })
+            .where(eq(resources.id, resourceId))
+            .returning();
+          await this.recordResourceRevision(tx, updated, { changeType: "import", changedBy: batchData.createdBy, before: previous });
+        } else {
+          resourceId = randomUUID();
+          const [created] = await tx.insert(resources).values({
+            ...row.values,
+            id: resourceId,
+            title: row.values.title!,
+            url: row.values.url!,
+            type: batchData.resourceType as ResourceType,
+          }).returning();
+          await this.recordResourceRevision(tx, created, { changeType: "import", changedBy: batchData.createdBy });
+        }
+
+        await tx.insert(resourceImportBatchItems).values({
+          id: randomUUID(),
+          batchId: batch.id,
+          resourceId,
+          rowNumber: row.rowNumber,
+          action: previous ? "updated" : "created",
+          previous,
+        });
+      }
+
+      return batch;
+    });
+
+    const items = await db
+      .select({ resourceId: resourceImportBatchItems.resourceId })
+      .from(resourceImportBatchItems)
+      .where(eq(resourceImportBatchItems.batchId, batch.id));
+    await this.refreshResourceSearchVectors(items.map(item => item.resourceId));
+
+    return batch;
+  }
+
+  async listResourceImportBatches(limit = 20): Promise<ResourceImportBatch[]> {
+    return db
+      .select()
+      .from(resourceImportBatches)
+      .orderBy(desc(resourceImportBatches.createdAt))
+      .limit(limit);
+  }
+
+  async getResourceImportBatch(id: string): Promise<ResourceImportBatch | undefined> {
+    const [batch] = await db.select().from(resourceImportBatches).where(eq(resourceImportBatches.id, id));
+    return batch;
+  }
+
+  // Deletes the resources the batch created and restores the ones it updated
+  // to their state before the import. Later edits to those resources are lost.
+  async rollbackResourceImport(id: string, userId: string): Promise<ResourceImportBatch> {
+    const restoredIds: string[] = [];
+
+    const batch = await db.transaction(async (tx) => {
+      // Claiming the batch first stops two rollbacks of it running at once
+      const [batch] = await tx
+        .update(resourceImportBatches)
+        .set({ status: "rolled_back", rolledBackBy: userId, rolledBackAt: new Date() })
+        .where(and(eq(resourceImportBatches.id, id), eq(resourceImportBatches.status, "committed")))
+        .returning();
+      if (!batch) {
+        throw new Error(`Import batch ${id} is not committed`);
+      }
+
+      const items = await tx
+        .select()
+        .from(resourceImportBatchItems)
+        .where(eq(resourceImportBatchItems.batchId, id));
+
+      const createdIds = items.filter(item => item.action === "created").map(item => item.resourceId);
+      if (createdIds.length > 0) {
+        await tx.delete(analytics_events).where(inArray(analytics_events.resource_id, createdIds));
+        await tx.delete(favorites).where(inArray(favorites.resource_id, createdIds));
+        await tx.delete(resourceLinkChecks).where(inArray(resourceLinkChecks.resourceId, createdIds));
+        await tx.delete(resourceReviewEvents).where(inArray(resourceReviewEvents.resourceId, createdIds));
+        await tx.delete(resourceRevisions).where(inArray(resourceRevisions.resourceId, createdIds));
+        await tx.delete(resourceRatings).where(inArray(resourceRatings.resourceId, createdIds));
+        await tx.delete(resourceCollectionItems).where(inArray(resourceCollectionItems.resourceId, createdIds));
+        await tx.delete(resources).where(inArray(resources.id, createdIds));
+      }
+
+      for (const item of items) {
+        if (item.action !== "updated" || !item.previous) continue;
+        // Snapshots went through JSON, so timestamps come back as strings
+        // Link status belongs to the current URL and ratings to the members,
+        // not the snapshot
+        const {
+          id: resourceId,
+          search_vector: _searchVector,
+          link_status: _linkStatus,
+          link_checked_at: _linkCheckedAt,
+          rating_average: _ratingAverage,
+          rating_count: _ratingCount,
+          last_verified_at,
+          ...previous
+        } = item.previous as Resource;
+        const [restored] = await tx
+          .update(resources)
+          .set({
+            ...previous,
+            ...resetLinkStatusOnUrlChange(previous.url),
+            last_verified_at: last_verified_at ? new Date(last_verified_at) : null,
+          })
+          .where(eq(resources.id, resourceId))
+          .returning();
+        if (!restored) continue;
+        await this.recordResourceRevision(tx, restored, { changeType: "import_rollback", changedBy: userId });
+        restoredIds.push(resourceId);
+      }
+
+      return batch;
+    });
+
+    await this.refreshResourceSearchVectors(restoredIds);
+    return batch;
+  }
+
+  // Resource link check operations; checks are recorded by server/linkChecker.ts
+  async listResourceLinkChecks(resourceId: string, limit = 20): Promise<ResourceLinkCheck[]> {
+    return db
+      .select()
+      .from(resourceLinkChecks)
+      .where(eq(resourceLinkChecks.resourceId, resourceId))
+      .orderBy(desc(resourceLinkChecks.checkedAt))
+      .limit(limit);
+  }
+
+  // Broken links first, then the longest since the editorial verification
+  // lapsed; a passing link check doesn't count as a review
+  async getResourceReviewQueue({ type, limit = 100 }: { type?: string; limit?: number }): Promise<{ items: ResourceReviewItem[]; total: number }> {
+    const broken = sql<boolean>`COALESCE(${resources.link_status} = 'broken', false)`;
+    const overdue = sql<boolean>`NOT ${RESOURCE_VERIFICATION_CURRENT}`;
+    const expiresAt = sql`COALESCE(
+      ${resources.verified_at} + make_interval(days => COALESCE(${resources.review_interval_days}, ${DEFAULT_REVIEW_INTERVAL_DAYS})),
+      'epoch'::timestamp
+    )`;
+    const where = and(or(broken, overdue), type ? eq(resources.type, type as ResourceType) : undefined);
+
+    const rows = await db
+      .select({
+        id: resources.id,
+        title: resources.title,
+        url: resources.url,
+        type: resources.type,
+        verified_at: resources.verified_at,
+        review_interval_days: resources.review_interval_days,
+        link_status: resources.link_status,
+        link_checked_at: resources.link_checked_at,
+        broken,
+        overdue,
+      })
+      .from(resources)
+      .where(where)
+      .orderBy(desc(broken), asc(expiresAt), asc(resources.id))
+      .limit(limit);
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(resources)
+      .where(where);
+
+    const latestChecks = rows.length === 0 ? [] : await db
+      .selectDistinctOn([resourceLinkChecks.resourceId])
+      .from(resourceLinkChecks)
+      .where(inArray(resourceLinkChecks.resourceId, rows.map(row => row.id)))
+      .orderBy(resourceLinkChecks.resourceId, desc(resourceLinkChecks.checkedAt));
+    const latestByResource = new Map(latestChecks.map(check => [check.resourceId, check]));
+
+    return {
+      items: rows.map(row => ({ ...row, latestCheck: latestByResource.get(row.id) ?? null })),
+      total: Number(count) || 0,
+    };
+  }
+
+  // Resource revision operations
+  async listResourceRevisions(resourceId: string): Promise<ResourceRevisionEntry[]> {
+    const rows = await db
+      .select({ revision: resourceRevisions, authorName: users.username })
+      .from(resourceRevisions)
+      .leftJoin(users, eq(users.id, resourceRevisions.changedBy))
+      .where(eq(resourceRevisions.resourceId, resourceId))
+      .orderBy(desc(resourceRevisions.revisionNumber));
+    return rows.map(row => ({ ...row.revision, authorName: row.authorName }));
+  }
+
+  async getResourceRevision(resourceId: string, revisionId: string): Promise<ResourceRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(resourceRevisions)
+      .where(and(eq(resourceRevisions.id, revisionId), eq(resourceRevisions.resourceId, resourceId)));
+    return revision;
+  }
+
+  // Puts a revision's content back as a new revision; link and verification
+  // state are left as they are. `data` is the snapshot's data once it has been
+  // checked against the current schema for its type.
+  async restoreResourceRevision(resourceId: string, revisionId: string, userId: string, data: Record<string, unknown>): Promise<Resource | undefined> {
+    const revision = await this.getResourceRevision(resourceId, revisionId);
+    if (!revision) return undefined;
+
+    // Only columns the table still has; older snapshots may carry others
+    const columns = getTableColumns(resources);
+    const content = Object.fromEntries(
+      Object.entries(revision.snapshot).filter(([key]) => key in columns)
+    ) as Partial<Resource>;
+    content.data = data;
+
+    const restored = await db.transaction(async (tx) => {
+      const [restored] = await tx
+        .update(resources)
+        .set({ ...withoutManagedResourceFields(content), ...resetLinkStatusOnUrlChange(content.url) })
+        .where(eq(resources.id, resourceId))
+        .returning();
+      if (restored) {
+        await this.recordResourceRevision(tx, restored, { changeType: "restore", changedBy: userId, restoredFrom: revision.revisionNumber });
+      }
+      return restored;
+    });
+    return restored ? this.indexResource(restored.id) : undefined;
+  }
+
+  // Resource verification operations
+  private toReviewState(resource: Omit<ResourceReviewState, "expiresAt">): ResourceReviewState {
+    const intervalDays = resource.review_interval_days ?? DEFAULT_REVIEW_INTERVAL_DAYS;
+    return {
+      ...resource,
+      expiresAt: resource.verification_status === "verified" && resource.verified_at
+        ? new Date(resource.verified_at.getTime() + intervalDays * 24 * 60 * 60 * 1000)
+        : null,
+    };
+  }
+
+  private readonly reviewStateColumns = {
+    id: resources.id,
+    verification_status: resources.verification_status,
+    reviewer_id: resources.reviewer_id,
+    verified_by: resources.verified_by,
+    verified_at: resources.verified_at,
+    review_interval_days: resources.review_interval_days,
+  };
+
+  async getResourceReviewState(id: string): Promise<ResourceReviewState | undefined> {
+    const [resource] = await db
+      .select(this.reviewStateColumns)
+      .from(resources)
+      .where(eq(resources.id, id));
+    return resource ? this.toReviewState(resource) : undefined;
+  }
+
+  // Returns undefined if the resource is no longer in the from status, e.g.
+  // another reviewer moved it first
+  async transitionResourceVerification(id: string, change: {
+    from: ResourceVerificationStatus;
+    to: ResourceVerificationStatus;
+    actorId: string;
+    checklist?: Record<string, boolean>;
+    notes?: string;
+  }): Promise<ResourceReviewState | undefined> {
+    return db.transaction(async (tx) => {
+      const verified = change.to === "verified";
+      const [resource] = await tx
+        .update(resources)
+        .set({
+          verification_status: change.to,
+          ugga_verified: verified,
+          ...(verified ? { verified_by: change.actorId, verified_at: new Date() } : {}),
+        })
+        .where(and(eq(resources.id, id), eq(resources.verification_status, change.from)))
+        .returning(this.reviewStateColumns);
+      if (!resource) return undefined;
+
+      await tx.insert(resourceReviewEvents).values({
+        id: randomUUID(),
+        resourceId: id,
+        actorId: change.actorId,
+        action: "status_change",
+        fromStatus: change.from,
+        toStatus: change.to,
+        checklist: change.checklist ?? null,
+        notes: change.notes ?? null,
+      });
+      return this.toReviewState(resource);
+    });
+  }
+
+  async assignResourceReviewer(id: string, reviewerId: string | null, actorId: string): Promise<ResourceReviewState | undefined> {
+    return db.transaction(async (tx) => {
+      const [resource] = await tx
+        .update(resources)
+        .set({ reviewer_id: reviewerId })
+        .where(eq(resources.id, id))
+        .returning(this.reviewStateColumns);
+      if (!resource) return undefined;
+
+      await tx.insert(resourceReviewEvents).values({
+        id: randomUUID(),
+        resourceId: id,
+        actorId,
+        action: "assign",
+        reviewerId,
+      });
+      return this.toReviewState(resource);
+    });
+  }
+
+  async addResourceReviewNote(id: string, actorId: string, note: { notes: string; checklist?: Record<string, boolean> }): Promise<ResourceReviewEvent> {
+    const [event] = await db
+      .insert(resourceReviewEvents)
+      .values({
+        id: randomUUID(),
+        resourceId: id,
+        actorId,
+        action: "note",
+        notes: note.notes,
+        checklist: note.checklist ?? null,
+      })
+      .returning();
+    return event;
+  }
+
+  async listResourceReviewEvents(resourceId: string): Promise<ResourceReviewTimelineEntry[]> {
+    const actor = alias(users, "actor");
+    const reviewer = alias(users, "reviewer");
+
+    const rows = await db
+      .select({ event: resourceReviewEvents, actorName: actor.username, reviewerName: reviewer.username })
+      .from(resourceReviewEvents)
+      .leftJoin(actor, eq(actor.id, resourceReviewEvents.actorId))
+      .leftJoin(reviewer, eq(reviewer.id, resourceReviewEvents.reviewerId))
+      .where(eq(resourceReviewEvents.resourceId, resourceId))
+      .orderBy(desc(resourceReviewEvents.createdAt));
+    return rows.map(row => ({ ...row.event, actorName: row.actorName, reviewerName: row.reviewerName }));
+  }
+
+  // Anyone who can edit resources can review them
+  async listResourceReviewers(): Promise<Pick<User, "id" | "username" | "email">[]> {
+    const roles = (Object.keys(ROLE_PERMISSIONS) as Role[])
+      .filter(role => ROLE_PERMISSIONS[role].includes(Permission.RESOURCES_EDIT));
+    return db
+      .select({ id: users.id, username: users.username, email: users.email })
+      .from(users)
+      .where(inArray(users.role, roles))
+      .orderBy(users.username);
+  }
+
+  // Verified resources past their review interval go stale
+  async expireResourceVerifications(): Promise<number> {
+    return db.transaction(async (tx) => {
+      const expired = await tx
+        .update(resources)
+        .set({ verification_status: "stale", ugga_verified: false })
+        .where(and(eq(resources.verification_status, "verified"), sql`NOT ${RESOURCE_VERIFICATION_CURRENT}`))
+        .returning({ id: resources.id });
+
+      if (expired.length > 0) {
+        await tx.insert(resourceReviewEvents).values(expired.map(({ id }) => ({
+          id: randomUUID(),
+          resourceId: id,
+          action: "status_change",
+          fromStatus: "verified" as const,
+          toStatus: "stale" as const,
+        })));
+      }
+      return expired.length;
+    });
+  }
+
+  // Resources flagged ugga_verified before the review workflow existed count
+  // as verified from when their link was last verified
+  async adoptLegacyResourceVerifications(): Promise<number> {
+    const adopted = await db
+      .update(resources)
+      .set({
+        verification_status: "verified",
+        verified_at: sql`COALESCE(${resources.last_verified_at}, now())`,
+      })
+      .where(and(eq(resources.ugga_verified, true), eq(resources.verification_status, "draft")))
+      .returning({ id: resources.id });
+    return adopted.length;
+  }
+
+  // Resource submission operations
+  async findResourceByUrl(url: string): Promise<Pick<Resource, "id" | "title" | "type" | "url"> | undefined> {
+    const [resource] = await db
+      .select({ id: resources.id, title: resources.title, type: resources.type, url: resources.url })
+      .from(resources)
+      .where(eq(comparableUrlSql(resources.url), comparableUrl(url)))
+      .limit(1);
+    return resource;
+  }
+
+  async findPendingResourceSubmissionByUrl(url: string): Promise<ResourceSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(resourceSubmissions)
+      .where(and(
+        eq(resourceSubmissions.status, "pending"),
+        eq(comparableUrlSql(resourceSubmissions.url), comparableUrl(url)),
+      ))
+      .limit(1);
+    return submission;
+  }
+
+  async createResourceSubmission(submissionData: InsertResourceSubmission): Promise<ResourceSubmission> {
+    const [submission] = await db
+      .insert(resourceSubmissions)
+      .values({
+        ...submissionData,
+        id: randomUUID(),
+        type: submissionData.type as ResourceType,
+      })
+      .returning();
+    return submission;
+  }
+
+  async getUserResourceSubmissions(userId: string): Promise<ResourceSubmission[]> {
+    return await db
+      .select()
+      .from(resourceSubmissions)
+      .where(eq(resourceSubmissions.userId, userId))
+      .orderBy(desc(resourceSubmissions.createdAt));
+  }
+
+  // Pending submissions are listed oldest first, so the queue is worked in order
+  async listResourceSubmissions(params: { status?: ResourceSubmissionStatus; page?: number; pageSize?: number }): Promise<{ items: ResourceSubmissionEntry[]; total: number }> {
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(100, Math.max(1, params.pageSize || 25));
+    const where = params.status ? eq(resourceSubmissions.status, params.status) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({ submission: resourceSubmissions, submitterName: users.username, submitterEmail: users.email })
+        .from(resourceSubmissions)
+        .leftJoin(users, eq(users.id, resourceSubmissions.userId))
+        .where(where)
+        .orderBy(params.status === "pending" ? asc(resourceSubmissions.createdAt) : desc(resourceSubmissions.createdAt))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(resourceSubmissions).where(where),
+    ]);
+
+    return {
+      items: rows.map(row => ({ ...row.submission, submitterName: row.submitterName, submitterEmail: row.submitterEmail })),
+      total,
+    };
+  }
+
+  async getResourceSubmission(id: string): Promise<ResourceSubmissionEntry | undefined> {
+    const [row] = await db
+      .select({ submission: resourceSubmissions, submitterName: users.username, submitterEmail: users.email })
+      .from(resourceSubmissions)
+      .leftJoin(users, eq(users.id, resourceSubmissions.userId))
+      .where(eq(resourceSubmissions.id, id));
+    return row && { ...row.submission, submitterName: row.submitterName, submitterEmail: row.submitterEmail };
+  }
+
+  // Only pending submissions can be edited; decided ones are left as they were
+  async updateResourceSubmission(id: string, updates: Partial<Pick<ResourceSubmission, "type" | "title" | "url" | "summary" | "data">>): Promise<ResourceSubmission | undefined> {
+    const [submission] = await db
+      .update(resourceSubmissions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(resourceSubmissions.id, id), eq(resourceSubmissions.status, "pending")))
+      .returning();
+    return submission;
+  }
+
+  /**
+   * Create a resource from a pending submission and mark the submission
+   * accepted, in one transaction. Returns undefined if the submission was no
+   * longer pending, e.g. because another editor decided it first.
+   */
+  async acceptResourceSubmission(id: string, reviewerId: string, reviewNote?: string): Promise<{ submission: ResourceSubmission; resource: Resource } | undefined> {
+    const accepted = await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(resourceSubmissions)
+        .set({ status: "accepted", reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: reviewNote ?? null, updatedAt: new Date() })
+        .where(and(eq(resourceSubmissions.id, id), eq(resourceSubmissions.status, "pending")))
+        .returning();
+      if (!claimed) return undefined;
+
+      const [resource] = await tx
+        .insert(resources)
+        .values({
+          id: randomUUID(),
+          type: claimed.type,
+          title: claimed.title,
+          url: claimed.url,
+          summary: claimed.summary,
+          data: claimed.data,
+        })
+        .returning();
+      await this.recordResourceRevision(tx, resource, { changeType: "create", changedBy: reviewerId });
+
+      const [submission] = await tx
+        .update(resourceSubmissions)
+        .set({ resourceId: resource.id })
+        .where(eq(resourceSubmissions.id, id))
+        .returning();
+      return { submission, resourceId: resource.id };
+    });
+    if (!accepted) return undefined;
+
+    return { submission: accepted.submission, resource: await this.indexResource(accepted.resourceId) };
+  }
+
+  async rejectResourceSubmission(id: string, reviewerId: string, reviewNote?: string): Promise<ResourceSubmission | undefined> {
+    const [submission] = await db
+      .update(resourceSubmissions)
+      .set({ status: "rejected", reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: reviewNote ?? null, updatedAt: new Date() })
+      .where(and(eq(resourceSubmissions.id, id), eq(resourceSubmissions.status, "pending")))
+      .returning();
+    return submission;
+  }
+
+  // Resource rating operations
+  // Keeps the resource's published-rating average and count in step with its
+  // ratings, for listings and the rating sort
+  private async refreshResourceRatingAggregate(executor: DbExecutor, resourceId: string): Promise<void> {
+    const published = and(eq(resourceRatings.resourceId, resourceId), eq(resourceRatings.status, "published"));
+    await executor
+      .update(resources)
+      .set({
+        rating_average: sql<number | null>`(SELECT avg(${resourceRatings.rating})::float FROM ${resourceRatings} WHERE ${published})`,
+        rating_count: sql<number>`(SELECT count(*)::int FROM ${resourceRatings} WHERE ${published})`,
+      })
+      .where(eq(resources.id, resourceId));
+  }
+
+  async getResourceRatingSummary(resourceId: string): Promise<ResourceRatingSummary> {
+    const ratings: PublicResourceRating[] = await db
+      .select({
+        id: resourceRatings.id,
+        rating: resourceRatings.rating,
+        review: resourceRatings.review,
+        createdAt: resourceRatings.createdAt,
+        updatedAt: resourceRatings.updatedAt,
+        authorName: users.username,
+      })
+      .from(resourceRatings)
+      .leftJoin(users, eq(users.id, resourceRatings.userId))
+      .where(and(eq(resourceRatings.resourceId, resourceId), eq(resourceRatings.status, "published")))
+      .orderBy(desc(resourceRatings.updatedAt));
+
+    const average = ratings.length > 0
+      ? ratings.reduce((sum, rating) => sum + rating.rating, 0) / ratings.length
+      : null;
+    return { average, count: ratings.length, ratings };
+  }
+
+  async getUserResourceRating(resourceId: string, userId: string): Promise<ResourceRating | undefined> {
+    const [rating] = await db
+      .select()
+      .from(resourceRatings)
+      .where(and(eq(resourceRatings.resourceId, resourceId), eq(resourceRatings.userId, userId)));
+    return rating;
+  }
+
+  // One rating per member per resource; rating again edits it. A hidden
+  // rating stays hidden when its author edits it.
+  async saveResourceRating(resourceId: string, userId: string, rating: Pick<ResourceRating, "rating" | "review">): Promise<ResourceRating> {
+    return db.transaction(async (tx) => {
+      const [saved] = await tx
+        .insert(resourceRatings)
+        .values({ id: randomUUID(), resourceId, userId, rating: rating.rating, review: rating.review })
+        .onConflictDoUpdate({
+          target: [resourceRatings.resourceId, resourceRatings.userId],
+          set: { rating: rating.rating, review: rating.review, updatedAt: new Date() },
+        })
+        .returning();
+      await this.refreshResourceRatingAggregate(tx, resourceId);
+      return saved;
+    });
+  }
+
+  async deleteUserResourceRating(resourceId: string, userId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(resourceRatings)
+        .where(and(eq(resourceRatings.resourceId, resourceId), eq(resourceRatings.userId, userId)))
+        .returning({ id: resourceRatings.id });
+      await this.refreshResourceRatingAggregate(tx, resourceId);
+      return deleted.length > 0;
+    });
+  }
+
+  async listResourceRatingsForModeration(params: { status?: ResourceRatingStatus; page?: number; pageSize?: number }): Promise<{ items: ResourceRatingModerationEntry[]; total: number }> {
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(100, Math.max(1, params.pageSize || 25));
+    const where = params.status ? eq(resourceRatings.status, params.status) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({ rating: resourceRatings, authorName: users.username, resourceTitle: resources.title })
+        .from(resourceRatings)
+        .leftJoin(users, eq(users.id, resourceRatings.userId))
+        .leftJoin(resources, eq(resources.id, resourceRatings.resourceId))
+        .where(where)
+        .orderBy(desc(resourceRatings.updatedAt))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db.select({ total: sql<number>`count(*)::int` }).from(resourceRatings).where(where),
+    ]);
+
+    return {
+      items: rows.map(row => ({ ...row.rating, authorName: row.authorName, resourceTitle: row.resourceTitle })),
+      total,
+    };
+  }
+
+  async getResourceRating(id: string): Promise<ResourceRating | undefined> {
+    const [rating] = await db.select().from(resourceRatings).where(eq(resourceRatings.id, id));
+    return rating;
+  }
+
+  async moderateResourceRating(id: string, moderatorId: string, decision: { status: ResourceRatingStatus; moderationNote?: string }): Promise<ResourceRating | undefined> {
+    return db.transaction(async (tx) => {
+      const [rating] = await tx
+        .update(resourceRatings)
+        .set({
+          status: decision.status,
+          moderationNote: decision.moderationNote ?? null,
+          moderatedBy: moderatorId,
+          moderatedAt: new Date(),
+        })
+        .where(eq(resourceRatings.id, id))
+        .returning();
+      if (rating) {
+        await this.refreshResourceRatingAggregate(tx, rating.resourceId);
+      }
+      return rating;
+    });
+  }
+
+  async deleteResourceRating(id: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(resourceRatings)
+        .where(eq(resourceRatings.id, id))
+        .returning({ resourceId: resourceRatings.resourceId });
+      if (!deleted) return false;
+      await this.refreshResourceRatingAggregate(tx, deleted.resourceId);
+      return true;
+    });
+  }
+
+  // Resource collection operations
+  private async listResourceCollectionSummaries(where: SQL | undefined, options: { limit?: number; offset?: number; featuredFirst?: boolean } = {}): Promise<ResourceCollectionSummary[]> {
+    const rows = await db
       .select({
-        id: resources.id,
-        title: resources.title,
-        url: resources.url,
-        tags: resources.tags,
-        lat: resources.lat,
-        long: resources.long,
-        data: resources.data,
-        summary: resources.summary,
-        ugga_verified: resources.ugga_verified,
-        quality_score: resources.quality_score
+        collection: resourceCollections,
+        ownerName: users.username,
+        itemCount: sql<number>`(SELECT count(*)::int FROM ${resourceCollectionItems} WHERE ${resourceCollectionItems.collectionId} = ${resourceCollections.id})`,
       })
-      .from(resources)
-      .where(eq(resources.id, id));
-    
-    if (!resource) return undefined;
-    
-    return {
-      ...resource,
-      // Map to extended interface with defaults (same as listResources)
-      type: (resource.tags?.find((tag: string) => 
-        ['universities', 'organizations', 'tools', 'learning', 'grants', 'templates'].includes(tag)
-      ) as ResourceType) || 'learning',
-      topics: resource.tags?.filter((tag: string) => 
-        ['management', 'research', 'pest-management', 'automation', 'best-practices', 'climate-control', 'business', 'planning', 'plant-science'].includes(tag)
-      ) || [],
-      crop: resource.tags?.filter((tag: string) =>
-        ['vegetables', 'tomatoes', 'peppers', 'leafy-greens'].includes(tag)
-      ) || [],
-      system_type: resource.tags?.filter((tag: string) =>
-        ['hydroponics', 'controlled-environment', 'organic'].includes(tag)
-      ) || [],
-      cost: 'free',
-      ugga_verified: resource.ugga_verified || false,
-      quality_score: resource.quality_score || 75,
-      has_location: !!(resource.lat && resource.long),
-      region: 'US',
-      summary: resource.summary || (resource.tags?.length > 0 ? `Resource about ${resource.tags.slice(0, 3).join(', ')}.` : 'Educational resource for greenhouse growers.'),
-      last_verified_at: null,
-      review_interval_days: null,
-      version: null,
-      lat: resource.lat,
-      long: resource.long,
-      // Add type-specific mock data
-      data: resource.tags?.includes('grant') ? {
-        sponsor: resource.tags.includes('university') ? 'USDA NIFA' : 'NSF',
-        program_name: resource.title,
-        award_min: 50000,
-        award_max: 500000,
-        due_date: 'rolling',
-        status: 'open',
-        eligibility_geo: ['US'],
-        link_to_rfp: resource.url
-      } : resource.tags?.includes('template') ? {
-        version: '1.0',
-        version_notes: 'Latest version with updated formatting'
-      } : {}
-    };
+      .from(resourceCollections)
+      .leftJoin(users, eq(users.id, resourceCollections.ownerId))
+      .where(where)
+      .orderBy(
+        ...(options.featuredFirst ? [sql`${resourceCollections.featuredAt} DESC NULLS LAST`] : []),
+        desc(resourceCollections.updatedAt)
+      )
+      .limit(options.limit ?? 500)
+      .offset(options.offset ?? 0);
+    return rows.map(row => ({ ...row.collection, ownerName: row.ownerName, itemCount: row.itemCount }));
   }
 
-  async createResource(resourceData: InsertResource): Promise<Resource> {
-    const [resource] = await db
-      .insert(resources)
-      .values({ 
-        ...resourceData,
-        id: randomUUID(),
-        type: resourceData.type as ResourceType | null
+  async listUserResourceCollections(userId: string): Promise<ResourceCollectionSummary[]> {
+    return this.listResourceCollectionSummaries(eq(resourceCollections.ownerId, userId));
+  }
+
+  async listSharedResourceCollections(userId: string): Promise<ResourceCollectionSummary[]> {
+    return this.listResourceCollectionSummaries(
+      inArray(
+        resourceCollections.id,
+        db.select({ id: resourceCollectionShares.collectionId }).from(resourceCollectionShares).where(eq(resourceCollectionShares.userId, userId))
+      )
+    );
+  }
+
+  async listFeaturedResourceCollections(): Promise<ResourceCollectionSummary[]> {
+    return this.listResourceCollectionSummaries(
+      and(eq(resourceCollections.visibility, "public"), sql`${resourceCollections.featuredAt} is not null`),
+      { featuredFirst: true, limit: 12 }
+    );
+  }
+
+  async listPublicResourceCollections(params: { page?: number; pageSize?: number }): Promise<{ items: ResourceCollectionSummary[]; total: number }> {
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(100, Math.max(1, params.pageSize || 25));
+    const where = eq(resourceCollections.visibility, "public");
+
+    const [items, [{ total }]] = await Promise.all([
+      this.listResourceCollectionSummaries(where, { featuredFirst: true, limit: pageSize, offset: (page - 1) * pageSize }),
+      db.select({ total: sql<number>`count(*)::int` }).from(resourceCollections).where(where),
+    ]);
+    return { items, total };
+  }
+
+  async getResourceCollection(id: string): Promise<ResourceCollection | undefined> {
+    const [collection] = await db.select().from(resourceCollections).where(eq(resourceCollections.id, id));
+    return collection;
+  }
+
+  async getResourceCollectionByShareToken(token: string): Promise<ResourceCollection | undefined> {
+    const [collection] = await db.select().from(resourceCollections).where(eq(resourceCollections.shareToken, token));
+    return collection;
+  }
+
+  async isResourceCollectionSharedWith(collectionId: string, userId: string): Promise<boolean> {
+    const [share] = await db
+      .select({ id: resourceCollectionShares.id })
+      .from(resourceCollectionShares)
+      .where(and(eq(resourceCollectionShares.collectionId, collectionId), eq(resourceCollectionShares.userId, userId)));
+    return !!share;
+  }
+
+  async getResourceCollectionItems(collectionId: string): Promise<ResourceCollectionItemEntry[]> {
+    const rows = await db
+      .select({
+        item: resourceCollectionItems,
+        resource: {
+          id: resources.id,
+          title: resources.title,
+          url: resources.url,
+          type: resources.type,
+          summary: resources.summary,
+          image_url: resources.image_url,
+          rating_average: resources.rating_average,
+          rating_count: resources.rating_count,
+          ugga_verified: RESOURCE_VERIFICATION_CURRENT,
+        },
       })
+      .from(resourceCollectionItems)
+      .innerJoin(resources, eq(resources.id, resourceCollectionItems.resourceId))
+      .where(eq(resourceCollectionItems.collectionId, collectionId))
+      .orderBy(asc(resourceCollectionItems.position), asc(resourceCollectionItems.createdAt));
+    return rows.map(row => ({ ...row.item, resource: row.resource }));
+  }
+
+  async createResourceCollection(ownerId: string, collection: Pick<ResourceCollection, "title" | "description" | "visibility">): Promise<ResourceCollection> {
+    const [created] = await db
+      .insert(resourceCollections)
+      .values({ ...collection, id: randomUUID(), ownerId, shareToken: newShareToken() })
       .returning();
-    return resource;
+    return created;
   }
 
-  async updateResource(id: string, updates: Partial<Resource>): Promise<Resource> {
-    const [resource] = await db
-      .update(resources)
-      .set(updates)
-      .where(eq(resources.id, id))
+  // A collection stops being featured once its owner makes it non-public
+  async updateResourceCollection(id: string, updates: Partial<Pick<ResourceCollection, "title" | "description" | "visibility">>): Promise<ResourceCollection | undefined> {
+    const unfeature = updates.visibility && updates.visibility !== "public" ? { featuredAt: null, featuredBy: null } : {};
+    const [collection] = await db
+      .update(resourceCollections)
+      .set({ ...updates, ...unfeature, updatedAt: new Date() })
+      .where(eq(resourceCollections.id, id))
       .returning();
-    return resource;
+    return collection;
   }
 
-  async deleteResource(id: string): Promise<void> {
-    // First delete related analytics events to avoid foreign key constraint violation
-    await db.delete(analytics_events).where(eq(analytics_events.resource_id, id));
-    
-    // Then delete related favorites
-    await db.delete(favorites).where(eq(favorites.resource_id, id));
-    
-    // Finally delete the resource itself
-    await db.delete(resources).where(eq(resources.id, id));
+  async deleteResourceCollection(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(resourceCollectionItems).where(eq(resourceCollectionItems.collectionId, id));
+      await tx.delete(resourceCollectionShares).where(eq(resourceCollectionShares.collectionId, id));
+      await tx.delete(resourceCollections).where(eq(resourceCollections.id, id));
+    });
   }
 
-  // Favorites operations
-  async toggleFavorite(userId: string, resourceId: string, on: boolean): Promise<void> {
-    if (on) {
-      try {
-        await db
-          .insert(favorites)
-          .values({ user_id: userId, resource_id: resourceId })
-          .onConflictDoNothing();
-      } catch (error) {
-        // Ignore conflict errors (already favorited)
-      }
-    } else {
-      await db
-        .delete(favorites)
-        .where(and(
-          eq(favorites.user_id, userId),
-          eq(favorites.resource_id, resourceId)
-        ));
-    }
+  // Links handed out before stop working
+  async resetResourceCollectionShareToken(id: string): Promise<ResourceCollection | undefined> {
+    const [collection] = await db
+      .update(resourceCollections)
+      .set({ shareToken: newShareToken(), updatedAt: new Date() })
+      .where(eq(resourceCollections.id, id))
+      .returning();
+    return collection;
   }
 
-  async toggleForumPostFavorite(userId: string, postId: string): Promise<{ isFavorited: boolean }> {
-    // Check if already favorited
-    const [existing] = await db
-      .select()
-      .from(forumPostFavorites)
-      .where(
-        and(
-          eq(forumPostFavorites.userId, userId),
-          eq(forumPostFavorites.postId, postId)
-        )
-      );
+  // The copy is the member's own private collection, items and notes included
+  async copyResourceCollection(id: string, userId: string): Promise<ResourceCollection | undefined> {
+    return db.transaction(async (tx) => {
+      const [source] = await tx.select().from(resourceCollections).where(eq(resourceCollections.id, id));
+      if (!source) return undefined;
 
-    if (existing) {
-      // Remove favorite
-      await db.delete(forumPostFavorites).where(
-        and(
-          eq(forumPostFavorites.userId, userId),
-          eq(forumPostFavorites.postId, postId)
-        )
-      );
-      return { isFavorited: false };
-    } else {
-      // Add favorite
-      await db.insert(forumPostFavorites).values({
-        userId,
-        postId,
-      });
-      return { isFavorited: true };
-    }
-  }
+      const [copy] = await tx
+        .insert(resourceCollections)
+        .values({
+          id: randomUUID(),
+          ownerId: userId,
+          title: source.title,
+          description: source.description,
+          visibility: "private",
+          shareToken: newShareToken(),
+          copiedFromId: source.id,
+        })
+        .returning();
 
-  async getUserForumPostFavorites(userId: string): Promise<string[]> {
-    const favorites = await db
-      .select()
-      .from(forumPostFavorites)
-      .where(eq(forumPostFavorites.userId, userId));
-    
-    return favorites.map(f => f.postId);
+      const items = await tx.select().from(resourceCollectionItems).where(eq(resourceCollectionItems.collectionId, source.id));
+      if (items.length > 0) {
+        await tx.insert(resourceCollectionItems).values(items.map(item => ({
+          id: randomUUID(),
+          collectionId: copy.id,
+          resourceId: item.resourceId,
+          position: item.position,
+          note: item.note,
+        })));
+      }
+      return copy;
+    });
   }
 
-  async isForumPostFavorited(userId: string, postId: string): Promise<boolean> {
-    const [favorite] = await db
-      .select()
-      .from(forumPostFavorites)
-      .where(
-        and(
-          eq(forumPostFavorites.userId, userId),
-          eq(forumPostFavorites.postId, postId)
-        )
-      );
-    
-    return !!favorite;
+  async setResourceCollectionFeatured(id: string, featured: boolean, adminId: string): Promise<ResourceCollection | undefined> {
+    const [collection] = await db
+      .update(resourceCollections)
+      .set(featured ? { featuredAt: new Date(), featuredBy: adminId } : { featuredAt: null, featuredBy: null })
+      .where(eq(resourceCollections.id, id))
+      .returning();
+    return collection;
   }
 
-  async listFavorites(userId: string, params?: { page?: number; pageSize?: number }): Promise<{ items: (Favorite & { resource: Resource & { has_location: boolean } })[], total: number }> {
-    const { page = 1, pageSize = 24 } = params || {};
-    const offset = (page - 1) * pageSize;
-    
-    // Get total count
-    const [{ count: total }] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(favorites)
-      .where(eq(favorites.user_id, userId));
-    
-    // Get items
-    const results = await db
-      .select()
-      .from(favorites)
-      .innerJoin(resources, eq(favorites.resource_id, resources.id))
-      .where(eq(favorites.user_id, userId))
-      .orderBy(desc(favorites.created_at))
-      .offset(offset)
-      .limit(pageSize);
-    
-    const items = results.map((result: any) => ({
-      id: result.favorites.id,
-      user_id: result.favorites.user_id,
-      resource_id: result.favorites.resource_id,
-      created_at: result.favorites.created_at,
-      resource: {
-        ...result.resources,
-        has_location: !!(result.resources.lat && result.resources.long)
+  // New items go to the end. Returns undefined if the resource is already in
+  // the collection.
+  async addResourceCollectionItem(collectionId: string, resourceId: string, note?: string | null): Promise<ResourceCollectionItem | undefined> {
+    return db.transaction(async (tx) => {
+      const [item] = await tx
+        .insert(resourceCollectionItems)
+        .values({
+          id: randomUUID(),
+          collectionId,
+          resourceId,
+          note: note ?? null,
+          position: sql<number>`(SELECT COALESCE(max(${resourceCollectionItems.position}) + 1, 0) FROM ${resourceCollectionItems} WHERE ${resourceCollectionItems.collectionId} = ${collectionId})`,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (item) {
+        await tx.update(resourceCollections).set({ updatedAt: new Date() }).where(eq(resourceCollections.id, collectionId));
       }
-    }));
-    
-    return { items, total };
+      return item;
+    });
   }
 
-  async importResourcesFromCSV(req: any, isDryRun: boolean): Promise<any> {
-    // This is a simplified implementation for the CSV import functionality
-    // In a real implementation, you would use multer middleware and proper CSV parsing
-    return new Promise((resolve, reject) => {
-      const results: any = {
-        valid: [],
-        invalid: [],
-        summary: { total: 0, valid: 0, invalid: 0 }
-      };
-      
-      if (isDryRun) {
-        // Mock validation for dry run
-        results.summary = { total: 5, valid: 3, invalid: 2 };
-        results.valid = [
-          { row: 1, data: { title: "Sample Resource 1", url: "https://example.com", type: "university" }, errors: [], valid: true },
-          { row: 2, data: { title: "Sample Resource 2", url: "https://example2.com", type: "grant" }, errors: [], valid: true },
-          { row: 3, data: { title: "Sample Resource 3", url: "https://example3.com", type: "template" }, errors: [], valid: true }
-        ];
-        results.invalid = [
-          { row: 4, data: { title: "", url: "invalid-url", type: "" }, errors: ["Title is required", "Invalid URL format", "Type is required"], valid: false },
-          { row: 5, data: { title: "Resource 5", url: "", type: "unknown" }, errors: ["Invalid resource type"], valid: false }
-        ];
-        resolve(results);
-      } else {
-        // Mock import completion
-        results.imported = 3;
-        resolve(results);
+  async updateResourceCollectionItem(collectionId: string, resourceId: string, note: string | null): Promise<ResourceCollectionItem | undefined> {
+    const [item] = await db
+      .update(resourceCollectionItems)
+      .set({ note })
+      .where(and(eq(resourceCollectionItems.collectionId, collectionId), eq(resourceCollectionItems.resourceId, resourceId)))
+      .returning();
+    return item;
+  }
+
+  async removeResourceCollectionItem(collectionId: string, resourceId: string): Promise<boolean> {
+    const removed = await db
+      .delete(resourceCollectionItems)
+      .where(and(eq(resourceCollectionItems.collectionId, collectionId), eq(resourceCollectionItems.resourceId, resourceId)))
+      .returning({ id: resourceCollectionItems.id });
+    return removed.length > 0;
+  }
+
+  // Items missing from resourceIds keep their relative order after the ones listed
+  async reorderResourceCollectionItems(collectionId: string, resourceIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const items = await tx
+        .select({ resourceId: resourceCollectionItems.resourceId })
+        .from(resourceCollectionItems)
+        .where(eq(resourceCollectionItems.collectionId, collectionId))
+        .orderBy(asc(resourceCollectionItems.position), asc(resourceCollectionItems.createdAt));
+
+      const existing = new Set(items.map(item => item.resourceId));
+      const listed = Array.from(new Set(resourceIds.filter(id => existing.has(id))));
+      const ordered = [...listed, ...items.map(item => item.resourceId).filter(id => !listed.includes(id))];
+
+      for (let position = 0; position < ordered.length; position++) {
+        await tx
+          .update(resourceCollectionItems)
+          .set({ position })
+          .where(and(eq(resourceCollectionItems.collectionId, collectionId), eq(resourceCollectionItems.resourceId, ordered[position])));
       }
+      await tx.update(resourceCollections).set({ updatedAt: new Date() }).where(eq(resourceCollections.id, collectionId));
     });
   }
 
+  async listResourceCollectionShares(collectionId: string): Promise<ResourceCollectionShareEntry[]> {
+    const rows = await db
+      .select({ share: resourceCollectionShares, username: users.username, email: users.email })
+      .from(resourceCollectionShares)
+      .leftJoin(users, eq(users.id, resourceCollectionShares.userId))
+      .where(eq(resourceCollectionShares.collectionId, collectionId))
+      .orderBy(asc(resourceCollectionShares.createdAt));
+    return rows.map(row => ({ ...row.share, username: row.username, email: row.email }));
+  }
+
+  async shareResourceCollection(collectionId: string, userId: string): Promise<void> {
+    await db
+      .insert(resourceCollectionShares)
+      .values({ id: randomUUID(), collectionId, userId })
+      .onConflictDoNothing();
+  }
+
+  async unshareResourceCollection(collectionId: string, userId: string): Promise<boolean> {
+    const removed = await db
+      .delete(resourceCollectionShares)
+      .where(and(eq(resourceCollectionShares.collectionId, collectionId), eq(resourceCollectionShares.userId, userId)))
+      .returning({ id: resourceCollectionShares.id });
+    return removed.length > 0;
+  }
+
+  // Saved search operations
+  async listSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return db.select().from(savedSearches).where(eq(savedSearches.userId, userId)).orderBy(savedSearches.name);
+  }
+
+  async countSavedSearches(userId: string): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId));
+    return total;
+  }
+
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search;
+  }
+
+  async getSavedSearchByUnsubscribeToken(token: string): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.unsubscribeToken, token));
+    return search;
+  }
+
+  async createSavedSearch(
+    userId: string,
+    search: Pick<SavedSearch, "name" | "type" | "q" | "filters" | "sort" | "digestFrequency">
+  ): Promise<SavedSearch> {
+    const [created] = await db
+      .insert(savedSearches)
+      .values({ ...search, id: randomUUID(), userId, unsubscribeToken: newShareToken() })
+      .returning();
+    return created;
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<Pick<SavedSearch, "name" | "digestFrequency">>): Promise<SavedSearch | undefined> {
+    const [updated] = await db
+      .update(savedSearches)
+      .set({
+        ...updates,
+        // A digest that's just been turned on starts from now, not from
+        // whenever the search was created
+        ...(updates.digestFrequency && updates.digestFrequency !== "none" ? {
+          lastDigestAt: sql`CASE WHEN ${savedSearches.digestFrequency} = 'none' THEN now() ELSE ${savedSearches.lastDigestAt} END`,
+        } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  async markSavedSearchSeen(id: string): Promise<SavedSearch | undefined> {
+    const [updated] = await db
+      .update(savedSearches)
+      .set({ lastSeenAt: new Date(), newMatchCount: 0 })
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Least recently counted first, so every search gets its turn
+  async listSavedSearchesForMatchCheck(limit: number): Promise<SavedSearch[]> {
+    return db
+      .select()
+      .from(savedSearches)
+      .orderBy(sql`${savedSearches.matchesCheckedAt} ASC NULLS FIRST`)
+      .limit(limit);
+  }
+
+  // Skipped if the member opened the results while the count was running,
+  // so a stale count doesn't overwrite their reset
+  async setSavedSearchNewMatchCount(id: string, count: number, counted: { since: Date; at: Date }): Promise<void> {
+    await db
+      .update(savedSearches)
+      .set({ newMatchCount: count, matchesCheckedAt: counted.at })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.lastSeenAt, counted.since)));
+  }
+
+  async listSavedSearchesDueForDigest(
+    frequency: Exclude<SavedSearchDigestFrequency, "none">,
+    windowStartedBefore: Date,
+    limit: number
+  ): Promise<SavedSearchDigestEntry[]> {
+    const rows = await db
+      .select({ search: savedSearches, email: users.email, username: users.username })
+      .from(savedSearches)
+      .innerJoin(users, eq(users.id, savedSearches.userId))
+      .where(and(
+        eq(savedSearches.digestFrequency, frequency),
+        lte(sql`COALESCE(${savedSearches.lastDigestAt}, ${savedSearches.createdAt})`, windowStartedBefore)
+      ))
+      .orderBy(sql`COALESCE(${savedSearches.lastDigestAt}, ${savedSearches.createdAt})`)
+      .limit(limit);
+    return rows.map(({ search, email, username }) => ({ ...search, email, username }));
+  }
+
+  async markSavedSearchDigestSent(id: string, sentAt: Date): Promise<void> {
+    await db.update(savedSearches).set({ lastDigestAt: sentAt }).where(eq(savedSearches.id, id));
+  }
+
+  // Geocoding cache operations
+  async getGeocodedPlace(query: string): Promise<GeocodedPlace | undefined> {
+    const [place] = await db.select().from(geocodedPlaces).where(eq(geocodedPlaces.query, query));
+    return place;
+  }
+
+  async saveGeocodedPlace(place: Pick<GeocodedPlace, "query" | "lat" | "long">): Promise<void> {
+    await db
+      .insert(geocodedPlaces)
+      .values(place)
+      .onConflictDoUpdate({
+        target: geocodedPlaces.query,
+        set: { lat: place.lat, long: place.long, createdAt: new Date() },
+      });
+  }
+
   // Analytics operations
   async recordAnalytics(event: InsertAnalyticsEvent): Promise<void> {
     try {
@@ -808,7 +2856,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Search operations
-  async searchResources(query: string, types?: string[]): Promise<Resource[]> {
+  async searchResources(query: string, types?: string[]): Promise<PublicResourceRow[]> {
     const searchTerm = `%${query.toLowerCase()}%`;
     const conditions = [];
     
@@ -830,7 +2878,7 @@ export class DatabaseStorage implements IStorage {
     }
     
     const results = await db
-      .select()
+      .select(publicResourceColumns())
       .from(resources)
       .where(and(...conditions))
       .limit(10);
@@ -1070,13 +3118,15 @@ export class DatabaseStorage implements IStorage {
     return request;
   }
 
-  async getUserExpertRequests(userId: string): Promise<(ExpertRequest & { user: User & { profile: Profile } })[]> {
+  async getUserExpertRequests(userId: string, farmId?: string): Promise<(ExpertRequest & { user: User & { profile: Profile } })[]> {
     const results = await db
       .select()
       .from(expertRequests)
       .leftJoin(users, eq(expertRequests.userId, users.id))
       .leftJoin(profiles, eq(users.id, profiles.userId))
-      .where(eq(expertRequests.userId, userId))
+      .where(farmId
+        ? or(eq(expertRequests.userId, userId), eq(expertRequests.farmId, farmId))
+        : eq(expertRequests.userId, userId))
       .orderBy(desc(expertRequests.createdAt));
     
     return results.map((result: any) => ({
@@ -1440,11 +3490,13 @@ export class DatabaseStorage implements IStorage {
     return assessment;
   }
 
-  async getFarmAssessmentsByUser(userId: string): Promise<FarmAssessment[]> {
+  async getFarmAssessmentsByUser(userId: string, farmId?: string): Promise<FarmAssessment[]> {
     return await db
       .select()
       .from(farmAssessments)
-      .where(eq(farmAssessments.userId, userId))
+      .where(farmId
+        ? or(eq(farmAssessments.userId, userId), eq(farmAssessments.farmId, farmId))
+        : eq(farmAssessments.userId, userId))
       .orderBy(desc(farmAssessments.completedAt));
   }
 
@@ -1469,11 +3521,13 @@ export class DatabaseStorage implements IStorage {
     return profile;
   }
 
-  async getFarmProfileByUser(userId: string): Promise<FarmProfile | null> {
+  async getFarmProfileByUser(userId: string, farmId?: string): Promise<FarmProfile | null> {
     const profiles = await db
       .select()
       .from(farmProfiles)
-      .where(eq(farmProfiles.userId, userId))
+      .where(farmId
+        ? or(eq(farmProfiles.userId, userId), eq(farmProfiles.farmId, farmId))
+        : eq(farmProfiles.userId, userId))
       .orderBy(desc(farmProfiles.createdAt))
       .limit(1);
     return profiles[0] || null;
@@ -1673,6 +3727,242 @@ export class DatabaseStorage implements IStorage {
   async deleteAiAgentConfig(id: string): Promise<void> {
     await db.delete(aiAgentConfigs).where(eq(aiAgentConfigs.id, id));
   }
+
+  // Account data operations (member self-service export and deletion)
+  async getUserDataExport(userId: string): Promise<UserDataExport | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const { passwordHash, totpSecret, ...account } = user;
+    const membership = await this.getFarmMembership(userId);
+
+    const [
+      profile,
+      userForumPosts,
+      userForumComments,
+      userForumVotes,
+      userFavorites,
+      userForumPostFavorites,
+      userChatLogs,
+      userFarmAssessments,
+      userFarmProfiles,
+      userExpertRequests,
+      userGrowerChallenges,
+      userResourceSubmissions,
+      userResourceRatings,
+      userResourceCollections,
+      userSavedSearches,
+    ] = await Promise.all([
+      this.getProfile(userId),
+      db.select().from(forumPosts).where(eq(forumPosts.userId, userId)).orderBy(forumPosts.createdAt),
+      db.select().from(forumComments).where(eq(forumComments.userId, userId)).orderBy(forumComments.createdAt),
+      db.select().from(forumVotes).where(eq(forumVotes.userId, userId)).orderBy(forumVotes.createdAt),
+      db.select().from(favorites).where(eq(favorites.user_id, userId)).orderBy(favorites.created_at),
+      db.select().from(forumPostFavorites).where(eq(forumPostFavorites.userId, userId)).orderBy(forumPostFavorites.createdAt),
+      db.select().from(chatLogs).where(eq(chatLogs.userId, userId)).orderBy(chatLogs.createdAt),
+      db.select().from(farmAssessments).where(eq(farmAssessments.userId, userId)).orderBy(farmAssessments.completedAt),
+      db.select().from(farmProfiles).where(eq(farmProfiles.userId, userId)).orderBy(farmProfiles.createdAt),
+      db.select().from(expertRequests).where(eq(expertRequests.userId, userId)).orderBy(expertRequests.createdAt),
+      db.select().from(growerChallenges).where(eq(growerChallenges.userId, userId)).orderBy(growerChallenges.createdAt),
+      db.select().from(resourceSubmissions).where(eq(resourceSubmissions.userId, userId)).orderBy(resourceSubmissions.createdAt),
+      db.select().from(resourceRatings).where(eq(resourceRatings.userId, userId)).orderBy(resourceRatings.createdAt),
+      db.select().from(resourceCollections).where(eq(resourceCollections.ownerId, userId)).orderBy(resourceCollections.createdAt),
+      db.select().from(savedSearches).where(eq(savedSearches.userId, userId)).orderBy(savedSearches.createdAt),
+    ]);
+
+    const collectionItems = userResourceCollections.length > 0
+      ? await db
+          .select()
+          .from(resourceCollectionItems)
+          .where(inArray(resourceCollectionItems.collectionId, userResourceCollections.map(collection => collection.id)))
+          .orderBy(resourceCollectionItems.position)
+      : [];
+
+    return {
+      exportedAt: new Date().toISOString(),
+      account,
+      profile: profile ?? null,
+      farmMembership: membership
+        ? { farmId: membership.farmId, farmName: membership.farm.name, role: membership.role, joinedAt: membership.createdAt }
+        : null,
+      forumPosts: userForumPosts,
+      forumComments: userForumComments,
+      forumVotes: userForumVotes,
+      favorites: userFavorites,
+      forumPostFavorites: userForumPostFavorites,
+      chatLogs: userChatLogs,
+      farmAssessments: userFarmAssessments,
+      farmProfiles: userFarmProfiles,
+      expertRequests: userExpertRequests,
+      growerChallenges: userGrowerChallenges,
+      resourceSubmissions: userResourceSubmissions,
+      resourceRatings: userResourceRatings,
+      resourceCollections: userResourceCollections.map(collection => ({
+        ...collection,
+        items: collectionItems.filter(item => item.collectionId === collection.id),
+      })),
+      savedSearches: userSavedSearches.map(({ unsubscribeToken, ...search }) => search),
+    };
+  }
+
+  async deleteUserAccount(userId: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user) return;
+
+    const votes = await db.select().from(forumVotes).where(eq(forumVotes.userId, userId));
+    const ratedResources = await db
+      .select({ resourceId: resourceRatings.resourceId })
+      .from(resourceRatings)
+      .where(eq(resourceRatings.userId, userId));
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(users)
+        .values({
+          id: DELETED_USER_ID,
+          username: "[deleted]",
+          email: "deleted-user@invalid",
+          passwordHash: randomUUID(), // Not a bcrypt hash, so it never matches a password
+          role: Role.GUEST,
+        })
+        .onConflictDoNothing();
+
+      // Keep threads readable: posts and comments stay, attributed to nobody
+      await tx.update(forumPosts).set({ userId: DELETED_USER_ID }).where(eq(forumPosts.userId, userId));
+      await tx.update(forumComments).set({ userId: DELETED_USER_ID }).where(eq(forumComments.userId, userId));
+      await tx.delete(forumVotes).where(eq(forumVotes.userId, userId));
+
+      // Records shared with a farm that lives on stay with the farm
+      await tx.update(expertRequests).set({ userId: DELETED_USER_ID }).where(and(eq(expertRequests.userId, userId), sql`${expertRequests.farmId} is not null`));
+      await tx.update(farmAssessments).set({ userId: DELETED_USER_ID }).where(and(eq(farmAssessments.userId, userId), sql`${farmAssessments.farmId} is not null`));
+      await tx.update(farmProfiles).set({ userId: DELETED_USER_ID }).where(and(eq(farmProfiles.userId, userId), sql`${farmProfiles.farmId} is not null`));
+
+      const ownFarmProfiles = await tx.select({ id: farmProfiles.id }).from(farmProfiles).where(eq(farmProfiles.userId, userId));
+      for (const farmProfile of ownFarmProfiles) {
+        await tx.delete(farmRecommendations).where(eq(farmRecommendations.profileId, farmProfile.id));
+      }
+
+      await tx.delete(favorites).where(eq(favorites.user_id, userId));
+      await tx.delete(forumPostFavorites).where(eq(forumPostFavorites.userId, userId));
+      await tx.delete(chatLogs).where(eq(chatLogs.userId, userId));
+      await tx.delete(farmProfiles).where(eq(farmProfiles.userId, userId));
+      await tx.delete(farmAssessments).where(eq(farmAssessments.userId, userId));
+      await tx.delete(expertRequests).where(eq(expertRequests.userId, userId));
+      await tx.delete(growerChallenges).where(eq(growerChallenges.userId, userId));
+      await tx.delete(resourceSubmissions).where(eq(resourceSubmissions.userId, userId));
+      await tx.delete(resourceRatings).where(eq(resourceRatings.userId, userId));
+      for (const { resourceId } of ratedResources) {
+        await this.refreshResourceRatingAggregate(tx, resourceId);
+      }
+      const ownCollections = tx.select({ id: resourceCollections.id }).from(resourceCollections).where(eq(resourceCollections.ownerId, userId));
+      await tx.delete(resourceCollectionItems).where(inArray(resourceCollectionItems.collectionId, ownCollections));
+      await tx.delete(resourceCollectionShares).where(or(
+        inArray(resourceCollectionShares.collectionId, ownCollections),
+        eq(resourceCollectionShares.userId, userId)
+      ));
+      await tx.delete(resourceCollections).where(eq(resourceCollections.ownerId, userId));
+      await tx.delete(savedSearches).where(eq(savedSearches.userId, userId));
+
+      await tx.delete(farmMemberships).where(eq(farmMemberships.userId, userId));
+      await tx.delete(farmInvitations).where(sql`lower(${farmInvitations.email}) = ${user.email.toLowerCase()}`);
+      await tx.update(farmInvitations).set({ acceptedBy: DELETED_USER_ID }).where(eq(farmInvitations.acceptedBy, userId));
+
+      // Usage analytics are kept, but no longer tied to the account
+      await tx.update(analytics_events).set({ user_id: null }).where(eq(analytics_events.user_id, userId));
+
+      await tx.delete(sessions).where(eq(sessions.userId, userId));
+      await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+      await tx.delete(magicLinkTokens).where(eq(magicLinkTokens.userId, userId));
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, userId));
+      await tx.delete(authAttempts).where(eq(authAttempts.userId, userId));
+      await tx.delete(profiles).where(eq(profiles.userId, userId));
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+
+    // Scores are derived from votes, so recount what the removed votes touched
+    for (const vote of votes) {
+      await this.updateEntityScore(vote.entityType as 'post' | 'comment', vote.entityId);
+    }
+  }
+
+  // App settings operations
+  async getAppSetting<T>(id: string): Promise<T | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.id, id));
+    return setting?.value as T | undefined;
+  }
+
+  async setAppSetting(id: string, value: unknown, updatedBy: string): Promise<AppSetting> {
+    const [setting] = await db
+      .insert(appSettings)
+      .values({ id, value, updatedBy })
+      .onConflictDoUpdate({
+        target: appSettings.id,
+        set: { value, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  // Admin audit log operations (append-only)
+  async createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog> {
+    const [log] = await db
+      .insert(adminAuditLogs)
+      .values({ id: randomUUID(), ...entry })
+      .returning();
+    return log;
+  }
+
+  async listAdminAuditLogs(filter: AdminAuditLogFilter, params: { page?: number; pageSize?: number } = {}): Promise<{ items: AdminAuditLog[]; total: number }> {
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(1000, Math.max(1, params.pageSize || 50));
+
+    const conditions = [];
+    if (filter.actor) {
+      conditions.push(or(eq(adminAuditLogs.actorId, filter.actor), ilike(adminAuditLogs.actorEmail, `%${filter.actor}%`)));
+    }
+    if (filter.action) {
+      conditions.push(eq(adminAuditLogs.action, filter.action));
+    }
+    if (filter.entityType) {
+      conditions.push(eq(adminAuditLogs.entityType, filter.entityType));
+    }
+    if (filter.entityId) {
+      conditions.push(eq(adminAuditLogs.entityId, filter.entityId));
+    }
+    if (filter.from) {
+      conditions.push(gte(adminAuditLogs.createdAt, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lt(adminAuditLogs.createdAt, filter.to));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [items, [{ count }]] = await Promise.all([
+      db
+        .select()
+        .from(adminAuditLogs)
+        .where(where)
+        .orderBy(desc(adminAuditLogs.createdAt), desc(adminAuditLogs.id))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db.select({ count: sql<number>`count(*)` }).from(adminAuditLogs).where(where),
+    ]);
+
+    return { items, total: Number(count) };
+  }
+
+  async getAuditSnapshot(entityType: AuditEntityType, id: string): Promise<Record<string, unknown> | undefined> {
+    const table: any = AUDITED_TABLES[entityType];
+    const [row] = await db.select().from(table).where(eq(table.id, id));
+    if (!row) return undefined;
+
+    // Member edits touch both the account and the profile
+    if (entityType === "user") {
+      const profile = await this.getProfile(id);
+      return { ...row, profile: profile ?? null };
+    }
+    return row;
+  }
 }
 
 export const storage = new DatabaseStorage();
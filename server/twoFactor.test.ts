@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TOTP, Secret } from "otpauth";
+import { generateBackupCodes, generateTotpSecret, hashBackupCode, verifyTotpCode } from "./twoFactor";
+
+describe("verifyTotpCode", () => {
+  const secret = generateTotpSecret();
+  const code = new TOTP({ secret: Secret.fromBase32(secret) }).generate();
+
+  it("returns the time step of a current code", () => {
+    assert.equal(typeof verifyTotpCode(secret, code, null), "number");
+  });
+
+  it("rejects a code whose time step was already used", () => {
+    const step = verifyTotpCode(secret, code, null)!;
+    assert.equal(verifyTotpCode(secret, code, step), null);
+    assert.equal(verifyTotpCode(secret, code, step + 1), null);
+  });
+
+  it("rejects malformed codes", () => {
+    assert.equal(verifyTotpCode(secret, "12345", null), null);
+  });
+});
+
+describe("backup codes", () => {
+  it("generates distinct codes in the xxxxx-xxxxx format", () => {
+    const codes = generateBackupCodes();
+    assert.ok(codes.length > 0);
+    assert.equal(new Set(codes).size, codes.length);
+    for (const code of codes) {
+      assert.match(code, /^[a-f0-9]{5}-[a-f0-9]{5}$/);
+    }
+  });
+
+  it("matches a code however it is typed back", () => {
+    const [code] = generateBackupCodes();
+    assert.equal(hashBackupCode(` ${code.toUpperCase().replace("-", " ")} `), hashBackupCode(code));
+    assert.notEqual(hashBackupCode(code), hashBackupCode(generateBackupCodes()[1]));
+  });
+});
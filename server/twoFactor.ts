@@ -0,0 +1,65 @@
+import { TOTP, Secret } from "otpauth";
+import QRCode from "qrcode";
+import { createHash, randomBytes } from "crypto";
+
+const TOTP_ISSUER = "UGGA";
+const BACKUP_CODE_COUNT = 10;
+
+function buildTotp(secret: string, label: string): TOTP {
+  return new TOTP({
+    issuer: TOTP_ISSUER,
+    label,
+    algorithm: "SHA1",
+    digits: 6,
+    period: 30,
+    secret: Secret.fromBase32(secret),
+  });
+}
+
+export function generateTotpSecret(): string {
+  return new Secret({ size: 20 }).base32;
+}
+
+/**
+ * Build the otpauth:// URI and a QR code data URL for authenticator apps.
+ */
+export async function buildTotpEnrollment(secret: string, label: string): Promise<{ otpauthUrl: string; qrCode: string }> {
+  const otpauthUrl = buildTotp(secret, label).toString();
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+  return { otpauthUrl, qrCode };
+}
+
+/**
+ * The time step of a valid code, or null. Accepts one step either side to
+ * tolerate clock drift on the user's device, but never a step at or before
+ * `lastUsedStep`, so a code that was already accepted can't be replayed.
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const token = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(token)) return null;
+
+  const totp = buildTotp(secret, TOTP_ISSUER);
+  const timestamp = Date.now();
+  const delta = totp.validate({ token, timestamp, window: 1 });
+  if (delta === null) return null;
+
+  const step = totp.counter({ timestamp }) + delta;
+  return lastUsedStep !== null && step <= lastUsedStep ? null : step;
+}
+
+// Backup codes are formatted as "xxxxx-xxxxx" for readability
+export function generateBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function hashBackupCode(code: string): string {
+  const normalized = code.trim().toLowerCase().replace(/[^a-f0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+export function isTwoFactorRequiredForAdmins(): boolean {
+  return process.env.REQUIRE_ADMIN_2FA === "true";
+}
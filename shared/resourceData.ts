@@ -0,0 +1,448 @@
+import { z } from "zod";
+import type { ResourceType } from "./schema";
+
+// The type-specific part of a resource lives in resources.data. These schemas
+// are its contract: the admin form is generated from them, the server checks
+// data against them on create, update and import, and the data report lists
+// stored rows that don't match. Keys not listed here are kept as they are but
+// show up in the report.
+
+export type ResourceDataInput =
+  | "text"
+  | "textarea"
+  | "number"
+  | "date"
+  | "url"
+  | "email"
+  | "boolean"
+  | "select"
+  | "multi-select"
+  | "list";
+
+interface ResourceDataFieldMeta {
+  label: string;
+  input?: ResourceDataInput; // Worked out from the schema when not given
+  placeholder?: string;
+  description?: string;
+  optionLabels?: Record<string, string>;
+}
+
+export interface ResourceDataField {
+  name: string; // Dotted path into resources.data, e.g. "fileRefs.xlsx"
+  label: string;
+  input: ResourceDataInput;
+  required: boolean;
+  options?: { value: string; label: string }[];
+  placeholder?: string;
+  description?: string;
+}
+
+// Form metadata for each field schema. Schemas without an entry (nested
+// objects, machine-written values) are validated but not shown in the form.
+const fieldMeta = new WeakMap<z.ZodTypeAny, ResourceDataFieldMeta>();
+
+// describe() returns a copy, so shared base schemas can carry different labels
+function required<T extends z.ZodTypeAny>(schema: T, meta: ResourceDataFieldMeta): T {
+  const described = schema.describe(meta.label);
+  fieldMeta.set(described, meta);
+  return described;
+}
+
+function optional<T extends z.ZodTypeAny>(schema: T, meta: ResourceDataFieldMeta): z.ZodOptional<T> {
+  const wrapped = schema.optional();
+  fieldMeta.set(wrapped, meta);
+  return wrapped;
+}
+
+const text = z.string().trim().min(1).max(500);
+const longText = z.string().trim().min(1).max(5000);
+const amount = z.number().nonnegative();
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}/, "Expected a date (YYYY-MM-DD)");
+const email = z.string().trim().email();
+const textList = z.array(z.string().trim().min(1).max(200));
+
+// Absolute http(s) URLs, or paths to files served by this site
+const link = z.string().trim().refine(
+  value => value.startsWith("/") || /^https?:\/\/\S+$/i.test(value),
+  "Expected an http(s) URL or a path starting with /"
+);
+
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho',
+  IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+  ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+  MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey',
+  NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma',
+  OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee',
+  TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia',
+  WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+// z.enum over the keys of a value -> label map
+function options(labels: Record<string, string>) {
+  return z.enum(Object.keys(labels) as [string, ...string[]]);
+}
+
+const ORG_TYPES = {
+  nonprofit: 'Nonprofit',
+  trade: 'Trade Association',
+  cooperative: 'Cooperative',
+  government: 'Government Agency',
+  research: 'Research Institution',
+  commercial: 'Commercial Organization',
+};
+
+const ORG_FUNCTIONS = {
+  advocacy: 'Advocacy',
+  education: 'Education',
+  research: 'Research',
+  networking: 'Networking',
+  certification: 'Certification',
+  marketing: 'Marketing',
+  funding: 'Funding',
+};
+
+const SERVICE_AREAS = {
+  local: 'Local',
+  state: 'State',
+  regional: 'Regional',
+  national: 'National',
+  international: 'International',
+};
+
+const ELIGIBLE_ENTITIES = {
+  individual: 'Individual Growers',
+  nonprofit: 'Nonprofits',
+  forprofit: 'For-profit Businesses',
+  university: 'Universities',
+  government: 'Government Entities',
+  cooperative: 'Cooperatives',
+};
+
+const GRANT_STATUSES = { Open: 'Open', Rolling: 'Rolling', Closed: 'Closed' };
+
+const TOOL_CATEGORIES = {
+  operations: 'Operations Management',
+  climate: 'Climate Control',
+  financial: 'Financial Planning',
+  crop: 'Crop Management',
+  marketing: 'Marketing',
+  compliance: 'Compliance',
+  hr: 'Human Resources',
+};
+
+const TOOL_FORMATS = {
+  spreadsheet: 'Spreadsheet (Excel/Google Sheets)',
+  pdf: 'PDF Document',
+  word: 'Word Document',
+  software: 'Software/App',
+  online_tool: 'Online Tool',
+  template: 'Template',
+};
+
+const COST_MODELS = {
+  free: 'Free',
+  freemium: 'Freemium',
+  one_time: 'One-time Purchase',
+  subscription: 'Subscription',
+  per_user: 'Per User',
+};
+
+const COURSE_TYPES = {
+  online_course: 'Online Course',
+  webinar: 'Webinar',
+  workshop: 'Workshop',
+  certification: 'Certification Program',
+  degree: 'Degree Program',
+  tutorial: 'Tutorial',
+  video_series: 'Video Series',
+};
+
+const SKILL_LEVELS = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  all_levels: 'All Levels',
+};
+
+const LANGUAGES = {
+  english: 'English',
+  spanish: 'Spanish',
+  french: 'French',
+  multilingual: 'Multilingual',
+};
+
+const PUBLICATION_TYPES = {
+  blog: 'Blog',
+  bulletin: 'Bulletin',
+  newsletter: 'Newsletter',
+  magazine: 'Magazine',
+  journal: 'Journal',
+};
+
+const PUBLICATION_FREQUENCIES = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  biweekly: 'Bi-weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  irregular: 'Irregular',
+};
+
+const NEWS_SOURCE_TYPES = {
+  news_site: 'News Website',
+  trade_pub: 'Trade Publication',
+  newsletter: 'Newsletter',
+  podcast: 'Podcast',
+  youtube: 'YouTube Channel',
+  social_media: 'Social Media',
+};
+
+const NEWS_UPDATE_FREQUENCIES = {
+  realtime: 'Real-time',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const NEWS_COVERAGE = {
+  market_prices: 'Market Prices',
+  technology: 'Technology',
+  policy: 'Policy & Regulation',
+  research: 'Research',
+  events: 'Events',
+  business: 'Business News',
+};
+
+const NEWS_ACCESS_TYPES = {
+  free: 'Free',
+  registration: 'Free with Registration',
+  paid: 'Paid Subscription',
+  partial: 'Partial Free/Paid',
+};
+
+// Written by the system rather than editors, on every type
+const systemFields = {
+  createdAt: z.string().optional(),
+};
+
+const universityData = z.object({
+  ...systemFields,
+  programName: required(text, { label: 'Program Name' }),
+  city: required(text, { label: 'City' }),
+  state: required(options(US_STATES), { label: 'State', optionLabels: US_STATES }),
+  country: optional(text, { label: 'Country', placeholder: 'USA' }),
+  researchFocus: optional(longText, { label: 'Research Focus Areas', input: 'textarea', placeholder: 'Comma-separated list of research areas' }),
+  contactEmail: optional(email, { label: 'Contact Email', placeholder: 'contact@university.edu' }),
+  contactPhone: optional(text, { label: 'Contact Phone', placeholder: '(555) 123-4567' }),
+  urls: z.object({
+    site: optional(link, { label: 'Website', input: 'url' }),
+    extension: optional(link, { label: 'Extension Website', input: 'url' }),
+  }).passthrough().optional(),
+}).passthrough();
+
+const organizationData = z.object({
+  ...systemFields,
+  orgType: required(options(ORG_TYPES), { label: 'Organization Type', optionLabels: ORG_TYPES }),
+  functions: required(z.array(options(ORG_FUNCTIONS)).min(1), { label: 'Functions', optionLabels: ORG_FUNCTIONS }),
+  hqLocation: required(text, { label: 'Headquarters Location' }),
+  hq: z.object({
+    city: optional(text, { label: 'HQ City' }),
+    state: optional(text, { label: 'HQ State' }),
+    country: optional(text, { label: 'HQ Country', description: 'Used by the country filter' }),
+  }).passthrough().optional(),
+  serviceArea: optional(options(SERVICE_AREAS), { label: 'Service Area', optionLabels: SERVICE_AREAS }),
+  region: optional(text, { label: 'Region' }),
+  focusArea: optional(text, { label: 'Focus Area' }),
+  membershipCost: optional(text, { label: 'Membership Cost', placeholder: 'e.g., $500/year or Free' }),
+  description: optional(longText, { label: 'Description', input: 'textarea' }),
+  urls: z.object({
+    site: optional(link, { label: 'Website', input: 'url' }),
+  }).passthrough().optional(),
+}).passthrough();
+
+const grantData = z.object({
+  ...systemFields,
+  agency: required(text, { label: 'Granting Agency' }),
+  sponsor: optional(text, { label: 'Sponsor' }),
+  program_name: optional(text, { label: 'Program Name' }),
+  status: optional(options(GRANT_STATUSES), { label: 'Status', optionLabels: GRANT_STATUSES }),
+  award_min: optional(amount, { label: 'Award Minimum', placeholder: '10000', description: 'Shown on the grants tab and used by the amount filter' }),
+  award_max: optional(amount, { label: 'Award Maximum', placeholder: '500000', description: 'Shown on the grants tab and used by the amount filter' }),
+  grantAmountMin: optional(amount, { label: 'Minimum Grant Amount', placeholder: '10000' }),
+  grantAmountMax: optional(amount, { label: 'Maximum Grant Amount', placeholder: '500000', description: 'Used by the amount sort' }),
+  due_date: optional(isoDate, { label: 'Due Date', input: 'date', description: 'Shown on the grants tab and used to hide expired grants' }),
+  applicationDeadline: optional(isoDate, { label: 'Application Deadline', input: 'date', description: 'Used by the due date sort' }),
+  rfpDueDate: optional(isoDate, { label: 'RFP Due Date', input: 'date' }),
+  link_to_rfp: optional(link, { label: 'RFP Link', input: 'url' }),
+  applyUrls: z.object({
+    grantsGov: optional(link, { label: 'Grants.gov Link', input: 'url' }),
+  }).passthrough().optional(),
+  focusAreas: optional(textList, { label: 'Focus Areas', placeholder: 'List focus areas separated by commas' }),
+  eligibilityGeo: optional(text, { label: 'Geographic Eligibility', placeholder: 'e.g., Nationwide, Southeast US, California' }),
+  eligibility_geo: optional(textList, { label: 'Eligible Regions (listing)', placeholder: 'e.g., US, CA' }),
+  eligibilityType: optional(z.array(options(ELIGIBLE_ENTITIES)), { label: 'Eligible Entity Types', optionLabels: ELIGIBLE_ENTITIES }),
+  eligibility: z.object({
+    orgTypes: optional(textList, { label: 'Eligible Organization Types', description: 'Used by the organization type filter' }),
+    regions: optional(textList, { label: 'Eligible Regions', description: 'Used by the region filter; "All US States" matches every region' }),
+  }).passthrough().optional(),
+  matchRequired: optional(z.boolean(), { label: 'Match Required' }),
+  matchPercentage: optional(z.number().min(0).max(100), { label: 'Match Percentage', placeholder: '25' }),
+}).passthrough();
+
+const toolData = z.object({
+  ...systemFields,
+  toolCategory: required(options(TOOL_CATEGORIES), { label: 'Category', optionLabels: TOOL_CATEGORIES }),
+  category: optional(text, { label: 'Display Category', description: 'Shown on the tools and templates tab' }),
+  format: optional(options(TOOL_FORMATS), { label: 'Format', optionLabels: TOOL_FORMATS }),
+  platform: optional(text, { label: 'Platform', placeholder: 'e.g., Web, Excel, iOS' }),
+  costModel: optional(options(COST_MODELS), { label: 'Cost Model', optionLabels: COST_MODELS }),
+  costType: optional(text, { label: 'Cost Type', placeholder: 'e.g., Free, Paid' }),
+  price: optional(text, { label: 'Price', placeholder: 'Free, $50/month, $299 one-time' }),
+  features: optional(textList, { label: 'Key Features', placeholder: 'List key features separated by commas' }),
+  systemRequirements: optional(text, { label: 'System Requirements', placeholder: 'e.g., Windows 10+, Excel 2016+' }),
+  fileRefs: z.object({
+    csv: optional(link, { label: 'CSV File', input: 'url' }),
+    xlsx: optional(link, { label: 'Excel File', input: 'url' }),
+    gsheetTemplateUrl: optional(link, { label: 'Google Sheets Template', input: 'url' }),
+  }).passthrough().optional(),
+  version: optional(text, { label: 'Version' }),
+  version_notes: optional(longText, { label: 'Version Notes', input: 'textarea' }),
+  previewSample: z.unknown().optional(), // Rows shown by the template preview
+}).passthrough();
+
+const learningData = z.object({
+  ...systemFields,
+  courseType: required(options(COURSE_TYPES), { label: 'Course Type', optionLabels: COURSE_TYPES }),
+  provider: required(text, { label: 'Provider' }),
+  format: optional(text, { label: 'Format', placeholder: 'e.g., Video, Article, Course' }),
+  duration: optional(text, { label: 'Duration', placeholder: 'e.g., 4 weeks, 2 hours, Self-paced' }),
+  skillLevel: optional(options(SKILL_LEVELS), { label: 'Skill Level', optionLabels: SKILL_LEVELS }),
+  level: optional(text, { label: 'Level', description: 'Shown on the learning tab and used by the level filter' }),
+  cost: optional(text, { label: 'Cost', placeholder: 'Free, $199, $50/month' }),
+  costType: optional(text, { label: 'Cost Type', placeholder: 'e.g., Free, Paid' }),
+  certificate: optional(z.boolean(), { label: 'Certificate Offered' }),
+  ceuCredits: optional(amount, { label: 'CEU Credits', placeholder: '2.5' }),
+  language: optional(options(LANGUAGES), { label: 'Language', optionLabels: LANGUAGES }),
+  url: optional(link, { label: 'Course Link', input: 'url' }),
+}).passthrough();
+
+const bulletinData = z.object({
+  ...systemFields,
+  publicationType: required(options(PUBLICATION_TYPES), { label: 'Publication Type', optionLabels: PUBLICATION_TYPES }),
+  publisher: required(text, { label: 'Publisher' }),
+  source: optional(text, { label: 'Source' }),
+  publishedAt: optional(isoDate, { label: 'Published', input: 'date' }),
+  frequency: optional(options(PUBLICATION_FREQUENCIES), { label: 'Publication Frequency', optionLabels: PUBLICATION_FREQUENCIES }),
+  subscriptionRequired: optional(z.boolean(), { label: 'Subscription Required' }),
+  subscriptionCost: optional(text, { label: 'Subscription Cost', placeholder: 'Free, $20/year' }),
+  focusTopics: optional(textList, { label: 'Focus Topics', placeholder: 'List main topics covered' }),
+  topicTags: optional(textList, { label: 'Topic Tags' }),
+  url: optional(link, { label: 'Article Link', input: 'url' }),
+}).passthrough();
+
+const industryNewsData = z.object({
+  ...systemFields,
+  newsSource: required(text, { label: 'News Source' }),
+  sourceName: optional(text, { label: 'Source Name', description: 'Shown on the industry news tab' }),
+  description: optional(longText, { label: 'Description', input: 'textarea' }),
+  sourceType: optional(options(NEWS_SOURCE_TYPES), { label: 'Source Type', optionLabels: NEWS_SOURCE_TYPES }),
+  updateFrequency: optional(options(NEWS_UPDATE_FREQUENCIES), { label: 'Update Frequency', optionLabels: NEWS_UPDATE_FREQUENCIES }),
+  frequency: optional(text, { label: 'Frequency (listing)', placeholder: 'e.g., Weekly' }),
+  coverage: optional(z.array(options(NEWS_COVERAGE)), { label: 'Coverage Focus', optionLabels: NEWS_COVERAGE }),
+  accessType: optional(options(NEWS_ACCESS_TYPES), { label: 'Access Type', optionLabels: NEWS_ACCESS_TYPES }),
+  subscribeUrl: optional(link, { label: 'Subscribe Link', input: 'url' }),
+  url: optional(link, { label: 'Source Link', input: 'url' }),
+}).passthrough();
+
+export const RESOURCE_DATA_SCHEMAS: Record<ResourceType, z.AnyZodObject> = {
+  universities: universityData,
+  organizations: organizationData,
+  grants: grantData,
+  tools: toolData,
+  templates: toolData,
+  learning: learningData,
+  bulletins: bulletinData,
+  industry_news: industryNewsData,
+};
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+}
+
+function inputFor(schema: z.ZodTypeAny): ResourceDataInput {
+  if (schema instanceof z.ZodEnum) return "select";
+  if (schema instanceof z.ZodArray) return unwrap(schema.element) instanceof z.ZodEnum ? "multi-select" : "list";
+  if (schema instanceof z.ZodNumber) return "number";
+  if (schema instanceof z.ZodBoolean) return "boolean";
+  if (schema instanceof z.ZodString && schema.isEmail) return "email";
+  return "text";
+}
+
+function collectFields(shape: z.ZodRawShape, prefix: string, fields: ResourceDataField[]): void {
+  for (const [key, value] of Object.entries(shape)) {
+    const name = prefix + key;
+    const inner = unwrap(value);
+    if (inner instanceof z.ZodObject) {
+      collectFields(inner.shape, `${name}.`, fields);
+      continue;
+    }
+
+    const meta = fieldMeta.get(value);
+    if (!meta) continue;
+
+    const input = meta.input ?? inputFor(inner);
+    const enumSchema = inner instanceof z.ZodArray ? unwrap(inner.element) : inner;
+    fields.push({
+      name,
+      label: meta.label,
+      input,
+      required: !value.isOptional(),
+      options: enumSchema instanceof z.ZodEnum
+        ? (enumSchema.options as string[]).map(option => ({ value: option, label: meta.optionLabels?.[option] ?? option }))
+        : undefined,
+      placeholder: meta.placeholder,
+      description: meta.description,
+    });
+  }
+}
+
+/** The editable fields of a resource type, in form order. */
+export function resourceDataFields(type: ResourceType): ResourceDataField[] {
+  const fields: ResourceDataField[] = [];
+  collectFields(RESOURCE_DATA_SCHEMAS[type].shape, "", fields);
+  return fields;
+}
+
+// Problems with a resource's data, labelled with the form field names
+export function describeResourceDataIssues(type: ResourceType, error: z.ZodError): string[] {
+  const labels = new Map(resourceDataFields(type).map(field => [field.name, field.label]));
+  return error.issues.map(issue => {
+    const path = issue.path.filter(part => typeof part === "string").join(".");
+    const label = labels.get(path) ?? (path || "Data");
+    return `${label}: ${issue.message}`;
+  });
+}
+
+// Keys in the data that the type's schema doesn't know about
+export function unknownResourceDataKeys(type: ResourceType, data: Record<string, unknown>): string[] {
+  const unknown: string[] = [];
+  const visit = (shape: z.ZodRawShape, value: Record<string, unknown>, prefix: string) => {
+    for (const [key, nested] of Object.entries(value)) {
+      const schema = shape[key];
+      if (!schema) {
+        unknown.push(prefix + key);
+        continue;
+      }
+      const inner = unwrap(schema);
+      if (inner instanceof z.ZodObject && nested && typeof nested === "object" && !Array.isArray(nested)) {
+        visit(inner.shape, nested as Record<string, unknown>, `${prefix}${key}.`);
+      }
+    }
+  };
+  visit(RESOURCE_DATA_SCHEMAS[type].shape, data, "");
+  return unknown;
+}
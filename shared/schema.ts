@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, index, doublePrecision, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, index, doublePrecision, unique, customType } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -6,9 +6,51 @@ import { z } from "zod";
 export enum Role {
   GUEST = "GUEST",
   MEMBER = "MEMBER",
+  MODERATOR = "MODERATOR",
+  CONTENT_EDITOR = "CONTENT_EDITOR",
+  EXPERT = "EXPERT",
   ADMIN = "ADMIN"
 }
 
+export enum Permission {
+  FORUM_MODERATE = "forum.moderate",
+  RESOURCES_EDIT = "resources.edit",
+  BLOG_PUBLISH = "blog.publish",
+  EXPERT_ANSWER = "expert.answer"
+}
+
+// Roles with full member access; staff roles add permissions on top
+export const MEMBER_ROLES: Role[] = [Role.MEMBER, Role.MODERATOR, Role.CONTENT_EDITOR, Role.EXPERT, Role.ADMIN];
+
+// Admins hold every permission, plus admin-only areas (members, analytics,
+// AI prompts) that aren't delegated
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.GUEST]: [],
+  [Role.MEMBER]: [],
+  [Role.MODERATOR]: [Permission.FORUM_MODERATE],
+  [Role.CONTENT_EDITOR]: [Permission.RESOURCES_EDIT, Permission.BLOG_PUBLISH],
+  [Role.EXPERT]: [Permission.EXPERT_ANSWER],
+  [Role.ADMIN]: Object.values(Permission),
+};
+
+export function hasPermission(role: Role | string | null | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role as Role] ?? []).includes(permission);
+}
+
+// What a personal API token may be used for; see server/apiTokens.ts for the
+// routes each scope opens up
+export enum ApiTokenScope {
+  RESOURCES_READ = "resources:read",
+  FORUM_WRITE = "forum:write",
+  ADMIN = "admin"
+}
+
+export enum FarmRole {
+  OWNER = "owner",
+  MANAGER = "manager",
+  STAFF = "staff"
+}
+
 export enum ForumCategory {
   BULK_ORDERING = "Bulk Ordering",
   PLANT_HEALTH_MANAGEMENT = "Plant Health Management", 
@@ -23,10 +65,95 @@ export const users = pgTable("users", {
   email: varchar("email").unique().notNull(),
   emailVerified: timestamp("email_verified"),
   passwordHash: varchar("password_hash").notNull(),
+  // TOTP two-factor auth; the secret is kept while enrollment is pending,
+  // 2FA is only enforced once totpEnabledAt is set
+  totpSecret: varchar("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Time step of the last accepted code, so a code can't be used twice
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // Brute-force protection: consecutive failed sign-ins and temporary lockout
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
   role: varchar("role").$type<Role>().default(Role.MEMBER).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Server-side login sessions backing the short-lived access token.
+// The refresh token is only ever stored as a SHA-256 hash.
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().notNull(),
+  userId: varchar("user_id").notNull(),
+  refreshTokenHash: varchar("refresh_token_hash").notNull(),
+  previousTokenHash: varchar("previous_token_hash"), // Accepted briefly after rotation for concurrent requests
+  userAgent: text("user_agent"),
+  ipAddress: varchar("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  rotatedAt: timestamp("rotated_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => ({
+  userIdx: index("sessions_user_idx").on(table.userId),
+  expiresAtIdx: index("sessions_expires_at_idx").on(table.expiresAt),
+}));
+
+// Sign-in and password reset attempts, used for per-IP throttling
+export const authAttempts = pgTable("auth_attempts", {
+  id: varchar("id").primaryKey().notNull(),
+  kind: varchar("kind").notNull(), // "login", "password_reset" or "magic_link"
+  identifier: varchar("identifier"), // Email or username as typed, lowercased
+  userId: varchar("user_id"),
+  ipAddress: varchar("ip_address"),
+  succeeded: boolean("succeeded").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ipCreatedIdx: index("auth_attempts_ip_created_idx").on(table.ipAddress, table.createdAt),
+  userCreatedIdx: index("auth_attempts_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+// Single-use two-factor recovery codes, stored as SHA-256 hashes
+export const twoFactorBackupCodes = pgTable("two_factor_backup_codes", {
+  id: varchar("id").primaryKey().notNull(),
+  userId: varchar("user_id").notNull(),
+  codeHash: varchar("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("two_factor_backup_codes_user_idx").on(table.userId),
+}));
+
+// Single-use passwordless sign-in links, stored as SHA-256 hashes
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+  id: varchar("id").primaryKey().notNull(),
+  userId: varchar("user_id").notNull(),
+  tokenHash: varchar("token_hash").unique().notNull(),
+  ipAddress: varchar("ip_address"), // Where the link was requested from
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("magic_link_tokens_user_idx").on(table.userId),
+}));
+
+// Personal access tokens for scripts and integrations, sent as
+// "Authorization: Bearer <token>". Only a SHA-256 hash is stored.
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().notNull(),
+  userId: varchar("user_id").notNull(),
+  name: varchar("name").notNull(),
+  tokenPrefix: varchar("token_prefix").notNull(), // First characters, to help members tell tokens apart
+  tokenHash: varchar("token_hash").unique().notNull(),
+  scopes: text("scopes").array().default([]).notNull(), // ApiTokenScope values
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip"),
+  expiresAt: timestamp("expires_at"), // Null means the token never expires
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("api_tokens_user_idx").on(table.userId),
+}));
+
 export const profiles = pgTable("profiles", {
   userId: varchar("user_id").primaryKey().notNull(),
   name: varchar("name").notNull(),
@@ -53,6 +180,56 @@ export const profiles = pgTable("profiles", {
   memberTypeIdx: index("profiles_member_type_idx").on(table.memberType),
 }));
 
+// Farm (organization) accounts: one greenhouse operation shared by several users
+export const farms = pgTable("farms", {
+  id: varchar("id").primaryKey().notNull(),
+  name: varchar("name").notNull(),
+  state: varchar("state"),
+  county: varchar("county"),
+  farmType: varchar("farm_type"),
+  otherFarmType: varchar("other_farm_type"),
+  cropTypes: text("crop_types").array().default([]),
+  otherCrop: varchar("other_crop"),
+  ghSize: varchar("gh_size"),
+  productionMethod: varchar("production_method"),
+  suppLighting: varchar("supp_lighting"),
+  climateControl: text("climate_control").array().default([]),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  stateIdx: index("farms_state_idx").on(table.state),
+}));
+
+// A user belongs to at most one farm
+export const farmMemberships = pgTable("farm_memberships", {
+  id: varchar("id").primaryKey().notNull(),
+  farmId: varchar("farm_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: varchar("role").$type<FarmRole>().default(FarmRole.STAFF).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userUnique: unique("farm_memberships_user_unique").on(table.userId),
+  farmIdx: index("farm_memberships_farm_idx").on(table.farmId),
+}));
+
+// Email invitations; the invite code is only stored as a SHA-256 hash
+export const farmInvitations = pgTable("farm_invitations", {
+  id: varchar("id").primaryKey().notNull(),
+  farmId: varchar("farm_id").notNull(),
+  email: varchar("email").notNull(),
+  role: varchar("role").$type<FarmRole>().default(FarmRole.STAFF).notNull(),
+  codeHash: varchar("code_hash").unique().notNull(),
+  invitedBy: varchar("invited_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: varchar("accepted_by"),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => ({
+  farmIdx: index("farm_invitations_farm_idx").on(table.farmId),
+}));
+
 export const blogPosts = pgTable("blog_posts", {
   id: varchar("id").primaryKey().notNull(),
   title: varchar("title").notNull(),
@@ -66,6 +243,34 @@ export const blogPosts = pgTable("blog_posts", {
 // Resource type enum
 export type ResourceType = 'universities' | 'organizations' | 'grants' | 'tools' | 'templates' | 'learning' | 'bulletins' | 'industry_news';
 
+// Editorial verification workflow. A verification lasts review_interval_days,
+// after which the resource goes stale until it is reviewed again.
+export const RESOURCE_VERIFICATION_STATUSES = ['draft', 'in_review', 'verified', 'stale'] as const;
+
+export type ResourceVerificationStatus = typeof RESOURCE_VERIFICATION_STATUSES[number];
+
+// Moves a reviewer can make from each status; stale is only set by expiry
+export const RESOURCE_VERIFICATION_TRANSITIONS: Record<ResourceVerificationStatus, ResourceVerificationStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['verified', 'draft'],
+  verified: ['in_review'],
+  stale: ['in_review'],
+};
+
+// Every item must be ticked before a resource can be verified
+export const RESOURCE_REVIEW_CHECKLIST = [
+  { id: 'link', label: 'Link works and goes to the right page' },
+  { id: 'summary', label: 'Title and summary are accurate' },
+  { id: 'details', label: 'Dates, amounts and contacts are current' },
+  { id: 'relevance', label: 'Relevant to greenhouse growers' },
+] as const;
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 export const resources = pgTable("resources", {
   id: varchar("id").primaryKey().notNull(),
   title: varchar("title").notNull(),
@@ -81,21 +286,392 @@ export const resources = pgTable("resources", {
   cost: varchar("cost"),
   image_url: varchar("image_url"), // URL to uploaded logo/branding image
   last_verified_at: timestamp("last_verified_at"),
-  review_interval_days: integer("review_interval_days"),
-  ugga_verified: boolean("ugga_verified").default(false),
+  review_interval_days: integer("review_interval_days"), // Falls back to DEFAULT_REVIEW_INTERVAL_DAYS
+  // Outcome of the latest automated link check; maintained by the link checker
+  link_status: varchar("link_status"), // ok | broken
+  link_checked_at: timestamp("link_checked_at"),
+  ugga_verified: boolean("ugga_verified").default(false), // Mirrors verification_status = 'verified'
+  verification_status: varchar("verification_status").$type<ResourceVerificationStatus>().notNull().default('draft'),
+  reviewer_id: varchar("reviewer_id"), // Editor assigned to review the resource
+  verified_by: varchar("verified_by"),
+  verified_at: timestamp("verified_at"), // Start of the current verification; it expires review_interval_days later
+  // Computed by the quality scorer (server/resourceQuality.ts) on edit and on
+  // a schedule; the breakdown shows admins where the points came from
   quality_score: integer("quality_score").default(0),
+  quality_breakdown: jsonb("quality_breakdown").$type<ResourceQualityBreakdown>(),
+  quality_scored_at: timestamp("quality_scored_at"),
+  // Published member ratings, kept in sync by the storage layer
+  rating_average: doublePrecision("rating_average"), // Null until someone rates it
+  rating_count: integer("rating_count").notNull().default(0),
   version: varchar("version"),
   data: jsonb("data").default('{}'),
   lat: doublePrecision("lat"),
   long: doublePrecision("long"),
+  external_id: varchar("external_id").unique(), // ID in the source spreadsheet/system, matched on re-import
+  // Weighted full-text document (title > tags/topics > summary > data fields),
+  // kept in sync by the storage layer
+  search_vector: tsvector("search_vector"),
 }, (table) => ({
   typeIdx: index("resources_type_idx").on(table.type),
+  searchVectorIdx: index("resources_search_vector_idx").using("gin", table.search_vector),
   uggaVerifiedIdx: index("resources_ugga_verified_idx").on(table.ugga_verified),
+  verificationStatusIdx: index("resources_verification_status_idx").on(table.verification_status),
   lastVerifiedIdx: index("resources_last_verified_idx").on(table.last_verified_at),
+  linkCheckedIdx: index("resources_link_checked_idx").on(table.link_checked_at),
   qualityScoreIdx: index("resources_quality_score_idx").on(table.quality_score),
+  // Radius and bounding-box queries match point(long, lat) against a box
+  // with <@, which this index serves
+  locationIdx: index("resources_location_idx").using("gist", sql`point(${table.long}, ${table.lat})`),
   // JSON path indices will be created manually for better control
 }));
 
+// What a resource's quality score is made of. Each factor earns up to its
+// maximum; the score is their sum, out of 100.
+export const RESOURCE_QUALITY_FACTORS = ['completeness', 'linkHealth', 'verification', 'favorites', 'clicks'] as const;
+export type ResourceQualityFactor = typeof RESOURCE_QUALITY_FACTORS[number];
+
+export interface ResourceQualityFactorScore {
+  points: number;
+  max: number;
+  detail: string; // e.g. "9 of 12 fields filled in"
+}
+
+export type ResourceQualityBreakdown = Record<ResourceQualityFactor, ResourceQualityFactorScore>;
+
+// Resources without their own review_interval_days are due for an editorial
+// review this long after they were last verified
+export const DEFAULT_REVIEW_INTERVAL_DAYS = 180;
+
+export type ResourceImportFieldKind = "text" | "list" | "number" | "boolean" | "date" | "url" | "email";
+
+export interface ResourceImportField {
+  value: string;
+  label: string;
+  required?: boolean;
+  kind?: ResourceImportFieldKind; // Defaults to text
+}
+
+// title, url, summary, tags and externalId are stored on the resource itself;
+// every other import field goes into resources.data under its own name
+export const RESOURCE_IMPORT_CORE_FIELDS = ["title", "url", "summary", "tags", "externalId"];
+
+const importLeadFields: ResourceImportField[] = [
+  { value: 'title', label: 'Title', required: true },
+  { value: 'url', label: 'URL', required: true, kind: 'url' },
+  { value: 'summary', label: 'Summary' },
+];
+
+const importTrailFields: ResourceImportField[] = [
+  { value: 'tags', label: 'Tags', kind: 'list' },
+  { value: 'externalId', label: 'External ID' },
+];
+
+const toolImportFields: ResourceImportField[] = [
+  ...importLeadFields,
+  { value: 'toolCategory', label: 'Category', required: true },
+  { value: 'format', label: 'Format' },
+  { value: 'costModel', label: 'Cost Model' },
+  { value: 'price', label: 'Price' },
+  { value: 'features', label: 'Features', kind: 'list' },
+  { value: 'systemRequirements', label: 'System Requirements' },
+  ...importTrailFields,
+];
+
+// Columns the admin importer can map for each resource type
+export const RESOURCE_IMPORT_FIELDS: Record<ResourceType, ResourceImportField[]> = {
+  universities: [
+    ...importLeadFields,
+    { value: 'programName', label: 'Program Name', required: true },
+    { value: 'city', label: 'City', required: true },
+    { value: 'state', label: 'State', required: true },
+    { value: 'country', label: 'Country' },
+    { value: 'researchFocus', label: 'Research Focus' },
+    { value: 'contactEmail', label: 'Contact Email', kind: 'email' },
+    { value: 'contactPhone', label: 'Contact Phone' },
+    ...importTrailFields,
+  ],
+  organizations: [
+    ...importLeadFields,
+    { value: 'orgType', label: 'Organization Type', required: true },
+    { value: 'functions', label: 'Functions', required: true, kind: 'list' },
+    { value: 'hqLocation', label: 'HQ Location', required: true },
+    { value: 'serviceArea', label: 'Service Area' },
+    { value: 'membershipCost', label: 'Membership Cost' },
+    ...importTrailFields,
+  ],
+  grants: [
+    ...importLeadFields,
+    { value: 'agency', label: 'Granting Agency', required: true },
+    { value: 'grantAmountMin', label: 'Min Amount', kind: 'number' },
+    { value: 'grantAmountMax', label: 'Max Amount', kind: 'number' },
+    { value: 'applicationDeadline', label: 'Deadline', kind: 'date' },
+    { value: 'focusAreas', label: 'Focus Areas', kind: 'list' },
+    { value: 'eligibilityGeo', label: 'Geographic Eligibility' },
+    { value: 'eligibilityType', label: 'Eligible Types', kind: 'list' },
+    { value: 'matchRequired', label: 'Match Required', kind: 'boolean' },
+    { value: 'matchPercentage', label: 'Match %', kind: 'number' },
+    ...importTrailFields,
+  ],
+  tools: toolImportFields,
+  templates: toolImportFields,
+  learning: [
+    ...importLeadFields,
+    { value: 'courseType', label: 'Course Type', required: true },
+    { value: 'provider', label: 'Provider', required: true },
+    { value: 'duration', label: 'Duration' },
+    { value: 'skillLevel', label: 'Skill Level' },
+    { value: 'cost', label: 'Cost' },
+    { value: 'certificate', label: 'Certificate Offered', kind: 'boolean' },
+    { value: 'ceuCredits', label: 'CEU Credits', kind: 'number' },
+    { value: 'language', label: 'Language' },
+    ...importTrailFields,
+  ],
+  bulletins: [
+    ...importLeadFields,
+    { value: 'publicationType', label: 'Publication Type', required: true },
+    { value: 'publisher', label: 'Publisher', required: true },
+    { value: 'frequency', label: 'Frequency' },
+    { value: 'subscriptionRequired', label: 'Subscription Required', kind: 'boolean' },
+    { value: 'subscriptionCost', label: 'Subscription Cost' },
+    { value: 'focusTopics', label: 'Focus Topics', kind: 'list' },
+    ...importTrailFields,
+  ],
+  industry_news: [
+    ...importLeadFields,
+    { value: 'newsSource', label: 'News Source', required: true },
+    { value: 'sourceType', label: 'Source Type' },
+    { value: 'updateFrequency', label: 'Update Frequency' },
+    { value: 'coverage', label: 'Coverage Focus', kind: 'list' },
+    { value: 'accessType', label: 'Access Type' },
+    ...importTrailFields,
+  ],
+};
+
+// Fields members fill in when suggesting a resource; tags and external IDs
+// are left to the editors
+export const RESOURCE_SUBMISSION_FIELDS = Object.fromEntries(
+  Object.entries(RESOURCE_IMPORT_FIELDS).map(([type, fields]) => [
+    type,
+    fields.filter(field => field.value !== 'tags' && field.value !== 'externalId'),
+  ])
+) as Record<ResourceType, ResourceImportField[]>;
+
+// One committed run of the admin resource importer. Rolling a batch back
+// deletes the resources it created and restores the ones it updated.
+export const resourceImportBatches = pgTable("resource_import_batches", {
+  id: varchar("id").primaryKey().notNull(),
+  resourceType: varchar("resource_type").notNull(),
+  fileName: varchar("file_name").notNull(),
+  matchBy: varchar("match_by").notNull(), // url | externalId | none
+  status: varchar("status").notNull().default("committed"), // committed | rolled_back
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0), // Invalid rows left out
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  rolledBackBy: varchar("rolled_back_by"),
+  rolledBackAt: timestamp("rolled_back_at"),
+}, (table) => ({
+  createdAtIdx: index("resource_import_batches_created_at_idx").on(table.createdAt),
+}));
+
+export const resourceImportBatchItems = pgTable("resource_import_batch_items", {
+  id: varchar("id").primaryKey().notNull(),
+  batchId: varchar("batch_id").notNull(),
+  resourceId: varchar("resource_id").notNull(),
+  rowNumber: integer("row_number").notNull(),
+  action: varchar("action").notNull(), // created | updated
+  previous: jsonb("previous"), // The resource as it was before an update
+}, (table) => ({
+  batchIdx: index("resource_import_batch_items_batch_idx").on(table.batchId),
+}));
+
+// What produced a resource revision. A baseline holds the content a resource
+// had before its first recorded change.
+export type ResourceRevisionChangeType = 'baseline' | 'create' | 'update' | 'import' | 'import_rollback' | 'restore';
+
+// Every change to a resource's editable content, as a full snapshot of the
+// content after the change
+export const resourceRevisions = pgTable("resource_revisions", {
+  id: varchar("id").primaryKey().notNull(),
+  resourceId: varchar("resource_id").notNull(),
+  revisionNumber: integer("revision_number").notNull(), // 1, 2, 3... per resource
+  changeType: varchar("change_type").$type<ResourceRevisionChangeType>().notNull(),
+  changedBy: varchar("changed_by"), // Null for baselines
+  restoredFrom: integer("restored_from"), // Revision number a restore brought back
+  snapshot: jsonb("snapshot").$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  resourceRevisionUnique: unique("resource_revisions_resource_revision_unique").on(table.resourceId, table.revisionNumber),
+}));
+
+// Timeline of a resource's editorial review: status changes, reviewer
+// assignments and notes
+export const resourceReviewEvents = pgTable("resource_review_events", {
+  id: varchar("id").primaryKey().notNull(),
+  resourceId: varchar("resource_id").notNull(),
+  actorId: varchar("actor_id"), // Null when a verification expired on its own
+  action: varchar("action").notNull(), // status_change | assign | note
+  fromStatus: varchar("from_status").$type<ResourceVerificationStatus>(),
+  toStatus: varchar("to_status").$type<ResourceVerificationStatus>(),
+  reviewerId: varchar("reviewer_id"), // Newly assigned reviewer; null when unassigned
+  checklist: jsonb("checklist").$type<Record<string, boolean>>(), // Checklist items as the reviewer left them
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  resourceCreatedIdx: index("resource_review_events_resource_created_idx").on(table.resourceId, table.createdAt),
+}));
+
+// History of automated link checks, one row per request
+export const resourceLinkChecks = pgTable("resource_link_checks", {
+  id: varchar("id").primaryKey().notNull(),
+  resourceId: varchar("resource_id").notNull(),
+  url: varchar("url").notNull(), // The URL as it was when checked
+  statusCode: integer("status_code"), // Null when the request failed outright
+  redirectUrl: varchar("redirect_url"), // Final URL when the request was redirected
+  responseTimeMs: integer("response_time_ms").notNull(),
+  ok: boolean("ok").notNull(),
+  error: text("error"), // Network error, timeout, etc.
+  checkedAt: timestamp("checked_at").defaultNow().notNull(),
+}, (table) => ({
+  resourceCheckedIdx: index("resource_link_checks_resource_checked_idx").on(table.resourceId, table.checkedAt),
+}));
+
+export const RESOURCE_SUBMISSION_STATUSES = ['pending', 'accepted', 'rejected'] as const;
+
+export type ResourceSubmissionStatus = typeof RESOURCE_SUBMISSION_STATUSES[number];
+
+// Resources suggested by members, waiting for an editor to add or decline them
+export const resourceSubmissions = pgTable("resource_submissions", {
+  id: varchar("id").primaryKey().notNull(),
+  userId: varchar("user_id").notNull(),
+  type: varchar("type").$type<ResourceType>().notNull(),
+  title: varchar("title").notNull(),
+  url: varchar("url").notNull(),
+  summary: text("summary"),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull().default({}), // Type-specific fields, as in resources.data
+  note: text("note"), // Submitter's note to the editors
+  status: varchar("status").$type<ResourceSubmissionStatus>().notNull().default('pending'),
+  resourceId: varchar("resource_id"), // Resource created when the submission was accepted
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"), // Sent to the submitter with the decision
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("resource_submissions_user_idx").on(table.userId),
+  statusCreatedIdx: index("resource_submissions_status_created_idx").on(table.status, table.createdAt),
+}));
+
+export const RESOURCE_RATING_STATUSES = ['published', 'hidden'] as const;
+
+export type ResourceRatingStatus = typeof RESOURCE_RATING_STATUSES[number];
+
+// Members' 1-5 star ratings of resources, each with an optional written
+// review. One per member per resource; editors can hide abusive ones.
+export const resourceRatings = pgTable("resource_ratings", {
+  id: varchar("id").primaryKey().notNull(),
+  resourceId: varchar("resource_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  rating: integer("rating").notNull(), // 1-5
+  review: text("review"),
+  status: varchar("status").$type<ResourceRatingStatus>().notNull().default('published'),
+  moderatedBy: varchar("moderated_by"),
+  moderatedAt: timestamp("moderated_at"),
+  moderationNote: text("moderation_note"), // Why it was hidden; staff only
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  resourceUserUnique: unique("resource_ratings_resource_user_unique").on(table.resourceId, table.userId),
+  resourceStatusIdx: index("resource_ratings_resource_status_idx").on(table.resourceId, table.status),
+  statusCreatedIdx: index("resource_ratings_status_created_idx").on(table.status, table.createdAt),
+}));
+
+// private: owner and the members it's shared with; link: also anyone with
+// the share link; public: any member, and admins can feature it
+export const RESOURCE_COLLECTION_VISIBILITIES = ['private', 'link', 'public'] as const;
+
+export type ResourceCollectionVisibility = typeof RESOURCE_COLLECTION_VISIBILITIES[number];
+
+// Member-curated, ordered lists of resources, e.g. "New grower starter pack"
+export const resourceCollections = pgTable("resource_collections", {
+  id: varchar("id").primaryKey().notNull(),
+  ownerId: varchar("owner_id").notNull(),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  visibility: varchar("visibility").$type<ResourceCollectionVisibility>().notNull().default('private'),
+  shareToken: varchar("share_token").unique().notNull(), // Secret part of the share link; reset to revoke old links
+  copiedFromId: varchar("copied_from_id"), // Collection this one was copied from
+  featuredAt: timestamp("featured_at"), // Set while an admin features it on the dashboard
+  featuredBy: varchar("featured_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  ownerIdx: index("resource_collections_owner_idx").on(table.ownerId),
+  visibilityFeaturedIdx: index("resource_collections_visibility_featured_idx").on(table.visibility, table.featuredAt),
+}));
+
+export const resourceCollectionItems = pgTable("resource_collection_items", {
+  id: varchar("id").primaryKey().notNull(),
+  collectionId: varchar("collection_id").notNull(),
+  resourceId: varchar("resource_id").notNull(),
+  position: integer("position").notNull(), // Ascending display order
+  note: text("note"), // Curator's note on why it's in the collection
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  collectionResourceUnique: unique("resource_collection_items_collection_resource_unique").on(table.collectionId, table.resourceId),
+  collectionPositionIdx: index("resource_collection_items_collection_position_idx").on(table.collectionId, table.position),
+  resourceIdx: index("resource_collection_items_resource_idx").on(table.resourceId),
+}));
+
+// Members a collection has been shared with; they can view and copy it
+export const resourceCollectionShares = pgTable("resource_collection_shares", {
+  id: varchar("id").primaryKey().notNull(),
+  collectionId: varchar("collection_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  collectionUserUnique: unique("resource_collection_shares_collection_user_unique").on(table.collectionId, table.userId),
+  userIdx: index("resource_collection_shares_user_idx").on(table.userId),
+}));
+
+export const SAVED_SEARCH_DIGEST_FREQUENCIES = ['none', 'daily', 'weekly'] as const;
+
+export type SavedSearchDigestFrequency = typeof SAVED_SEARCH_DIGEST_FREQUENCIES[number];
+
+// A member's named /api/resources query. Resources added or edited after
+// lastSeenAt that match it are its new matches; the count is refreshed on a
+// schedule by server/savedSearches.ts.
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().notNull(),
+  userId: varchar("user_id").notNull(),
+  name: varchar("name").notNull(),
+  type: varchar("type").$type<ResourceType>(),
+  q: text("q"),
+  filters: jsonb("filters").$type<Record<string, string>>().notNull().default({}),
+  sort: varchar("sort").notNull().default('relevance'),
+  digestFrequency: varchar("digest_frequency").$type<SavedSearchDigestFrequency>().notNull().default('none'),
+  unsubscribeToken: varchar("unsubscribe_token").unique().notNull(), // Lets digest emails turn themselves off
+  newMatchCount: integer("new_match_count").notNull().default(0),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(), // Member last opened the results
+  matchesCheckedAt: timestamp("matches_checked_at"),
+  lastDigestAt: timestamp("last_digest_at"), // Digests cover changes since then, or since creation
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("saved_searches_user_idx").on(table.userId),
+  digestFrequencyIdx: index("saved_searches_digest_frequency_idx").on(table.digestFrequency, table.lastDigestAt),
+}));
+
+// Nominatim lookups for places such as a member's county, so each place is
+// geocoded once. lat/long are null when the place wasn't found.
+export const geocodedPlaces = pgTable("geocoded_places", {
+  query: varchar("query").primaryKey().notNull(),
+  lat: doublePrecision("lat"),
+  long: doublePrecision("long"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const chatLogs = pgTable("chat_logs", {
   id: varchar("id").primaryKey().notNull(),
   userId: varchar("user_id").notNull(),
@@ -218,9 +794,11 @@ export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey().notNull(),
   user_id: varchar("user_id").notNull(),
   resource_id: varchar("resource_id").notNull(),
+  farm_id: varchar("farm_id"), // Shared with the farm's staff when set
   created_at: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   userResourceUnique: unique("favorites_user_resource_unique").on(table.user_id, table.resource_id),
+  farmIdx: index("favorites_farm_idx").on(table.farm_id),
 }));
 
 export const forumPostFavorites = pgTable("forum_post_favorites", {
@@ -253,6 +831,7 @@ export const analytics_events = pgTable("analytics_events", {
 export const expertRequests = pgTable("expert_requests", {
   id: varchar("id").primaryKey().notNull(),
   userId: varchar("user_id").notNull(),
+  farmId: varchar("farm_id"), // Visible to the farm's staff when set
   subject: varchar("subject").notNull(),
   category: varchar("category").notNull(),
   message: text("message").notNull(),
@@ -265,6 +844,7 @@ export const expertRequests = pgTable("expert_requests", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   userIdx: index("expert_requests_user_idx").on(table.userId),
+  farmIdx: index("expert_requests_farm_idx").on(table.farmId),
   statusIdx: index("expert_requests_status_idx").on(table.status),
   createdAtIdx: index("expert_requests_created_at_idx").on(table.createdAt),
   categoryIdx: index("expert_requests_category_idx").on(table.category),
@@ -274,17 +854,20 @@ export const expertRequests = pgTable("expert_requests", {
 export const farmAssessments = pgTable("farm_assessments", {
   id: varchar("id").primaryKey().notNull(),
   userId: varchar("user_id").notNull(),
+  farmId: varchar("farm_id"), // Shared with the farm's staff when set
   responses: jsonb("responses").notNull(), // Store all question responses
   completedAt: timestamp("completed_at").defaultNow().notNull(),
   version: varchar("version").default("1.0").notNull(), // Track assessment version
 }, (table) => ({
   userIdx: index("farm_assessments_user_idx").on(table.userId),
+  farmIdx: index("farm_assessments_farm_idx").on(table.farmId),
   completedAtIdx: index("farm_assessments_completed_at_idx").on(table.completedAt),
 }));
 
 export const farmProfiles = pgTable("farm_profiles", {
   id: varchar("id").primaryKey().notNull(),
   userId: varchar("user_id").notNull(),
+  farmId: varchar("farm_id"),
   assessmentId: varchar("assessment_id").notNull(),
   profileData: jsonb("profile_data").notNull(), // Farm profile scores and analysis
   strengths: text("strengths").array().default([]),
@@ -293,6 +876,7 @@ export const farmProfiles = pgTable("farm_profiles", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   userIdx: index("farm_profiles_user_idx").on(table.userId),
+  farmIdx: index("farm_profiles_farm_idx").on(table.farmId),
   assessmentIdx: index("farm_profiles_assessment_idx").on(table.assessmentId),
   createdAtIdx: index("farm_profiles_created_at_idx").on(table.createdAt),
 }));
@@ -356,7 +940,8 @@ export const aiAgentConfigs = pgTable("ai_agent_configs", {
   modelConfig: jsonb("model_config").notNull().default('{}'), // { model: "gpt-4o", temperature: 0.7, maxTokens: 500 }
   isActive: boolean("is_active").default(true).notNull(),
   version: varchar("version").default("1.0").notNull(),
-  createdBy: varchar("created_by").notNull(), // Admin user ID who created/modified
+  createdBy: varchar("created_by").notNull(), // Admin user ID who created the config
+  updatedBy: varchar("updated_by"), // Admin user ID of the last edit; full history is in the audit log
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -365,17 +950,114 @@ export const aiAgentConfigs = pgTable("ai_agent_configs", {
   createdByIdx: index("ai_agent_configs_created_by_idx").on(table.createdBy),
 }));
 
+// Field-level changes recorded for an audited mutation
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+// Site-wide settings managed from the admin tools, one row per settings group
+export const appSettings = pgTable("app_settings", {
+  id: varchar("id").primaryKey().notNull(), // Settings key, e.g. "sign_in"
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export interface SignInSettings {
+  magicLinkDisabledRoles?: Role[]; // Roles that must sign in with their password
+}
+
+// Append-only log of privileged changes made through the admin API. Rows are
+// never updated or deleted; the actor's email is copied so entries stay
+// readable if the account is removed.
+export const adminAuditLogs = pgTable("admin_audit_logs", {
+  id: varchar("id").primaryKey().notNull(),
+  actorId: varchar("actor_id"),
+  actorEmail: varchar("actor_email"),
+  action: varchar("action").notNull(), // e.g. "member.update", "resource.delete"
+  entityType: varchar("entity_type").notNull(),
+  entityId: varchar("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  method: varchar("method").notNull(),
+  path: varchar("path").notNull(),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  createdAtIdx: index("admin_audit_logs_created_at_idx").on(table.createdAt),
+  actorIdx: index("admin_audit_logs_actor_idx").on(table.actorId),
+  entityIdx: index("admin_audit_logs_entity_idx").on(table.entityType, table.entityId),
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   profile: one(profiles, {
     fields: [users.id],
     references: [profiles.userId],
   }),
+  sessions: many(sessions),
+  twoFactorBackupCodes: many(twoFactorBackupCodes),
+  magicLinkTokens: many(magicLinkTokens),
+  apiTokens: many(apiTokens),
+  farmMembership: one(farmMemberships, {
+    fields: [users.id],
+    references: [farmMemberships.userId],
+  }),
   chatLogs: many(chatLogs),
   growerChallenges: many(growerChallenges),
   aiAgentConfigs: many(aiAgentConfigs),
 }));
 
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const farmsRelations = relations(farms, ({ many }) => ({
+  memberships: many(farmMemberships),
+  invitations: many(farmInvitations),
+}));
+
+export const farmMembershipsRelations = relations(farmMemberships, ({ one }) => ({
+  farm: one(farms, {
+    fields: [farmMemberships.farmId],
+    references: [farms.id],
+  }),
+  user: one(users, {
+    fields: [farmMemberships.userId],
+    references: [users.id],
+  }),
+}));
+
+export const farmInvitationsRelations = relations(farmInvitations, ({ one }) => ({
+  farm: one(farms, {
+    fields: [farmInvitations.farmId],
+    references: [farms.id],
+  }),
+}));
+
+export const twoFactorBackupCodesRelations = relations(twoFactorBackupCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorBackupCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const magicLinkTokensRelations = relations(magicLinkTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [magicLinkTokens.userId],
+    references: [users.id],
+  }),
+}));
+
 export const profilesRelations = relations(profiles, ({ one }) => ({
   user: one(users, {
     fields: [profiles.userId],
@@ -454,6 +1136,114 @@ export const favoritesRelations = relations(favorites, ({ one }) => ({
 
 export const resourcesRelations = relations(resources, ({ many }) => ({
   favorites: many(favorites),
+  linkChecks: many(resourceLinkChecks),
+  reviewEvents: many(resourceReviewEvents),
+  revisions: many(resourceRevisions),
+  ratings: many(resourceRatings),
+}));
+
+export const resourceSubmissionsRelations = relations(resourceSubmissions, ({ one }) => ({
+  submitter: one(users, {
+    fields: [resourceSubmissions.userId],
+    references: [users.id],
+  }),
+  resource: one(resources, {
+    fields: [resourceSubmissions.resourceId],
+    references: [resources.id],
+  }),
+}));
+
+export const resourceRatingsRelations = relations(resourceRatings, ({ one }) => ({
+  resource: one(resources, {
+    fields: [resourceRatings.resourceId],
+    references: [resources.id],
+  }),
+  author: one(users, {
+    fields: [resourceRatings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const resourceCollectionsRelations = relations(resourceCollections, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [resourceCollections.ownerId],
+    references: [users.id],
+  }),
+  items: many(resourceCollectionItems),
+  shares: many(resourceCollectionShares),
+}));
+
+export const resourceCollectionItemsRelations = relations(resourceCollectionItems, ({ one }) => ({
+  collection: one(resourceCollections, {
+    fields: [resourceCollectionItems.collectionId],
+    references: [resourceCollections.id],
+  }),
+  resource: one(resources, {
+    fields: [resourceCollectionItems.resourceId],
+    references: [resources.id],
+  }),
+}));
+
+export const resourceCollectionSharesRelations = relations(resourceCollectionShares, ({ one }) => ({
+  collection: one(resourceCollections, {
+    fields: [resourceCollectionShares.collectionId],
+    references: [resourceCollections.id],
+  }),
+  user: one(users, {
+    fields: [resourceCollectionShares.userId],
+    references: [users.id],
+  }),
+}));
+
+export const savedSearchesRelations = relations(savedSearches, ({ one }) => ({
+  user: one(users, {
+    fields: [savedSearches.userId],
+    references: [users.id],
+  }),
+}));
+
+export const resourceImportBatchesRelations = relations(resourceImportBatches, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [resourceImportBatches.createdBy],
+    references: [users.id],
+  }),
+  items: many(resourceImportBatchItems),
+}));
+
+export const resourceImportBatchItemsRelations = relations(resourceImportBatchItems, ({ one }) => ({
+  batch: one(resourceImportBatches, {
+    fields: [resourceImportBatchItems.batchId],
+    references: [resourceImportBatches.id],
+  }),
+}));
+
+export const resourceRevisionsRelations = relations(resourceRevisions, ({ one }) => ({
+  resource: one(resources, {
+    fields: [resourceRevisions.resourceId],
+    references: [resources.id],
+  }),
+  author: one(users, {
+    fields: [resourceRevisions.changedBy],
+    references: [users.id],
+  }),
+}));
+
+export const resourceReviewEventsRelations = relations(resourceReviewEvents, ({ one }) => ({
+  resource: one(resources, {
+    fields: [resourceReviewEvents.resourceId],
+    references: [resources.id],
+  }),
+  actor: one(users, {
+    fields: [resourceReviewEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const resourceLinkChecksRelations = relations(resourceLinkChecks, ({ one }) => ({
+  resource: one(resources, {
+    fields: [resourceLinkChecks.resourceId],
+    references: [resources.id],
+  }),
 }));
 
 export const forumPostFavoritesRelations = relations(forumPostFavorites, ({ one }) => ({
@@ -529,10 +1319,48 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  createdAt: true,
+  lastUsedAt: true,
+  rotatedAt: true,
+  revokedAt: true,
+});
+
+export const insertAuthAttemptSchema = createInsertSchema(authAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTwoFactorBackupCodeSchema = createInsertSchema(twoFactorBackupCodes).omit({
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertMagicLinkTokenSchema = createInsertSchema(magicLinkTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
 export const insertProfileSchema = createInsertSchema(profiles).omit({
   userId: true,
 });
 
+export const insertFarmSchema = createInsertSchema(farms).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertBlogPostSchema = createInsertSchema(blogPosts).omit({
   id: true,
   publishedAt: true,
@@ -540,6 +1368,79 @@ export const insertBlogPostSchema = createInsertSchema(blogPosts).omit({
 
 export const insertResourceSchema = createInsertSchema(resources).omit({
   id: true,
+  search_vector: true,
+  link_status: true,
+  link_checked_at: true,
+  ugga_verified: true,
+  verification_status: true,
+  reviewer_id: true,
+  verified_by: true,
+  verified_at: true,
+});
+
+export const insertResourceSubmissionSchema = createInsertSchema(resourceSubmissions).omit({
+  id: true,
+  status: true,
+  resourceId: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reviewNote: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertResourceRatingSchema = createInsertSchema(resourceRatings).omit({
+  id: true,
+  status: true,
+  moderatedBy: true,
+  moderatedAt: true,
+  moderationNote: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertResourceCollectionSchema = createInsertSchema(resourceCollections).omit({
+  id: true,
+  shareToken: true,
+  copiedFromId: true,
+  featuredAt: true,
+  featuredBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
+  id: true,
+  unsubscribeToken: true,
+  newMatchCount: true,
+  lastSeenAt: true,
+  matchesCheckedAt: true,
+  lastDigestAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertResourceRevisionSchema = createInsertSchema(resourceRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertResourceReviewEventSchema = createInsertSchema(resourceReviewEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertResourceLinkCheckSchema = createInsertSchema(resourceLinkChecks).omit({
+  id: true,
+  checkedAt: true,
+});
+
+export const insertResourceImportBatchSchema = createInsertSchema(resourceImportBatches).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  rolledBackBy: true,
+  rolledBackAt: true,
 });
 
 export const insertFavoriteSchema = createInsertSchema(favorites).omit({
@@ -649,15 +1550,54 @@ export const insertAiAgentConfigSchema = createInsertSchema(aiAgentConfigs).omit
   updatedAt: true,
 });
 
+export const insertAdminAuditLogSchema = createInsertSchema(adminAuditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type AuthAttempt = typeof authAttempts.$inferSelect;
+export type InsertAuthAttempt = z.infer<typeof insertAuthAttemptSchema>;
+export type TwoFactorBackupCode = typeof twoFactorBackupCodes.$inferSelect;
+export type InsertTwoFactorBackupCode = z.infer<typeof insertTwoFactorBackupCodeSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+export type InsertMagicLinkToken = z.infer<typeof insertMagicLinkTokenSchema>;
+export type Farm = typeof farms.$inferSelect;
+export type InsertFarm = z.infer<typeof insertFarmSchema>;
+export type FarmMembership = typeof farmMemberships.$inferSelect;
+export type FarmInvitation = typeof farmInvitations.$inferSelect;
 export type Profile = typeof profiles.$inferSelect;
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type BlogPost = typeof blogPosts.$inferSelect;
 export type InsertBlogPost = z.infer<typeof insertBlogPostSchema>;
 export type Resource = typeof resources.$inferSelect;
 export type InsertResource = z.infer<typeof insertResourceSchema>;
+export type ResourceImportBatch = typeof resourceImportBatches.$inferSelect;
+export type InsertResourceImportBatch = z.infer<typeof insertResourceImportBatchSchema>;
+export type ResourceImportBatchItem = typeof resourceImportBatchItems.$inferSelect;
+export type ResourceSubmission = typeof resourceSubmissions.$inferSelect;
+export type InsertResourceSubmission = z.infer<typeof insertResourceSubmissionSchema>;
+export type ResourceRating = typeof resourceRatings.$inferSelect;
+export type InsertResourceRating = z.infer<typeof insertResourceRatingSchema>;
+export type ResourceCollection = typeof resourceCollections.$inferSelect;
+export type InsertResourceCollection = z.infer<typeof insertResourceCollectionSchema>;
+export type ResourceCollectionItem = typeof resourceCollectionItems.$inferSelect;
+export type ResourceCollectionShare = typeof resourceCollectionShares.$inferSelect;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type GeocodedPlace = typeof geocodedPlaces.$inferSelect;
+export type ResourceRevision = typeof resourceRevisions.$inferSelect;
+export type InsertResourceRevision = z.infer<typeof insertResourceRevisionSchema>;
+export type ResourceReviewEvent = typeof resourceReviewEvents.$inferSelect;
+export type InsertResourceReviewEvent = z.infer<typeof insertResourceReviewEventSchema>;
+export type ResourceLinkCheck = typeof resourceLinkChecks.$inferSelect;
+export type InsertResourceLinkCheck = z.infer<typeof insertResourceLinkCheckSchema>;
 export type ChatLog = typeof chatLogs.$inferSelect;
 export type InsertChatLog = z.infer<typeof insertChatLogSchema>;
 export type GrowerChallenge = typeof growerChallenges.$inferSelect;
@@ -696,3 +1636,6 @@ export type FarmRoadmapQuestion = typeof farmRoadmapQuestions.$inferSelect;
 export type InsertFarmRoadmapQuestion = z.infer<typeof insertFarmRoadmapQuestionSchema>;
 export type AiAgentConfig = typeof aiAgentConfigs.$inferSelect;
 export type InsertAiAgentConfig = z.infer<typeof insertAiAgentConfigSchema>;
+export type AppSetting = typeof appSettings.$inferSelect;
+export type AdminAuditLog = typeof adminAuditLogs.$inferSelect;
+export type InsertAdminAuditLog = z.infer<typeof insertAdminAuditLogSchema>;